@@ -0,0 +1,370 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  View,
+} from 'react-native';
+import { Link, useFocusEffect } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import type {
+  CompetitionWithDetails,
+  ProgramCompetitionProgress,
+} from '@/src/database/competitions-repository';
+import { useCompetitions } from '@/src/hooks/use-competitions';
+import { useOrganizations } from '@/src/hooks/use-organizations';
+import {
+  RESERVE_COMPETITION_REQUIREMENTS,
+  hasMetCompetitionRequirements,
+} from '@/src/rules/reserve-eligibility';
+
+const formatCompetitionDate = (value: string, locale: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  if (Number.isNaN(year) || Number.isNaN(month) || Number.isNaN(day)) {
+    return value;
+  }
+
+  try {
+    const normalizedLocale = locale ? locale.replace(/_/g, '-') : 'nb-NO';
+    return new Intl.DateTimeFormat(normalizedLocale, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    }).format(new Date(year, month - 1, day));
+  } catch (error) {
+    console.warn('Failed to format competition date, returning ISO', error);
+    return value;
+  }
+};
+
+export default function CompetitionsScreen() {
+  const { t, i18n } = useTranslation();
+  const [refreshing, setRefreshing] = useState(false);
+
+  const {
+    organizations,
+    loading: organizationsLoading,
+    error: organizationsError,
+    refresh: refreshOrganizations,
+  } = useOrganizations();
+
+  const memberOrganizationIds = useMemo(
+    () => organizations.filter((org) => org.isMember).map((org) => org.id),
+    [organizations]
+  );
+
+  const organizationShortNames = useMemo(
+    () => new Map(organizations.map((org) => [org.id, org.shortName])),
+    [organizations]
+  );
+
+  const {
+    competitions,
+    progress,
+    loading: competitionsLoading,
+    error: competitionsError,
+    refresh: refreshCompetitions,
+  } = useCompetitions({ allowedOrganizationIds: memberOrganizationIds });
+
+  const refreshCompetitionsRef = useRef(refreshCompetitions);
+  const refreshOrganizationsRef = useRef(refreshOrganizations);
+
+  useEffect(() => {
+    refreshCompetitionsRef.current = refreshCompetitions;
+  }, [refreshCompetitions]);
+
+  useEffect(() => {
+    refreshOrganizationsRef.current = refreshOrganizations;
+  }, [refreshOrganizations]);
+
+  useFocusEffect(
+    useCallback(() => {
+      refreshCompetitionsRef.current?.();
+      refreshOrganizationsRef.current?.();
+    }, [])
+  );
+
+  const colorScheme = useColorScheme();
+  const cardThemeStyle = colorScheme === 'dark' ? styles.cardDark : styles.cardLight;
+  const membershipUnavailable = !organizationsLoading && memberOrganizationIds.length === 0;
+  const isLoading = organizationsLoading || competitionsLoading;
+  const error = competitionsError ?? organizationsError;
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await refreshCompetitions();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [refreshCompetitions]);
+
+  const renderProgress = useCallback(
+    (item: ProgramCompetitionProgress) => {
+      const eligible = hasMetCompetitionRequirements(item);
+      const shortName = organizationShortNames.get(item.organizationId);
+
+      return (
+        <View key={item.programId} style={[styles.progressRow, cardThemeStyle]}>
+          <View style={styles.progressInfo}>
+            <ThemedText style={styles.progressTitle}>
+              {shortName ? `${shortName} · ${item.programName}` : item.programName}
+            </ThemedText>
+            <ThemedText style={styles.metaText}>
+              {t('competitions.progress.counts', {
+                total: item.totalCount,
+                totalRequired: RESERVE_COMPETITION_REQUIREMENTS.totalCount,
+                open: item.openCount,
+                openRequired: RESERVE_COMPETITION_REQUIREMENTS.openCount,
+              })}
+            </ThemedText>
+            {item.internationalCount > 0 ? (
+              <ThemedText style={styles.metaText}>
+                {t('competitions.progress.international', { count: item.internationalCount })}
+              </ThemedText>
+            ) : null}
+            {item.reserveCount > 0 ? (
+              <ThemedText style={styles.metaText}>
+                {t('competitions.progress.reserveWeapons', { count: item.reserveCount })}
+              </ThemedText>
+            ) : null}
+          </View>
+          <ThemedText style={[styles.statusBadge, eligible ? styles.badgeOk : styles.badgeMissing]}>
+            {eligible ? t('competitions.progress.met') : t('competitions.progress.notMet')}
+          </ThemedText>
+        </View>
+      );
+    },
+    [cardThemeStyle, organizationShortNames, t]
+  );
+
+  const renderCompetition = useCallback(
+    ({ item }: { item: CompetitionWithDetails }) => (
+      <Link
+        href={{ pathname: '/competition/manage', params: { competitionId: item.id } }}
+        asChild
+      >
+        <Pressable>
+          <ThemedView
+            style={[styles.card, cardThemeStyle]}
+            lightColor="#ffffff"
+            darkColor="rgba(255,255,255,0.05)"
+          >
+            <View style={styles.cardHeader}>
+              <ThemedText type="defaultSemiBold" style={styles.cardTitle}>
+                {item.eventName}
+              </ThemedText>
+              <ThemedText style={styles.eventTypeBadge}>
+                {t(`competitions.eventTypes.${item.eventType}` as const)}
+              </ThemedText>
+            </View>
+            <ThemedText style={styles.metaText}>
+              {formatCompetitionDate(item.date, i18n.language)} · {item.programName}
+            </ThemedText>
+            {item.weaponDisplayName ? (
+              <ThemedText style={styles.metaText}>
+                {t('competitions.card.weapon', { name: item.weaponDisplayName })}
+              </ThemedText>
+            ) : null}
+            {item.result ? (
+              <ThemedText style={styles.metaText}>
+                {t('competitions.card.result', { result: item.result })}
+              </ThemedText>
+            ) : null}
+          </ThemedView>
+        </Pressable>
+      </Link>
+    ),
+    [cardThemeStyle, i18n.language, t]
+  );
+
+  const listHeader = (
+    <View style={styles.progressSection}>
+      <ThemedText type="subtitle">{t('competitions.progress.title')}</ThemedText>
+      <ThemedText style={styles.metaText}>{t('competitions.progress.description')}</ThemedText>
+      {progress.length === 0 ? (
+        <ThemedText style={styles.metaText}>{t('competitions.progress.empty')}</ThemedText>
+      ) : (
+        progress.map(renderProgress)
+      )}
+      <ThemedText type="subtitle" style={styles.listTitle}>
+        {t('competitions.list.title')}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>
+          {t('competitions.title')}
+        </ThemedText>
+        <ThemedText style={styles.subtitle}>{t('competitions.subtitle')}</ThemedText>
+        {membershipUnavailable ? (
+          <ThemedText style={styles.membershipNotice}>{t('weapons.memberships.empty')}</ThemedText>
+        ) : null}
+        <Link href="/competition/manage" asChild>
+          <Pressable style={styles.primaryButton} disabled={membershipUnavailable}>
+            <ThemedText style={styles.primaryButtonText}>{t('competitions.actions.add')}</ThemedText>
+          </Pressable>
+        </Link>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.center}>
+          <ActivityIndicator accessibilityLabel={t('common.loading')} />
+        </View>
+      ) : error ? (
+        <View style={styles.center}>
+          <ThemedText>{t('competitions.list.error')}</ThemedText>
+          <Pressable onPress={handleRefresh} style={styles.retryButton}>
+            <ThemedText style={styles.retryText}>{t('common.retry')}</ThemedText>
+          </Pressable>
+        </View>
+      ) : (
+        <FlatList
+          data={competitions}
+          keyExtractor={(item) => item.id}
+          renderItem={renderCompetition}
+          ListHeaderComponent={listHeader}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <ThemedText style={styles.metaText}>{t('competitions.list.empty')}</ThemedText>
+          }
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor="gray" />
+          }
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 24,
+    gap: 16,
+  },
+  header: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  membershipNotice: {
+    textAlign: 'center',
+    fontWeight: '600',
+    color: '#b45309',
+  },
+  primaryButton: {
+    marginTop: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(37, 99, 235, 0.25)',
+  },
+  primaryButtonText: {
+    fontWeight: '700',
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  listContent: {
+    paddingBottom: 32,
+    gap: 12,
+  },
+  progressSection: {
+    gap: 8,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+  },
+  progressInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  progressTitle: {
+    fontWeight: '600',
+  },
+  listTitle: {
+    marginTop: 12,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    gap: 6,
+  },
+  cardLight: {
+    borderWidth: 1,
+    borderColor: 'rgba(15, 23, 42, 0.08)',
+  },
+  cardDark: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardTitle: {
+    flex: 1,
+  },
+  metaText: {
+    opacity: 0.8,
+  },
+  eventTypeBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(37, 99, 235, 0.15)',
+    overflow: 'hidden',
+  },
+  statusBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  badgeOk: {
+    backgroundColor: 'rgba(34, 197, 94, 0.2)',
+  },
+  badgeMissing: {
+    backgroundColor: 'rgba(255, 149, 0, 0.2)',
+  },
+  retryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.1)',
+  },
+  retryText: {
+    fontWeight: '600',
+  },
+});
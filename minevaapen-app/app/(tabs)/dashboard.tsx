@@ -0,0 +1,301 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  RefreshControl,
+  StyleSheet,
+  View,
+} from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useDashboard } from '@/src/hooks/use-dashboard';
+import {
+  MAX_RESERVE_WEAPONS_PER_PROGRAM,
+  RESERVE_COMPETITION_REQUIREMENTS,
+} from '@/src/rules/reserve-eligibility';
+import type {
+  DashboardAlert,
+  DashboardOrganization,
+  DashboardProgram,
+} from '@/src/services/dashboard';
+
+export default function DashboardScreen() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const [refreshing, setRefreshing] = useState(false);
+  const { organizations, loading, error, refresh } = useDashboard();
+
+  const refreshRef = useRef(refresh);
+
+  useEffect(() => {
+    refreshRef.current = refresh;
+  }, [refresh]);
+
+  useFocusEffect(
+    useCallback(() => {
+      refreshRef.current?.();
+    }, [])
+  );
+
+  const colorScheme = useColorScheme();
+  const cardThemeStyle = colorScheme === 'dark' ? styles.cardDark : styles.cardLight;
+  const rowThemeStyle = colorScheme === 'dark' ? styles.programRowDark : styles.programRowLight;
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await refresh();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [refresh]);
+
+  const handleOpenProgram = useCallback(
+    (program: DashboardProgram) => {
+      router.navigate({
+        pathname: '/',
+        params: { organizationId: program.organizationId, programId: program.id },
+      });
+    },
+    [router]
+  );
+
+  const renderAlert = useCallback(
+    (alert: DashboardAlert) => (
+      <ThemedText
+        key={alert}
+        style={[
+          styles.alertBadge,
+          alert === 'reserveLimitReached' ? styles.alertWarning : styles.alertViolation,
+        ]}
+      >
+        {t(`dashboard.alerts.${alert}` as const, { limit: MAX_RESERVE_WEAPONS_PER_PROGRAM })}
+      </ThemedText>
+    ),
+    [t]
+  );
+
+  const renderProgram = useCallback(
+    (program: DashboardProgram) => (
+      <Pressable
+        key={program.id}
+        onPress={() => handleOpenProgram(program)}
+        style={[styles.programRow, rowThemeStyle]}
+        accessibilityRole="button"
+        accessibilityHint={t('dashboard.openWeapons')}
+      >
+        <View style={styles.programInfo}>
+          <ThemedText style={styles.programName}>{program.name}</ThemedText>
+          <ThemedText style={styles.metaText}>
+            {t('weaponForm.programs.usage', {
+              weaponCount: program.weaponCount,
+              reserveCount: program.reserveCount,
+            })}
+          </ThemedText>
+          {program.reserveCount > 0 ? (
+            <ThemedText style={styles.metaText}>
+              {t('competitions.progress.counts', {
+                total: program.competitions.totalCount,
+                totalRequired: RESERVE_COMPETITION_REQUIREMENTS.totalCount,
+                open: program.competitions.openCount,
+                openRequired: RESERVE_COMPETITION_REQUIREMENTS.openCount,
+              })}
+            </ThemedText>
+          ) : null}
+          {program.alerts.length > 0 ? (
+            <View style={styles.alertRow}>{program.alerts.map(renderAlert)}</View>
+          ) : null}
+        </View>
+        <ThemedText style={styles.chevron}>›</ThemedText>
+      </Pressable>
+    ),
+    [handleOpenProgram, renderAlert, rowThemeStyle, t]
+  );
+
+  const renderOrganization = useCallback(
+    ({ item }: { item: DashboardOrganization }) => (
+      <ThemedView
+        style={[styles.card, cardThemeStyle]}
+        lightColor="#ffffff"
+        darkColor="rgba(255,255,255,0.05)"
+      >
+        <View style={styles.cardHeader}>
+          <ThemedText type="subtitle" style={styles.cardTitle}>
+            {item.organization.shortName || item.organization.name}
+          </ThemedText>
+          <ThemedText style={styles.metaText}>
+            {t('dashboard.organizationCounts', {
+              weaponCount: item.weaponCount,
+              reserveCount: item.reserveCount,
+            })}
+          </ThemedText>
+        </View>
+        {item.programs.length === 0 ? (
+          <ThemedText style={styles.metaText}>{t('dashboard.noPrograms')}</ThemedText>
+        ) : (
+          item.programs.map(renderProgram)
+        )}
+      </ThemedView>
+    ),
+    [cardThemeStyle, renderProgram, t]
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <ThemedText type="title" style={styles.title}>
+          {t('dashboard.title')}
+        </ThemedText>
+        <ThemedText style={styles.subtitle}>{t('dashboard.subtitle')}</ThemedText>
+      </View>
+
+      {loading && !refreshing ? (
+        <View style={styles.center}>
+          <ActivityIndicator accessibilityLabel={t('common.loading')} />
+        </View>
+      ) : error ? (
+        <View style={styles.center}>
+          <ThemedText>{t('dashboard.error')}</ThemedText>
+          <Pressable onPress={handleRefresh} style={styles.retryButton}>
+            <ThemedText style={styles.retryText}>{t('common.retry')}</ThemedText>
+          </Pressable>
+        </View>
+      ) : (
+        <FlatList
+          data={organizations}
+          keyExtractor={(item) => item.organization.id}
+          renderItem={renderOrganization}
+          contentContainerStyle={
+            organizations.length === 0 ? [styles.center, styles.emptyContainer] : styles.listContent
+          }
+          ListEmptyComponent={
+            <ThemedText style={styles.membershipNotice}>
+              {t('weapons.memberships.empty')}
+            </ThemedText>
+          }
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor="gray" />
+          }
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingHorizontal: 16,
+    paddingVertical: 24,
+    gap: 16,
+  },
+  header: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  membershipNotice: {
+    textAlign: 'center',
+    fontWeight: '600',
+    color: '#b45309',
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  emptyContainer: {
+    flexGrow: 1,
+  },
+  listContent: {
+    paddingBottom: 32,
+    gap: 12,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    gap: 10,
+  },
+  cardLight: {
+    borderWidth: 1,
+    borderColor: 'rgba(15, 23, 42, 0.08)',
+  },
+  cardDark: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  cardHeader: {
+    gap: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+  },
+  metaText: {
+    opacity: 0.75,
+  },
+  programRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 10,
+  },
+  programRowLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.04)',
+  },
+  programRowDark: {
+    backgroundColor: 'rgba(255, 255, 255, 0.04)',
+  },
+  programInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  programName: {
+    fontWeight: '600',
+  },
+  chevron: {
+    fontSize: 22,
+    opacity: 0.5,
+  },
+  alertRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 4,
+  },
+  alertBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  alertViolation: {
+    backgroundColor: 'rgba(220, 38, 38, 0.2)',
+  },
+  alertWarning: {
+    backgroundColor: 'rgba(255, 149, 0, 0.2)',
+  },
+  retryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.1)',
+  },
+  retryText: {
+    fontWeight: '600',
+  },
+});
@@ -4,21 +4,41 @@ import {
   FlatList,
   Pressable,
   RefreshControl,
+  ScrollView,
   StyleSheet,
+  TextInput,
   View,
 } from 'react-native';
-import { Link, useFocusEffect } from 'expo-router';
+import { Image } from 'expo-image';
+import { Link, useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 
+import { containsSearchTerm, HighlightedText } from '@/components/highlighted-text';
+import { ReserveRuleIssues } from '@/components/reserve-rule-issues';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import type { WeaponWithPrograms } from '@/src/database/weapons-repository';
+import type {
+  WeaponProgramLink,
+  WeaponWithPrograms,
+} from '@/src/database/weapons-repository';
+import { splitSearchTerms } from '@/src/database/weapon-search';
 import { useOrganizations } from '@/src/hooks/use-organizations';
+import { usePrograms } from '@/src/hooks/use-programs';
+import { useReserveRules } from '@/src/hooks/use-reserve-rules';
+import {
+  useWeaponListFilters,
+  type OwnershipFilterValue,
+  type ReserveFilterValue,
+} from '@/src/hooks/use-weapon-list-filters';
 import { useWeapons } from '@/src/hooks/use-weapons';
 
-type ReserveFilterValue = 'any' | 'reserveOnly' | 'nonReserve';
-type OwnershipFilterValue = 'all' | 'own' | 'loanIn' | 'loanOut';
+const SEARCH_DEBOUNCE_MS = 250;
+
+type LocalParams = {
+  organizationId?: string;
+  programId?: string;
+};
 
 const formatLoanDate = (value: string | null, locale: string) => {
   if (!value) {
@@ -47,8 +67,14 @@ const formatLoanDate = (value: string | null, locale: string) => {
 
 export default function HomeScreen() {
   const { t, i18n } = useTranslation();
-  const [reserveFilter, setReserveFilter] = useState<ReserveFilterValue>('any');
-  const [ownershipFilter, setOwnershipFilter] = useState<OwnershipFilterValue>('all');
+  const router = useRouter();
+  const params = useLocalSearchParams<LocalParams>();
+  const { filters, loaded: filtersLoaded, updateFilters } = useWeaponListFilters();
+  const { reserveFilter, ownershipFilter } = filters;
+  const [organizationFiltersOpen, setOrganizationFiltersOpen] = useState(false);
+  const [programFiltersOpen, setProgramFiltersOpen] = useState(false);
+  const [searchText, setSearchText] = useState('');
+  const [search, setSearch] = useState('');
   const [refreshing, setRefreshing] = useState(false);
   const [expandedWeaponIds, setExpandedWeaponIds] = useState<Set<string>>(new Set());
 
@@ -69,20 +95,96 @@ export default function HomeScreen() {
     [memberOrganizations]
   );
 
+  const organizationNames = useMemo(
+    () => new Map(organizations.map((org) => [org.id, org.shortName || org.name])),
+    [organizations]
+  );
+
+  // A remembered organization stays selected only while the user is still a member of it.
+  const organizationId =
+    filters.organizationId &&
+    (organizationsLoading || memberOrganizationIds.includes(filters.organizationId))
+      ? filters.organizationId
+      : null;
+
+  const {
+    programs,
+    loading: programsLoading,
+    refresh: refreshPrograms,
+  } = usePrograms({ organizationId, allowedOrganizationIds: memberOrganizationIds });
+
+  const programId =
+    filters.programId &&
+    (programsLoading || programs.some((program) => program.id === filters.programId))
+      ? filters.programId
+      : null;
+
+  const selectedOrganization = useMemo(
+    () => memberOrganizations.find((org) => org.id === organizationId) ?? null,
+    [memberOrganizations, organizationId]
+  );
+
+  const selectedProgram = useMemo(
+    () => programs.find((program) => program.id === programId) ?? null,
+    [programId, programs]
+  );
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchText.trim());
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [searchText]);
+
+  // Links from the dashboard open the list filtered to one program; the choice is remembered
+  // like any other filter change and the parameters are cleared so it only applies once.
+  useEffect(() => {
+    if (!filtersLoaded || !params.programId) {
+      return;
+    }
+
+    updateFilters({ organizationId: params.organizationId ?? null, programId: params.programId });
+    router.setParams({ organizationId: undefined, programId: undefined });
+  }, [filtersLoaded, params.organizationId, params.programId, router, updateFilters]);
+
+  const searchTerms = useMemo(() => splitSearchTerms(search), [search]);
+
+  // The export screen starts from whatever the list shows right now.
+  const handleExportView = useCallback(() => {
+    router.push({
+      pathname: '/export',
+      params: {
+        organizationId: organizationId ?? undefined,
+        programId: programId ?? undefined,
+        reserveFilter,
+        ownershipFilter,
+        search: search || undefined,
+      },
+    });
+  }, [organizationId, ownershipFilter, programId, reserveFilter, router, search]);
+
   const {
     weapons,
     loading: weaponsLoading,
     error: weaponsError,
     refresh: refreshWeapons,
   } = useWeapons({
-    organizationId: null,
-    programId: null,
+    organizationId,
+    programId,
     reserveFilter,
     ownershipFilter,
+    search,
   });
 
+  const { evaluate: evaluateReserveRules, refresh: refreshReserveRules } = useReserveRules();
+
   const refreshWeaponsRef = useRef(refreshWeapons);
   const refreshOrganizationsRef = useRef(refreshOrganizations);
+  const refreshProgramsRef = useRef(refreshPrograms);
+  const refreshReserveRulesRef = useRef(refreshReserveRules);
 
   useEffect(() => {
     refreshWeaponsRef.current = refreshWeapons;
@@ -92,16 +194,34 @@ export default function HomeScreen() {
     refreshOrganizationsRef.current = refreshOrganizations;
   }, [refreshOrganizations]);
 
+  useEffect(() => {
+    refreshProgramsRef.current = refreshPrograms;
+  }, [refreshPrograms]);
+
+  useEffect(() => {
+    refreshReserveRulesRef.current = refreshReserveRules;
+  }, [refreshReserveRules]);
+
   useFocusEffect(
     useCallback(() => {
       refreshWeaponsRef.current?.();
       refreshOrganizationsRef.current?.();
+      refreshProgramsRef.current?.();
+      refreshReserveRulesRef.current?.();
       setExpandedWeaponIds(new Set());
     }, [])
   );
 
   const colorScheme = useColorScheme();
   const cardThemeStyle = colorScheme === 'dark' ? styles.cardDark : styles.cardLight;
+  const filterHeaderThemeStyle =
+    colorScheme === 'dark' ? styles.filterHeaderDark : styles.filterHeaderLight;
+  const filterSummaryThemeStyle =
+    colorScheme === 'dark' ? styles.filterSummaryDark : styles.filterSummaryLight;
+  const searchInputThemeStyle =
+    colorScheme === 'dark' ? styles.searchInputDark : styles.searchInputLight;
+  const placeholderColor =
+    colorScheme === 'dark' ? 'rgba(248, 250, 252, 0.6)' : 'rgba(15, 23, 42, 0.5)';
   const membershipUnavailable = !organizationsLoading && memberOrganizationIds.length === 0;
 
   const reserveOptions = useMemo(
@@ -122,25 +242,54 @@ export default function HomeScreen() {
     [t]
   );
 
-  const isLoading = organizationsLoading || weaponsLoading;
+  const isLoading = !filtersLoaded || organizationsLoading || weaponsLoading;
   const error = weaponsError ?? organizationsError;
 
-  const handleSelectReserve = useCallback((value: ReserveFilterValue) => {
-    setReserveFilter((previous) => (previous === value ? 'any' : value));
-  }, []);
+  const handleSelectOrganization = useCallback(
+    (value: string | null) => {
+      if (value === organizationId) {
+        return;
+      }
 
-  const handleSelectOwnership = useCallback((value: OwnershipFilterValue) => {
-    setOwnershipFilter((previous) => (previous === value ? 'all' : value));
-  }, []);
+      // Programs belong to one organization, so a program filter does not survive a switch.
+      updateFilters({
+        organizationId: value,
+        programId:
+          value && selectedProgram && selectedProgram.organizationId !== value ? null : programId,
+      });
+    },
+    [organizationId, programId, selectedProgram, updateFilters]
+  );
+
+  const handleSelectProgram = useCallback(
+    (value: string | null) => {
+      updateFilters({ programId: value === programId ? null : value });
+    },
+    [programId, updateFilters]
+  );
+
+  const handleSelectReserve = useCallback(
+    (value: ReserveFilterValue) => {
+      updateFilters({ reserveFilter: reserveFilter === value ? 'any' : value });
+    },
+    [reserveFilter, updateFilters]
+  );
+
+  const handleSelectOwnership = useCallback(
+    (value: OwnershipFilterValue) => {
+      updateFilters({ ownershipFilter: ownershipFilter === value ? 'all' : value });
+    },
+    [ownershipFilter, updateFilters]
+  );
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
-      await refreshWeapons();
+      await Promise.all([refreshWeapons(), refreshPrograms(), refreshReserveRules()]);
     } finally {
       setRefreshing(false);
     }
-  }, [refreshWeapons]);
+  }, [refreshPrograms, refreshReserveRules, refreshWeapons]);
 
   const toggleWeaponExpansion = useCallback((weaponId: string) => {
     setExpandedWeaponIds((prev) => {
@@ -161,14 +310,24 @@ export default function HomeScreen() {
       const typeLabel = t(`weapons.types.${item.type}` as const, {
         defaultValue: item.type,
       });
-      const approvedProgramId =
-        item.programs.find((program) => program.status === 'approved')?.programId;
+      const programGroups = new Map<string, WeaponProgramLink[]>();
+      for (const program of item.programs) {
+        const existing = programGroups.get(program.organizationId);
+        if (existing) {
+          existing.push(program);
+        } else {
+          programGroups.set(program.organizationId, [program]);
+        }
+      }
       const loanBadge =
         item.ownershipStatus === 'loanIn'
           ? t('weapons.card.loanInBadge')
           : item.ownershipStatus === 'loanOut'
           ? t('weapons.card.loanOutBadge')
           : null;
+      const reserveRuleResult = evaluateReserveRules(item.id, item.programs);
+      const reserveIssueCount =
+        reserveRuleResult.violations.length + reserveRuleResult.warnings.length;
       const formattedLoanStart = formatLoanDate(item.loanStartDate, locale);
       const formattedLoanEnd = formatLoanDate(item.loanEndDate, locale);
       const showLoanInfo =
@@ -182,6 +341,20 @@ export default function HomeScreen() {
               model: item.model,
             })
           : item.manufacturer ?? item.model ?? null;
+      const serialNumberText = item.serialNumber
+        ? t('weapons.card.serialNumber', { serial: item.serialNumber })
+        : null;
+      // Collapsed cards only show the name, so point out which other field matched the search.
+      const searchMatch =
+        !isExpanded && searchTerms.length > 0 && !containsSearchTerm(item.displayName, searchTerms)
+          ? [
+              serialNumberText,
+              manufacturerModel,
+              item.caliber,
+              item.notes,
+              ...item.programs.map((program) => program.programName),
+            ].find((value) => containsSearchTerm(value, searchTerms)) ?? null
+          : null;
 
       return (
         <ThemedView
@@ -195,27 +368,60 @@ export default function HomeScreen() {
             accessibilityRole="button"
             accessibilityState={{ expanded: isExpanded }}
           >
-            <ThemedText type="subtitle" style={styles.cardTitle}>
-              {item.displayName}
-            </ThemedText>
-            {isExpanded && (
+            {item.coverPhotoUri ? (
+              <Image
+                source={{ uri: item.coverPhotoUri }}
+                style={styles.coverPhoto}
+                contentFit="cover"
+                accessibilityIgnoresInvertColors
+              />
+            ) : null}
+            <View style={styles.cardTitle}>
+              <HighlightedText type="subtitle" text={item.displayName} terms={searchTerms} />
+              {searchMatch ? (
+                <HighlightedText
+                  style={styles.searchMatchText}
+                  text={searchMatch}
+                  terms={searchTerms}
+                  numberOfLines={1}
+                />
+              ) : null}
+            </View>
+            {isExpanded ? (
               <View style={styles.cardBadgeColumn}>
                 <ThemedText style={styles.typeBadge}>{typeLabel}</ThemedText>
                 {loanBadge ? <ThemedText style={styles.loanBadge}>{loanBadge}</ThemedText> : null}
               </View>
-            )}
+            ) : reserveIssueCount > 0 ? (
+              <ThemedText
+                style={[
+                  styles.ruleIssueBadge,
+                  reserveRuleResult.violations.length > 0
+                    ? styles.ruleIssueBadgeViolation
+                    : styles.ruleIssueBadgeWarning,
+                ]}
+              >
+                {t('reserveRules.issueCount', { count: reserveIssueCount })}
+              </ThemedText>
+            ) : null}
           </Pressable>
 
           {isExpanded && (
             <>
               {manufacturerModel ? (
-                <ThemedText style={styles.metaText}>{manufacturerModel}</ThemedText>
+                <HighlightedText
+                  style={styles.metaText}
+                  text={manufacturerModel}
+                  terms={searchTerms}
+                />
               ) : null}
 
-              {item.serialNumber ? (
-                <ThemedText style={styles.metaText}>
-                  {t('weapons.card.serialNumber', { serial: item.serialNumber })}
-                </ThemedText>
+              {serialNumberText ? (
+                <HighlightedText
+                  style={styles.metaText}
+                  text={serialNumberText}
+                  terms={searchTerms}
+                />
               ) : null}
 
               {showLoanInfo ? (
@@ -244,40 +450,60 @@ export default function HomeScreen() {
                 {item.programs.length === 0 ? (
                   <ThemedText style={styles.metaText}>{t('weapons.card.noPrograms')}</ThemedText>
                 ) : (
-                  item.programs.map((program) => (
-                    <View
-                      key={`${item.id}-${program.programId}`}
-                      style={[
-                        styles.programRow,
-                        program.programId === approvedProgramId && styles.programRowApproved,
-                      ]}
-                    >
-                      <ThemedText
-                        style={[
-                          styles.programName,
-                          program.programId === approvedProgramId && styles.programNameApproved,
-                        ]}
-                      >
-                        {program.programName}
+                  Array.from(programGroups.entries()).map(([organizationId, links]) => (
+                    <View key={`${item.id}-${organizationId}`} style={styles.programGroup}>
+                      <ThemedText style={styles.programGroupTitle}>
+                        {organizationNames.get(organizationId) ?? organizationId}
                       </ThemedText>
-                      <View style={styles.programBadges}>
-                        {program.programId === approvedProgramId ? (
-                          <ThemedText style={styles.approvedBadge}>
-                            {t('weapons.card.approvedBadge')}
-                          </ThemedText>
-                        ) : null}
-                        {program.isReserve ? (
-                          <ThemedText style={styles.reserveBadge}>
-                            {t('weapons.card.reserveBadge')}
-                          </ThemedText>
-                        ) : null}
-                      </View>
+                      {links.map((program) => {
+                        const isApproved = program.status === 'approved';
+                        return (
+                          <View
+                            key={`${item.id}-${program.programId}`}
+                            style={[styles.programRow, isApproved && styles.programRowApproved]}
+                          >
+                            <HighlightedText
+                              style={[styles.programName, isApproved && styles.programNameApproved]}
+                              text={program.programName}
+                              terms={searchTerms}
+                            />
+                            <View style={styles.programBadges}>
+                              {isApproved ? (
+                                <ThemedText style={styles.approvedBadge}>
+                                  {t('weapons.card.approvedBadge')}
+                                </ThemedText>
+                              ) : (
+                                <ThemedText style={styles.pendingBadge}>
+                                  {t('weapons.card.pendingBadge')}
+                                </ThemedText>
+                              )}
+                              {program.isReserve ? (
+                                <ThemedText style={styles.reserveBadge}>
+                                  {t('weapons.card.reserveBadge')}
+                                </ThemedText>
+                              ) : null}
+                            </View>
+                          </View>
+                        );
+                      })}
                     </View>
                   ))
                 )}
               </View>
 
+              <ReserveRuleIssues result={reserveRuleResult} />
+
               <View style={styles.cardActions}>
+                <Link
+                  href={{ pathname: '/weapon/[id]', params: { id: item.id } }}
+                  asChild
+                >
+                  <Pressable style={styles.editButton}>
+                    <ThemedText style={styles.editButtonText}>
+                      {t('weapons.card.details')}
+                    </ThemedText>
+                  </Pressable>
+                </Link>
                 <Link
                   href={{ pathname: '/weapon/manage', params: { weaponId: item.id } }}
                   asChild
@@ -294,7 +520,16 @@ export default function HomeScreen() {
         </ThemedView>
       );
     },
-    [cardThemeStyle, expandedWeaponIds, i18n.language, t, toggleWeaponExpansion]
+    [
+      cardThemeStyle,
+      evaluateReserveRules,
+      expandedWeaponIds,
+      i18n.language,
+      organizationNames,
+      searchTerms,
+      t,
+      toggleWeaponExpansion,
+    ]
   );
 
   return (
@@ -309,16 +544,158 @@ export default function HomeScreen() {
             {t('weapons.memberships.empty')}
           </ThemedText>
         ) : null}
-        <Link href="/weapon/manage" asChild>
-          <Pressable style={styles.primaryButton}>
+        <View style={styles.headerActions}>
+          <Link href="/weapon/manage" asChild>
+            <Pressable style={styles.primaryButton}>
+              <ThemedText style={styles.primaryButtonText}>
+                {t('weapons.actions.add')}
+              </ThemedText>
+            </Pressable>
+          </Link>
+          <Pressable
+            style={styles.secondaryButton}
+            onPress={handleExportView}
+            accessibilityRole="button"
+          >
             <ThemedText style={styles.primaryButtonText}>
-              {t('weapons.actions.add')}
+              {t('weapons.actions.exportView')}
             </ThemedText>
           </Pressable>
-        </Link>
+        </View>
+      </View>
+
+      <View style={styles.searchRow}>
+        <TextInput
+          value={searchText}
+          onChangeText={setSearchText}
+          style={[styles.searchInput, searchInputThemeStyle]}
+          placeholder={t('weapons.search.placeholder')}
+          placeholderTextColor={placeholderColor}
+          autoCapitalize="none"
+          autoCorrect={false}
+          returnKeyType="search"
+          clearButtonMode="never"
+          accessibilityLabel={t('weapons.search.placeholder')}
+        />
+        {searchText ? (
+          <Pressable
+            onPress={() => setSearchText('')}
+            style={styles.searchClearButton}
+            accessibilityRole="button"
+          >
+            <ThemedText style={styles.searchClearText}>{t('weapons.search.clear')}</ThemedText>
+          </Pressable>
+        ) : null}
       </View>
 
       <View style={styles.filtersSection}>
+        {memberOrganizations.length > 0 ? (
+          <View style={styles.filterGroup}>
+            <Pressable
+              onPress={() => setOrganizationFiltersOpen((previous) => !previous)}
+              style={[styles.filterHeader, filterHeaderThemeStyle]}
+              accessibilityRole="button"
+              accessibilityState={{ expanded: organizationFiltersOpen }}
+            >
+              <ThemedText type="subtitle" style={styles.filterTitle}>
+                {t('weapons.filters.organizations.title')}
+              </ThemedText>
+              <ThemedText style={styles.filterToggleText}>
+                {organizationFiltersOpen
+                  ? t('weapons.filters.toggle.hide')
+                  : t('weapons.filters.toggle.show')}
+              </ThemedText>
+            </Pressable>
+            {!organizationFiltersOpen ? (
+              <ThemedText style={[styles.filterSummary, filterSummaryThemeStyle]}>
+                {t('weapons.filters.selected', {
+                  value: selectedOrganization
+                    ? selectedOrganization.shortName || selectedOrganization.name
+                    : t('weapons.filters.organizations.all'),
+                })}
+              </ThemedText>
+            ) : (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.filterBody}
+                contentContainerStyle={styles.filterRowScroll}
+              >
+                <FilterChip
+                  label={t('weapons.filters.organizations.all')}
+                  selected={organizationId === null}
+                  onPress={() => handleSelectOrganization(null)}
+                />
+                {memberOrganizations.map((org) => (
+                  <FilterChip
+                    key={org.id}
+                    label={org.shortName || org.name}
+                    selected={organizationId === org.id}
+                    onPress={() => handleSelectOrganization(org.id)}
+                  />
+                ))}
+              </ScrollView>
+            )}
+          </View>
+        ) : null}
+
+        {programs.length > 0 ? (
+          <View style={styles.filterGroup}>
+            <Pressable
+              onPress={() => setProgramFiltersOpen((previous) => !previous)}
+              style={[styles.filterHeader, filterHeaderThemeStyle]}
+              accessibilityRole="button"
+              accessibilityState={{ expanded: programFiltersOpen }}
+            >
+              <ThemedText type="subtitle" style={styles.filterTitle}>
+                {t('weapons.filters.programs.title')}
+              </ThemedText>
+              <ThemedText style={styles.filterToggleText}>
+                {programFiltersOpen
+                  ? t('weapons.filters.toggle.hide')
+                  : t('weapons.filters.toggle.show')}
+              </ThemedText>
+            </Pressable>
+            {!programFiltersOpen ? (
+              <ThemedText style={[styles.filterSummary, filterSummaryThemeStyle]}>
+                {t('weapons.filters.selected', {
+                  value: selectedProgram?.name ?? t('weapons.filters.programs.all'),
+                })}
+              </ThemedText>
+            ) : (
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.filterBody}
+                contentContainerStyle={styles.filterRowScroll}
+              >
+                <FilterChip
+                  label={t('weapons.filters.programs.all')}
+                  selected={programId === null}
+                  onPress={() => handleSelectProgram(null)}
+                />
+                {programs.map((program) => (
+                  <FilterChip
+                    key={program.id}
+                    label={program.name}
+                    selected={programId === program.id}
+                    onPress={() => handleSelectProgram(program.id)}
+                  />
+                ))}
+              </ScrollView>
+            )}
+            {selectedProgram ? (
+              <ThemedText style={styles.programSummary}>
+                {t('weapons.programSummary', {
+                  name: selectedProgram.name,
+                  weaponCount: selectedProgram.weaponCount,
+                  reserveCount: selectedProgram.reserveCount,
+                })}
+              </ThemedText>
+            ) : null}
+          </View>
+        ) : null}
+
         <View style={styles.filterGroup}>
           <ThemedText type="subtitle" style={styles.filterTitle}>
             {t('weapons.filters.reserve.title')}
@@ -372,7 +749,11 @@ export default function HomeScreen() {
           }
           ListEmptyComponent={
             <ThemedText>
-              {membershipUnavailable ? t('weapons.memberships.empty') : t('weapons.list.empty')}
+              {membershipUnavailable
+                ? t('weapons.memberships.empty')
+                : search
+                  ? t('weapons.search.empty', { query: search })
+                  : t('weapons.list.empty')}
             </ThemedText>
           }
           refreshControl={
@@ -411,6 +792,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#b45309',
   },
+  headerActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
   primaryButton: {
     marginTop: 8,
     paddingHorizontal: 20,
@@ -421,6 +808,44 @@ const styles = StyleSheet.create({
   primaryButtonText: {
     fontWeight: '700',
   },
+  secondaryButton: {
+    marginTop: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 16,
+    backgroundColor: 'rgba(37, 99, 235, 0.12)',
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+  },
+  searchInputDark: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderColor: 'rgba(255,255,255,0.24)',
+    color: '#f8fafc',
+  },
+  searchInputLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.04)',
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    color: '#111827',
+  },
+  searchClearButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(37, 99, 235, 0.15)',
+  },
+  searchClearText: {
+    fontWeight: '600',
+  },
   filtersSection: {
     gap: 16,
   },
@@ -518,6 +943,13 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'baseline',
   },
+  coverPhoto: {
+    width: 48,
+    height: 48,
+    borderRadius: 8,
+    marginRight: 12,
+    alignSelf: 'center',
+  },
   cardBadgeColumn: {
     alignItems: 'flex-end',
     gap: 6,
@@ -540,6 +972,24 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(16, 185, 129, 0.2)',
     overflow: 'hidden',
   },
+  ruleIssueBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  ruleIssueBadgeViolation: {
+    backgroundColor: 'rgba(220, 38, 38, 0.2)',
+  },
+  ruleIssueBadgeWarning: {
+    backgroundColor: 'rgba(255, 149, 0, 0.2)',
+  },
+  searchMatchText: {
+    fontSize: 13,
+    opacity: 0.75,
+  },
   metaText: {
     opacity: 0.8,
   },
@@ -562,6 +1012,14 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     opacity: 0.9,
   },
+  programGroup: {
+    gap: 4,
+  },
+  programGroupTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    opacity: 0.7,
+  },
   programRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -596,6 +1054,15 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(37, 99, 235, 0.25)',
     overflow: 'hidden',
   },
+  pendingBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(148, 163, 184, 0.25)',
+    overflow: 'hidden',
+  },
   reserveBadge: {
     fontSize: 12,
     fontWeight: '600',
@@ -622,6 +1089,7 @@ const styles = StyleSheet.create({
   cardActions: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
+    gap: 8,
   },
   editButton: {
     paddingHorizontal: 12,
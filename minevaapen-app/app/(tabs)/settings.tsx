@@ -1,18 +1,41 @@
-import { ReactNode, useCallback, useMemo, useState } from 'react';
-import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Switch, View } from 'react-native';
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, Switch, View } from 'react-native';
 import { Feather } from '@expo/vector-icons';
 import * as Sharing from 'expo-sharing';
 import * as DocumentPicker from 'expo-document-picker';
+import { Link, useFocusEffect, useRouter } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 
+import { PassphraseDialog, type PassphraseDialogValues } from '@/components/passphrase-dialog';
+import { PinSetupDialog } from '@/components/pin-setup-dialog';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { BackupValidationError } from '@/src/database/backup-inspection';
+import { MigrationError } from '@/src/database/migrations';
+import { useAppLock } from '@/src/hooks/use-app-lock';
 import { useOrganizations, type Organization } from '@/src/hooks/use-organizations';
+import { useShooterProfile } from '@/src/hooks/use-shooter-profile';
+import { setAppLanguage, type SupportedLocale } from '@/src/i18n';
+import { getMembershipValidUntil } from '@/src/rules/membership-validity';
+import { AUTO_LOCK_OPTIONS, type AutoLockSeconds } from '@/src/services/app-lock';
+import { BackupArchiveError, type BackupManifest } from '@/src/services/backup-archive';
+import { InterchangeError, type InterchangeDocument } from '@/src/services/interchange';
+import {
+  changePassphrase,
+  MIN_PASSPHRASE_LENGTH,
+  PassphraseError,
+} from '@/src/services/encryption';
 import {
   backupDatabase,
-  exportWeaponsToCsv,
+  exportInterchangeJson,
+  importInterchangeJson,
+  inspectBackupFile,
+  listBackupFiles,
+  readInterchangeFile,
   restoreDatabase,
   restoreDatabaseFromUri,
+  type BackupAccessOptions,
+  type BackupInspection,
 } from '@/src/services/storage';
 
 type ActionStatus = 'idle' | 'loading' | 'success' | 'error';
@@ -24,15 +47,27 @@ type ActionState = {
 
 const initialState: ActionState = { status: 'idle', message: null };
 
+type RestoreAction = (options: BackupAccessOptions) => Promise<BackupInspection>;
+
+type PassphraseRequest =
+  | { kind: 'change' }
+  | { kind: 'restore'; name: string; sourceUri: string; restore: RestoreAction };
+
 export default function SettingsScreen() {
   const { t, i18n } = useTranslation();
+  const router = useRouter();
   const [backupState, setBackupState] = useState<ActionState>(initialState);
   const [lastBackupPath, setLastBackupPath] = useState<string | null>(null);
-  const [exportState, setExportState] = useState<ActionState>(initialState);
   const [restoreState, setRestoreState] = useState<ActionState>(initialState);
-  const [lastExportPath, setLastExportPath] = useState<string | null>(null);
+  const [mergeState, setMergeState] = useState<ActionState>(initialState);
+  const [importState, setImportState] = useState<ActionState>(initialState);
+  const [interchangeState, setInterchangeState] = useState<ActionState>(initialState);
   const [languageState, setLanguageState] = useState<ActionState>(initialState);
   const [membershipState, setMembershipState] = useState<ActionState>(initialState);
+  const [encryptionState, setEncryptionState] = useState<ActionState>(initialState);
+  const [passphraseRequest, setPassphraseRequest] = useState<PassphraseRequest | null>(null);
+  const [passphraseBusy, setPassphraseBusy] = useState(false);
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
   const [pendingOrganizationId, setPendingOrganizationId] = useState<string | null>(null);
 
   const {
@@ -42,8 +77,43 @@ export default function SettingsScreen() {
     updateMembership,
     updateAllMemberships,
     updating: membershipsUpdating,
+    refresh: refreshOrganizations,
   } = useOrganizations();
 
+  const { profile, refresh: refreshProfile } = useShooterProfile();
+
+  const refreshOrganizationsRef = useRef(refreshOrganizations);
+  const refreshProfileRef = useRef(refreshProfile);
+
+  useEffect(() => {
+    refreshOrganizationsRef.current = refreshOrganizations;
+    refreshProfileRef.current = refreshProfile;
+  }, [refreshOrganizations, refreshProfile]);
+
+  // Membership details and the profile are edited on their own screens.
+  useFocusEffect(
+    useCallback(() => {
+      refreshOrganizationsRef.current?.();
+      refreshProfileRef.current?.();
+    }, [])
+  );
+
+  const handleOpenProfile = useCallback(() => {
+    router.push('/profile');
+  }, [router]);
+
+  const handleOpenExport = useCallback(() => {
+    router.push('/export');
+  }, [router]);
+
+  const handleOpenReport = useCallback(() => {
+    router.push('/report');
+  }, [router]);
+
+  const handleOpenCatalog = useCallback(() => {
+    router.push('/catalog');
+  }, [router]);
+
   const handleBackup = useCallback(async () => {
     setBackupState({ status: 'loading', message: null });
 
@@ -64,43 +134,234 @@ export default function SettingsScreen() {
     }
   }, [t]);
 
-  const handleExport = useCallback(async () => {
-    setExportState({ status: 'loading', message: null });
+  const handleExportJson = useCallback(async () => {
+    setInterchangeState({ status: 'loading', message: null });
 
     try {
-      const path = await exportWeaponsToCsv();
-      setExportState({
+      const path = await exportInterchangeJson();
+      setInterchangeState({
         status: 'success',
-        message: t('settings.export.success', { path }),
+        message: t('settings.interchange.exportSuccess', { path }),
       });
-      setLastExportPath(path);
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(path, {
+          dialogTitle: t('settings.interchange.shareDialogTitle'),
+          mimeType: 'application/json',
+        });
+      }
     } catch (error) {
-      console.warn('Weapon CSV export failed', error);
-      setExportState({
+      console.warn('Interchange export failed', error);
+      setInterchangeState({
         status: 'error',
-        message: t('settings.export.error'),
+        message: t('settings.interchange.exportError'),
       });
-      setLastExportPath(null);
     }
   }, [t]);
 
-  const handleRestore = useCallback(async () => {
-    setRestoreState({ status: 'loading', message: null });
+  const runInterchangeImport = useCallback(
+    async (document: InterchangeDocument) => {
+      setInterchangeState({ status: 'loading', message: null });
 
+      try {
+        const result = await importInterchangeJson(document);
+        setInterchangeState({
+          status: 'success',
+          message: t('settings.interchange.importSuccess', {
+            weapons: result.weapons,
+            programLinks: result.programLinks,
+            memberships: result.memberships,
+          }),
+        });
+
+        if (result.skippedProgramLinks > 0) {
+          Alert.alert(
+            t('settings.interchange.skippedLinksTitle'),
+            t('settings.interchange.skippedLinksMessage', { count: result.skippedProgramLinks })
+          );
+        }
+      } catch (error) {
+        console.warn('Interchange import failed', error);
+        setInterchangeState({
+          status: 'error',
+          message: t('settings.interchange.importError'),
+        });
+      }
+    },
+    [t]
+  );
+
+  const handleImportJson = useCallback(async () => {
     try {
-      const backup = await restoreDatabase();
-      setRestoreState({
-        status: 'success',
-        message: t('settings.restore.success', { path: backup.path }),
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
       });
+
+      if (result.canceled) {
+        return;
+      }
+
+      const document = await readInterchangeFile(result.assets[0].uri);
+      Alert.alert(
+        t('settings.interchange.confirmTitle'),
+        t('settings.interchange.confirmMessage', {
+          weapons: document.weapons.length,
+          memberships: document.memberships.length,
+        }),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('settings.interchange.importButton'),
+            onPress: () => void runInterchangeImport(document),
+          },
+        ]
+      );
     } catch (error) {
-      console.warn('Database restore failed', error);
-      setRestoreState({
+      console.warn('Failed to read interchange file', error);
+      setInterchangeState({
         status: 'error',
-        message: t('settings.restore.error'),
+        message:
+          error instanceof InterchangeError
+            ? t(`settings.interchange.errors.${error.code}` as const, { details: error.message })
+            : t('settings.interchange.importError'),
       });
     }
-  }, [t]);
+  }, [runInterchangeImport, t]);
+
+  const formatTimestamp = useCallback(
+    (value: string) => {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime())
+        ? value
+        : date.toLocaleString(i18n.language.replace('_', '-'));
+    },
+    [i18n.language]
+  );
+
+  const describeRestore = useCallback(
+    (path: string, manifest: BackupManifest | null) =>
+      manifest
+        ? t('settings.restore.successWithManifest', {
+            path,
+            createdAt: formatTimestamp(manifest.createdAt),
+            appVersion: manifest.appVersion,
+            fileCount: manifest.files.length,
+          })
+        : t('settings.restore.success', { path }),
+    [formatTimestamp, t]
+  );
+
+  const describeRestoreError = useCallback(
+    (error: unknown) => {
+      if (error instanceof BackupArchiveError) {
+        return t(`settings.restore.archiveErrors.${error.code}` as const);
+      }
+      if (error instanceof BackupValidationError) {
+        return t(`settings.restore.validationErrors.${error.code}` as const);
+      }
+      if (error instanceof MigrationError) {
+        return t('settings.restore.migrationFailed');
+      }
+      return t('settings.restore.error');
+    },
+    [t]
+  );
+
+  const confirmRestore = useCallback(
+    (name: string, { manifest, summary }: BackupInspection) =>
+      new Promise<boolean>((resolve) => {
+        const lines = [
+          name,
+          manifest
+            ? t('settings.restore.confirm.created', {
+                createdAt: formatTimestamp(manifest.createdAt),
+                appVersion: manifest.appVersion,
+              })
+            : null,
+          t('settings.restore.confirm.weapons', { count: summary.weaponCount }),
+          t('settings.restore.confirm.memberships', {
+            organizations:
+              summary.memberOrganizations.length > 0
+                ? summary.memberOrganizations.join(', ')
+                : t('settings.restore.confirm.none'),
+          }),
+          t('settings.restore.confirm.newestChange', {
+            date: summary.newestChange
+              ? formatTimestamp(summary.newestChange)
+              : t('settings.restore.confirm.unknown'),
+          }),
+          '',
+          t('settings.restore.confirm.warning'),
+        ].filter((line): line is string => line !== null);
+
+        Alert.alert(t('settings.restore.confirm.title'), lines.join('\n'), [
+          { text: t('common.cancel'), style: 'cancel', onPress: () => resolve(false) },
+          {
+            text: t('settings.restore.button'),
+            style: 'destructive',
+            onPress: () => resolve(true),
+          },
+        ]);
+      }),
+    [formatTimestamp, t]
+  );
+
+  const runRestore = useCallback(
+    async (
+      name: string,
+      sourceUri: string,
+      restore: RestoreAction,
+      options: BackupAccessOptions = {}
+    ) => {
+      setRestoreState({ status: 'loading', message: null });
+
+      try {
+        const inspection = await inspectBackupFile(sourceUri, options);
+        if (!(await confirmRestore(name, inspection))) {
+          setRestoreState(initialState);
+          return;
+        }
+
+        const result = await restore(options);
+        setRestoreState({
+          status: 'success',
+          message: describeRestore(name, result.manifest),
+        });
+      } catch (error) {
+        if (error instanceof BackupArchiveError && error.code === 'passphraseRequired') {
+          setRestoreState(initialState);
+          setPassphraseError(null);
+          setPassphraseRequest({ kind: 'restore', name, sourceUri, restore });
+          return;
+        }
+
+        console.warn('Database restore failed', error);
+        setRestoreState({
+          status: 'error',
+          message: describeRestoreError(error),
+        });
+      }
+    },
+    [confirmRestore, describeRestore, describeRestoreError]
+  );
+
+  const handleRestore = useCallback(async () => {
+    try {
+      const [latestBackup] = await listBackupFiles();
+      if (!latestBackup) {
+        setRestoreState({ status: 'error', message: t('settings.restore.error') });
+        return;
+      }
+
+      await runRestore(latestBackup.name, latestBackup.path, (options) =>
+        restoreDatabase({ ...options, sourcePath: latestBackup.path })
+      );
+    } catch (error) {
+      console.warn('Failed to list backups', error);
+      setRestoreState({ status: 'error', message: t('settings.restore.error') });
+    }
+  }, [runRestore, t]);
 
   const handleRestoreFromFile = useCallback(async () => {
     try {
@@ -113,85 +374,166 @@ export default function SettingsScreen() {
         return;
       }
 
-      setRestoreState({ status: 'loading', message: null });
-
       const asset = result.assets[0];
-      await restoreDatabaseFromUri(asset.uri);
-
-      setRestoreState({
-        status: 'success',
-        message: t('settings.restore.success', { path: asset.name }),
-      });
+      await runRestore(asset.name, asset.uri, (options) =>
+        restoreDatabaseFromUri(asset.uri, options)
+      );
     } catch (error) {
       console.warn('Database restore from file failed', error);
       setRestoreState({
         status: 'error',
-        message: t('settings.restore.error'),
+        message: describeRestoreError(error),
       });
     }
-  }, [t]);
+  }, [describeRestoreError, runRestore]);
 
-  const handleShareBackup = useCallback(async () => {
-    if (!lastBackupPath) {
-      return;
+  const handleChangePassphrase = useCallback(() => {
+    setEncryptionState(initialState);
+    setPassphraseError(null);
+    setPassphraseRequest({ kind: 'change' });
+  }, []);
+
+  const handlePassphraseCancel = useCallback(() => {
+    setPassphraseRequest(null);
+    setPassphraseError(null);
+  }, []);
+
+  const handlePassphraseSubmit = useCallback(
+    async ({ passphrase, currentPassphrase }: PassphraseDialogValues) => {
+      if (!passphraseRequest) {
+        return;
+      }
+
+      if (passphraseRequest.kind === 'restore') {
+        setPassphraseRequest(null);
+        const { name, sourceUri, restore } = passphraseRequest;
+        await runRestore(name, sourceUri, restore, { passphrase });
+        return;
+      }
+
+      setPassphraseBusy(true);
+      setPassphraseError(null);
+
+      try {
+        await changePassphrase(currentPassphrase, passphrase);
+        setPassphraseRequest(null);
+        setEncryptionState({
+          status: 'success',
+          message: t('settings.encryption.success'),
+        });
+      } catch (error) {
+        console.warn('Passphrase change failed', error);
+        setPassphraseError(
+          error instanceof PassphraseError
+            ? t(`passphrase.errors.${error.code}` as const, { count: MIN_PASSPHRASE_LENGTH })
+            : t('settings.encryption.error')
+        );
+      } finally {
+        setPassphraseBusy(false);
+      }
+    },
+    [passphraseRequest, runRestore, t]
+  );
+
+  const handleMergeFromFile = useCallback(async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      setMergeState(initialState);
+      router.push({
+        pathname: '/backup/merge',
+        params: { sourceUri: asset.uri, name: asset.name },
+      });
+    } catch (error) {
+      console.warn('Failed to pick backup for merge', error);
+      setMergeState({ status: 'error', message: t('settings.merge.error') });
     }
+  }, [router, t]);
 
+  const handleImportFromFile = useCallback(async () => {
     try {
-      const available = await Sharing.isAvailableAsync();
-      if (!available) {
-        setBackupState({
-          status: 'error',
-          message: t('settings.backup.shareUnavailable'),
-        });
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) {
         return;
       }
 
-      await Sharing.shareAsync(lastBackupPath, {
-        dialogTitle: t('settings.backup.shareDialogTitle'),
-        mimeType: 'application/x-sqlite3',
+      const asset = result.assets[0];
+      setImportState(initialState);
+      router.push({
+        pathname: '/weapon/import',
+        params: { sourceUri: asset.uri, name: asset.name },
       });
     } catch (error) {
-      console.warn('Backup share failed', error);
-      setBackupState({
-        status: 'error',
-        message: t('settings.backup.shareError'),
+      console.warn('Failed to pick CSV for import', error);
+      setImportState({ status: 'error', message: t('settings.import.error') });
+    }
+  }, [router, t]);
+
+  const handleMergeLatest = useCallback(async () => {
+    try {
+      const [latestBackup] = await listBackupFiles();
+      if (!latestBackup) {
+        setMergeState({ status: 'error', message: t('settings.restore.error') });
+        return;
+      }
+
+      setMergeState(initialState);
+      router.push({
+        pathname: '/backup/merge',
+        params: { sourceUri: latestBackup.path, name: latestBackup.name },
       });
+    } catch (error) {
+      console.warn('Failed to list backups', error);
+      setMergeState({ status: 'error', message: t('settings.merge.error') });
     }
-  }, [lastBackupPath, t]);
+  }, [router, t]);
 
-  const handleShareExport = useCallback(async () => {
-    if (!lastExportPath) {
+  const handleShareBackup = useCallback(async () => {
+    if (!lastBackupPath) {
       return;
     }
 
     try {
       const available = await Sharing.isAvailableAsync();
       if (!available) {
-        setExportState({
+        setBackupState({
           status: 'error',
-          message: t('settings.export.shareUnavailable'),
+          message: t('settings.backup.shareUnavailable'),
         });
         return;
       }
 
-      await Sharing.shareAsync(lastExportPath, {
-        dialogTitle: t('settings.export.shareDialogTitle'),
-        mimeType: 'text/csv',
+      await Sharing.shareAsync(lastBackupPath, {
+        dialogTitle: t('settings.backup.shareDialogTitle'),
+        mimeType: 'application/octet-stream',
       });
     } catch (error) {
-      console.warn('Weapon CSV share failed', error);
-      setExportState({
+      console.warn('Backup share failed', error);
+      setBackupState({
         status: 'error',
-        message: t('settings.export.shareError'),
+        message: t('settings.backup.shareError'),
       });
     }
-  }, [lastExportPath, t]);
+  }, [lastBackupPath, t]);
 
   const supportedLanguages = useMemo(
     () =>
       [
         { code: 'nb_NO', labelKey: 'settings.language.options.nb_NO' as const },
         { code: 'nn_NO', labelKey: 'settings.language.options.nn_NO' as const },
+        { code: 'en', labelKey: 'settings.language.options.en' as const },
       ] as const,
     []
   );
@@ -199,12 +541,12 @@ export default function SettingsScreen() {
   const currentLanguage = i18n.language;
 
   const getTranslation = useCallback(
-    (key: 'settings.language.options.nb_NO' | 'settings.language.options.nn_NO') => t(key),
+    (key: (typeof supportedLanguages)[number]['labelKey']) => t(key),
     [t]
   );
 
   const handleChangeLanguage = useCallback(
-    async (language: string) => {
+    async (language: SupportedLocale) => {
       if (language === i18n.language) {
         return;
       }
@@ -212,7 +554,7 @@ export default function SettingsScreen() {
       setLanguageState({ status: 'loading', message: null });
 
       try {
-        await i18n.changeLanguage(language);
+        await setAppLanguage(language);
         setLanguageState({
           status: 'success',
           message: t('settings.language.success'),
@@ -244,6 +586,28 @@ export default function SettingsScreen() {
     });
   }, [memberCount, organizations.length, t]);
 
+  const getMembershipStatus = useCallback(
+    (organization: Organization) => {
+      if (!organization.membership) {
+        return null;
+      }
+
+      const validUntil = getMembershipValidUntil(organization.membership);
+      const validity = !validUntil
+        ? t('membershipForm.validity.openEnded')
+        : organization.isMember
+          ? t('membershipForm.validity.validUntil', { date: validUntil })
+          : t('membershipForm.validity.expired', { date: validUntil });
+
+      return organization.membership.memberNumber
+        ? `${t('settings.memberships.memberNumber', {
+            number: organization.membership.memberNumber,
+          })} · ${validity}`
+        : validity;
+    },
+    [t]
+  );
+
   const membershipControlsDisabled = membershipsUpdating || Boolean(pendingOrganizationId);
 
   const handleToggleMembership = useCallback(
@@ -312,6 +676,18 @@ export default function SettingsScreen() {
           <ThemedText style={styles.subtitle}>{t('settings.subtitle')}</ThemedText>
         </View>
 
+        <ActionCard
+          title={t('settings.profile.title')}
+          description={
+            profile?.name
+              ? t('settings.profile.description', { name: profile.name })
+              : t('settings.profile.empty')
+          }
+          buttonLabel={t('settings.profile.button')}
+          state={initialState}
+          onPress={handleOpenProfile}
+        />
+
         <ActionCard
           title={t('settings.backup.title')}
           description={t('settings.backup.description')}
@@ -340,20 +716,75 @@ export default function SettingsScreen() {
           }}
         />
 
+        <ActionCard
+          title={t('settings.merge.title')}
+          description={t('settings.merge.description')}
+          buttonLabel={t('settings.merge.button')}
+          state={mergeState}
+          onPress={handleMergeFromFile}
+          secondaryAction={{
+            label: t('settings.merge.latestButton'),
+            onPress: handleMergeLatest,
+            icon: <Feather name="git-merge" size={18} color="#2563eb" />,
+          }}
+        />
+
+        <SecurityCard />
+
+        <ActionCard
+          title={t('settings.encryption.title')}
+          description={t('settings.encryption.description')}
+          buttonLabel={t('settings.encryption.button')}
+          state={encryptionState}
+          onPress={handleChangePassphrase}
+        />
+
         <ActionCard
           title={t('settings.export.title')}
           description={t('settings.export.description')}
           buttonLabel={t('settings.export.button')}
-          state={exportState}
-          onPress={handleExport}
+          state={initialState}
+          onPress={handleOpenExport}
+        />
+
+        <ActionCard
+          title={t('settings.import.title')}
+          description={t('settings.import.description')}
+          buttonLabel={t('settings.import.button')}
+          state={importState}
+          onPress={handleImportFromFile}
+        />
+
+        <ActionCard
+          title={t('settings.interchange.title')}
+          description={t('settings.interchange.description')}
+          buttonLabel={t('settings.interchange.exportButton')}
+          state={interchangeState}
+          onPress={handleExportJson}
           secondaryAction={{
-            label: t('settings.export.shareButton'),
-            onPress: handleShareExport,
-            disabled: !lastExportPath || exportState.status === 'loading',
-            icon: <Feather name="share-2" size={18} color="#2563eb" />,
+            label: t('settings.interchange.importButton'),
+            onPress: handleImportJson,
+            disabled: interchangeState.status === 'loading',
+            icon: <Feather name="download" size={18} color="#2563eb" />,
           }}
         />
 
+        <ActionCard
+          title={t('settings.report.title')}
+          description={t('settings.report.description')}
+          buttonLabel={t('settings.report.button')}
+          state={initialState}
+          onPress={handleOpenReport}
+        />
+
+        <ActionCard
+          title={t('settings.catalog.title')}
+          description={t('settings.catalog.description')}
+          buttonLabel={t('settings.catalog.button')}
+          state={initialState}
+          onPress={handleOpenCatalog}
+        />
+
         <MembershipCard
           title={t('settings.memberships.title')}
           description={t('settings.memberships.description')}
@@ -370,6 +801,9 @@ export default function SettingsScreen() {
           selectAllLabel={t('settings.memberships.selectAll')}
           selectNoneLabel={t('settings.memberships.selectNone')}
           emptyLabel={t('settings.memberships.empty')}
+          documentsLabel={t('settings.memberships.documents')}
+          editLabel={t('settings.memberships.edit')}
+          getMembershipStatus={getMembershipStatus}
         />
 
         <ThemedView style={styles.languageCard} lightColor="#ffffff" darkColor="rgba(255,255,255,0.05)">
@@ -419,6 +853,30 @@ export default function SettingsScreen() {
           ) : null}
         </ThemedView>
       </ScrollView>
+
+      <PassphraseDialog
+        visible={passphraseRequest !== null}
+        mode={passphraseRequest?.kind === 'change' ? 'change' : 'enter'}
+        title={
+          passphraseRequest?.kind === 'change'
+            ? t('settings.encryption.dialogTitle')
+            : t('settings.restore.passphraseTitle')
+        }
+        message={
+          passphraseRequest?.kind === 'restore'
+            ? t('settings.restore.passphraseMessage', { name: passphraseRequest.name })
+            : t('settings.encryption.dialogMessage')
+        }
+        submitLabel={
+          passphraseRequest?.kind === 'change'
+            ? t('settings.encryption.button')
+            : t('settings.restore.passphraseSubmit')
+        }
+        busy={passphraseBusy}
+        error={passphraseError}
+        onCancel={handlePassphraseCancel}
+        onSubmit={handlePassphraseSubmit}
+      />
     </ThemedView>
   );
 }
@@ -492,6 +950,191 @@ function ActionCard({ title, description, buttonLabel, state, onPress, secondary
   );
 }
 
+function SecurityCard() {
+  const { t } = useTranslation();
+  const { settings, biometricsAvailable, enableWithPin, disable, updateSettings } = useAppLock();
+  const [state, setState] = useState<ActionState>(initialState);
+  const [pinDialogVisible, setPinDialogVisible] = useState(false);
+  const [savingPin, setSavingPin] = useState(false);
+
+  const describeAutoLock = useCallback(
+    (seconds: AutoLockSeconds) =>
+      seconds === 0
+        ? t('settings.security.autoLock.immediately')
+        : seconds < 60
+          ? t('settings.security.autoLock.seconds', { count: seconds })
+          : t('settings.security.autoLock.minutes', { count: seconds / 60 }),
+    [t]
+  );
+
+  const runUpdate = useCallback(
+    async (update: () => Promise<void>) => {
+      setState({ status: 'loading', message: null });
+      try {
+        await update();
+        setState({ status: 'success', message: t('settings.security.success') });
+      } catch (error) {
+        console.warn('Failed to update app lock settings', error);
+        setState({ status: 'error', message: t('settings.security.error') });
+      }
+    },
+    [t]
+  );
+
+  const handleToggleLock = useCallback(
+    (nextValue: boolean) => {
+      if (nextValue) {
+        setPinDialogVisible(true);
+        return;
+      }
+
+      Alert.alert(t('settings.security.disableTitle'), t('settings.security.disableMessage'), [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settings.security.disableConfirm'),
+          style: 'destructive',
+          onPress: () => void runUpdate(disable),
+        },
+      ]);
+    },
+    [disable, runUpdate, t]
+  );
+
+  const handlePinSubmit = useCallback(
+    async (pin: string) => {
+      setSavingPin(true);
+      await runUpdate(() => enableWithPin(pin));
+      setSavingPin(false);
+      setPinDialogVisible(false);
+    },
+    [enableWithPin, runUpdate]
+  );
+
+  const busy = state.status === 'loading';
+
+  return (
+    <ThemedView style={styles.membershipCard} lightColor="#ffffff" darkColor="rgba(255,255,255,0.05)">
+      <ThemedText type="subtitle" style={styles.cardTitle}>
+        {t('settings.security.title')}
+      </ThemedText>
+      <ThemedText style={styles.cardDescription}>{t('settings.security.description')}</ThemedText>
+
+      <View style={styles.membershipList}>
+        <View style={styles.membershipRow}>
+          <View style={styles.membershipInfo}>
+            <ThemedText style={styles.membershipName}>{t('settings.security.lock')}</ThemedText>
+          </View>
+          <Switch value={settings.enabled} onValueChange={handleToggleLock} disabled={busy} />
+        </View>
+
+        {settings.enabled ? (
+          <>
+            <View style={styles.membershipRow}>
+              <View style={styles.membershipInfo}>
+                <ThemedText style={styles.membershipName}>
+                  {t('settings.security.biometrics')}
+                </ThemedText>
+                {!biometricsAvailable ? (
+                  <ThemedText style={styles.membershipShort}>
+                    {t('settings.security.biometricsUnavailable')}
+                  </ThemedText>
+                ) : null}
+              </View>
+              <Switch
+                value={settings.biometricsEnabled && biometricsAvailable}
+                onValueChange={(nextValue) =>
+                  void runUpdate(() => updateSettings({ biometricsEnabled: nextValue }))
+                }
+                disabled={busy || !biometricsAvailable}
+              />
+            </View>
+
+            <View style={styles.securityOption}>
+              <ThemedText style={styles.membershipName}>
+                {t('settings.security.autoLock.title')}
+              </ThemedText>
+              <View style={styles.languageOptions}>
+                {AUTO_LOCK_OPTIONS.map((seconds) => {
+                  const isSelected = settings.autoLockSeconds === seconds;
+                  return (
+                    <Pressable
+                      key={seconds}
+                      onPress={() =>
+                        void runUpdate(() => updateSettings({ autoLockSeconds: seconds }))
+                      }
+                      disabled={busy}
+                      style={[styles.languageButton, isSelected && styles.languageButtonSelected]}
+                      accessibilityRole="button"
+                      accessibilityState={{ selected: isSelected }}
+                    >
+                      <ThemedText
+                        style={[
+                          styles.languageButtonLabel,
+                          isSelected && styles.languageButtonLabelSelected,
+                        ]}
+                      >
+                        {describeAutoLock(seconds)}
+                      </ThemedText>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+
+            <Pressable
+              style={[styles.membershipActionButton, busy && styles.cardButtonDisabled]}
+              onPress={() => setPinDialogVisible(true)}
+              disabled={busy}
+            >
+              <ThemedText style={styles.cardButtonLabel}>
+                {t('settings.security.changePin')}
+              </ThemedText>
+            </Pressable>
+          </>
+        ) : null}
+
+        <View style={styles.membershipRow}>
+          <View style={styles.membershipInfo}>
+            <ThemedText style={styles.membershipName}>
+              {t('settings.security.privacyCover')}
+            </ThemedText>
+            <ThemedText style={styles.membershipShort}>
+              {t('settings.security.privacyCoverDescription')}
+            </ThemedText>
+          </View>
+          <Switch
+            value={settings.privacyCover}
+            onValueChange={(nextValue) =>
+              void runUpdate(() => updateSettings({ privacyCover: nextValue }))
+            }
+            disabled={busy}
+          />
+        </View>
+      </View>
+
+      {state.message ? (
+        <ThemedText
+          style={[
+            styles.cardStatus,
+            state.status === 'success' && styles.cardStatusSuccess,
+            state.status === 'error' && styles.cardStatusError,
+          ]}
+        >
+          {state.message}
+        </ThemedText>
+      ) : null}
+
+      <PinSetupDialog
+        visible={pinDialogVisible}
+        title={settings.enabled ? t('settings.security.changePin') : t('settings.security.setPin')}
+        busy={savingPin}
+        onCancel={() => setPinDialogVisible(false)}
+        onSubmit={handlePinSubmit}
+      />
+    </ThemedView>
+  );
+}
+
 type MembershipCardProps = {
   title: string;
   description: string;
@@ -508,6 +1151,9 @@ type MembershipCardProps = {
   selectAllLabel: string;
   selectNoneLabel: string;
   emptyLabel: string;
+  documentsLabel: string;
+  editLabel: string;
+  getMembershipStatus: (organization: Organization) => string | null;
 };
 
 function MembershipCard({
@@ -526,6 +1172,9 @@ function MembershipCard({
   selectAllLabel,
   selectNoneLabel,
   emptyLabel,
+  documentsLabel,
+  editLabel,
+  getMembershipStatus,
 }: MembershipCardProps) {
   const isSuccess = state.status === 'success';
   const isError = state.status === 'error';
@@ -570,9 +1219,43 @@ function MembershipCard({
               <View style={styles.membershipInfo}>
                 <ThemedText style={styles.membershipName}>{organization.name}</ThemedText>
                 <ThemedText style={styles.membershipShort}>{organization.shortName}</ThemedText>
+                {organization.membership ? (
+                  <>
+                    <ThemedText
+                      style={[
+                        styles.membershipStatus,
+                        !organization.isMember && styles.membershipStatusExpired,
+                      ]}
+                    >
+                      {getMembershipStatus(organization)}
+                    </ThemedText>
+                    <View style={styles.membershipLinks}>
+                      <Link
+                        href={{
+                          pathname: '/membership/edit',
+                          params: { organizationId: organization.id },
+                        }}
+                      >
+                        <ThemedText type="link" style={styles.membershipDocumentsLink}>
+                          {editLabel}
+                        </ThemedText>
+                      </Link>
+                      <Link
+                        href={{
+                          pathname: '/membership/documents',
+                          params: { organizationId: organization.id },
+                        }}
+                      >
+                        <ThemedText type="link" style={styles.membershipDocumentsLink}>
+                          {documentsLabel}
+                        </ThemedText>
+                      </Link>
+                    </View>
+                  </>
+                ) : null}
               </View>
               <Switch
-                value={organization.isMember}
+                value={organization.isMember || organization.membership !== null}
                 onValueChange={(nextValue) => onToggleMembership(organization.id, nextValue)}
                 disabled={disabled || pendingOrganizationId === organization.id}
               />
@@ -734,4 +1417,22 @@ const styles = StyleSheet.create({
   membershipShort: {
     opacity: 0.7,
   },
+  membershipStatus: {
+    fontSize: 13,
+    opacity: 0.8,
+  },
+  membershipStatusExpired: {
+    color: '#dc2626',
+    opacity: 1,
+  },
+  membershipLinks: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  membershipDocumentsLink: {
+    fontSize: 14,
+  },
+  securityOption: {
+    gap: 8,
+  },
 });
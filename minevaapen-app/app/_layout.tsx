@@ -1,14 +1,22 @@
-import { useEffect, useState } from 'react';
-import { ActivityIndicator, View } from 'react-native';
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
 import { useTranslation } from 'react-i18next';
 
+import { AppLockProvider } from '@/components/app-lock-provider';
+import { EncryptionSetup } from '@/components/encryption-setup';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { MigrationError } from '@/src/database/migrations';
 import { ensureSeeded } from '@/src/database/seed';
-import '@/src/i18n';
+import { applyStoredLanguage } from '@/src/i18n';
+import { loadEncryptionKey } from '@/src/services/encryption';
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+import { encryptLegacyBackups, removeStagingDatabase } from '@/src/services/storage';
 
 export const unstable_settings = {
   anchor: '(tabs)',
@@ -16,30 +24,119 @@ export const unstable_settings = {
 
 export default function RootLayout() {
   const colorScheme = useColorScheme();
+  const [encryptionReady, setEncryptionReady] = useState<boolean | null>(null);
   const [databaseReady, setDatabaseReady] = useState(false);
+  const [databaseError, setDatabaseError] = useState<Error | null>(null);
+  const [attempt, setAttempt] = useState(0);
   const { t } = useTranslation();
 
   useEffect(() => {
     let isMounted = true;
 
+    // A plaintext copy left by an interrupted backup or restore must not outlive this start.
+    removeStagingDatabase();
+
+    // The key has to be in place before anything opens the database.
+    loadEncryptionKey()
+      .then((configured) => {
+        if (isMounted) {
+          setEncryptionReady(configured);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load encryption key', error);
+        if (isMounted) {
+          setDatabaseError(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [attempt]);
+
+  useEffect(() => {
+    if (!encryptionReady) {
+      return;
+    }
+
+    let isMounted = true;
+
     ensureSeeded()
+      // Startup screens use the cached language; this catches up when only the database has one.
+      .then(() =>
+        applyStoredLanguage().catch((error) => {
+          console.warn('Failed to apply stored language', error);
+        })
+      )
       .then(() => {
         if (isMounted) {
           setDatabaseReady(true);
         }
+
+        encryptLegacyBackups().catch((error) => {
+          console.warn('Failed to encrypt legacy backups', error);
+        });
       })
       .catch((error) => {
         console.error('Failed to seed database', error);
+        if (isMounted) {
+          setDatabaseError(error instanceof Error ? error : new Error(String(error)));
+        }
       });
 
     return () => {
       isMounted = false;
     };
+  }, [attempt, encryptionReady]);
+
+  useEffect(() => {
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      applyStoredLanguage().catch((error) => {
+        console.warn('Failed to apply stored language', error);
+      });
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, []);
+
+  const handleEncryptionSetupComplete = useCallback(() => {
+    setEncryptionReady(true);
   }, []);
 
+  const handleRetry = useCallback(() => {
+    setDatabaseError(null);
+    setAttempt((previous) => previous + 1);
+  }, []);
+
+  if (databaseError) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText type="subtitle" style={styles.errorTitle} accessibilityRole="alert">
+          {databaseError instanceof MigrationError
+            ? t('errors.databaseMigration', {
+                version: databaseError.version,
+                currentVersion: databaseError.currentVersion,
+              })
+            : t('errors.databaseSeeding')}
+        </ThemedText>
+        <ThemedText style={styles.errorDetails}>{databaseError.message}</ThemedText>
+        <Pressable onPress={handleRetry} style={styles.retryButton} accessibilityRole="button">
+          <ThemedText style={styles.retryText}>{t('common.retry')}</ThemedText>
+        </Pressable>
+      </ThemedView>
+    );
+  }
+
+  if (encryptionReady === false) {
+    return <EncryptionSetup onComplete={handleEncryptionSetupComplete} />;
+  }
+
   if (!databaseReady) {
     return (
-      <View style={{ flex: 1, alignItems: 'center', justifyContent: 'center' }}>
+      <View style={styles.centered}>
         <ActivityIndicator accessibilityLabel={t('common.loading')} />
       </View>
     );
@@ -47,14 +144,48 @@ export default function RootLayout() {
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen
-          name="modal"
-          options={{ presentation: 'modal', title: t('navigation.modalTitle') }}
-        />
-      </Stack>
+      <AppLockProvider>
+        <Stack>
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="weapon/[id]" options={{ title: t('weaponDetail.title') }} />
+          <Stack.Screen
+            name="attachment/view"
+            options={{ presentation: 'fullScreenModal', headerShown: false }}
+          />
+          <Stack.Screen
+            name="modal"
+            options={{ presentation: 'modal', title: t('navigation.modalTitle') }}
+          />
+        </Stack>
+      </AppLockProvider>
       <StatusBar style="auto" />
     </ThemeProvider>
   );
 }
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 12,
+  },
+  errorTitle: {
+    textAlign: 'center',
+  },
+  errorDetails: {
+    fontSize: 12,
+    opacity: 0.7,
+    textAlign: 'center',
+  },
+  retryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: 'rgba(37, 99, 235, 0.2)',
+  },
+  retryText: {
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,164 @@
+import { useCallback } from 'react';
+import { ActivityIndicator, Alert, Pressable, StyleSheet, View } from 'react-native';
+import { Image } from 'expo-image';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import * as Sharing from 'expo-sharing';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { isImageAttachment } from '@/src/database/attachments-repository';
+import { useAttachment } from '@/src/hooks/use-attachment';
+
+type LocalParams = {
+  attachmentId?: string;
+};
+
+/**
+ * Full-screen document viewer meant for showing a weapon card or approval at an inspection.
+ * Images render in-app; PDFs are handed to the system viewer.
+ */
+export default function AttachmentViewerScreen() {
+  const { attachmentId } = useLocalSearchParams<LocalParams>();
+  const { t } = useTranslation();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { attachment, loading, error } = useAttachment(attachmentId);
+
+  const handleOpenExternally = useCallback(async () => {
+    if (!attachment) {
+      return;
+    }
+
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert(t('attachments.viewer.unavailable'));
+        return;
+      }
+
+      await Sharing.shareAsync(attachment.fileUri, {
+        mimeType: attachment.mimeType ?? undefined,
+        dialogTitle: attachment.title ?? attachment.fileName,
+      });
+    } catch (err) {
+      console.warn('Failed to open attachment', err);
+      Alert.alert(t('attachments.feedback.error'));
+    }
+  }, [attachment, t]);
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top, paddingBottom: insets.bottom }]}>
+      <View style={styles.toolbar}>
+        <ThemedText
+          style={styles.toolbarTitle}
+          lightColor="#f8fafc"
+          darkColor="#f8fafc"
+          numberOfLines={1}
+        >
+          {attachment
+            ? `${t(`attachments.types.${attachment.attachmentType}` as const)} · ${
+                attachment.title ?? attachment.fileName
+              }`
+            : ''}
+        </ThemedText>
+        <Pressable
+          onPress={() => router.back()}
+          style={styles.toolbarButton}
+          accessibilityRole="button"
+        >
+          <ThemedText style={styles.toolbarButtonText} lightColor="#f8fafc" darkColor="#f8fafc">
+            {t('attachments.viewer.close')}
+          </ThemedText>
+        </Pressable>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator color="#f8fafc" accessibilityLabel={t('common.loading')} />
+        </View>
+      ) : error || !attachment ? (
+        <View style={styles.centered}>
+          <ThemedText lightColor="#f8fafc" darkColor="#f8fafc" accessibilityRole="alert">
+            {error?.message ?? t('attachments.viewer.notFound')}
+          </ThemedText>
+        </View>
+      ) : isImageAttachment(attachment) ? (
+        <Image
+          source={{ uri: attachment.fileUri }}
+          style={styles.image}
+          contentFit="contain"
+          accessibilityLabel={attachment.title ?? attachment.fileName}
+        />
+      ) : (
+        <View style={styles.centered}>
+          <ThemedText type="subtitle" lightColor="#f8fafc" darkColor="#f8fafc">
+            {attachment.fileName}
+          </ThemedText>
+          <ThemedText style={styles.hint} lightColor="#f8fafc" darkColor="#f8fafc">
+            {t('attachments.viewer.pdfHint')}
+          </ThemedText>
+        </View>
+      )}
+
+      {attachment ? (
+        <Pressable
+          onPress={handleOpenExternally}
+          style={styles.openButton}
+          accessibilityRole="button"
+        >
+          <ThemedText style={styles.toolbarButtonText} lightColor="#f8fafc" darkColor="#f8fafc">
+            {t('attachments.viewer.openExternally')}
+          </ThemedText>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  toolbarTitle: {
+    flex: 1,
+    fontWeight: '600',
+  },
+  toolbarButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  toolbarButtonText: {
+    fontWeight: '700',
+  },
+  image: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    padding: 24,
+  },
+  hint: {
+    textAlign: 'center',
+    opacity: 0.75,
+  },
+  openButton: {
+    margin: 16,
+    paddingVertical: 12,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.6)',
+  },
+});
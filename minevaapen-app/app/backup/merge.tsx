@@ -0,0 +1,506 @@
+import { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { PassphraseDialog, type PassphraseDialogValues } from '@/components/passphrase-dialog';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import type { SnapshotProgramLink } from '@/src/database/backup-snapshot';
+import { useBackupMergePreview } from '@/src/hooks/use-backup-merge-preview';
+import { BackupArchiveError } from '@/src/services/backup-archive';
+import type { ComparedWeaponField, DiffChange, WeaponDiff } from '@/src/services/restore-diff';
+import { mergeFromBackup } from '@/src/services/storage';
+
+type LocalParams = {
+  sourceUri?: string;
+  name?: string;
+};
+
+const FIELD_LABEL_KEYS = {
+  displayName: 'weaponForm.fields.displayName',
+  type: 'weaponForm.fields.type',
+  manufacturer: 'weaponForm.fields.manufacturer',
+  model: 'weaponForm.fields.model',
+  serialNumber: 'weaponForm.fields.serialNumber',
+  acquisitionDate: 'weaponForm.fields.acquisitionDate',
+  acquisitionPrice: 'weaponForm.fields.acquisitionPrice',
+  weaponCardRef: 'weaponForm.fields.weaponCardRef',
+  notes: 'weaponForm.fields.notes',
+  operationMode: 'weaponForm.fields.operationMode',
+  caliber: 'weaponForm.fields.caliber',
+  ownershipStatus: 'weaponForm.fields.ownershipStatus',
+  loanContactName: 'weaponForm.loan.contact',
+  loanStartDate: 'weaponForm.loan.start',
+  loanEndDate: 'weaponForm.loan.end',
+} as const satisfies Record<ComparedWeaponField, string>;
+
+const linkKey = (weaponId: string, programId: string) => `${weaponId}::${programId}`;
+
+const toggleInSet = (set: Set<string>, value: string, selected: boolean) => {
+  const next = new Set(set);
+  if (selected) {
+    next.add(value);
+  } else {
+    next.delete(value);
+  }
+  return next;
+};
+
+/**
+ * Shows how a backup differs from the data on this device and lets the user copy selected
+ * weapons, program links and memberships across instead of replacing everything.
+ */
+export default function BackupMergeScreen() {
+  const { sourceUri, name } = useLocalSearchParams<LocalParams>();
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const [passphrase, setPassphrase] = useState<string | undefined>(undefined);
+  const { preview, loading, error } = useBackupMergePreview(sourceUri, passphrase);
+  const [selectedWeapons, setSelectedWeapons] = useState<Set<string>>(new Set());
+  const [selectedLinks, setSelectedLinks] = useState<Set<string>>(new Set());
+  const [selectedOrganizations, setSelectedOrganizations] = useState<Set<string>>(new Set());
+  const [merging, setMerging] = useState(false);
+  const cardThemeStyle = colorScheme === 'dark' ? styles.cardDark : styles.cardLight;
+
+  const formatTimestamp = useCallback(
+    (value: string) => {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime())
+        ? value
+        : date.toLocaleString(i18n.language.replace('_', '-'));
+    },
+    [i18n.language]
+  );
+
+  const describeLink = useCallback(
+    (state: Pick<SnapshotProgramLink, 'status' | 'isReserve'> | null) => {
+      if (!state) {
+        return t('backupMerge.link.none');
+      }
+      const status =
+        state.status === 'approved'
+          ? t('weaponForm.programs.status.approved')
+          : t('weaponForm.programs.status.pending');
+      return state.isReserve ? `${status} · ${t('weapons.card.reserveBadge')}` : status;
+    },
+    [t]
+  );
+
+  const changeLabel = useCallback(
+    (change: DiffChange) => t(`backupMerge.change.${change}` as const),
+    [t]
+  );
+
+  const selectionCount = selectedWeapons.size + selectedLinks.size + selectedOrganizations.size;
+
+  const handleToggleWeapon = useCallback(
+    (weapon: WeaponDiff) => {
+      const selected = !selectedWeapons.has(weapon.weaponId);
+      setSelectedWeapons((previous) => toggleInSet(previous, weapon.weaponId, selected));
+
+      // A weapon new to this device is only useful together with its program links.
+      if (weapon.change === 'added') {
+        setSelectedLinks((previous) => {
+          let next = previous;
+          for (const link of weapon.programLinks) {
+            next = toggleInSet(next, linkKey(weapon.weaponId, link.programId), selected);
+          }
+          return next;
+        });
+      }
+    },
+    [selectedWeapons]
+  );
+
+  const handleToggleLink = useCallback((weaponId: string, programId: string) => {
+    const key = linkKey(weaponId, programId);
+    setSelectedLinks((previous) => toggleInSet(previous, key, !previous.has(key)));
+  }, []);
+
+  const handleToggleOrganization = useCallback((organizationId: string) => {
+    setSelectedOrganizations((previous) =>
+      toggleInSet(previous, organizationId, !previous.has(organizationId))
+    );
+  }, []);
+
+  const runMerge = useCallback(async () => {
+    if (!sourceUri) {
+      return;
+    }
+
+    setMerging(true);
+    try {
+      const result = await mergeFromBackup(
+        sourceUri,
+        {
+          weaponIds: [...selectedWeapons],
+          programLinks: [...selectedLinks].map((key) => {
+            const [weaponId, programId] = key.split('::');
+            return { weaponId, programId };
+          }),
+          organizationIds: [...selectedOrganizations],
+        },
+        { passphrase }
+      );
+
+      setSelectedWeapons(new Set());
+      setSelectedLinks(new Set());
+      setSelectedOrganizations(new Set());
+      Alert.alert(
+        t('backupMerge.success.title'),
+        t('backupMerge.success.message', {
+          weapons: result.weapons,
+          programLinks: result.programLinks,
+          memberships: result.memberships,
+          files: result.photos + result.attachments,
+        })
+      );
+    } catch (err) {
+      console.warn('Backup merge failed', err);
+      Alert.alert(t('backupMerge.error'));
+    } finally {
+      setMerging(false);
+    }
+  }, [passphrase, selectedLinks, selectedOrganizations, selectedWeapons, sourceUri, t]);
+
+  const handlePassphraseSubmit = useCallback(({ passphrase: value }: PassphraseDialogValues) => {
+    setPassphrase(value);
+  }, []);
+
+  const handleMerge = useCallback(() => {
+    Alert.alert(
+      t('backupMerge.confirm.title'),
+      t('backupMerge.confirm.message', { count: selectionCount }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('backupMerge.mergeButton'), onPress: () => void runMerge() },
+      ]
+    );
+  }, [runMerge, selectionCount, t]);
+
+  if (loading && !preview) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator accessibilityLabel={t('common.loading')} />
+      </ThemedView>
+    );
+  }
+
+  const needsPassphrase =
+    error instanceof BackupArchiveError &&
+    (error.code === 'passphraseRequired' || error.code === 'wrongPassphrase');
+
+  if (needsPassphrase) {
+    return (
+      <ThemedView style={styles.centered}>
+        <PassphraseDialog
+          visible={!loading}
+          mode="enter"
+          title={t('settings.restore.passphraseTitle')}
+          message={t('settings.restore.passphraseMessage', { name: name ?? '' })}
+          submitLabel={t('settings.restore.passphraseSubmit')}
+          error={
+            error.code === 'wrongPassphrase'
+              ? t('settings.restore.archiveErrors.wrongPassphrase')
+              : null
+          }
+          onCancel={() => router.back()}
+          onSubmit={handlePassphraseSubmit}
+        />
+      </ThemedView>
+    );
+  }
+
+  if (error || !preview) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText accessibilityRole="alert">
+          {error ? t('backupMerge.loadError') : t('backupMerge.notFound')}
+        </ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const { diff, manifest, summary } = preview;
+  const hasDifferences = diff.weapons.length > 0 || diff.memberships.length > 0;
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 96 + insets.bottom }]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            {t('backupMerge.title')}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>{name ?? ''}</ThemedText>
+          {manifest ? (
+            <ThemedText style={styles.subtitle}>
+              {t('settings.restore.confirm.created', {
+                createdAt: formatTimestamp(manifest.createdAt),
+                appVersion: manifest.appVersion,
+              })}
+            </ThemedText>
+          ) : null}
+          <ThemedText style={styles.subtitle}>
+            {t('backupMerge.summary', {
+              weapons: summary.weaponCount,
+              different: diff.weapons.length,
+              unchanged: diff.unchangedWeaponCount,
+            })}
+          </ThemedText>
+          <ThemedText style={styles.hint}>{t('backupMerge.description')}</ThemedText>
+        </View>
+
+        {!hasDifferences ? (
+          <ThemedText style={styles.hint}>{t('backupMerge.noDifferences')}</ThemedText>
+        ) : null}
+
+        {diff.weapons.length > 0 ? (
+          <View style={styles.section}>
+            <ThemedText type="subtitle">{t('backupMerge.weaponsTitle')}</ThemedText>
+            {diff.weapons.map((weapon) => {
+              const weaponSelectable = weapon.change !== 'removed';
+              const weaponSelected = selectedWeapons.has(weapon.weaponId);
+
+              return (
+                <View key={weapon.weaponId} style={[styles.card, cardThemeStyle]}>
+                  <SelectableRow
+                    label={weapon.displayName}
+                    meta={changeLabel(weapon.change)}
+                    selected={weaponSelected}
+                    disabled={!weaponSelectable || merging}
+                    onPress={() => handleToggleWeapon(weapon)}
+                  />
+                  {weapon.change === 'removed' ? (
+                    <ThemedText style={styles.meta}>{t('backupMerge.keptOnDevice')}</ThemedText>
+                  ) : null}
+                  {weapon.changedFields.length > 0 ? (
+                    <ThemedText style={styles.meta}>
+                      {t('backupMerge.changedFields', {
+                        fields: weapon.changedFields
+                          .map((field) => t(FIELD_LABEL_KEYS[field]))
+                          .join(', '),
+                      })}
+                    </ThemedText>
+                  ) : null}
+                  {weapon.backupUpdatedAt || weapon.currentUpdatedAt ? (
+                    <ThemedText style={styles.meta}>
+                      {t('backupMerge.updatedAt', {
+                        device: weapon.currentUpdatedAt
+                          ? formatTimestamp(weapon.currentUpdatedAt)
+                          : t('settings.restore.confirm.unknown'),
+                        backup: weapon.backupUpdatedAt
+                          ? formatTimestamp(weapon.backupUpdatedAt)
+                          : t('settings.restore.confirm.unknown'),
+                      })}
+                    </ThemedText>
+                  ) : null}
+                  {weapon.programLinks.map((link) => {
+                    const linkSelectable =
+                      link.change !== 'removed' &&
+                      (weapon.change !== 'added' || weaponSelected);
+                    return (
+                      <SelectableRow
+                        key={link.programId}
+                        indent
+                        label={link.programName}
+                        meta={t('backupMerge.link.compare', {
+                          device: describeLink(link.current),
+                          backup: describeLink(link.backup),
+                        })}
+                        selected={selectedLinks.has(linkKey(weapon.weaponId, link.programId))}
+                        disabled={!linkSelectable || merging}
+                        onPress={() => handleToggleLink(weapon.weaponId, link.programId)}
+                      />
+                    );
+                  })}
+                </View>
+              );
+            })}
+          </View>
+        ) : null}
+
+        {diff.memberships.length > 0 ? (
+          <View style={styles.section}>
+            <ThemedText type="subtitle">{t('backupMerge.membershipsTitle')}</ThemedText>
+            <View style={[styles.card, cardThemeStyle]}>
+              {diff.memberships.map((membership) => (
+                <SelectableRow
+                  key={membership.organizationId}
+                  label={membership.name}
+                  meta={t('backupMerge.membership.compare', {
+                    device: membership.current
+                      ? t('backupMerge.membership.member')
+                      : t('backupMerge.membership.notMember'),
+                    backup: membership.backup
+                      ? t('backupMerge.membership.member')
+                      : t('backupMerge.membership.notMember'),
+                  })}
+                  selected={selectedOrganizations.has(membership.organizationId)}
+                  disabled={merging}
+                  onPress={() => handleToggleOrganization(membership.organizationId)}
+                />
+              ))}
+            </View>
+          </View>
+        ) : null}
+      </ScrollView>
+
+      {hasDifferences ? (
+        <View style={[styles.footer, { paddingBottom: 16 + insets.bottom }]}>
+          <Pressable
+            onPress={handleMerge}
+            style={[styles.mergeButton, (selectionCount === 0 || merging) && styles.buttonDisabled]}
+            disabled={selectionCount === 0 || merging}
+            accessibilityRole="button"
+          >
+            {merging ? (
+              <ActivityIndicator size="small" />
+            ) : (
+              <ThemedText style={styles.mergeButtonText}>
+                {t('backupMerge.mergeSelected', { count: selectionCount })}
+              </ThemedText>
+            )}
+          </Pressable>
+        </View>
+      ) : null}
+    </ThemedView>
+  );
+}
+
+type SelectableRowProps = {
+  label: string;
+  meta: string;
+  selected: boolean;
+  disabled: boolean;
+  indent?: boolean;
+  onPress: () => void;
+};
+
+function SelectableRow({
+  label,
+  meta,
+  selected,
+  disabled,
+  indent = false,
+  onPress,
+}: SelectableRowProps) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={[styles.row, indent && styles.rowIndent, disabled && styles.rowDisabled]}
+      accessibilityRole="checkbox"
+      accessibilityState={{ checked: selected, disabled }}
+    >
+      <Feather
+        name={selected ? 'check-square' : 'square'}
+        size={20}
+        color={selected ? '#2563eb' : '#94a3b8'}
+      />
+      <View style={styles.rowText}>
+        <ThemedText style={styles.rowLabel}>{label}</ThemedText>
+        <ThemedText style={styles.meta}>{meta}</ThemedText>
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    gap: 24,
+  },
+  header: {
+    gap: 6,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.8,
+  },
+  hint: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  section: {
+    gap: 12,
+  },
+  card: {
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  cardDark: {
+    backgroundColor: 'rgba(255,255,255,0.04)',
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  cardLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.03)',
+    borderColor: 'rgba(15, 23, 42, 0.08)',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  rowIndent: {
+    paddingLeft: 24,
+  },
+  rowDisabled: {
+    opacity: 0.5,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowLabel: {
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  footer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  mergeButton: {
+    borderRadius: 16,
+    paddingVertical: 14,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.9)',
+  },
+  mergeButtonText: {
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+});
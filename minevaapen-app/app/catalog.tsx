@@ -0,0 +1,283 @@
+import { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import type { ProgramCatalog } from '@/src/data/catalog';
+import type { CatalogChange } from '@/src/database/catalog-sync';
+import { useProgramCatalog } from '@/src/hooks/use-program-catalog';
+import { CatalogError } from '@/src/services/program-catalog';
+import { importProgramCatalog, readCatalogFile } from '@/src/services/storage';
+
+type ImportState = {
+  status: 'idle' | 'loading' | 'success' | 'error';
+  message: string | null;
+};
+
+const initialState: ImportState = { status: 'idle', message: null };
+
+const WEAPON_CATEGORIES = ['pistol', 'revolver', 'rifle', 'shotgun'] as const;
+
+export default function ProgramCatalogScreen() {
+  const { t, i18n } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const cardThemeStyle = colorScheme === 'dark' ? styles.cardDark : styles.cardLight;
+
+  const { version, changelog, loading } = useProgramCatalog();
+  const [state, setState] = useState<ImportState>(initialState);
+
+  const formatTimestamp = useCallback(
+    (value: string) => {
+      const date = new Date(value);
+      return Number.isNaN(date.getTime())
+        ? value
+        : date.toLocaleString(i18n.language.replace('_', '-'));
+    },
+    [i18n.language]
+  );
+
+  const formatCategory = useCallback(
+    (value: string | null) => {
+      const category = WEAPON_CATEGORIES.find((entry) => entry === value);
+      return category ? t(`weapons.types.${category}` as const) : (value ?? '–');
+    },
+    [t]
+  );
+
+  const describeChange = useCallback(
+    (change: CatalogChange) =>
+      t(`catalog.changes.${change.kind}` as const, {
+        name: change.name,
+        from: change.kind === 'programRecategorized' ? formatCategory(change.from) : change.from,
+        to: change.kind === 'programRecategorized' ? formatCategory(change.to) : change.to,
+      }),
+    [formatCategory, t]
+  );
+
+  const runImport = useCallback(
+    async (catalog: ProgramCatalog) => {
+      setState({ status: 'loading', message: null });
+
+      try {
+        const result = await importProgramCatalog(catalog);
+        setState({
+          status: 'success',
+          message: t('catalog.importSuccess', {
+            version: result.toVersion,
+            count: result.changes.length,
+          }),
+        });
+      } catch (error) {
+        console.warn('Catalog import failed', error);
+        setState({
+          status: 'error',
+          message:
+            error instanceof CatalogError
+              ? t(`catalog.errors.${error.code}` as const, { details: error.message })
+              : t('catalog.importError'),
+        });
+      }
+    },
+    [t]
+  );
+
+  const handlePickFile = useCallback(async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) {
+        return;
+      }
+
+      const catalog = await readCatalogFile(result.assets[0].uri);
+      Alert.alert(
+        t('catalog.confirmTitle'),
+        t('catalog.confirmMessage', {
+          version: catalog.catalogVersion,
+          organizations: catalog.organizations.length,
+          programs: catalog.programs.length,
+        }),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('catalog.importButton'),
+            onPress: () => void runImport(catalog),
+          },
+        ]
+      );
+    } catch (error) {
+      console.warn('Failed to read catalog file', error);
+      setState({
+        status: 'error',
+        message:
+          error instanceof CatalogError
+            ? t(`catalog.errors.${error.code}` as const, { details: error.message })
+            : t('catalog.importError'),
+      });
+    }
+  }, [runImport, t]);
+
+  const isLoading = state.status === 'loading';
+
+  if (loading && version === null) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator accessibilityLabel={t('common.loading')} />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 32 + insets.bottom }]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            {t('catalog.title')}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>{t('catalog.description')}</ThemedText>
+          <ThemedText style={styles.version}>
+            {version === null
+              ? t('catalog.versionUnknown')
+              : t('catalog.version', { version })}
+          </ThemedText>
+        </View>
+
+        <Pressable
+          onPress={handlePickFile}
+          style={[styles.primaryButton, isLoading && styles.buttonDisabled]}
+          disabled={isLoading}
+        >
+          {isLoading ? (
+            <ActivityIndicator size="small" />
+          ) : (
+            <ThemedText style={styles.primaryButtonText}>{t('catalog.importButton')}</ThemedText>
+          )}
+        </Pressable>
+
+        {state.message ? (
+          <ThemedText
+            style={[
+              styles.status,
+              state.status === 'success' && styles.statusSuccess,
+              state.status === 'error' && styles.statusError,
+            ]}
+          >
+            {state.message}
+          </ThemedText>
+        ) : null}
+
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionLabel}>{t('catalog.changelogTitle')}</ThemedText>
+          {changelog ? (
+            <View style={[styles.card, cardThemeStyle]}>
+              <ThemedText style={styles.helperText}>
+                {t('catalog.changelogSummary', {
+                  from: changelog.fromVersion ?? '–',
+                  to: changelog.toVersion,
+                  date: formatTimestamp(changelog.appliedAt),
+                })}
+              </ThemedText>
+              {changelog.changes.map((change) => (
+                <ThemedText key={`${change.kind}-${change.id}`} style={styles.changeText}>
+                  {describeChange(change)}
+                </ThemedText>
+              ))}
+            </View>
+          ) : (
+            <ThemedText style={styles.helperText}>{t('catalog.changelogEmpty')}</ThemedText>
+          )}
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    gap: 24,
+  },
+  header: {
+    gap: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  version: {
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  section: {
+    gap: 8,
+  },
+  sectionLabel: {
+    fontWeight: '600',
+    opacity: 0.9,
+  },
+  helperText: {
+    fontSize: 13,
+    opacity: 0.75,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 12,
+    gap: 6,
+  },
+  cardDark: {
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  cardLight: {
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    backgroundColor: 'rgba(15, 23, 42, 0.02)',
+  },
+  changeText: {
+    fontSize: 14,
+  },
+  primaryButton: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.3)',
+  },
+  primaryButtonText: {
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  status: {
+    textAlign: 'center',
+  },
+  statusSuccess: {
+    color: '#15803d',
+  },
+  statusError: {
+    color: '#b91c1c',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+});
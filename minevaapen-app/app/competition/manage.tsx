@@ -0,0 +1,627 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import DateTimePicker, {
+  type DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+
+import { AttachmentList } from '@/components/attachment-list';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  deleteCompetition,
+  upsertCompetition,
+  type CompetitionEventType,
+} from '@/src/database/competitions-repository';
+import { useCompetition } from '@/src/hooks/use-competition';
+import { useOrganizations } from '@/src/hooks/use-organizations';
+import { usePrograms } from '@/src/hooks/use-programs';
+import { useWeapons } from '@/src/hooks/use-weapons';
+
+const eventTypes: CompetitionEventType[] = ['open', 'closed', 'international'];
+
+type LocalParams = {
+  competitionId?: string;
+  programId?: string;
+};
+
+const createCompetitionId = () =>
+  `competition-${Date.now()}-${Math.round(Math.random() * 1_000_000)}`;
+
+const toIsoDateString = (date: Date) => {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const parseIsoDate = (value: string | null | undefined): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  const [year, month, day] = value.split('-').map(Number);
+  if (Number.isNaN(year) || Number.isNaN(month) || Number.isNaN(day)) {
+    return null;
+  }
+
+  return new Date(year, month - 1, day);
+};
+
+const formatDateLabel = (value: string, locale: string) => {
+  const parsed = parseIsoDate(value);
+  if (!parsed) {
+    return value;
+  }
+
+  try {
+    const normalizedLocale = locale ? locale.replace(/_/g, '-') : 'nb-NO';
+    return new Intl.DateTimeFormat(normalizedLocale, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    }).format(parsed);
+  } catch (error) {
+    console.warn('Failed to format date label, falling back to ISO', error);
+    return value;
+  }
+};
+
+export default function ManageCompetitionScreen() {
+  const { competitionId, programId: initialProgramId } = useLocalSearchParams<LocalParams>();
+  const isEditMode = typeof competitionId === 'string' && competitionId.length > 0;
+
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const inputThemeStyle = colorScheme === 'dark' ? styles.inputDark : styles.inputLight;
+  const chipThemeStyle = colorScheme === 'dark' ? styles.chipDark : styles.chipLight;
+  const placeholderColor =
+    colorScheme === 'dark' ? 'rgba(248, 250, 252, 0.6)' : 'rgba(15, 23, 42, 0.5)';
+
+  const {
+    competition,
+    loading: competitionLoading,
+    error: competitionError,
+  } = useCompetition(competitionId);
+  const { organizations, loading: organizationsLoading } = useOrganizations();
+  const memberOrganizations = useMemo(
+    () => organizations.filter((org) => org.isMember),
+    [organizations]
+  );
+  const memberOrganizationIds = useMemo(
+    () => memberOrganizations.map((org) => org.id),
+    [memberOrganizations]
+  );
+  const { programs, loading: programsLoading } = usePrograms({
+    allowedOrganizationIds: memberOrganizationIds,
+  });
+  const { weapons } = useWeapons();
+
+  const [date, setDate] = useState(toIsoDateString(new Date()));
+  const [eventName, setEventName] = useState('');
+  const [eventType, setEventType] = useState<CompetitionEventType>('open');
+  const [programId, setProgramId] = useState<string | null>(initialProgramId ?? null);
+  const [weaponId, setWeaponId] = useState<string | null>(null);
+  const [result, setResult] = useState('');
+  const [isShowingDatePicker, setIsShowingDatePicker] = useState(false);
+  const [expandedOrganizationId, setExpandedOrganizationId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!isEditMode || !competition) {
+      return;
+    }
+
+    setDate(competition.date);
+    setEventName(competition.eventName);
+    setEventType(competition.eventType);
+    setProgramId(competition.programId);
+    setWeaponId(competition.weaponId);
+    setResult(competition.result ?? '');
+  }, [competition, isEditMode]);
+
+  const groupedPrograms = useMemo(
+    () =>
+      memberOrganizations
+        .map((org) => ({
+          id: org.id,
+          name: org.name,
+          programs: programs
+            .filter((program) => program.organizationId === org.id)
+            .sort((a, b) => a.name.localeCompare(b.name, 'nb')),
+        }))
+        .filter((group) => group.programs.length > 0),
+    [memberOrganizations, programs]
+  );
+
+  const selectedProgram = useMemo(
+    () => programs.find((program) => program.id === programId) ?? null,
+    [programId, programs]
+  );
+
+  const sortedWeapons = useMemo(() => {
+    if (!programId) {
+      return weapons;
+    }
+
+    // Weapons linked to the chosen program come first.
+    const linked = (weapon: (typeof weapons)[number]) =>
+      weapon.programs.some((program) => program.programId === programId);
+    return [...weapons].sort((a, b) => Number(linked(b)) - Number(linked(a)));
+  }, [programId, weapons]);
+
+  const handleDateChange = useCallback((event: DateTimePickerEvent, value?: Date) => {
+    if (Platform.OS === 'android') {
+      setIsShowingDatePicker(false);
+    }
+
+    if (event.type !== 'set' || !value) {
+      return;
+    }
+
+    setDate(toIsoDateString(value));
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (!eventName.trim()) {
+      Alert.alert(t('competitionForm.validation.eventName'));
+      return;
+    }
+
+    if (!programId) {
+      Alert.alert(t('competitionForm.validation.program'));
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await upsertCompetition({
+        id: isEditMode && competitionId ? competitionId : createCompetitionId(),
+        date,
+        programId,
+        eventName: eventName.trim(),
+        eventType,
+        weaponId,
+        result: result.trim() || null,
+      });
+
+      router.back();
+    } catch (error) {
+      console.warn('Failed to save competition', error);
+      Alert.alert(t('competitionForm.feedback.error'));
+    } finally {
+      setSaving(false);
+    }
+  }, [
+    competitionId,
+    date,
+    eventName,
+    eventType,
+    isEditMode,
+    programId,
+    result,
+    router,
+    t,
+    weaponId,
+  ]);
+
+  const handleDelete = useCallback(() => {
+    if (!isEditMode || !competitionId) {
+      return;
+    }
+
+    Alert.alert(
+      t('competitionForm.delete.confirmTitle'),
+      t('competitionForm.delete.confirmMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            setDeleting(true);
+            try {
+              await deleteCompetition(competitionId);
+              router.back();
+            } catch (error) {
+              console.warn('Failed to delete competition', error);
+              Alert.alert(t('competitionForm.feedback.error'));
+            } finally {
+              setDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [competitionId, isEditMode, router, t]);
+
+  if (isEditMode && !competition && !competitionLoading) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText>{competitionError?.message ?? t('competitionForm.notFound')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if ((isEditMode && competitionLoading) || organizationsLoading || programsLoading) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator accessibilityLabel={t('common.loading')} />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 32 + insets.bottom }]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            {isEditMode ? t('competitionForm.title.edit') : t('competitionForm.title.new')}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>{t('competitionForm.description')}</ThemedText>
+        </View>
+
+        <View style={styles.fieldSet}>
+          <FormField label={t('competitionForm.fields.eventName')}>
+            <TextInput
+              value={eventName}
+              onChangeText={setEventName}
+              style={[styles.input, inputThemeStyle]}
+              placeholder={t('competitionForm.fields.eventNamePlaceholder')}
+              placeholderTextColor={placeholderColor}
+              editable={!saving}
+            />
+          </FormField>
+
+          <FormField label={t('competitionForm.fields.date')}>
+            <Pressable
+              onPress={() => setIsShowingDatePicker((previous) => !previous)}
+              style={[styles.chip, chipThemeStyle, styles.dateButton]}
+              disabled={saving}
+            >
+              <ThemedText style={styles.dateButtonText}>
+                {formatDateLabel(date, i18n.language)}
+              </ThemedText>
+            </Pressable>
+            {isShowingDatePicker ? (
+              <DateTimePicker
+                value={parseIsoDate(date) ?? new Date()}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={handleDateChange}
+                maximumDate={new Date()}
+              />
+            ) : null}
+          </FormField>
+
+          <FormField label={t('competitionForm.fields.eventType')}>
+            <View style={styles.chipRow}>
+              {eventTypes.map((option) => (
+                <Pressable
+                  key={option}
+                  onPress={() => setEventType(option)}
+                  style={[styles.chip, chipThemeStyle, eventType === option && styles.chipSelected]}
+                  accessibilityState={{ selected: eventType === option }}
+                  disabled={saving}
+                >
+                  <ThemedText
+                    style={[styles.chipLabel, eventType === option && styles.chipLabelSelected]}
+                  >
+                    {t(`competitions.eventTypes.${option}` as const)}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          </FormField>
+
+          <FormField label={t('competitionForm.fields.program')}>
+            {selectedProgram ? (
+              <ThemedText style={styles.selectedValue}>
+                {t('competitionForm.programSelected', { name: selectedProgram.name })}
+              </ThemedText>
+            ) : null}
+            {groupedPrograms.length === 0 ? (
+              <ThemedText style={styles.membershipNotice}>
+                {t('weaponForm.memberships.empty')}
+              </ThemedText>
+            ) : (
+              groupedPrograms.map((group) => {
+                const isExpanded =
+                  expandedOrganizationId === group.id ||
+                  (expandedOrganizationId === null &&
+                    group.programs.some((program) => program.id === programId));
+
+                return (
+                  <View key={group.id} style={styles.programGroup}>
+                    <Pressable
+                      onPress={() => setExpandedOrganizationId(isExpanded ? '' : group.id)}
+                      style={[styles.groupHeader, chipThemeStyle]}
+                      accessibilityRole="button"
+                      accessibilityState={{ expanded: isExpanded }}
+                    >
+                      <ThemedText style={styles.groupTitle}>{group.name}</ThemedText>
+                    </Pressable>
+                    {isExpanded ? (
+                      <View style={styles.chipRow}>
+                        {group.programs.map((program) => (
+                          <Pressable
+                            key={program.id}
+                            onPress={() => setProgramId(program.id)}
+                            style={[
+                              styles.chip,
+                              chipThemeStyle,
+                              programId === program.id && styles.chipSelected,
+                            ]}
+                            accessibilityState={{ selected: programId === program.id }}
+                            disabled={saving}
+                          >
+                            <ThemedText
+                              style={[
+                                styles.chipLabel,
+                                programId === program.id && styles.chipLabelSelected,
+                              ]}
+                            >
+                              {program.name}
+                            </ThemedText>
+                          </Pressable>
+                        ))}
+                      </View>
+                    ) : null}
+                  </View>
+                );
+              })
+            )}
+          </FormField>
+
+          <FormField label={t('competitionForm.fields.weapon')}>
+            <View style={styles.chipRow}>
+              <Pressable
+                onPress={() => setWeaponId(null)}
+                style={[styles.chip, chipThemeStyle, weaponId === null && styles.chipSelected]}
+                disabled={saving}
+              >
+                <ThemedText style={[styles.chipLabel, weaponId === null && styles.chipLabelSelected]}>
+                  {t('competitionForm.noWeapon')}
+                </ThemedText>
+              </Pressable>
+              {sortedWeapons.map((weapon) => (
+                <Pressable
+                  key={weapon.id}
+                  onPress={() => setWeaponId(weapon.id)}
+                  style={[styles.chip, chipThemeStyle, weaponId === weapon.id && styles.chipSelected]}
+                  disabled={saving}
+                >
+                  <ThemedText
+                    style={[styles.chipLabel, weaponId === weapon.id && styles.chipLabelSelected]}
+                  >
+                    {weapon.displayName}
+                  </ThemedText>
+                </Pressable>
+              ))}
+            </View>
+          </FormField>
+
+          <FormField label={t('competitionForm.fields.result')}>
+            <TextInput
+              value={result}
+              onChangeText={setResult}
+              style={[styles.input, inputThemeStyle]}
+              placeholder={t('competitionForm.fields.resultPlaceholder')}
+              placeholderTextColor={placeholderColor}
+              editable={!saving}
+            />
+          </FormField>
+
+          <FormField label={t('competitionForm.fields.attachment')}>
+            <AttachmentList
+              ownerType="competition"
+              ownerId={isEditMode && competitionId ? competitionId : null}
+              defaultType="competitionResult"
+              disabled={saving || deleting}
+            />
+          </FormField>
+        </View>
+
+        <View style={styles.buttonGroup}>
+          <Pressable
+            onPress={handleSave}
+            style={[styles.primaryButton, saving && styles.buttonDisabled]}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>
+                {t('competitionForm.actions.save')}
+              </ThemedText>
+            )}
+          </Pressable>
+
+          {isEditMode ? (
+            <Pressable
+              onPress={handleDelete}
+              style={[styles.deleteButton, deleting && styles.buttonDisabled]}
+              disabled={deleting}
+            >
+              {deleting ? (
+                <ActivityIndicator size="small" />
+              ) : (
+                <ThemedText style={styles.deleteButtonText}>
+                  {t('competitionForm.actions.delete')}
+                </ThemedText>
+              )}
+            </Pressable>
+          ) : null}
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+type FormFieldProps = {
+  label: string;
+  children: React.ReactNode;
+};
+
+function FormField({ label, children }: FormFieldProps) {
+  return (
+    <View style={styles.formField}>
+      <ThemedText style={styles.formLabel}>{label}</ThemedText>
+      {children}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    gap: 24,
+  },
+  header: {
+    gap: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  membershipNotice: {
+    fontWeight: '600',
+    color: '#b45309',
+  },
+  fieldSet: {
+    gap: 16,
+  },
+  formField: {
+    gap: 8,
+  },
+  formLabel: {
+    fontWeight: '600',
+    opacity: 0.9,
+  },
+  selectedValue: {
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+  },
+  inputDark: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderColor: 'rgba(255,255,255,0.24)',
+    color: '#f8fafc',
+  },
+  inputLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.04)',
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    color: '#111827',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipDark: {
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  chipLight: {
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    backgroundColor: 'rgba(15, 23, 42, 0.02)',
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(37, 99, 235, 0.22)',
+    borderColor: 'rgba(37, 99, 235, 0.45)',
+  },
+  chipLabel: {
+    opacity: 0.85,
+  },
+  chipLabelSelected: {
+    fontWeight: '600',
+    opacity: 1,
+  },
+  dateButton: {
+    borderRadius: 12,
+    paddingVertical: 10,
+  },
+  dateButtonText: {
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  programGroup: {
+    gap: 8,
+  },
+  groupHeader: {
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  groupTitle: {
+    fontWeight: '600',
+  },
+  buttonGroup: {
+    gap: 12,
+  },
+  primaryButton: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.3)',
+  },
+  primaryButtonText: {
+    fontWeight: '700',
+  },
+  deleteButton: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: 'rgba(220, 38, 38, 0.25)',
+  },
+  deleteButtonText: {
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+});
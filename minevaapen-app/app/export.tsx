@@ -0,0 +1,523 @@
+import { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Switch, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import * as Sharing from 'expo-sharing';
+import { useLocalSearchParams } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import type { WeaponFilters } from '@/src/database/weapons-repository';
+import { useCsvExportPreset } from '@/src/hooks/use-csv-export-preset';
+import type { CsvDelimiter } from '@/src/services/csv';
+import { exportWeaponsToCsv } from '@/src/services/storage';
+import {
+  CSV_DELIMITERS,
+  DEFAULT_CSV_EXPORT_OPTIONS,
+  WEAPON_CSV_COLUMNS,
+  type CsvExportOptions,
+  type WeaponCsvColumn,
+} from '@/src/services/weapon-csv';
+
+/** Filters of the weapon list, passed along when the export is opened from there. */
+type LocalParams = {
+  organizationId?: string;
+  programId?: string;
+  reserveFilter?: WeaponFilters['reserveFilter'];
+  ownershipFilter?: WeaponFilters['ownershipFilter'];
+  search?: string;
+};
+
+type ExportState = {
+  status: 'idle' | 'loading' | 'success' | 'error';
+  message: string | null;
+};
+
+const initialState: ExportState = { status: 'idle', message: null };
+
+const DELIMITER_KEYS = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+} as const satisfies Record<CsvDelimiter, string>;
+
+export default function CsvExportScreen() {
+  const params = useLocalSearchParams<LocalParams>();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const chipThemeStyle = colorScheme === 'dark' ? styles.chipDark : styles.chipLight;
+  const cardThemeStyle = colorScheme === 'dark' ? styles.cardDark : styles.cardLight;
+
+  const { preset, loaded, savePreset } = useCsvExportPreset();
+  const [draft, setDraft] = useState<CsvExportOptions | null>(null);
+  const options = draft ?? preset;
+
+  const viewFilters = useMemo<WeaponFilters | null>(() => {
+    const filters: WeaponFilters = {
+      organizationId: params.organizationId || null,
+      programId: params.programId || null,
+      reserveFilter: params.reserveFilter,
+      ownershipFilter: params.ownershipFilter,
+      search: params.search || null,
+    };
+    const isFiltered =
+      Boolean(filters.organizationId || filters.programId || filters.search) ||
+      (filters.reserveFilter !== undefined && filters.reserveFilter !== 'any') ||
+      (filters.ownershipFilter !== undefined && filters.ownershipFilter !== 'all');
+    return isFiltered ? filters : null;
+  }, [
+    params.organizationId,
+    params.ownershipFilter,
+    params.programId,
+    params.reserveFilter,
+    params.search,
+  ]);
+  const [onlyCurrentView, setOnlyCurrentView] = useState(true);
+
+  const [state, setState] = useState<ExportState>(initialState);
+  const [exportPath, setExportPath] = useState<string | null>(null);
+
+  const orderedColumns = useMemo(
+    () => [
+      ...options.columns,
+      ...WEAPON_CSV_COLUMNS.filter((column) => !options.columns.includes(column)),
+    ],
+    [options.columns]
+  );
+
+  const updateOptions = useCallback(
+    (changes: Partial<CsvExportOptions>) => setDraft({ ...options, ...changes }),
+    [options]
+  );
+
+  const handleToggleColumn = useCallback(
+    (column: WeaponCsvColumn) => {
+      const selected = options.columns.includes(column);
+      // Re-enabled columns come back where they were listed, not at the end.
+      updateOptions({
+        columns: selected
+          ? options.columns.filter((item) => item !== column)
+          : orderedColumns.filter((item) => item === column || options.columns.includes(item)),
+      });
+    },
+    [options.columns, orderedColumns, updateOptions]
+  );
+
+  const handleMoveColumn = useCallback(
+    (column: WeaponCsvColumn, offset: -1 | 1) => {
+      const columns = [...options.columns];
+      const index = columns.indexOf(column);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= columns.length) {
+        return;
+      }
+      [columns[index], columns[target]] = [columns[target], columns[index]];
+      updateOptions({ columns });
+    },
+    [options.columns, updateOptions]
+  );
+
+  const shareExport = useCallback(
+    async (path: string) => {
+      try {
+        if (!(await Sharing.isAvailableAsync())) {
+          setState({ status: 'error', message: t('settings.export.shareUnavailable') });
+          return;
+        }
+
+        await Sharing.shareAsync(path, {
+          dialogTitle: t('settings.export.shareDialogTitle'),
+          mimeType: 'text/csv',
+        });
+      } catch (error) {
+        console.warn('Weapon CSV share failed', error);
+        setState({ status: 'error', message: t('settings.export.shareError') });
+      }
+    },
+    [t]
+  );
+
+  const handleExport = useCallback(async () => {
+    setState({ status: 'loading', message: null });
+
+    try {
+      const filters = viewFilters && onlyCurrentView ? viewFilters : undefined;
+      const path = await exportWeaponsToCsv(options, filters);
+      savePreset(options);
+      setExportPath(path);
+      setState({ status: 'success', message: t('settings.export.success', { path }) });
+      await shareExport(path);
+    } catch (error) {
+      console.warn('Weapon CSV export failed', error);
+      setExportPath(null);
+      setState({ status: 'error', message: t('settings.export.error') });
+    }
+  }, [onlyCurrentView, options, savePreset, shareExport, t, viewFilters]);
+
+  const isLoading = state.status === 'loading';
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, chipThemeStyle, selected && styles.chipSelected]}
+      accessibilityState={{ selected }}
+      disabled={isLoading}
+    >
+      <ThemedText style={[styles.chipLabel, selected && styles.chipLabelSelected]}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  if (!loaded) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator accessibilityLabel={t('common.loading')} />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 32 + insets.bottom }]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            {t('csvExport.title')}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>{t('csvExport.description')}</ThemedText>
+        </View>
+
+        {viewFilters ? (
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <ThemedText style={styles.sectionLabel}>{t('csvExport.onlyCurrentView')}</ThemedText>
+              <ThemedText style={styles.helperText}>
+                {t('csvExport.onlyCurrentViewHint')}
+              </ThemedText>
+            </View>
+            <Switch
+              value={onlyCurrentView}
+              onValueChange={setOnlyCurrentView}
+              disabled={isLoading}
+            />
+          </View>
+        ) : null}
+
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionLabel}>{t('csvExport.delimiter')}</ThemedText>
+          <View style={styles.chipRow}>
+            {CSV_DELIMITERS.map((delimiter) =>
+              renderChip(
+                DELIMITER_KEYS[delimiter],
+                t(`csvExport.delimiters.${DELIMITER_KEYS[delimiter]}` as const),
+                options.delimiter === delimiter,
+                () => updateOptions({ delimiter })
+              )
+            )}
+          </View>
+          <ThemedText style={styles.helperText}>{t('csvExport.delimiterHint')}</ThemedText>
+        </View>
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchText}>
+            <ThemedText style={styles.sectionLabel}>{t('csvExport.includeBom')}</ThemedText>
+            <ThemedText style={styles.helperText}>{t('csvExport.includeBomHint')}</ThemedText>
+          </View>
+          <Switch
+            value={options.includeBom}
+            onValueChange={(includeBom) => updateOptions({ includeBom })}
+            disabled={isLoading}
+          />
+        </View>
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchText}>
+            <ThemedText style={styles.sectionLabel}>{t('csvExport.localizedHeaders')}</ThemedText>
+            <ThemedText style={styles.helperText}>
+              {t('csvExport.localizedHeadersHint')}
+            </ThemedText>
+          </View>
+          <Switch
+            value={options.localizedHeaders}
+            onValueChange={(localizedHeaders) => updateOptions({ localizedHeaders })}
+            disabled={isLoading}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <ThemedText style={styles.sectionLabel}>
+              {t('csvExport.columns', {
+                selected: options.columns.length,
+                total: WEAPON_CSV_COLUMNS.length,
+              })}
+            </ThemedText>
+            <Pressable
+              onPress={() => setDraft(DEFAULT_CSV_EXPORT_OPTIONS)}
+              disabled={isLoading}
+              accessibilityRole="button"
+            >
+              <ThemedText style={styles.linkText}>{t('csvExport.reset')}</ThemedText>
+            </Pressable>
+          </View>
+          <View style={[styles.card, cardThemeStyle]}>
+            {orderedColumns.map((column) => {
+              const selected = options.columns.includes(column);
+              const index = options.columns.indexOf(column);
+              // At least one column has to stay selected.
+              const canToggle = !selected || options.columns.length > 1;
+              return (
+                <View key={column} style={styles.columnRow}>
+                  <Pressable
+                    onPress={() => handleToggleColumn(column)}
+                    disabled={!canToggle || isLoading}
+                    style={styles.columnToggle}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: selected, disabled: !canToggle }}
+                  >
+                    <Feather
+                      name={selected ? 'check-square' : 'square'}
+                      size={20}
+                      color={selected ? '#2563eb' : '#94a3b8'}
+                    />
+                    <ThemedText style={[styles.columnLabel, !selected && styles.columnUnselected]}>
+                      {t(`csvColumns.${column}` as const)}
+                    </ThemedText>
+                  </Pressable>
+                  {selected ? (
+                    <View style={styles.moveButtons}>
+                      <Pressable
+                        onPress={() => handleMoveColumn(column, -1)}
+                        disabled={index === 0 || isLoading}
+                        style={[styles.moveButton, index === 0 && styles.buttonDisabled]}
+                        accessibilityRole="button"
+                        accessibilityLabel={t('csvExport.moveUp')}
+                      >
+                        <Feather name="arrow-up" size={18} color="#2563eb" />
+                      </Pressable>
+                      <Pressable
+                        onPress={() => handleMoveColumn(column, 1)}
+                        disabled={index === options.columns.length - 1 || isLoading}
+                        style={[
+                          styles.moveButton,
+                          index === options.columns.length - 1 && styles.buttonDisabled,
+                        ]}
+                        accessibilityRole="button"
+                        accessibilityLabel={t('csvExport.moveDown')}
+                      >
+                        <Feather name="arrow-down" size={18} color="#2563eb" />
+                      </Pressable>
+                    </View>
+                  ) : null}
+                </View>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.buttonGroup}>
+          <Pressable
+            onPress={handleExport}
+            style={[styles.primaryButton, isLoading && styles.buttonDisabled]}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <ActivityIndicator size="small" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>
+                {t('settings.export.button')}
+              </ThemedText>
+            )}
+          </Pressable>
+
+          {exportPath && !isLoading ? (
+            <Pressable onPress={() => void shareExport(exportPath)} style={styles.secondaryButton}>
+              <ThemedText style={styles.secondaryButtonText}>
+                {t('settings.export.shareButton')}
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </View>
+
+        {state.message ? (
+          <ThemedText
+            style={[
+              styles.status,
+              state.status === 'success' && styles.statusSuccess,
+              state.status === 'error' && styles.statusError,
+            ]}
+          >
+            {state.message}
+          </ThemedText>
+        ) : null}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    gap: 24,
+  },
+  header: {
+    gap: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  section: {
+    gap: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  sectionLabel: {
+    fontWeight: '600',
+    opacity: 0.9,
+  },
+  helperText: {
+    fontSize: 13,
+    opacity: 0.75,
+  },
+  linkText: {
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipDark: {
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  chipLight: {
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    backgroundColor: 'rgba(15, 23, 42, 0.02)',
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(37, 99, 235, 0.22)',
+    borderColor: 'rgba(37, 99, 235, 0.45)',
+  },
+  chipLabel: {
+    opacity: 0.85,
+  },
+  chipLabelSelected: {
+    fontWeight: '600',
+    opacity: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchText: {
+    flex: 1,
+    gap: 2,
+  },
+  card: {
+    gap: 4,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  cardDark: {
+    backgroundColor: 'rgba(255,255,255,0.04)',
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  cardLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.03)',
+    borderColor: 'rgba(15, 23, 42, 0.08)',
+  },
+  columnRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  columnToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  columnLabel: {
+    flex: 1,
+  },
+  columnUnselected: {
+    opacity: 0.6,
+  },
+  moveButtons: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  moveButton: {
+    padding: 6,
+  },
+  buttonGroup: {
+    gap: 12,
+  },
+  primaryButton: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.3)',
+  },
+  primaryButtonText: {
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(37, 99, 235, 0.45)',
+  },
+  secondaryButtonText: {
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  status: {
+    textAlign: 'center',
+  },
+  statusSuccess: {
+    color: '#15803d',
+  },
+  statusError: {
+    color: '#b91c1c',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+});
@@ -0,0 +1,91 @@
+import { useMemo } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, View } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { AttachmentList } from '@/components/attachment-list';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useOrganizations } from '@/src/hooks/use-organizations';
+
+type LocalParams = {
+  organizationId?: string;
+};
+
+export default function MembershipDocumentsScreen() {
+  const { organizationId } = useLocalSearchParams<LocalParams>();
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const { organizations, loading, error } = useOrganizations();
+
+  const organization = useMemo(
+    () => organizations.find((org) => org.id === organizationId) ?? null,
+    [organizationId, organizations]
+  );
+
+  if (loading) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator accessibilityLabel={t('common.loading')} />
+      </ThemedView>
+    );
+  }
+
+  if (error || !organization) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText accessibilityRole="alert">
+          {error?.message ?? t('membershipDocuments.notFound')}
+        </ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 32 + insets.bottom }]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            {organization.name}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>{t('membershipDocuments.description')}</ThemedText>
+        </View>
+        <AttachmentList
+          ownerType="membership"
+          ownerId={organization.id}
+          defaultType="policeApproval"
+        />
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    gap: 24,
+  },
+  header: {
+    gap: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+});
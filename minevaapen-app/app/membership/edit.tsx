@@ -0,0 +1,484 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import DateTimePicker, {
+  type DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+
+import { AttachmentList } from '@/components/attachment-list';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { deleteMemberships, upsertMembership } from '@/src/database/memberships-repository';
+import { useMembership } from '@/src/hooks/use-membership';
+import { useOrganizations } from '@/src/hooks/use-organizations';
+import { getMembershipValidUntil, isMembershipValid } from '@/src/rules/membership-validity';
+
+type LocalParams = {
+  organizationId?: string;
+};
+
+const parseIsoDate = (value: string | null | undefined): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  const [year, month, day] = value.split('-').map(Number);
+  if (Number.isNaN(year) || Number.isNaN(month) || Number.isNaN(day)) {
+    return null;
+  }
+
+  return new Date(year, month - 1, day);
+};
+
+const toIsoDateString = (date: Date) => {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const formatDateLabel = (value: string | null, locale: string, placeholder: string) => {
+  const parsed = parseIsoDate(value);
+  if (!value || !parsed) {
+    return placeholder;
+  }
+
+  try {
+    const normalizedLocale = locale ? locale.replace(/_/g, '-') : 'nb-NO';
+    return new Intl.DateTimeFormat(normalizedLocale, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    }).format(parsed);
+  } catch (error) {
+    console.warn('Failed to format date label, falling back to ISO', error);
+    return value;
+  }
+};
+
+const parseMembershipYear = (value: string): number | null | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  return /^\d{4}$/.test(trimmed) ? Number(trimmed) : undefined;
+};
+
+export default function EditMembershipScreen() {
+  const { organizationId } = useLocalSearchParams<LocalParams>();
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const inputThemeStyle = colorScheme === 'dark' ? styles.inputDark : styles.inputLight;
+  const chipThemeStyle = colorScheme === 'dark' ? styles.chipDark : styles.chipLight;
+  const placeholderColor =
+    colorScheme === 'dark' ? 'rgba(248, 250, 252, 0.6)' : 'rgba(15, 23, 42, 0.5)';
+
+  const { organizations, loading: organizationsLoading } = useOrganizations();
+  const { membership, loading: membershipLoading, error } = useMembership(organizationId);
+
+  const organization = useMemo(
+    () => organizations.find((org) => org.id === organizationId) ?? null,
+    [organizationId, organizations]
+  );
+
+  const [memberNumber, setMemberNumber] = useState('');
+  const [clubName, setClubName] = useState('');
+  const [membershipYear, setMembershipYear] = useState('');
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [isShowingExpiryPicker, setIsShowingExpiryPicker] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!membership) {
+      return;
+    }
+
+    setMemberNumber(membership.memberNumber ?? '');
+    setClubName(membership.clubName ?? '');
+    setMembershipYear(membership.membershipYear !== null ? String(membership.membershipYear) : '');
+    setExpiresAt(membership.expiresAt);
+  }, [membership]);
+
+  const validityLabel = useMemo(() => {
+    const fields = { membershipYear: parseMembershipYear(membershipYear) ?? null, expiresAt };
+    const validUntil = getMembershipValidUntil(fields);
+    if (!validUntil) {
+      return t('membershipForm.validity.openEnded');
+    }
+
+    return isMembershipValid(fields)
+      ? t('membershipForm.validity.validUntil', { date: validUntil })
+      : t('membershipForm.validity.expired', { date: validUntil });
+  }, [expiresAt, membershipYear, t]);
+
+  const handleExpiryChange = useCallback((event: DateTimePickerEvent, value?: Date) => {
+    if (Platform.OS === 'android') {
+      setIsShowingExpiryPicker(false);
+    }
+
+    if (event.type !== 'set' || !value) {
+      return;
+    }
+
+    setExpiresAt(toIsoDateString(value));
+  }, []);
+
+  const handleClearExpiry = useCallback(() => {
+    setExpiresAt(null);
+    setIsShowingExpiryPicker(false);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (!organizationId) {
+      return;
+    }
+
+    const year = parseMembershipYear(membershipYear);
+    if (year === undefined) {
+      Alert.alert(t('membershipForm.validation.membershipYear'));
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await upsertMembership({
+        organizationId,
+        memberNumber: memberNumber.trim() || null,
+        clubName: clubName.trim() || null,
+        membershipYear: year,
+        expiresAt,
+      });
+
+      router.back();
+    } catch (saveError) {
+      console.warn('Failed to save membership', saveError);
+      Alert.alert(t('membershipForm.feedback.error'));
+    } finally {
+      setSaving(false);
+    }
+  }, [clubName, expiresAt, memberNumber, membershipYear, organizationId, router, t]);
+
+  const handleDelete = useCallback(() => {
+    if (!organizationId) {
+      return;
+    }
+
+    Alert.alert(
+      t('membershipForm.delete.confirmTitle'),
+      t('membershipForm.delete.confirmMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            setDeleting(true);
+            try {
+              await deleteMemberships([organizationId]);
+              router.back();
+            } catch (deleteError) {
+              console.warn('Failed to delete membership', deleteError);
+              Alert.alert(t('membershipForm.feedback.error'));
+            } finally {
+              setDeleting(false);
+            }
+          },
+        },
+      ]
+    );
+  }, [organizationId, router, t]);
+
+  if (organizationsLoading || membershipLoading) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator accessibilityLabel={t('common.loading')} />
+      </ThemedView>
+    );
+  }
+
+  if (error || !organization) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText accessibilityRole="alert">
+          {error?.message ?? t('membershipDocuments.notFound')}
+        </ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const busy = saving || deleting;
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 32 + insets.bottom }]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            {organization.name}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>{t('membershipForm.description')}</ThemedText>
+        </View>
+
+        <View style={styles.fieldSet}>
+          <FormField label={t('membershipForm.fields.memberNumber')}>
+            <TextInput
+              value={memberNumber}
+              onChangeText={setMemberNumber}
+              style={[styles.input, inputThemeStyle]}
+              placeholder={t('membershipForm.fields.memberNumberPlaceholder')}
+              placeholderTextColor={placeholderColor}
+              autoCapitalize="characters"
+              editable={!busy}
+            />
+          </FormField>
+
+          <FormField label={t('membershipForm.fields.clubName')}>
+            <TextInput
+              value={clubName}
+              onChangeText={setClubName}
+              style={[styles.input, inputThemeStyle]}
+              placeholder={t('membershipForm.fields.clubNamePlaceholder')}
+              placeholderTextColor={placeholderColor}
+              editable={!busy}
+            />
+          </FormField>
+
+          <FormField label={t('membershipForm.fields.membershipYear')}>
+            <TextInput
+              value={membershipYear}
+              onChangeText={setMembershipYear}
+              style={[styles.input, inputThemeStyle]}
+              placeholder={String(new Date().getFullYear())}
+              placeholderTextColor={placeholderColor}
+              keyboardType="number-pad"
+              maxLength={4}
+              editable={!busy}
+            />
+          </FormField>
+
+          <FormField label={t('membershipForm.fields.expiresAt')}>
+            <View style={styles.dateButtonRow}>
+              <Pressable
+                onPress={() => setIsShowingExpiryPicker((previous) => !previous)}
+                style={[styles.chip, chipThemeStyle, styles.dateButton]}
+                disabled={busy}
+              >
+                <ThemedText style={styles.dateButtonText}>
+                  {formatDateLabel(
+                    expiresAt,
+                    i18n.language,
+                    t('membershipForm.fields.expiresAtPlaceholder')
+                  )}
+                </ThemedText>
+              </Pressable>
+              {expiresAt ? (
+                <Pressable onPress={handleClearExpiry} disabled={busy}>
+                  <ThemedText style={styles.clearDateText}>
+                    {t('weaponForm.loan.clearDate')}
+                  </ThemedText>
+                </Pressable>
+              ) : null}
+            </View>
+            {isShowingExpiryPicker ? (
+              <DateTimePicker
+                value={parseIsoDate(expiresAt) ?? new Date()}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={handleExpiryChange}
+              />
+            ) : null}
+            <ThemedText style={styles.helperText}>{validityLabel}</ThemedText>
+          </FormField>
+
+          <FormField label={t('membershipForm.fields.membershipCard')}>
+            <AttachmentList
+              ownerType="membership"
+              ownerId={organization.id}
+              defaultType="membershipCard"
+              disabled={busy}
+            />
+          </FormField>
+        </View>
+
+        <View style={styles.buttonGroup}>
+          <Pressable
+            onPress={handleSave}
+            style={[styles.primaryButton, busy && styles.buttonDisabled]}
+            disabled={busy}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>
+                {t('membershipForm.actions.save')}
+              </ThemedText>
+            )}
+          </Pressable>
+
+          {membership ? (
+            <Pressable
+              onPress={handleDelete}
+              style={[styles.deleteButton, busy && styles.buttonDisabled]}
+              disabled={busy}
+            >
+              {deleting ? (
+                <ActivityIndicator size="small" />
+              ) : (
+                <ThemedText style={styles.deleteButtonText}>
+                  {t('membershipForm.actions.delete')}
+                </ThemedText>
+              )}
+            </Pressable>
+          ) : null}
+        </View>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+type FormFieldProps = {
+  label: string;
+  children: React.ReactNode;
+};
+
+function FormField({ label, children }: FormFieldProps) {
+  return (
+    <View style={styles.formField}>
+      <ThemedText style={styles.formLabel}>{label}</ThemedText>
+      {children}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    gap: 24,
+  },
+  header: {
+    gap: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  fieldSet: {
+    gap: 16,
+  },
+  formField: {
+    gap: 8,
+  },
+  formLabel: {
+    fontWeight: '600',
+    opacity: 0.9,
+  },
+  helperText: {
+    fontSize: 13,
+    opacity: 0.75,
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+  },
+  inputDark: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderColor: 'rgba(255,255,255,0.24)',
+    color: '#f8fafc',
+  },
+  inputLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.04)',
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    color: '#111827',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipDark: {
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  chipLight: {
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    backgroundColor: 'rgba(15, 23, 42, 0.02)',
+  },
+  dateButtonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  dateButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+  },
+  dateButtonText: {
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  clearDateText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  buttonGroup: {
+    gap: 12,
+  },
+  primaryButton: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.3)',
+  },
+  primaryButtonText: {
+    fontWeight: '700',
+  },
+  deleteButton: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: 'rgba(220, 38, 38, 0.25)',
+  },
+  deleteButtonText: {
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+});
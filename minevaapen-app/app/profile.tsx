@@ -0,0 +1,431 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import DateTimePicker, {
+  type DateTimePickerEvent,
+} from '@react-native-community/datetimepicker';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { POLICE_DISTRICTS } from '@/src/data/police-districts';
+import { saveShooterProfile } from '@/src/database/shooter-profile-repository';
+import { useShooterProfile } from '@/src/hooks/use-shooter-profile';
+
+const toIsoDateString = (date: Date) => {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const parseIsoDate = (value: string | null | undefined): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  const [year, month, day] = value.split('-').map(Number);
+  if (Number.isNaN(year) || Number.isNaN(month) || Number.isNaN(day)) {
+    return null;
+  }
+
+  return new Date(year, month - 1, day);
+};
+
+const formatDateLabel = (value: string | null, locale: string, placeholder: string) => {
+  const parsed = parseIsoDate(value);
+  if (!value || !parsed) {
+    return placeholder;
+  }
+
+  try {
+    const normalizedLocale = locale ? locale.replace(/_/g, '-') : 'nb-NO';
+    return new Intl.DateTimeFormat(normalizedLocale, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    }).format(parsed);
+  } catch (error) {
+    console.warn('Failed to format date label, falling back to ISO', error);
+    return value;
+  }
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default function ShooterProfileScreen() {
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const inputThemeStyle = colorScheme === 'dark' ? styles.inputDark : styles.inputLight;
+  const chipThemeStyle = colorScheme === 'dark' ? styles.chipDark : styles.chipLight;
+  const placeholderColor =
+    colorScheme === 'dark' ? 'rgba(248, 250, 252, 0.6)' : 'rgba(15, 23, 42, 0.5)';
+
+  const { profile, loading, error } = useShooterProfile();
+
+  const [name, setName] = useState('');
+  const [dateOfBirth, setDateOfBirth] = useState<string | null>(null);
+  const [address, setAddress] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [policeDistrict, setPoliceDistrict] = useState<string | null>(null);
+  const [isShowingDatePicker, setIsShowingDatePicker] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!profile) {
+      return;
+    }
+
+    setName(profile.name ?? '');
+    setDateOfBirth(profile.dateOfBirth);
+    setAddress(profile.address ?? '');
+    setPhone(profile.phone ?? '');
+    setEmail(profile.email ?? '');
+    setPoliceDistrict(profile.policeDistrict);
+  }, [profile]);
+
+  const handleDateChange = useCallback((event: DateTimePickerEvent, value?: Date) => {
+    if (Platform.OS === 'android') {
+      setIsShowingDatePicker(false);
+    }
+
+    if (event.type !== 'set' || !value) {
+      return;
+    }
+
+    setDateOfBirth(toIsoDateString(value));
+  }, []);
+
+  const handleClearDate = useCallback(() => {
+    setDateOfBirth(null);
+    setIsShowingDatePicker(false);
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    const trimmedEmail = email.trim();
+    if (trimmedEmail && !EMAIL_PATTERN.test(trimmedEmail)) {
+      Alert.alert(t('profileForm.validation.email'));
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await saveShooterProfile({
+        name: name.trim() || null,
+        dateOfBirth,
+        address: address.trim() || null,
+        phone: phone.trim() || null,
+        email: trimmedEmail || null,
+        policeDistrict,
+      });
+
+      router.back();
+    } catch (saveError) {
+      console.warn('Failed to save shooter profile', saveError);
+      Alert.alert(t('profileForm.feedback.error'));
+    } finally {
+      setSaving(false);
+    }
+  }, [address, dateOfBirth, email, name, phone, policeDistrict, router, t]);
+
+  if (loading) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator accessibilityLabel={t('common.loading')} />
+      </ThemedView>
+    );
+  }
+
+  if (error) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText accessibilityRole="alert">{error.message}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 32 + insets.bottom }]}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            {t('profileForm.title')}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>{t('profileForm.description')}</ThemedText>
+        </View>
+
+        <View style={styles.fieldSet}>
+          <FormField label={t('profileForm.fields.name')}>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              style={[styles.input, inputThemeStyle]}
+              placeholder={t('profileForm.fields.namePlaceholder')}
+              placeholderTextColor={placeholderColor}
+              autoComplete="name"
+              editable={!saving}
+            />
+          </FormField>
+
+          <FormField label={t('profileForm.fields.dateOfBirth')}>
+            <View style={styles.dateButtonRow}>
+              <Pressable
+                onPress={() => setIsShowingDatePicker((previous) => !previous)}
+                style={[styles.chip, chipThemeStyle, styles.dateButton]}
+                disabled={saving}
+              >
+                <ThemedText style={styles.dateButtonText}>
+                  {formatDateLabel(
+                    dateOfBirth,
+                    i18n.language,
+                    t('profileForm.fields.dateOfBirthPlaceholder')
+                  )}
+                </ThemedText>
+              </Pressable>
+              {dateOfBirth ? (
+                <Pressable onPress={handleClearDate} disabled={saving}>
+                  <ThemedText style={styles.clearDateText}>
+                    {t('weaponForm.loan.clearDate')}
+                  </ThemedText>
+                </Pressable>
+              ) : null}
+            </View>
+            {isShowingDatePicker ? (
+              <DateTimePicker
+                value={parseIsoDate(dateOfBirth) ?? new Date(1980, 0, 1)}
+                mode="date"
+                display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+                onChange={handleDateChange}
+                maximumDate={new Date()}
+              />
+            ) : null}
+          </FormField>
+
+          <FormField label={t('profileForm.fields.address')}>
+            <TextInput
+              value={address}
+              onChangeText={setAddress}
+              style={[styles.input, styles.multilineInput, inputThemeStyle]}
+              placeholder={t('profileForm.fields.addressPlaceholder')}
+              placeholderTextColor={placeholderColor}
+              autoComplete="street-address"
+              multiline
+              editable={!saving}
+            />
+          </FormField>
+
+          <FormField label={t('profileForm.fields.phone')}>
+            <TextInput
+              value={phone}
+              onChangeText={setPhone}
+              style={[styles.input, inputThemeStyle]}
+              placeholder={t('profileForm.fields.phonePlaceholder')}
+              placeholderTextColor={placeholderColor}
+              keyboardType="phone-pad"
+              autoComplete="tel"
+              editable={!saving}
+            />
+          </FormField>
+
+          <FormField label={t('profileForm.fields.email')}>
+            <TextInput
+              value={email}
+              onChangeText={setEmail}
+              style={[styles.input, inputThemeStyle]}
+              placeholder={t('profileForm.fields.emailPlaceholder')}
+              placeholderTextColor={placeholderColor}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoComplete="email"
+              editable={!saving}
+            />
+          </FormField>
+
+          <FormField label={t('profileForm.fields.policeDistrict')}>
+            <View style={styles.chipRow}>
+              {POLICE_DISTRICTS.map((district) => {
+                const isSelected = policeDistrict === district;
+                return (
+                  <Pressable
+                    key={district}
+                    onPress={() => setPoliceDistrict(isSelected ? null : district)}
+                    style={[styles.chip, chipThemeStyle, isSelected && styles.chipSelected]}
+                    accessibilityState={{ selected: isSelected }}
+                    disabled={saving}
+                  >
+                    <ThemedText style={[styles.chipLabel, isSelected && styles.chipLabelSelected]}>
+                      {district}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </FormField>
+        </View>
+
+        <Pressable
+          onPress={handleSave}
+          style={[styles.primaryButton, saving && styles.buttonDisabled]}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator size="small" />
+          ) : (
+            <ThemedText style={styles.primaryButtonText}>{t('profileForm.actions.save')}</ThemedText>
+          )}
+        </Pressable>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+type FormFieldProps = {
+  label: string;
+  children: React.ReactNode;
+};
+
+function FormField({ label, children }: FormFieldProps) {
+  return (
+    <View style={styles.formField}>
+      <ThemedText style={styles.formLabel}>{label}</ThemedText>
+      {children}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    gap: 24,
+  },
+  header: {
+    gap: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  fieldSet: {
+    gap: 16,
+  },
+  formField: {
+    gap: 8,
+  },
+  formLabel: {
+    fontWeight: '600',
+    opacity: 0.9,
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+  },
+  multilineInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  inputDark: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderColor: 'rgba(255,255,255,0.24)',
+    color: '#f8fafc',
+  },
+  inputLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.04)',
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    color: '#111827',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipDark: {
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  chipLight: {
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    backgroundColor: 'rgba(15, 23, 42, 0.02)',
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(37, 99, 235, 0.22)',
+    borderColor: 'rgba(37, 99, 235, 0.45)',
+  },
+  chipLabel: {
+    opacity: 0.85,
+  },
+  chipLabelSelected: {
+    fontWeight: '600',
+    opacity: 1,
+  },
+  dateButtonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  dateButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+  },
+  dateButtonText: {
+    textAlign: 'center',
+    fontWeight: '600',
+  },
+  clearDateText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  primaryButton: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.3)',
+  },
+  primaryButtonText: {
+    fontWeight: '700',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+});
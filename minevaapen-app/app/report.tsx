@@ -0,0 +1,308 @@
+import { useCallback, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, Switch, View } from 'react-native';
+import * as Sharing from 'expo-sharing';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useOrganizations } from '@/src/hooks/use-organizations';
+import { usePrograms } from '@/src/hooks/use-programs';
+import { exportWeaponReportToPdf } from '@/src/services/storage';
+
+type ReportState = {
+  status: 'idle' | 'loading' | 'success' | 'error';
+  message: string | null;
+};
+
+const initialState: ReportState = { status: 'idle', message: null };
+
+export default function WeaponReportScreen() {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const chipThemeStyle = colorScheme === 'dark' ? styles.chipDark : styles.chipLight;
+
+  const { organizations, loading: organizationsLoading } = useOrganizations();
+  const memberOrganizations = useMemo(
+    () => organizations.filter((org) => org.isMember),
+    [organizations]
+  );
+
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [programId, setProgramId] = useState<string | null>(null);
+  const [includePhotos, setIncludePhotos] = useState(true);
+  const [state, setState] = useState<ReportState>(initialState);
+  const [reportPath, setReportPath] = useState<string | null>(null);
+
+  const { programs } = usePrograms({ organizationId });
+  const organizationPrograms = useMemo(
+    () => (organizationId ? programs.filter((program) => program.weaponCount > 0) : []),
+    [organizationId, programs]
+  );
+
+  const handleSelectOrganization = useCallback((nextOrganizationId: string | null) => {
+    setOrganizationId(nextOrganizationId);
+    setProgramId(null);
+  }, []);
+
+  const shareReport = useCallback(
+    async (path: string) => {
+      try {
+        if (!(await Sharing.isAvailableAsync())) {
+          setState({ status: 'error', message: t('settings.export.shareUnavailable') });
+          return;
+        }
+
+        await Sharing.shareAsync(path, {
+          dialogTitle: t('report.shareDialogTitle'),
+          mimeType: 'application/pdf',
+          UTI: 'com.adobe.pdf',
+        });
+      } catch (error) {
+        console.warn('Weapon report share failed', error);
+        setState({ status: 'error', message: t('settings.export.shareError') });
+      }
+    },
+    [t]
+  );
+
+  const handleCreate = useCallback(async () => {
+    setState({ status: 'loading', message: null });
+
+    try {
+      const path = await exportWeaponReportToPdf({ organizationId, programId, includePhotos });
+      setReportPath(path);
+      setState({ status: 'success', message: t('report.success', { path }) });
+      await shareReport(path);
+    } catch (error) {
+      console.warn('Weapon report export failed', error);
+      setReportPath(null);
+      setState({ status: 'error', message: t('report.error') });
+    }
+  }, [includePhotos, organizationId, programId, shareReport, t]);
+
+  const isLoading = state.status === 'loading';
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, chipThemeStyle, selected && styles.chipSelected]}
+      accessibilityState={{ selected }}
+      disabled={isLoading}
+    >
+      <ThemedText style={[styles.chipLabel, selected && styles.chipLabelSelected]}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  if (organizationsLoading) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator accessibilityLabel={t('common.loading')} />
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 32 + insets.bottom }]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            {t('report.title')}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>{t('report.description')}</ThemedText>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionLabel}>{t('report.scope.organization')}</ThemedText>
+          <View style={styles.chipRow}>
+            {renderChip('all', t('report.scopeAll'), organizationId === null, () =>
+              handleSelectOrganization(null)
+            )}
+            {memberOrganizations.map((org) =>
+              renderChip(org.id, org.shortName || org.name, organizationId === org.id, () =>
+                handleSelectOrganization(org.id)
+              )
+            )}
+          </View>
+        </View>
+
+        {organizationId ? (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionLabel}>{t('report.scope.program')}</ThemedText>
+            <View style={styles.chipRow}>
+              {renderChip('all', t('report.scope.allPrograms'), programId === null, () =>
+                setProgramId(null)
+              )}
+              {organizationPrograms.map((program) =>
+                renderChip(program.id, program.name, programId === program.id, () =>
+                  setProgramId(program.id)
+                )
+              )}
+            </View>
+          </View>
+        ) : null}
+
+        <View style={styles.switchRow}>
+          <View style={styles.switchText}>
+            <ThemedText style={styles.sectionLabel}>{t('report.includePhotos')}</ThemedText>
+            <ThemedText style={styles.helperText}>{t('report.includePhotosHint')}</ThemedText>
+          </View>
+          <Switch value={includePhotos} onValueChange={setIncludePhotos} disabled={isLoading} />
+        </View>
+
+        <View style={styles.buttonGroup}>
+          <Pressable
+            onPress={handleCreate}
+            style={[styles.primaryButton, isLoading && styles.buttonDisabled]}
+            disabled={isLoading}
+          >
+            {isLoading ? (
+              <ActivityIndicator size="small" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>{t('report.create')}</ThemedText>
+            )}
+          </Pressable>
+
+          {reportPath && !isLoading ? (
+            <Pressable onPress={() => void shareReport(reportPath)} style={styles.secondaryButton}>
+              <ThemedText style={styles.secondaryButtonText}>
+                {t('settings.export.shareButton')}
+              </ThemedText>
+            </Pressable>
+          ) : null}
+        </View>
+
+        {state.message ? (
+          <ThemedText
+            style={[
+              styles.status,
+              state.status === 'success' && styles.statusSuccess,
+              state.status === 'error' && styles.statusError,
+            ]}
+          >
+            {state.message}
+          </ThemedText>
+        ) : null}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    gap: 24,
+  },
+  header: {
+    gap: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  section: {
+    gap: 8,
+  },
+  sectionLabel: {
+    fontWeight: '600',
+    opacity: 0.9,
+  },
+  helperText: {
+    fontSize: 13,
+    opacity: 0.75,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipDark: {
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  chipLight: {
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    backgroundColor: 'rgba(15, 23, 42, 0.02)',
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(37, 99, 235, 0.22)',
+    borderColor: 'rgba(37, 99, 235, 0.45)',
+  },
+  chipLabel: {
+    opacity: 0.85,
+  },
+  chipLabelSelected: {
+    fontWeight: '600',
+    opacity: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  switchText: {
+    flex: 1,
+    gap: 2,
+  },
+  buttonGroup: {
+    gap: 12,
+  },
+  primaryButton: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.3)',
+  },
+  primaryButtonText: {
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    borderRadius: 16,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'rgba(37, 99, 235, 0.45)',
+  },
+  secondaryButtonText: {
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  status: {
+    textAlign: 'center',
+  },
+  statusSuccess: {
+    color: '#15803d',
+  },
+  statusError: {
+    color: '#b91c1c',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+});
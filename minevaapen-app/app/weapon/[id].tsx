@@ -0,0 +1,476 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { Image } from 'expo-image';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ReserveRuleIssues } from '@/components/reserve-rule-issues';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import type { WeaponWithPrograms } from '@/src/database/weapons-repository';
+import { useAttachments } from '@/src/hooks/use-attachments';
+import { useOrganizations } from '@/src/hooks/use-organizations';
+import { useReserveRules } from '@/src/hooks/use-reserve-rules';
+import { useWeapon } from '@/src/hooks/use-weapon';
+import { useWeaponPhotos } from '@/src/hooks/use-weapon-photos';
+
+const DETAIL_TABS = ['details', 'programs', 'documents', 'photos'] as const;
+
+type DetailTab = (typeof DETAIL_TABS)[number];
+
+type LocalParams = {
+  id?: string;
+  tab?: string;
+};
+
+const formatDate = (value: string | null, locale: string) => {
+  if (!value) {
+    return null;
+  }
+
+  const [year, month, day] = value.split('-').map(Number);
+  if (Number.isNaN(year) || Number.isNaN(month) || Number.isNaN(day)) {
+    return value;
+  }
+
+  try {
+    const normalizedLocale = locale ? locale.replace(/_/g, '-') : 'nb-NO';
+    return new Intl.DateTimeFormat(normalizedLocale, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    }).format(new Date(year, month - 1, day));
+  } catch (error) {
+    console.warn('Failed to format date, returning ISO', error);
+    return value;
+  }
+};
+
+const formatPrice = (value: number | null, locale: string) => {
+  if (value === null) {
+    return null;
+  }
+
+  try {
+    return new Intl.NumberFormat(locale.replace(/_/g, '-'), {
+      style: 'currency',
+      currency: 'NOK',
+    }).format(value);
+  } catch (error) {
+    console.warn('Failed to format price', error);
+    return String(value);
+  }
+};
+
+/**
+ * Read-only view of one weapon. Reachable from the weapon list and as a deep link,
+ * e.g. `minevaapenapp://weapon/<id>?tab=documents`.
+ */
+export default function WeaponDetailScreen() {
+  const { id, tab } = useLocalSearchParams<LocalParams>();
+  const weaponId = typeof id === 'string' && id.length > 0 ? id : null;
+  const { t, i18n } = useTranslation();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const [activeTab, setActiveTab] = useState<DetailTab>(
+    DETAIL_TABS.find((option) => option === tab) ?? 'details'
+  );
+
+  const { weapon, loading, error, refresh } = useWeapon(weaponId);
+  const { organizations } = useOrganizations();
+  const { evaluate: evaluateReserveRules, refresh: refreshReserveRules } = useReserveRules();
+  const {
+    photos,
+    loading: photosLoading,
+    refresh: refreshPhotos,
+  } = useWeaponPhotos(weaponId);
+  const {
+    attachments,
+    loading: attachmentsLoading,
+    refresh: refreshAttachments,
+  } = useAttachments('weapon', weaponId);
+
+  const refreshAllRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    refreshAllRef.current = () => {
+      void refresh();
+      void refreshReserveRules();
+      void refreshPhotos();
+      void refreshAttachments();
+    };
+  }, [refresh, refreshAttachments, refreshPhotos, refreshReserveRules]);
+
+  // Coming back from the edit form shows the saved values.
+  useFocusEffect(
+    useCallback(() => {
+      refreshAllRef.current();
+    }, [])
+  );
+
+  // A weapon deleted from the edit form leaves nothing to show here.
+  const hadWeapon = useRef(false);
+  useEffect(() => {
+    if (weapon) {
+      hadWeapon.current = true;
+    } else if (!loading && !error && hadWeapon.current) {
+      hadWeapon.current = false;
+      router.back();
+    }
+  }, [error, loading, router, weapon]);
+
+  const organizationNames = useMemo(
+    () => new Map(organizations.map((org) => [org.id, org.shortName || org.name])),
+    [organizations]
+  );
+
+  const cardThemeStyle = colorScheme === 'dark' ? styles.cardDark : styles.cardLight;
+  const locale = i18n.language || 'nb-NO';
+
+  const handleEdit = useCallback(() => {
+    if (weaponId) {
+      router.push({ pathname: '/weapon/manage', params: { weaponId } });
+    }
+  }, [router, weaponId]);
+
+  if (loading && !weapon) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator accessibilityLabel={t('common.loading')} />
+      </ThemedView>
+    );
+  }
+
+  if (error || !weapon) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText accessibilityRole="alert">
+          {error?.message ?? t('weaponForm.notFound')}
+        </ThemedText>
+      </ThemedView>
+    );
+  }
+
+  const renderField = (label: string, value: string | null) =>
+    value ? (
+      <View key={label} style={styles.field}>
+        <ThemedText style={styles.fieldLabel}>{label}</ThemedText>
+        <ThemedText>{value}</ThemedText>
+      </View>
+    ) : null;
+
+  const renderDetails = (item: WeaponWithPrograms) => (
+    <View style={[styles.card, cardThemeStyle]}>
+      {renderField(
+        t('weaponForm.fields.type'),
+        t(`weapons.types.${item.type}` as const, { defaultValue: item.type })
+      )}
+      {renderField(t('weaponForm.fields.manufacturer'), item.manufacturer)}
+      {renderField(t('weaponForm.fields.model'), item.model)}
+      {renderField(t('weaponForm.fields.serialNumber'), item.serialNumber)}
+      {renderField(t('weaponForm.fields.caliber'), item.caliber)}
+      {renderField(
+        t('weaponForm.fields.operationMode'),
+        item.operationMode
+          ? t(`weaponForm.operationModes.${item.operationMode}` as const, {
+              defaultValue: item.operationMode,
+            })
+          : null
+      )}
+      {renderField(
+        t('weaponForm.fields.acquisitionDate'),
+        formatDate(item.acquisitionDate, locale)
+      )}
+      {renderField(
+        t('weaponForm.fields.acquisitionPrice'),
+        formatPrice(item.acquisitionPrice, locale)
+      )}
+      {renderField(t('weaponForm.fields.weaponCardRef'), item.weaponCardRef)}
+      {renderField(
+        t('weaponForm.fields.ownershipStatus'),
+        t(`weaponForm.ownership.options.${item.ownershipStatus}` as const)
+      )}
+      {item.ownershipStatus !== 'own' ? (
+        <>
+          {renderField(t('weaponForm.loan.contact'), item.loanContactName)}
+          {renderField(t('weaponForm.loan.start'), formatDate(item.loanStartDate, locale))}
+          {renderField(t('weaponForm.loan.end'), formatDate(item.loanEndDate, locale))}
+        </>
+      ) : null}
+      {renderField(t('weaponForm.fields.notes'), item.notes)}
+    </View>
+  );
+
+  const renderPrograms = (item: WeaponWithPrograms) => (
+    <View style={styles.section}>
+      {item.programs.length === 0 ? (
+        <ThemedText style={styles.hint}>{t('weapons.card.noPrograms')}</ThemedText>
+      ) : (
+        item.programs.map((program) => {
+          const isApproved = program.status === 'approved';
+          return (
+            <View
+              key={program.programId}
+              style={[styles.card, cardThemeStyle, styles.programRow]}
+            >
+              <View style={styles.programInfo}>
+                <ThemedText style={styles.programName}>{program.programName}</ThemedText>
+                <ThemedText style={styles.fieldLabel}>
+                  {organizationNames.get(program.organizationId) ?? program.organizationId}
+                </ThemedText>
+              </View>
+              <View style={styles.badges}>
+                <ThemedText style={isApproved ? styles.approvedBadge : styles.pendingBadge}>
+                  {isApproved ? t('weapons.card.approvedBadge') : t('weapons.card.pendingBadge')}
+                </ThemedText>
+                {program.isReserve ? (
+                  <ThemedText style={styles.reserveBadge}>
+                    {t('weapons.card.reserveBadge')}
+                  </ThemedText>
+                ) : null}
+              </View>
+            </View>
+          );
+        })
+      )}
+      <ReserveRuleIssues result={evaluateReserveRules(item.id, item.programs)} />
+    </View>
+  );
+
+  const renderDocuments = () => (
+    <View style={styles.section}>
+      {attachmentsLoading ? <ActivityIndicator accessibilityLabel={t('common.loading')} /> : null}
+      {!attachmentsLoading && attachments.length === 0 ? (
+        <ThemedText style={styles.hint}>{t('attachments.empty')}</ThemedText>
+      ) : null}
+      {attachments.map((attachment) => (
+        <Pressable
+          key={attachment.id}
+          style={[styles.card, cardThemeStyle]}
+          onPress={() =>
+            router.push({ pathname: '/attachment/view', params: { attachmentId: attachment.id } })
+          }
+          accessibilityRole="button"
+          accessibilityHint={t('attachments.openHint')}
+        >
+          <ThemedText style={styles.programName}>
+            {attachment.title ?? attachment.fileName}
+          </ThemedText>
+          <ThemedText style={styles.fieldLabel}>
+            {t(`attachments.types.${attachment.attachmentType}` as const)}
+          </ThemedText>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  const renderPhotos = () => (
+    <View style={styles.section}>
+      {photosLoading ? <ActivityIndicator accessibilityLabel={t('common.loading')} /> : null}
+      {!photosLoading && photos.length === 0 ? (
+        <ThemedText style={styles.hint}>{t('weaponForm.photos.empty')}</ThemedText>
+      ) : null}
+      {photos.map((photo) => (
+        <View key={photo.id} style={styles.photo}>
+          <Image
+            source={{ uri: photo.fileUri }}
+            style={styles.photoImage}
+            contentFit="cover"
+            accessibilityIgnoresInvertColors
+          />
+          {photo.caption || photo.isCover ? (
+            <ThemedText style={styles.fieldLabel}>
+              {[photo.caption, photo.isCover ? t('weaponForm.photos.cover') : null]
+                .filter(Boolean)
+                .join(' · ')}
+            </ThemedText>
+          ) : null}
+        </View>
+      ))}
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 32 + insets.bottom }]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            {weapon.displayName}
+          </ThemedText>
+          <Pressable onPress={handleEdit} style={styles.editButton} accessibilityRole="button">
+            <ThemedText style={styles.editButtonText}>{t('weapons.card.edit')}</ThemedText>
+          </Pressable>
+        </View>
+
+        <View style={styles.tabRow} accessibilityRole="tablist">
+          {DETAIL_TABS.map((option) => {
+            const selected = option === activeTab;
+            return (
+              <Pressable
+                key={option}
+                onPress={() => setActiveTab(option)}
+                style={[styles.tab, selected && styles.tabSelected]}
+                accessibilityRole="tab"
+                accessibilityState={{ selected }}
+              >
+                <ThemedText style={[styles.tabLabel, selected && styles.tabLabelSelected]}>
+                  {t(`weaponDetail.tabs.${option}` as const)}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {activeTab === 'details'
+          ? renderDetails(weapon)
+          : activeTab === 'programs'
+            ? renderPrograms(weapon)
+            : activeTab === 'documents'
+              ? renderDocuments()
+              : renderPhotos()}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    gap: 16,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+  header: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  editButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 16,
+    backgroundColor: 'rgba(37, 99, 235, 0.25)',
+  },
+  editButtonText: {
+    fontWeight: '700',
+  },
+  tabRow: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    gap: 4,
+    backgroundColor: 'rgba(148, 163, 184, 0.15)',
+  },
+  tab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  tabSelected: {
+    backgroundColor: 'rgba(37, 99, 235, 0.2)',
+  },
+  tabLabel: {
+    fontSize: 13,
+    opacity: 0.8,
+  },
+  tabLabelSelected: {
+    fontWeight: '700',
+    opacity: 1,
+  },
+  section: {
+    gap: 12,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    gap: 12,
+  },
+  cardLight: {
+    borderWidth: 1,
+    borderColor: 'rgba(15, 23, 42, 0.08)',
+    backgroundColor: '#ffffff',
+  },
+  cardDark: {
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+    backgroundColor: 'rgba(255,255,255,0.05)',
+  },
+  field: {
+    gap: 2,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  hint: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  programRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  programInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  programName: {
+    fontWeight: '600',
+  },
+  badges: {
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  approvedBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(37, 99, 235, 0.25)',
+    overflow: 'hidden',
+  },
+  pendingBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(148, 163, 184, 0.25)',
+    overflow: 'hidden',
+  },
+  reserveBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 149, 0, 0.2)',
+    overflow: 'hidden',
+  },
+  photo: {
+    gap: 6,
+  },
+  photoImage: {
+    width: '100%',
+    aspectRatio: 4 / 3,
+    borderRadius: 12,
+  },
+});
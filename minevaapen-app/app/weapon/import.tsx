@@ -0,0 +1,473 @@
+import { useCallback, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  View,
+} from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useOrganizations } from '@/src/hooks/use-organizations';
+import { useWeaponImportPreview } from '@/src/hooks/use-weapon-import-preview';
+import {
+  importWeapons,
+  WEAPON_IMPORT_FIELDS,
+  type WeaponImportField,
+  type WeaponImportIssue,
+  type WeaponImportMapping,
+} from '@/src/services/weapon-import';
+
+type LocalParams = {
+  sourceUri?: string;
+  name?: string;
+};
+
+/**
+ * Dry run of a CSV import: the user checks how columns map onto weapon fields and which rows
+ * have errors or duplicate serial numbers before anything is written.
+ */
+export default function WeaponImportScreen() {
+  const { sourceUri, name } = useLocalSearchParams<LocalParams>();
+  const { t } = useTranslation();
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const colorScheme = useColorScheme();
+  const cardThemeStyle = colorScheme === 'dark' ? styles.cardDark : styles.cardLight;
+  const chipThemeStyle = colorScheme === 'dark' ? styles.chipDark : styles.chipLight;
+
+  const { organizations } = useOrganizations();
+  const memberOrganizations = useMemo(
+    () => organizations.filter((org) => org.isMember),
+    [organizations]
+  );
+
+  const [customMapping, setCustomMapping] = useState<WeaponImportMapping | null>(null);
+  const [organizationId, setOrganizationId] = useState<string | null>(null);
+  const [updateDuplicates, setUpdateDuplicates] = useState(false);
+  const [expandedField, setExpandedField] = useState<WeaponImportField | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const { table, mapping, preview, loading, error } = useWeaponImportPreview(
+    sourceUri,
+    customMapping,
+    { organizationId, updateDuplicates }
+  );
+
+  const importCount = preview ? preview.createCount + preview.updateCount : 0;
+
+  const describeIssue = useCallback(
+    (issue: WeaponImportIssue) =>
+      t(`weaponImport.issues.${issue.code}` as const, { value: issue.value }),
+    [t]
+  );
+
+  const columnLabel = useCallback(
+    (field: WeaponImportField) => {
+      const index = mapping[field];
+      return index === undefined
+        ? t('weaponImport.mapping.ignored')
+        : table?.headers[index] || t('weaponImport.mapping.column', { number: index + 1 });
+    },
+    [mapping, t, table]
+  );
+
+  const handleSelectColumn = useCallback(
+    (field: WeaponImportField, index: number | null) => {
+      const next = { ...mapping };
+      if (index === null) {
+        delete next[field];
+      } else {
+        next[field] = index;
+      }
+      setCustomMapping(next);
+      setExpandedField(null);
+    },
+    [mapping]
+  );
+
+  const runImport = useCallback(async () => {
+    if (!preview) {
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const count = await importWeapons(preview);
+      Alert.alert(t('weaponImport.success.title'), t('weaponImport.success.message', { count }));
+      router.back();
+    } catch (err) {
+      console.warn('Weapon import failed', err);
+      Alert.alert(t('weaponImport.error'));
+    } finally {
+      setImporting(false);
+    }
+  }, [preview, router, t]);
+
+  const handleImport = useCallback(() => {
+    if (!preview) {
+      return;
+    }
+
+    Alert.alert(
+      t('weaponImport.confirm.title'),
+      t('weaponImport.confirm.message', {
+        create: preview.createCount,
+        update: preview.updateCount,
+        skip: preview.skipCount,
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('weaponImport.importButton'), onPress: () => void runImport() },
+      ]
+    );
+  }, [preview, runImport, t]);
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[styles.chip, chipThemeStyle, selected && styles.chipSelected]}
+      accessibilityState={{ selected }}
+      disabled={importing}
+    >
+      <ThemedText style={[styles.chipLabel, selected && styles.chipLabelSelected]}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  if (!table && !error) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ActivityIndicator accessibilityLabel={t('common.loading')} />
+      </ThemedView>
+    );
+  }
+
+  if (error || !table) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText accessibilityRole="alert">{t('weaponImport.loadError')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if (table.headers.length === 0 || table.rows.length === 0) {
+    return (
+      <ThemedView style={styles.centered}>
+        <ThemedText accessibilityRole="alert">{t('weaponImport.empty')}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: 96 + insets.bottom }]}
+      >
+        <View style={styles.header}>
+          <ThemedText type="title" style={styles.title}>
+            {t('weaponImport.title')}
+          </ThemedText>
+          <ThemedText style={styles.subtitle}>{name ?? ''}</ThemedText>
+          <ThemedText style={styles.hint}>{t('weaponImport.description')}</ThemedText>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="subtitle">{t('weaponImport.mapping.title')}</ThemedText>
+          <ThemedText style={styles.meta}>{t('weaponImport.mapping.description')}</ThemedText>
+          <View style={[styles.card, cardThemeStyle]}>
+            {WEAPON_IMPORT_FIELDS.map((field) => {
+              const expanded = expandedField === field;
+              return (
+                <View key={field} style={styles.mappingItem}>
+                  <Pressable
+                    onPress={() => setExpandedField(expanded ? null : field)}
+                    style={styles.row}
+                    accessibilityRole="button"
+                    accessibilityState={{ expanded }}
+                    disabled={importing}
+                  >
+                    <View style={styles.rowText}>
+                      <ThemedText style={styles.rowLabel}>
+                        {t(`csvColumns.${field}` as const)}
+                      </ThemedText>
+                      <ThemedText style={styles.meta}>{columnLabel(field)}</ThemedText>
+                    </View>
+                    <Feather
+                      name={expanded ? 'chevron-up' : 'chevron-down'}
+                      size={18}
+                      color="#94a3b8"
+                    />
+                  </Pressable>
+                  {expanded ? (
+                    <View style={styles.chipRow}>
+                      {renderChip(
+                        'ignored',
+                        t('weaponImport.mapping.ignored'),
+                        mapping[field] === undefined,
+                        () => handleSelectColumn(field, null)
+                      )}
+                      {table.headers.map((header, index) =>
+                        renderChip(
+                          String(index),
+                          header || t('weaponImport.mapping.column', { number: index + 1 }),
+                          mapping[field] === index,
+                          () => handleSelectColumn(field, index)
+                        )
+                      )}
+                    </View>
+                  ) : null}
+                </View>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="subtitle">{t('weaponImport.organization.title')}</ThemedText>
+          <ThemedText style={styles.meta}>{t('weaponImport.organization.description')}</ThemedText>
+          <View style={styles.chipRow}>
+            {renderChip('auto', t('weaponImport.organization.auto'), organizationId === null, () =>
+              setOrganizationId(null)
+            )}
+            {memberOrganizations.map((org) =>
+              renderChip(org.id, org.shortName || org.name, organizationId === org.id, () =>
+                setOrganizationId(org.id)
+              )
+            )}
+          </View>
+        </View>
+
+        <View style={styles.switchRow}>
+          <View style={styles.rowText}>
+            <ThemedText style={styles.rowLabel}>{t('weaponImport.updateDuplicates')}</ThemedText>
+            <ThemedText style={styles.meta}>{t('weaponImport.updateDuplicatesHint')}</ThemedText>
+          </View>
+          <Switch
+            value={updateDuplicates}
+            onValueChange={setUpdateDuplicates}
+            disabled={importing}
+          />
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText type="subtitle">{t('weaponImport.previewTitle')}</ThemedText>
+          {preview ? (
+            <ThemedText style={styles.meta}>
+              {t('weaponImport.summary', {
+                create: preview.createCount,
+                update: preview.updateCount,
+                skip: preview.skipCount,
+              })}
+            </ThemedText>
+          ) : null}
+          {loading ? <ActivityIndicator accessibilityLabel={t('common.loading')} /> : null}
+          {preview?.rows.map((row) => (
+            <View key={row.lineNumber} style={[styles.card, cardThemeStyle]}>
+              <View style={styles.row}>
+                <View style={styles.rowText}>
+                  <ThemedText style={styles.rowLabel}>
+                    {row.displayName || t('weaponImport.untitled')}
+                  </ThemedText>
+                  <ThemedText style={styles.meta}>
+                    {[
+                      t('weaponImport.line', { number: row.lineNumber }),
+                      row.serialNumber,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </ThemedText>
+                </View>
+                <ThemedText
+                  style={[styles.action, row.action === 'skip' && styles.actionSkipped]}
+                >
+                  {t(`weaponImport.actions.${row.action}` as const)}
+                </ThemedText>
+              </View>
+              {row.errors.map((issue, index) => (
+                <ThemedText key={`error-${index}`} style={styles.issueError}>
+                  {describeIssue(issue)}
+                </ThemedText>
+              ))}
+              {row.warnings.map((issue, index) => (
+                <ThemedText key={`warning-${index}`} style={styles.issueWarning}>
+                  {describeIssue(issue)}
+                </ThemedText>
+              ))}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      <View style={[styles.footer, { paddingBottom: 16 + insets.bottom }]}>
+        <Pressable
+          onPress={handleImport}
+          style={[
+            styles.importButton,
+            (importCount === 0 || importing || loading) && styles.buttonDisabled,
+          ]}
+          disabled={importCount === 0 || importing || loading}
+          accessibilityRole="button"
+        >
+          {importing ? (
+            <ActivityIndicator size="small" />
+          ) : (
+            <ThemedText style={styles.importButtonText}>
+              {t('weaponImport.importCount', { count: importCount })}
+            </ThemedText>
+          )}
+        </Pressable>
+      </View>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 24,
+    gap: 24,
+  },
+  header: {
+    gap: 6,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    textAlign: 'center',
+    opacity: 0.8,
+  },
+  hint: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  section: {
+    gap: 12,
+  },
+  card: {
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  cardDark: {
+    backgroundColor: 'rgba(255,255,255,0.04)',
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  cardLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.03)',
+    borderColor: 'rgba(15, 23, 42, 0.08)',
+  },
+  mappingItem: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+  rowLabel: {
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipDark: {
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  chipLight: {
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    backgroundColor: 'rgba(15, 23, 42, 0.02)',
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(37, 99, 235, 0.22)',
+    borderColor: 'rgba(37, 99, 235, 0.45)',
+  },
+  chipLabel: {
+    opacity: 0.85,
+  },
+  chipLabelSelected: {
+    fontWeight: '600',
+    opacity: 1,
+  },
+  action: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  actionSkipped: {
+    color: '#94a3b8',
+  },
+  issueError: {
+    fontSize: 13,
+    color: '#b91c1c',
+  },
+  issueWarning: {
+    fontSize: 13,
+    color: '#b45309',
+  },
+  footer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  importButton: {
+    borderRadius: 16,
+    paddingVertical: 14,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.9)',
+  },
+  importButtonText: {
+    fontWeight: '700',
+    color: '#ffffff',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 16,
+  },
+});
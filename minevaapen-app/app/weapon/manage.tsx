@@ -19,21 +19,27 @@ import DateTimePicker, {
   type DateTimePickerEvent,
 } from '@react-native-community/datetimepicker';
 
+import { AttachmentList } from '@/components/attachment-list';
+import { ReserveRuleIssues } from '@/components/reserve-rule-issues';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { WeaponPhotoGallery } from '@/components/weapon-photo-gallery';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { deleteWeapon, upsertWeapon } from '@/src/database/weapons-repository';
+import {
+  deleteWeapon,
+  OPERATION_MODES,
+  upsertWeapon,
+  WEAPON_TYPES,
+} from '@/src/database/weapons-repository';
 import { useOrganizations } from '@/src/hooks/use-organizations';
 import { usePrograms } from '@/src/hooks/use-programs';
+import { useReserveRules } from '@/src/hooks/use-reserve-rules';
 import { useWeapon } from '@/src/hooks/use-weapon';
+import type { RuleProgramLink } from '@/src/rules/reserve-eligibility';
 
-const weaponTypes = ['pistol', 'revolver', 'rifle', 'shotgun'] as const;
-
-const operationModes = ['helautomatisk', 'halvautomatisk', 'manuell', 'enkeltskudd'] as const;
-
-type OperationMode = (typeof operationModes)[number];
+type OperationMode = (typeof OPERATION_MODES)[number];
 
-type WeaponType = (typeof weaponTypes)[number];
+type WeaponType = (typeof WEAPON_TYPES)[number];
 
 type OwnershipStatus = 'own' | 'loanIn' | 'loanOut';
 
@@ -48,32 +54,13 @@ type LocalParams = {
   weaponId?: string;
 };
 
-const normalizeSelectionMap = (
-  input: ProgramSelectionMap,
-  preferredApprovedId?: string | null
-): ProgramSelectionMap => {
-  let approvedProgramId = preferredApprovedId ?? null;
-
-  if (approvedProgramId && !(input[approvedProgramId]?.isApproved)) {
-    approvedProgramId = null;
-  }
-
-  if (!approvedProgramId) {
-    for (const [id, selection] of Object.entries(input)) {
-      if (selection.isApproved) {
-        approvedProgramId = id;
-        break;
-      }
-    }
-  }
-
+/** Reserve is only meaningful on approved links; every link keeps its own approval. */
+const normalizeSelectionMap = (input: ProgramSelectionMap): ProgramSelectionMap => {
   const normalizedEntries = Object.entries(input).map(([id, selection]) => {
-    const isApproved = Boolean(
-      approvedProgramId && approvedProgramId === id && selection.isApproved
-    );
-    const isReserve = isApproved ? selection.isReserve : false;
-
-    const normalizedSelection: ProgramSelection = { isApproved, isReserve };
+    const normalizedSelection: ProgramSelection = {
+      isApproved: selection.isApproved,
+      isReserve: selection.isApproved ? selection.isReserve : false,
+    };
     return [id, normalizedSelection];
   });
 
@@ -174,6 +161,7 @@ export default function ManageWeaponScreen() {
     error: programsError,
     refresh: refreshPrograms,
   } = usePrograms({ allowedOrganizationIds: memberOrganizationIds });
+  const { evaluate: evaluateReserveRules, error: reserveRulesError } = useReserveRules();
 
   const [displayName, setDisplayName] = useState('');
   const [weaponType, setWeaponType] = useState<WeaponType>('pistol');
@@ -239,29 +227,28 @@ export default function ManageWeaponScreen() {
     setLoanContactName(weapon.loanContactName ?? '');
     setLoanStartDate(weapon.loanStartDate ?? null);
     setLoanEndDate(weapon.loanEndDate ?? null);
-    let approvedProgramId: string | null = null;
     const initialSelections = weapon.programs.reduce<ProgramSelectionMap>((acc, program) => {
-      const isInitiallyApproved = program.status === 'approved';
-      if (isInitiallyApproved && approvedProgramId === null) {
-        approvedProgramId = program.programId;
-      }
-
       acc[program.programId] = {
         isReserve: program.isReserve,
-        isApproved: isInitiallyApproved && approvedProgramId === program.programId,
+        isApproved: program.status === 'approved',
       };
       return acc;
     }, {});
 
-    const normalizedSelections = normalizeSelectionMap(initialSelections, approvedProgramId);
-    setSelectedPrograms(normalizedSelections);
+    setSelectedPrograms(normalizeSelectionMap(initialSelections));
   }, [isEditMode, weapon]);
 
   const groupedPrograms = useMemo(() => {
     const organizationById = new Map(memberOrganizations.map((org) => [org.id, org]));
     const grouped = new Map<string, { id: string; name: string; programs: typeof programs }>();
+    // Retired programs are only offered to weapons that are already linked to them.
+    const linkedProgramIds = new Set(weapon?.programs.map((program) => program.programId));
 
     for (const program of programs) {
+      if (program.retiredAt && !linkedProgramIds.has(program.id)) {
+        continue;
+      }
+
       const match = organizationById.get(program.organizationId);
       const orgKey = match?.id ?? 'other';
       const existing = grouped.get(orgKey);
@@ -281,7 +268,7 @@ export default function ManageWeaponScreen() {
       ...group,
       programs: [...group.programs].sort((a, b) => a.name.localeCompare(b.name, 'nb')),
     }));
-  }, [memberOrganizations, programs]);
+  }, [memberOrganizations, programs, weapon]);
 
   useEffect(() => {
     setExpandedGroups((prev) => {
@@ -440,7 +427,7 @@ export default function ManageWeaponScreen() {
         },
       };
 
-      const normalized = normalizeSelectionMap(updated, isReserve ? programId : undefined);
+      const normalized = normalizeSelectionMap(updated);
       return areSelectionMapsEqual(prev, normalized) ? prev : normalized;
     });
   }, []);
@@ -461,7 +448,7 @@ export default function ManageWeaponScreen() {
         },
       };
 
-      const normalized = normalizeSelectionMap(updated, isApproved ? programId : undefined);
+      const normalized = normalizeSelectionMap(updated);
       return areSelectionMapsEqual(prev, normalized) ? prev : normalized;
     });
   }, []);
@@ -479,6 +466,18 @@ export default function ManageWeaponScreen() {
     });
   }, [programs]);
 
+  const reserveRuleResult = useMemo(() => {
+    const links: RuleProgramLink[] = Object.entries(selectedPrograms).map(
+      ([programId, value]) => ({
+        programId,
+        status: value.isApproved ? 'approved' : 'pending',
+        isReserve: value.isApproved ? value.isReserve : false,
+      })
+    );
+
+    return evaluateReserveRules(isEditMode && weaponId ? weaponId : null, links);
+  }, [evaluateReserveRules, isEditMode, selectedPrograms, weaponId]);
+
   const resetForm = useCallback(() => {
     setDisplayName('');
     setWeaponType('pistol');
@@ -511,6 +510,21 @@ export default function ManageWeaponScreen() {
       return;
     }
 
+    if (reserveRuleResult.violations.length > 0) {
+      Alert.alert(
+        t('reserveRules.saveBlocked.title'),
+        reserveRuleResult.violations
+          .map((issue) =>
+            t(`reserveRules.${issue.code}` as const, {
+              program: issue.programName,
+              ...issue.params,
+            })
+          )
+          .join('\n')
+      );
+      return;
+    }
+
     setSaving(true);
 
     try {
@@ -578,6 +592,7 @@ export default function ManageWeaponScreen() {
     loanStartDate,
     operationMode,
     refreshPrograms,
+    reserveRuleResult,
     resetForm,
     router,
     selectedPrograms,
@@ -625,7 +640,7 @@ export default function ManageWeaponScreen() {
     programsLoading ||
     organizationsLoading;
 
-  const loadError = weaponError ?? programsError ?? organizationsError;
+  const loadError = weaponError ?? programsError ?? organizationsError ?? reserveRulesError;
 
   if (isEditMode && !weapon && !weaponLoading) {
     return (
@@ -676,7 +691,7 @@ export default function ManageWeaponScreen() {
 
           <FormField label={t('weaponForm.fields.type')}>
             <View style={styles.chipRow}>
-              {weaponTypes.map((typeOption) => (
+              {WEAPON_TYPES.map((typeOption) => (
                 <Pressable
                   key={typeOption}
                   onPress={() => setWeaponType(typeOption)}
@@ -909,7 +924,7 @@ export default function ManageWeaponScreen() {
 
           <FormField label={t('weaponForm.fields.operationMode')}>
             <View style={styles.chipRow}>
-              {operationModes.map((modeOption) => (
+              {OPERATION_MODES.map((modeOption) => (
                 <Pressable
                   key={modeOption}
                   onPress={() => setOperationMode(modeOption)}
@@ -952,6 +967,34 @@ export default function ManageWeaponScreen() {
 
         <View style={[styles.sectionDivider, dividerThemeStyle]} />
 
+        <View style={styles.programSection}>
+          <ThemedText type="title" style={styles.sectionTitle}>
+            {t('weaponForm.photos.title')}
+          </ThemedText>
+          <ThemedText style={styles.sectionSubtitle}>{t('weaponForm.photos.help')}</ThemedText>
+          <WeaponPhotoGallery
+            weaponId={isEditMode && weaponId ? weaponId : null}
+            disabled={saving || deleting}
+          />
+        </View>
+
+        <View style={[styles.sectionDivider, dividerThemeStyle]} />
+
+        <View style={styles.programSection}>
+          <ThemedText type="title" style={styles.sectionTitle}>
+            {t('weaponForm.documents.title')}
+          </ThemedText>
+          <ThemedText style={styles.sectionSubtitle}>{t('weaponForm.documents.help')}</ThemedText>
+          <AttachmentList
+            ownerType="weapon"
+            ownerId={isEditMode && weaponId ? weaponId : null}
+            defaultType="weaponCard"
+            disabled={saving || deleting}
+          />
+        </View>
+
+        <View style={[styles.sectionDivider, dividerThemeStyle]} />
+
         <View style={styles.programSection}>
           <ThemedText type="title" style={styles.sectionTitle}>
             {t('weaponForm.programs.title')}
@@ -989,7 +1032,7 @@ export default function ManageWeaponScreen() {
                       const isApproved = selection?.isApproved ?? false;
                       const typedCategory =
                         program.weaponCategory !== null &&
-                        (weaponTypes as readonly string[]).includes(
+                        (WEAPON_TYPES as readonly string[]).includes(
                           program.weaponCategory as WeaponType
                         )
                           ? (program.weaponCategory as WeaponType)
@@ -1002,6 +1045,14 @@ export default function ManageWeaponScreen() {
                       const isRecommended = typedCategory
                         ? typedCategory === weaponType
                         : false;
+                      const programRuleResult = {
+                        violations: reserveRuleResult.violations.filter(
+                          (issue) => issue.programId === program.id
+                        ),
+                        warnings: reserveRuleResult.warnings.filter(
+                          (issue) => issue.programId === program.id
+                        ),
+                      };
                       return (
                         <Pressable
                           key={program.id}
@@ -1042,6 +1093,11 @@ export default function ManageWeaponScreen() {
                                     })}
                               </ThemedText>
                             ) : null}
+                            {program.retiredAt ? (
+                              <ThemedText style={[styles.programTag, styles.programTagNeutral]}>
+                                {t('weaponForm.programs.retired')}
+                              </ThemedText>
+                            ) : null}
                           </View>
                           {selected ? (
                             <View style={styles.programControls}>
@@ -1071,6 +1127,7 @@ export default function ManageWeaponScreen() {
                                   disabled={saving}
                                 />
                               </View>
+                              <ReserveRuleIssues result={programRuleResult} showHeadings={false} />
                             </View>
                           ) : null}
                         </Pressable>
@@ -1085,6 +1142,7 @@ export default function ManageWeaponScreen() {
         </View>
 
         <View style={styles.buttonGroup}>
+          <ReserveRuleIssues result={reserveRuleResult} />
           <Pressable
             onPress={handleSave}
             style={[styles.primaryButton, saving && styles.buttonDisabled]}
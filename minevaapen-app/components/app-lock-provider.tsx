@@ -0,0 +1,195 @@
+import { ReactNode, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, AppState, StyleSheet, View, type AppStateStatus } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+
+import { LockScreen } from '@/components/lock-screen';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { AppLockContext, type AppLockContextValue } from '@/src/hooks/use-app-lock';
+import {
+  DEFAULT_APP_LOCK_SETTINGS,
+  isBiometricUnlockAvailable,
+  loadAppLockSettings,
+  removePin,
+  saveAppLockSettings,
+  setPin,
+  type AppLockSettings,
+} from '@/src/services/app-lock';
+
+type AppLockProviderProps = {
+  children: ReactNode;
+};
+
+/**
+ * Keeps the app behind a lock screen until it is unlocked, locks it again after it has been in
+ * the background for the configured time and blurs it while the app switcher is showing.
+ * The navigation tree stays mounted underneath, so unlocking returns to the same screen.
+ */
+export function AppLockProvider({ children }: AppLockProviderProps) {
+  const colorScheme = useColorScheme();
+  const [settings, setSettings] = useState<AppLockSettings | null>(null);
+  const [locked, setLocked] = useState(true);
+  const [biometricsAvailable, setBiometricsAvailable] = useState(false);
+  const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
+  const backgroundedAt = useRef<number | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    Promise.all([loadAppLockSettings(), isBiometricUnlockAvailable()])
+      .then(([loadedSettings, available]) => {
+        if (isMounted) {
+          setSettings(loadedSettings);
+          setLocked(loadedSettings.enabled);
+          setBiometricsAvailable(available);
+        }
+      })
+      .catch((error) => {
+        console.warn('Failed to load app lock settings', error);
+        if (isMounted) {
+          setSettings(DEFAULT_APP_LOCK_SETTINGS);
+          setLocked(false);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      setAppState(nextState);
+
+      if (!settings?.enabled) {
+        backgroundedAt.current = null;
+        return;
+      }
+
+      if (nextState === 'background') {
+        backgroundedAt.current ??= Date.now();
+        if (settings.autoLockSeconds === 0) {
+          setLocked(true);
+        }
+      } else if (nextState === 'active' && backgroundedAt.current !== null) {
+        if (Date.now() - backgroundedAt.current >= settings.autoLockSeconds * 1000) {
+          setLocked(true);
+        }
+        backgroundedAt.current = null;
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [settings]);
+
+  const persistSettings = useCallback(async (nextSettings: AppLockSettings) => {
+    await saveAppLockSettings(nextSettings);
+    setSettings(nextSettings);
+  }, []);
+
+  const unlock = useCallback(() => {
+    setLocked(false);
+  }, []);
+
+  const lock = useCallback(() => {
+    setLocked(true);
+  }, []);
+
+  const enableWithPin = useCallback(
+    async (pin: string) => {
+      await setPin(pin);
+      await persistSettings({ ...(settings ?? DEFAULT_APP_LOCK_SETTINGS), enabled: true });
+    },
+    [persistSettings, settings]
+  );
+
+  const disable = useCallback(async () => {
+    await persistSettings({
+      ...(settings ?? DEFAULT_APP_LOCK_SETTINGS),
+      enabled: false,
+      biometricsEnabled: false,
+    });
+    await removePin();
+  }, [persistSettings, settings]);
+
+  const updateSettings = useCallback(
+    async (changes: Partial<Omit<AppLockSettings, 'enabled'>>) => {
+      await persistSettings({ ...(settings ?? DEFAULT_APP_LOCK_SETTINGS), ...changes });
+    },
+    [persistSettings, settings]
+  );
+
+  const contextValue = useMemo<AppLockContextValue>(
+    () => ({
+      settings: settings ?? DEFAULT_APP_LOCK_SETTINGS,
+      locked: Boolean(settings?.enabled) && locked,
+      biometricsAvailable,
+      unlock,
+      lock,
+      enableWithPin,
+      disable,
+      updateSettings,
+    }),
+    [biometricsAvailable, disable, enableWithPin, lock, locked, settings, unlock, updateSettings]
+  );
+
+  if (!settings) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  const showLockScreen = settings.enabled && locked;
+  const showPrivacyCover = settings.privacyCover && appState !== 'active';
+
+  return (
+    <AppLockContext.Provider value={contextValue}>
+      <View
+        style={styles.content}
+        accessibilityElementsHidden={showLockScreen}
+        importantForAccessibility={showLockScreen ? 'no-hide-descendants' : 'auto'}
+      >
+        {children}
+      </View>
+
+      {showLockScreen ? (
+        <View style={StyleSheet.absoluteFill}>
+          <LockScreen
+            biometricsEnabled={settings.biometricsEnabled && biometricsAvailable}
+            active={appState === 'active'}
+            onUnlock={unlock}
+          />
+        </View>
+      ) : null}
+
+      {showPrivacyCover ? (
+        <BlurView
+          intensity={90}
+          tint={colorScheme === 'dark' ? 'dark' : 'light'}
+          style={[StyleSheet.absoluteFill, styles.cover]}
+        >
+          <Feather name="lock" size={48} color="#2563eb" />
+        </BlurView>
+      ) : null}
+    </AppLockContext.Provider>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  cover: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,281 @@
+import { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+
+import { ThemedText } from '@/components/themed-text';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  ATTACHMENT_TYPES,
+  addAttachment,
+  deleteAttachment,
+  type AttachmentOwnerType,
+  type AttachmentType,
+} from '@/src/database/attachments-repository';
+import { useAttachments } from '@/src/hooks/use-attachments';
+
+type AttachmentListProps = {
+  ownerType: AttachmentOwnerType;
+  ownerId: string | null;
+  defaultType: AttachmentType;
+  disabled?: boolean;
+};
+
+export function AttachmentList({
+  ownerType,
+  ownerId,
+  defaultType,
+  disabled = false,
+}: AttachmentListProps) {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { attachments, loading, error, refresh } = useAttachments(ownerType, ownerId);
+  const [attachmentType, setAttachmentType] = useState<AttachmentType>(defaultType);
+  const [title, setTitle] = useState('');
+  const [busy, setBusy] = useState(false);
+  const colorScheme = useColorScheme();
+  const chipThemeStyle = colorScheme === 'dark' ? styles.chipDark : styles.chipLight;
+  const inputThemeStyle = colorScheme === 'dark' ? styles.inputDark : styles.inputLight;
+  const rowThemeStyle = colorScheme === 'dark' ? styles.rowDark : styles.rowLight;
+  const placeholderColor =
+    colorScheme === 'dark' ? 'rgba(248, 250, 252, 0.6)' : 'rgba(15, 23, 42, 0.5)';
+  const isDisabled = disabled || busy;
+
+  const handleAdd = useCallback(async () => {
+    if (!ownerId) {
+      return;
+    }
+
+    try {
+      const pickResult = await DocumentPicker.getDocumentAsync({
+        type: ['application/pdf', 'image/*'],
+        copyToCacheDirectory: true,
+      });
+
+      if (pickResult.canceled) {
+        return;
+      }
+
+      setBusy(true);
+      const asset = pickResult.assets[0];
+      await addAttachment({
+        ownerType,
+        ownerId,
+        attachmentType,
+        sourceUri: asset.uri,
+        fileName: asset.name,
+        mimeType: asset.mimeType ?? null,
+        title,
+      });
+      setTitle('');
+      await refresh();
+    } catch (err) {
+      console.warn('Failed to add attachment', err);
+      Alert.alert(t('attachments.feedback.error'));
+    } finally {
+      setBusy(false);
+    }
+  }, [attachmentType, ownerId, ownerType, refresh, t, title]);
+
+  const handleDelete = useCallback(
+    (attachmentId: string) => {
+      Alert.alert(t('attachments.delete.confirmTitle'), t('attachments.delete.confirmMessage'), [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            setBusy(true);
+            try {
+              await deleteAttachment(attachmentId);
+              await refresh();
+            } catch (err) {
+              console.warn('Failed to delete attachment', err);
+              Alert.alert(t('attachments.feedback.error'));
+            } finally {
+              setBusy(false);
+            }
+          },
+        },
+      ]);
+    },
+    [refresh, t]
+  );
+
+  if (!ownerId) {
+    return <ThemedText style={styles.hint}>{t('attachments.saveFirst')}</ThemedText>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {loading ? <ActivityIndicator accessibilityLabel={t('common.loading')} /> : null}
+      {error ? <ThemedText accessibilityRole="alert">{error.message}</ThemedText> : null}
+
+      {!loading && attachments.length === 0 ? (
+        <ThemedText style={styles.hint}>{t('attachments.empty')}</ThemedText>
+      ) : null}
+
+      {attachments.map((attachment) => (
+        <View key={attachment.id} style={[styles.row, rowThemeStyle]}>
+          <Pressable
+            style={styles.rowInfo}
+            onPress={() =>
+              router.push({
+                pathname: '/attachment/view',
+                params: { attachmentId: attachment.id },
+              })
+            }
+            accessibilityRole="button"
+            accessibilityHint={t('attachments.openHint')}
+          >
+            <ThemedText style={styles.rowTitle}>{attachment.title ?? attachment.fileName}</ThemedText>
+            <ThemedText style={styles.rowMeta}>
+              {t(`attachments.types.${attachment.attachmentType}` as const)}
+            </ThemedText>
+          </Pressable>
+          <Pressable onPress={() => handleDelete(attachment.id)} disabled={isDisabled}>
+            <ThemedText style={styles.deleteText}>{t('common.delete')}</ThemedText>
+          </Pressable>
+        </View>
+      ))}
+
+      <View style={styles.chipRow}>
+        {ATTACHMENT_TYPES.map((typeOption) => (
+          <Pressable
+            key={typeOption}
+            onPress={() => setAttachmentType(typeOption)}
+            style={[styles.chip, chipThemeStyle, attachmentType === typeOption && styles.chipSelected]}
+            accessibilityState={{ selected: attachmentType === typeOption }}
+            disabled={isDisabled}
+          >
+            <ThemedText
+              style={[styles.chipLabel, attachmentType === typeOption && styles.chipLabelSelected]}
+            >
+              {t(`attachments.types.${typeOption}` as const)}
+            </ThemedText>
+          </Pressable>
+        ))}
+      </View>
+      <TextInput
+        value={title}
+        onChangeText={setTitle}
+        placeholder={t('attachments.titlePlaceholder')}
+        placeholderTextColor={placeholderColor}
+        style={[styles.input, inputThemeStyle]}
+        editable={!isDisabled}
+      />
+      <Pressable
+        onPress={handleAdd}
+        style={[styles.addButton, isDisabled && styles.buttonDisabled]}
+        disabled={isDisabled}
+      >
+        {busy ? (
+          <ActivityIndicator size="small" />
+        ) : (
+          <ThemedText style={styles.addButtonText}>{t('attachments.add')}</ThemedText>
+        )}
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  hint: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  rowDark: {
+    backgroundColor: 'rgba(255,255,255,0.04)',
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  rowLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.03)',
+    borderColor: 'rgba(15, 23, 42, 0.08)',
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  deleteText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipDark: {
+    borderColor: 'rgba(255,255,255,0.2)',
+    backgroundColor: 'rgba(255,255,255,0.04)',
+  },
+  chipLight: {
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    backgroundColor: 'rgba(15, 23, 42, 0.02)',
+  },
+  chipSelected: {
+    backgroundColor: 'rgba(37, 99, 235, 0.22)',
+    borderColor: 'rgba(37, 99, 235, 0.45)',
+  },
+  chipLabel: {
+    opacity: 0.85,
+  },
+  chipLabelSelected: {
+    fontWeight: '600',
+    opacity: 1,
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+  },
+  inputDark: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderColor: 'rgba(255,255,255,0.24)',
+    color: '#f8fafc',
+  },
+  inputLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.04)',
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    color: '#111827',
+  },
+  addButton: {
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.2)',
+  },
+  addButtonText: {
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
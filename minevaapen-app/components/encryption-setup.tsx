@@ -0,0 +1,203 @@
+import { useCallback, useState } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { useTranslation } from 'react-i18next';
+
+import { PassphraseDialog, type PassphraseDialogValues } from '@/components/passphrase-dialog';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { BackupArchiveError } from '@/src/services/backup-archive';
+import { MIN_PASSPHRASE_LENGTH, PassphraseError, setUpEncryption } from '@/src/services/encryption';
+import { inspectBackupFile, restoreDatabaseFromUri } from '@/src/services/storage';
+
+type EncryptionSetupProps = {
+  onComplete: () => void;
+};
+
+type SetupFlow = { kind: 'create' } | { kind: 'restore'; sourceUri: string; name: string };
+
+/**
+ * Shown before the database is opened on a device without an encryption key: either a new
+ * passphrase is chosen, or a backup from another device is restored with its passphrase.
+ */
+export function EncryptionSetup({ onComplete }: EncryptionSetupProps) {
+  const { t } = useTranslation();
+  const [flow, setFlow] = useState<SetupFlow | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const describeError = useCallback(
+    (err: unknown) => {
+      if (err instanceof PassphraseError) {
+        return t(`passphrase.errors.${err.code}` as const, { count: MIN_PASSPHRASE_LENGTH });
+      }
+      if (err instanceof BackupArchiveError) {
+        return t(`settings.restore.archiveErrors.${err.code}` as const);
+      }
+      return t('encryptionSetup.error');
+    },
+    [t]
+  );
+
+  const handlePickBackup = useCallback(async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        copyToCacheDirectory: true,
+      });
+
+      if (result.canceled) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      setError(null);
+      setFlow({ kind: 'restore', sourceUri: asset.uri, name: asset.name });
+    } catch (err) {
+      console.warn('Failed to pick backup during setup', err);
+      setError(t('encryptionSetup.error'));
+    }
+  }, [t]);
+
+  const handleCancel = useCallback(() => {
+    setFlow(null);
+    setError(null);
+  }, []);
+
+  const handleSubmit = useCallback(
+    async ({ passphrase }: PassphraseDialogValues) => {
+      if (!flow) {
+        return;
+      }
+
+      setBusy(true);
+      setError(null);
+
+      try {
+        if (flow.kind === 'restore') {
+          // Decrypt and validate the backup before anything is written on this device.
+          await inspectBackupFile(flow.sourceUri, { passphrase });
+          await setUpEncryption(passphrase);
+          await restoreDatabaseFromUri(flow.sourceUri, { passphrase });
+        } else {
+          await setUpEncryption(passphrase);
+        }
+
+        setFlow(null);
+        onComplete();
+      } catch (err) {
+        console.warn('Encryption setup failed', err);
+        setError(describeError(err));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [describeError, flow, onComplete]
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <View style={styles.header}>
+        <Feather name="lock" size={40} color="#2563eb" />
+        <ThemedText type="title" style={styles.title}>
+          {t('encryptionSetup.title')}
+        </ThemedText>
+        <ThemedText style={styles.description}>{t('encryptionSetup.description')}</ThemedText>
+        <ThemedText style={styles.warning}>{t('encryptionSetup.warning')}</ThemedText>
+      </View>
+
+      <Pressable
+        onPress={() => setFlow({ kind: 'create' })}
+        style={styles.primaryButton}
+        accessibilityRole="button"
+      >
+        <ThemedText style={styles.primaryLabel}>{t('encryptionSetup.createButton')}</ThemedText>
+      </Pressable>
+
+      <Pressable onPress={handlePickBackup} style={styles.secondaryButton} accessibilityRole="button">
+        <Feather name="folder" size={18} color="#2563eb" />
+        <ThemedText style={styles.secondaryLabel}>{t('encryptionSetup.restoreButton')}</ThemedText>
+      </Pressable>
+
+      {error && !flow ? <ThemedText style={styles.error}>{error}</ThemedText> : null}
+
+      <PassphraseDialog
+        visible={flow !== null}
+        mode={flow?.kind === 'restore' ? 'enter' : 'create'}
+        title={
+          flow?.kind === 'restore'
+            ? t('encryptionSetup.restoreTitle')
+            : t('encryptionSetup.createTitle')
+        }
+        message={
+          flow?.kind === 'restore'
+            ? t('encryptionSetup.restoreMessage', { name: flow.name })
+            : t('encryptionSetup.createMessage')
+        }
+        submitLabel={
+          flow?.kind === 'restore'
+            ? t('encryptionSetup.restoreSubmit')
+            : t('encryptionSetup.createSubmit')
+        }
+        busy={busy}
+        error={error}
+        onCancel={handleCancel}
+        onSubmit={handleSubmit}
+      />
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  header: {
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  description: {
+    textAlign: 'center',
+    opacity: 0.8,
+  },
+  warning: {
+    textAlign: 'center',
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  primaryButton: {
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(37, 99, 235, 0.2)',
+    alignItems: 'center',
+  },
+  primaryLabel: {
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(37, 99, 235, 0.4)',
+  },
+  secondaryLabel: {
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  error: {
+    textAlign: 'center',
+    color: '#b91c1c',
+  },
+});
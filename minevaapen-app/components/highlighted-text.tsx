@@ -0,0 +1,59 @@
+import { Fragment, useMemo } from 'react';
+import { StyleSheet, Text } from 'react-native';
+
+import { ThemedText, type ThemedTextProps } from '@/components/themed-text';
+
+type HighlightedTextProps = Omit<ThemedTextProps, 'children'> & {
+  text: string;
+  terms: string[];
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Case-insensitive check used to pick which field explains a search hit. */
+export const containsSearchTerm = (text: string | null | undefined, terms: string[]) => {
+  if (!text) {
+    return false;
+  }
+
+  const lower = text.toLocaleLowerCase();
+  return terms.some((term) => lower.includes(term.toLocaleLowerCase()));
+};
+
+/** Renders `text` with every occurrence of the search terms marked. */
+export function HighlightedText({ text, terms, ...textProps }: HighlightedTextProps) {
+  const parts = useMemo(() => {
+    if (terms.length === 0) {
+      return [text];
+    }
+
+    // Longer terms first so overlapping terms mark the widest match.
+    const pattern = [...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|');
+    return text.split(new RegExp(`(${pattern})`, 'i'));
+  }, [terms, text]);
+
+  return (
+    <ThemedText {...textProps}>
+      {parts.map((part, index) =>
+        // split() with a capturing group puts the matches at odd indexes.
+        index % 2 === 1 ? (
+          <Text key={index} style={styles.match}>
+            {part}
+          </Text>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </ThemedText>
+  );
+}
+
+const styles = StyleSheet.create({
+  match: {
+    fontWeight: '700',
+    backgroundColor: 'rgba(250, 204, 21, 0.35)',
+  },
+});
@@ -0,0 +1,304 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+import { Feather } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import {
+  authenticateWithBiometrics,
+  getLockoutUntil,
+  MAX_PIN_LENGTH,
+  MIN_PIN_LENGTH,
+  verifyPin,
+} from '@/src/services/app-lock';
+
+type LockScreenProps = {
+  biometricsEnabled: boolean;
+  /** Biometric prompts are only started while the app is in the foreground. */
+  active: boolean;
+  onUnlock: () => void;
+};
+
+const KEYPAD_ROWS = [
+  ['1', '2', '3'],
+  ['4', '5', '6'],
+  ['7', '8', '9'],
+  ['biometric', '0', 'backspace'],
+] as const;
+
+type KeypadKey = (typeof KEYPAD_ROWS)[number][number];
+
+export function LockScreen({ biometricsEnabled, active, onUnlock }: LockScreenProps) {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const [pin, setPin] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const biometricPrompted = useRef(false);
+
+  useEffect(() => {
+    void getLockoutUntil().then(setLockedUntil);
+  }, []);
+
+  useEffect(() => {
+    if (lockedUntil === null) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(null);
+        setMessage(null);
+      }
+    }, 1000);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [lockedUntil]);
+
+  const promptBiometrics = useCallback(async () => {
+    try {
+      const success = await authenticateWithBiometrics(
+        t('appLock.biometricPrompt'),
+        t('appLock.usePin')
+      );
+      if (success) {
+        onUnlock();
+      }
+    } catch (error) {
+      console.warn('Biometric unlock failed', error);
+    }
+  }, [onUnlock, t]);
+
+  useEffect(() => {
+    if (biometricsEnabled && active && !biometricPrompted.current) {
+      biometricPrompted.current = true;
+      void promptBiometrics();
+    }
+  }, [active, biometricsEnabled, promptBiometrics]);
+
+  const submitPin = useCallback(
+    async (value: string) => {
+      setVerifying(true);
+      try {
+        const result = await verifyPin(value);
+        if (result.status === 'unlocked') {
+          onUnlock();
+          return;
+        }
+
+        setPin('');
+        if (result.status === 'lockedOut') {
+          setNow(Date.now());
+          setLockedUntil(result.lockedUntil);
+          setMessage(null);
+        } else {
+          setMessage(t('appLock.incorrect', { count: result.remainingAttempts }));
+        }
+      } catch (error) {
+        console.warn('PIN verification failed', error);
+        setPin('');
+        setMessage(t('appLock.error'));
+      } finally {
+        setVerifying(false);
+      }
+    },
+    [onUnlock, t]
+  );
+
+  const lockedOut = lockedUntil !== null && lockedUntil > now;
+
+  const handleKey = useCallback(
+    (key: KeypadKey) => {
+      if (key === 'biometric') {
+        void promptBiometrics();
+        return;
+      }
+
+      if (key === 'backspace') {
+        setPin((current) => current.slice(0, -1));
+        return;
+      }
+
+      if (pin.length >= MAX_PIN_LENGTH) {
+        return;
+      }
+
+      setMessage(null);
+      setPin(pin + key);
+    },
+    [pin, promptBiometrics]
+  );
+
+  const handleSubmit = useCallback(() => {
+    if (pin.length >= MIN_PIN_LENGTH) {
+      void submitPin(pin);
+    }
+  }, [pin, submitPin]);
+
+  const secondsLeft = lockedUntil !== null ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+  const keypadDisabled = verifying || lockedOut;
+
+  return (
+    <ThemedView style={[styles.container, { paddingTop: insets.top + 48 }]}>
+      <Feather name="lock" size={40} color="#2563eb" />
+      <ThemedText type="subtitle" style={styles.title}>
+        {t('appLock.title')}
+      </ThemedText>
+      <ThemedText style={styles.subtitle}>{t('appLock.enterPin')}</ThemedText>
+
+      <View style={styles.dots} accessibilityLabel={t('appLock.digitsEntered', { count: pin.length })}>
+        {Array.from({ length: Math.max(MIN_PIN_LENGTH, pin.length) }, (_, index) => (
+          <View key={index} style={[styles.dot, index < pin.length && styles.dotFilled]} />
+        ))}
+      </View>
+
+      <View style={styles.messageRow}>
+        {lockedOut ? (
+          <ThemedText style={styles.error} accessibilityRole="alert">
+            {t('appLock.lockedOut', { count: secondsLeft })}
+          </ThemedText>
+        ) : message ? (
+          <ThemedText style={styles.error} accessibilityRole="alert">
+            {message}
+          </ThemedText>
+        ) : null}
+      </View>
+
+      <View style={styles.keypad}>
+        {KEYPAD_ROWS.map((row, rowIndex) => (
+          <View key={rowIndex} style={styles.keypadRow}>
+            {row.map((key) => {
+              if (key === 'biometric' && !biometricsEnabled) {
+                return <View key={key} style={styles.key} />;
+              }
+
+              const disabled = keypadDisabled && key !== 'biometric';
+
+              return (
+                <Pressable
+                  key={key}
+                  onPress={() => handleKey(key)}
+                  style={[styles.key, styles.keyButton, disabled && styles.keyDisabled]}
+                  disabled={disabled}
+                  accessibilityRole="button"
+                  accessibilityLabel={
+                    key === 'biometric'
+                      ? t('appLock.useBiometrics')
+                      : key === 'backspace'
+                        ? t('appLock.backspace')
+                        : key
+                  }
+                >
+                  {key === 'biometric' ? (
+                    <Feather name="smile" size={24} color="#2563eb" />
+                  ) : key === 'backspace' ? (
+                    <Feather name="delete" size={24} color="#2563eb" />
+                  ) : (
+                    <ThemedText style={styles.keyLabel}>{key}</ThemedText>
+                  )}
+                </Pressable>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+
+      <Pressable
+        onPress={handleSubmit}
+        style={[
+          styles.submitButton,
+          (keypadDisabled || pin.length < MIN_PIN_LENGTH) && styles.keyDisabled,
+        ]}
+        disabled={keypadDisabled || pin.length < MIN_PIN_LENGTH}
+        accessibilityRole="button"
+      >
+        {verifying ? (
+          <ActivityIndicator size="small" />
+        ) : (
+          <ThemedText style={styles.submitLabel}>{t('appLock.unlock')}</ThemedText>
+        )}
+      </Pressable>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    gap: 12,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  subtitle: {
+    opacity: 0.7,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: '#2563eb',
+  },
+  dotFilled: {
+    backgroundColor: '#2563eb',
+  },
+  messageRow: {
+    minHeight: 24,
+    justifyContent: 'center',
+  },
+  error: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  keypad: {
+    gap: 12,
+  },
+  keypadRow: {
+    flexDirection: 'row',
+    gap: 24,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  keyButton: {
+    borderRadius: 36,
+    backgroundColor: 'rgba(37, 99, 235, 0.12)',
+  },
+  keyDisabled: {
+    opacity: 0.4,
+  },
+  keyLabel: {
+    fontSize: 28,
+    lineHeight: 34,
+    fontWeight: '600',
+  },
+  submitButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+    borderRadius: 10,
+    backgroundColor: 'rgba(37, 99, 235, 0.2)',
+  },
+  submitLabel: {
+    fontWeight: '600',
+  },
+});
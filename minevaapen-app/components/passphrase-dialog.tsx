@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { MIN_PASSPHRASE_LENGTH } from '@/src/services/encryption';
+
+/**
+ * `enter` asks for an existing passphrase, `create` asks for a new one twice and `change` asks
+ * for the current passphrase followed by a new one twice.
+ */
+export type PassphraseDialogMode = 'enter' | 'create' | 'change';
+
+export type PassphraseDialogValues = {
+  passphrase: string;
+  currentPassphrase: string;
+};
+
+type PassphraseDialogProps = {
+  visible: boolean;
+  mode: PassphraseDialogMode;
+  title: string;
+  message?: string;
+  submitLabel: string;
+  busy?: boolean;
+  error?: string | null;
+  onCancel: () => void;
+  onSubmit: (values: PassphraseDialogValues) => void;
+};
+
+/** Alert.prompt only exists on iOS, so passphrases are entered through this modal instead. */
+export function PassphraseDialog({
+  visible,
+  mode,
+  title,
+  message,
+  submitLabel,
+  busy = false,
+  error,
+  onCancel,
+  onSubmit,
+}: PassphraseDialogProps) {
+  const { t } = useTranslation();
+  const colorScheme = useColorScheme();
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const inputThemeStyle = colorScheme === 'dark' ? styles.inputDark : styles.inputLight;
+  const placeholderColor =
+    colorScheme === 'dark' ? 'rgba(248, 250, 252, 0.6)' : 'rgba(15, 23, 42, 0.5)';
+
+  useEffect(() => {
+    if (!visible) {
+      setCurrentPassphrase('');
+      setPassphrase('');
+      setConfirmation('');
+      setValidationError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = useCallback(() => {
+    if (mode !== 'enter') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setValidationError(t('passphrase.errors.tooShort', { count: MIN_PASSPHRASE_LENGTH }));
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setValidationError(t('passphrase.errors.mismatch'));
+        return;
+      }
+    } else if (!passphrase) {
+      return;
+    }
+
+    setValidationError(null);
+    onSubmit({ passphrase, currentPassphrase });
+  }, [confirmation, currentPassphrase, mode, onSubmit, passphrase, t]);
+
+  const renderField = (
+    label: string,
+    value: string,
+    onChangeText: (value: string) => void,
+    autoFocus = false
+  ) => (
+    <View style={styles.field}>
+      <ThemedText style={styles.label}>{label}</ThemedText>
+      <TextInput
+        value={value}
+        onChangeText={onChangeText}
+        style={[styles.input, inputThemeStyle]}
+        placeholder={label}
+        placeholderTextColor={placeholderColor}
+        secureTextEntry
+        autoCapitalize="none"
+        autoCorrect={false}
+        autoFocus={autoFocus}
+        editable={!busy}
+        onSubmitEditing={handleSubmit}
+      />
+    </View>
+  );
+
+  const shownError = validationError ?? error ?? null;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ThemedView style={styles.dialog} lightColor="#ffffff" darkColor="#1f2937">
+          <ThemedText type="subtitle">{title}</ThemedText>
+          {message ? <ThemedText style={styles.message}>{message}</ThemedText> : null}
+
+          {mode === 'change'
+            ? renderField(t('passphrase.current'), currentPassphrase, setCurrentPassphrase, true)
+            : null}
+          {renderField(
+            mode === 'enter' ? t('passphrase.passphrase') : t('passphrase.new'),
+            passphrase,
+            setPassphrase,
+            mode !== 'change'
+          )}
+          {mode !== 'enter'
+            ? renderField(t('passphrase.confirm'), confirmation, setConfirmation)
+            : null}
+
+          {shownError ? (
+            <ThemedText style={styles.error} accessibilityRole="alert">
+              {shownError}
+            </ThemedText>
+          ) : null}
+
+          <View style={styles.actions}>
+            <Pressable
+              onPress={onCancel}
+              style={styles.secondaryButton}
+              disabled={busy}
+              accessibilityRole="button"
+            >
+              <ThemedText style={styles.secondaryLabel}>{t('common.cancel')}</ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={handleSubmit}
+              style={[styles.primaryButton, busy && styles.buttonDisabled]}
+              disabled={busy}
+              accessibilityRole="button"
+            >
+              {busy ? (
+                <ActivityIndicator size="small" />
+              ) : (
+                <ThemedText style={styles.primaryLabel}>{submitLabel}</ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </ThemedView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+  },
+  dialog: {
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  message: {
+    opacity: 0.8,
+  },
+  field: {
+    gap: 6,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+  },
+  inputDark: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderColor: 'rgba(255,255,255,0.24)',
+    color: '#f8fafc',
+  },
+  inputLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.04)',
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    color: '#111827',
+  },
+  error: {
+    color: '#b91c1c',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 4,
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+  },
+  secondaryLabel: {
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  primaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    backgroundColor: 'rgba(37, 99, 235, 0.2)',
+    minWidth: 96,
+    alignItems: 'center',
+  },
+  primaryLabel: {
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  Pressable,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { isValidPin, MAX_PIN_LENGTH, MIN_PIN_LENGTH } from '@/src/services/app-lock';
+
+type PinSetupDialogProps = {
+  visible: boolean;
+  title: string;
+  busy?: boolean;
+  error?: string | null;
+  onCancel: () => void;
+  onSubmit: (pin: string) => void;
+};
+
+/** Asks for a new PIN twice before handing it to `onSubmit`. */
+export function PinSetupDialog({
+  visible,
+  title,
+  busy = false,
+  error,
+  onCancel,
+  onSubmit,
+}: PinSetupDialogProps) {
+  const { t } = useTranslation();
+  const colorScheme = useColorScheme();
+  const [pin, setPin] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const inputThemeStyle = colorScheme === 'dark' ? styles.inputDark : styles.inputLight;
+  const placeholderColor =
+    colorScheme === 'dark' ? 'rgba(248, 250, 252, 0.6)' : 'rgba(15, 23, 42, 0.5)';
+
+  useEffect(() => {
+    if (!visible) {
+      setPin('');
+      setConfirmation('');
+      setValidationError(null);
+    }
+  }, [visible]);
+
+  const handleSubmit = useCallback(() => {
+    if (!isValidPin(pin)) {
+      setValidationError(t('pinSetup.invalid', { min: MIN_PIN_LENGTH, max: MAX_PIN_LENGTH }));
+      return;
+    }
+    if (pin !== confirmation) {
+      setValidationError(t('pinSetup.mismatch'));
+      return;
+    }
+
+    setValidationError(null);
+    onSubmit(pin);
+  }, [confirmation, onSubmit, pin, t]);
+
+  const renderField = (
+    label: string,
+    value: string,
+    onChangeText: (value: string) => void,
+    autoFocus = false
+  ) => (
+    <View style={styles.field}>
+      <ThemedText style={styles.label}>{label}</ThemedText>
+      <TextInput
+        value={value}
+        onChangeText={(text) => onChangeText(text.replace(/\D/g, ''))}
+        style={[styles.input, inputThemeStyle]}
+        placeholder={label}
+        placeholderTextColor={placeholderColor}
+        keyboardType="number-pad"
+        maxLength={MAX_PIN_LENGTH}
+        secureTextEntry
+        autoFocus={autoFocus}
+        editable={!busy}
+      />
+    </View>
+  );
+
+  const shownError = validationError ?? error ?? null;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        style={styles.backdrop}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ThemedView style={styles.dialog} lightColor="#ffffff" darkColor="#1f2937">
+          <ThemedText type="subtitle">{title}</ThemedText>
+          <ThemedText style={styles.message}>
+            {t('pinSetup.message', { min: MIN_PIN_LENGTH, max: MAX_PIN_LENGTH })}
+          </ThemedText>
+
+          {renderField(t('pinSetup.pin'), pin, setPin, true)}
+          {renderField(t('pinSetup.confirm'), confirmation, setConfirmation)}
+
+          {shownError ? (
+            <ThemedText style={styles.error} accessibilityRole="alert">
+              {shownError}
+            </ThemedText>
+          ) : null}
+
+          <View style={styles.actions}>
+            <Pressable
+              onPress={onCancel}
+              style={styles.secondaryButton}
+              disabled={busy}
+              accessibilityRole="button"
+            >
+              <ThemedText style={styles.secondaryLabel}>{t('common.cancel')}</ThemedText>
+            </Pressable>
+            <Pressable
+              onPress={handleSubmit}
+              style={[styles.primaryButton, busy && styles.buttonDisabled]}
+              disabled={busy}
+              accessibilityRole="button"
+            >
+              {busy ? (
+                <ActivityIndicator size="small" />
+              ) : (
+                <ThemedText style={styles.primaryLabel}>{t('common.save')}</ThemedText>
+              )}
+            </Pressable>
+          </View>
+        </ThemedView>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 24,
+    backgroundColor: 'rgba(15, 23, 42, 0.5)',
+  },
+  dialog: {
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  message: {
+    opacity: 0.8,
+  },
+  field: {
+    gap: 6,
+  },
+  label: {
+    fontWeight: '600',
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderWidth: 1,
+    letterSpacing: 4,
+  },
+  inputDark: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderColor: 'rgba(255,255,255,0.24)',
+    color: '#f8fafc',
+  },
+  inputLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.04)',
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    color: '#111827',
+  },
+  error: {
+    color: '#b91c1c',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 4,
+  },
+  secondaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+  },
+  secondaryLabel: {
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  primaryButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    backgroundColor: 'rgba(37, 99, 235, 0.2)',
+    minWidth: 96,
+    alignItems: 'center',
+  },
+  primaryLabel: {
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
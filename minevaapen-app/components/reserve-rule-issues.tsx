@@ -0,0 +1,76 @@
+import { StyleSheet, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+
+import { ThemedText } from '@/components/themed-text';
+import type { ReserveRuleIssue, ReserveRuleResult } from '@/src/rules/reserve-eligibility';
+
+type ReserveRuleIssuesProps = {
+  result: ReserveRuleResult;
+  showHeadings?: boolean;
+};
+
+export function ReserveRuleIssues({ result, showHeadings = true }: ReserveRuleIssuesProps) {
+  const { t } = useTranslation();
+
+  if (result.violations.length === 0 && result.warnings.length === 0) {
+    return null;
+  }
+
+  const renderIssue = (issue: ReserveRuleIssue, index: number) => (
+    <ThemedText
+      key={`${issue.code}-${issue.programId}-${index}`}
+      style={[
+        styles.issueText,
+        issue.severity === 'violation' ? styles.violationText : styles.warningText,
+      ]}
+    >
+      {t(`reserveRules.${issue.code}` as const, { program: issue.programName, ...issue.params })}
+    </ThemedText>
+  );
+
+  return (
+    <View style={styles.container} accessibilityRole="alert">
+      {result.violations.length > 0 ? (
+        <View style={styles.group}>
+          {showHeadings ? (
+            <ThemedText style={[styles.heading, styles.violationText]}>
+              {t('reserveRules.violationsTitle')}
+            </ThemedText>
+          ) : null}
+          {result.violations.map(renderIssue)}
+        </View>
+      ) : null}
+      {result.warnings.length > 0 ? (
+        <View style={styles.group}>
+          {showHeadings ? (
+            <ThemedText style={[styles.heading, styles.warningText]}>
+              {t('reserveRules.warningsTitle')}
+            </ThemedText>
+          ) : null}
+          {result.warnings.map(renderIssue)}
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  group: {
+    gap: 4,
+  },
+  heading: {
+    fontWeight: '700',
+  },
+  issueText: {
+    fontSize: 13,
+  },
+  violationText: {
+    color: '#dc2626',
+  },
+  warningText: {
+    color: '#b45309',
+  },
+});
@@ -19,6 +19,8 @@ const MAPPING = {
   'chevron.left.forwardslash.chevron.right': 'code',
   'chevron.right': 'chevron-right',
   'gearshape.fill': 'settings',
+  'trophy.fill': 'emoji-events',
+  'chart.bar.fill': 'bar-chart',
 } as IconMapping;
 
 /**
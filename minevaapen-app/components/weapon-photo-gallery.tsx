@@ -0,0 +1,327 @@
+import { useCallback, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { useTranslation } from 'react-i18next';
+
+import { ThemedText } from '@/components/themed-text';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  addWeaponPhoto,
+  deleteWeaponPhoto,
+  reorderWeaponPhotos,
+  setWeaponCoverPhoto,
+  updateWeaponPhotoCaption,
+} from '@/src/database/weapon-photos-repository';
+import { useWeaponPhotos } from '@/src/hooks/use-weapon-photos';
+
+type WeaponPhotoGalleryProps = {
+  weaponId: string | null;
+  disabled?: boolean;
+};
+
+export function WeaponPhotoGallery({ weaponId, disabled = false }: WeaponPhotoGalleryProps) {
+  const { t } = useTranslation();
+  const { photos, loading, error, refresh } = useWeaponPhotos(weaponId);
+  const [busy, setBusy] = useState(false);
+  const [captionDrafts, setCaptionDrafts] = useState<Record<string, string>>({});
+  const colorScheme = useColorScheme();
+  const inputThemeStyle = colorScheme === 'dark' ? styles.inputDark : styles.inputLight;
+  const rowThemeStyle = colorScheme === 'dark' ? styles.photoRowDark : styles.photoRowLight;
+  const placeholderColor =
+    colorScheme === 'dark' ? 'rgba(248, 250, 252, 0.6)' : 'rgba(15, 23, 42, 0.5)';
+  const isDisabled = disabled || busy;
+
+  const runAction = useCallback(
+    async (action: () => Promise<void>, logMessage: string) => {
+      setBusy(true);
+      try {
+        await action();
+        await refresh();
+      } catch (err) {
+        console.warn(logMessage, err);
+        Alert.alert(t('weaponForm.photos.error'));
+      } finally {
+        setBusy(false);
+      }
+    },
+    [refresh, t]
+  );
+
+  const storeAssets = useCallback(
+    async (result: ImagePicker.ImagePickerResult) => {
+      if (!weaponId || result.canceled) {
+        return;
+      }
+
+      await runAction(async () => {
+        for (const asset of result.assets) {
+          await addWeaponPhoto({ weaponId, sourceUri: asset.uri, fileName: asset.fileName });
+        }
+      }, 'Failed to add weapon photo');
+    },
+    [runAction, weaponId]
+  );
+
+  const handlePickFromLibrary = useCallback(async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsMultipleSelection: true,
+      quality: 0.8,
+    });
+    await storeAssets(result);
+  }, [storeAssets]);
+
+  const handleTakePhoto = useCallback(async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(t('weaponForm.photos.cameraPermissionDenied'));
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({ mediaTypes: ['images'], quality: 0.8 });
+    await storeAssets(result);
+  }, [storeAssets, t]);
+
+  const handleMove = useCallback(
+    (index: number, offset: -1 | 1) => {
+      if (!weaponId) {
+        return;
+      }
+
+      const targetIndex = index + offset;
+      if (targetIndex < 0 || targetIndex >= photos.length) {
+        return;
+      }
+
+      const orderedIds = photos.map((photo) => photo.id);
+      [orderedIds[index], orderedIds[targetIndex]] = [orderedIds[targetIndex], orderedIds[index]];
+      void runAction(
+        () => reorderWeaponPhotos(weaponId, orderedIds),
+        'Failed to reorder weapon photos'
+      );
+    },
+    [photos, runAction, weaponId]
+  );
+
+  const handleSetCover = useCallback(
+    (photoId: string) => {
+      if (!weaponId) {
+        return;
+      }
+
+      void runAction(() => setWeaponCoverPhoto(weaponId, photoId), 'Failed to set cover photo');
+    },
+    [runAction, weaponId]
+  );
+
+  const handleCaptionCommit = useCallback(
+    (photoId: string, previousCaption: string | null) => {
+      const draft = captionDrafts[photoId];
+      if (draft === undefined || draft.trim() === (previousCaption ?? '')) {
+        return;
+      }
+
+      void runAction(
+        () => updateWeaponPhotoCaption(photoId, draft.trim() || null),
+        'Failed to update photo caption'
+      );
+    },
+    [captionDrafts, runAction]
+  );
+
+  const handleDelete = useCallback(
+    (photoId: string) => {
+      Alert.alert(
+        t('weaponForm.photos.deleteConfirmTitle'),
+        t('weaponForm.photos.deleteConfirmMessage'),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('weaponForm.photos.delete'),
+            style: 'destructive',
+            onPress: () => {
+              void runAction(() => deleteWeaponPhoto(photoId), 'Failed to delete weapon photo');
+            },
+          },
+        ]
+      );
+    },
+    [runAction, t]
+  );
+
+  if (!weaponId) {
+    return <ThemedText style={styles.hint}>{t('weaponForm.photos.saveFirst')}</ThemedText>;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.actionRow}>
+        <Pressable
+          onPress={handlePickFromLibrary}
+          style={[styles.actionButton, isDisabled && styles.buttonDisabled]}
+          disabled={isDisabled}
+        >
+          <ThemedText style={styles.actionText}>{t('weaponForm.photos.addFromLibrary')}</ThemedText>
+        </Pressable>
+        <Pressable
+          onPress={handleTakePhoto}
+          style={[styles.actionButton, isDisabled && styles.buttonDisabled]}
+          disabled={isDisabled}
+        >
+          <ThemedText style={styles.actionText}>{t('weaponForm.photos.takePhoto')}</ThemedText>
+        </Pressable>
+      </View>
+
+      {loading || busy ? <ActivityIndicator accessibilityLabel={t('common.loading')} /> : null}
+      {error ? <ThemedText accessibilityRole="alert">{error.message}</ThemedText> : null}
+
+      {!loading && photos.length === 0 ? (
+        <ThemedText style={styles.hint}>{t('weaponForm.photos.empty')}</ThemedText>
+      ) : null}
+
+      {photos.map((photo, index) => (
+        <View key={photo.id} style={[styles.photoRow, rowThemeStyle]}>
+          <Image source={{ uri: photo.fileUri }} style={styles.thumbnail} contentFit="cover" />
+          <View style={styles.photoDetails}>
+            <TextInput
+              value={captionDrafts[photo.id] ?? photo.caption ?? ''}
+              onChangeText={(value) =>
+                setCaptionDrafts((prev) => ({ ...prev, [photo.id]: value }))
+              }
+              onEndEditing={() => handleCaptionCommit(photo.id, photo.caption)}
+              placeholder={t('weaponForm.photos.captionPlaceholder')}
+              placeholderTextColor={placeholderColor}
+              style={[styles.input, inputThemeStyle]}
+              editable={!isDisabled}
+            />
+            <View style={styles.controlRow}>
+              {photo.isCover ? (
+                <ThemedText style={styles.coverBadge}>{t('weaponForm.photos.cover')}</ThemedText>
+              ) : (
+                <Pressable onPress={() => handleSetCover(photo.id)} disabled={isDisabled}>
+                  <ThemedText style={styles.linkText}>{t('weaponForm.photos.setCover')}</ThemedText>
+                </Pressable>
+              )}
+              <Pressable
+                onPress={() => handleMove(index, -1)}
+                disabled={isDisabled || index === 0}
+                accessibilityLabel={t('weaponForm.photos.moveUp')}
+              >
+                <ThemedText style={[styles.linkText, index === 0 && styles.linkDisabled]}>↑</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={() => handleMove(index, 1)}
+                disabled={isDisabled || index === photos.length - 1}
+                accessibilityLabel={t('weaponForm.photos.moveDown')}
+              >
+                <ThemedText
+                  style={[styles.linkText, index === photos.length - 1 && styles.linkDisabled]}
+                >
+                  ↓
+                </ThemedText>
+              </Pressable>
+              <Pressable onPress={() => handleDelete(photo.id)} disabled={isDisabled}>
+                <ThemedText style={styles.deleteText}>{t('weaponForm.photos.delete')}</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  hint: {
+    textAlign: 'center',
+    opacity: 0.7,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 10,
+    alignItems: 'center',
+    backgroundColor: 'rgba(37, 99, 235, 0.2)',
+  },
+  actionText: {
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  photoRow: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  photoRowDark: {
+    backgroundColor: 'rgba(255,255,255,0.04)',
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  photoRowLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.03)',
+    borderColor: 'rgba(15, 23, 42, 0.08)',
+  },
+  thumbnail: {
+    width: 72,
+    height: 72,
+    borderRadius: 8,
+  },
+  photoDetails: {
+    flex: 1,
+    gap: 8,
+  },
+  input: {
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderWidth: 1,
+  },
+  inputDark: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderColor: 'rgba(255,255,255,0.24)',
+    color: '#f8fafc',
+  },
+  inputLight: {
+    backgroundColor: 'rgba(15, 23, 42, 0.04)',
+    borderColor: 'rgba(15, 23, 42, 0.12)',
+    color: '#111827',
+  },
+  controlRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  coverBadge: {
+    fontSize: 12,
+    fontWeight: '700',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: 'rgba(34, 197, 94, 0.2)',
+    overflow: 'hidden',
+  },
+  linkText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  linkDisabled: {
+    opacity: 0.3,
+  },
+  deleteText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
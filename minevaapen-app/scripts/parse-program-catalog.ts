@@ -0,0 +1,375 @@
+/**
+ * Builds the program catalog from `<select>` HTML copied out of the police application form and
+ * reports how it differs from `src/data/catalog.json`.
+ *
+ *   npm run catalog:parse -- [dump] [--write]
+ *
+ * The dump defaults to `doc/skyteprogrammer.txt`: the organization `<select>`, then one program
+ * `<select>` per organization, each after a line with the organization name and a colon. Ids come
+ * from the `value` attributes. The form says nothing about weapon category or short names, so
+ * those are kept from the current catalog and guessed for anything new; the report lists the
+ * guesses to check by hand. Known typos in the form are fixed through `PROGRAM_NAME_CORRECTIONS`
+ * before comparing. `--write` saves the result with the catalog version raised by one.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import type { CatalogOrganization, CatalogProgram, ProgramCatalog } from '../src/data/catalog';
+
+const APP_ROOT = resolve(__dirname, '..');
+const CATALOG_PATH = resolve(APP_ROOT, 'src/data/catalog.json');
+const DEFAULT_DUMP_PATH = resolve(APP_ROOT, '../doc/skyteprogrammer.txt');
+
+/**
+ * Program names the police form spells wrong, by program id. The catalog keeps the corrected name
+ * for as long as the form shows `formName`; once the form changes, the entry is reported as stale.
+ */
+const PROGRAM_NAME_CORRECTIONS: Record<string, { formName: string; name: string }> = {
+  '141': { formName: 'Frontier Cartrigde Gunfighter', name: 'Frontier Cartridge Gunfighter' },
+  '142': { formName: 'Frontier Cartrigde', name: 'Frontier Cartridge' },
+  '143': { formName: 'Frontier Cartrigde duelist', name: 'Frontier Cartridge duelist' },
+};
+
+type SelectOption = { value: string; label: string };
+
+type CatalogDiff = {
+  addedOrganizations: CatalogOrganization[];
+  removedOrganizations: CatalogOrganization[];
+  added: CatalogProgram[];
+  renamed: { program: CatalogProgram; previousName: string }[];
+  moved: { program: CatalogProgram; previousOrganizationId: string }[];
+  removed: CatalogProgram[];
+  /** New entries whose category or short name had to be guessed. */
+  guessed: string[];
+  /** Corrections whose form name no longer matches what the form shows. */
+  staleCorrections: string[];
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+/** Options with an empty value are the "choose one" placeholders. */
+const readOptions = (selectHtml: string): SelectOption[] =>
+  Array.from(selectHtml.matchAll(/<option\b[^>]*\bvalue="([^"]*)"[^>]*>([\s\S]*?)<\/option>/gi))
+    .map(([, value, label]) => ({
+      value: decodeEntities(value).trim(),
+      label: decodeEntities(label.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim(),
+    }))
+    .filter((option) => option.value !== '');
+
+const readSelect = (line: string, name: string): SelectOption[] | null => {
+  const pattern = new RegExp(`<select\\b[^>]*\\bname="${name}"[^>]*>([\\s\\S]*?)</select>`);
+  const match = line.match(pattern);
+  return match ? readOptions(match[1]) : null;
+};
+
+const normalizeName = (name: string) => name.toLocaleLowerCase('nb');
+
+const parseDump = (text: string) => {
+  let organizations: SelectOption[] | null = null;
+  const programsByHeading = new Map<string, SelectOption[]>();
+  let heading: string | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    const headingMatch = trimmed.match(/^([^<]+):$/);
+    if (headingMatch) {
+      heading = headingMatch[1].trim();
+      continue;
+    }
+
+    organizations = readSelect(trimmed, 'organization') ?? organizations;
+
+    const programs = readSelect(trimmed, 'program');
+    if (programs) {
+      if (!heading) {
+        throw new Error('Found a program list without an organization name above it');
+      }
+      programsByHeading.set(normalizeName(heading), programs);
+    }
+  }
+
+  if (!organizations) {
+    throw new Error('The dump has no organization <select>');
+  }
+
+  return { organizations, programsByHeading };
+};
+
+/** "Norges Jeger Og Fiskerforbund" becomes "NJOF"; new organizations need a proper one. */
+const guessShortName = (name: string) =>
+  name
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toLocaleUpperCase('nb'))
+    .join('');
+
+const guessWeaponCategory = (name: string): CatalogProgram['weaponCategory'] => {
+  const lower = normalizeName(name);
+  if (/hagle|shotgun|trap|skeet|sporting/.test(lower)) {
+    return 'shotgun';
+  }
+  if (/revolver|magnum/.test(lower)) {
+    return 'revolver';
+  }
+  if (/rifle|gevær|carbine|karabin|baneskyting|felt|kikkert|benk/.test(lower)) {
+    return 'rifle';
+  }
+  return 'pistol';
+};
+
+/**
+ * Lists `parsed` in the order of the checked-in catalog so a regenerated file only differs where
+ * something changed. New entries go after the last one in the same group, or at the end.
+ */
+const keepCurrentOrder = <T extends { id: string }>(
+  current: T[],
+  parsed: T[],
+  groupOf: (item: T) => string | null
+): T[] => {
+  const parsedById = new Map(parsed.map((item) => [item.id, item]));
+  const result = current.flatMap((item) => {
+    const match = parsedById.get(item.id);
+    return match ? [match] : [];
+  });
+  const currentIds = new Set(current.map((item) => item.id));
+
+  for (const item of parsed) {
+    if (currentIds.has(item.id)) {
+      continue;
+    }
+    const group = groupOf(item);
+    const lastInGroup =
+      group === null ? -1 : result.findLastIndex((entry) => groupOf(entry) === group);
+    result.splice(lastInGroup === -1 ? result.length : lastInGroup + 1, 0, item);
+  }
+
+  return result;
+};
+
+const buildCatalog = (
+  text: string,
+  current: ProgramCatalog
+): { catalog: ProgramCatalog; diff: CatalogDiff } => {
+  const { organizations: organizationOptions, programsByHeading } = parseDump(text);
+  const currentOrganizations = new Map(current.organizations.map((org) => [org.id, org]));
+  const currentPrograms = new Map(current.programs.map((program) => [program.id, program]));
+  const diff: CatalogDiff = {
+    addedOrganizations: [],
+    removedOrganizations: [],
+    added: [],
+    renamed: [],
+    moved: [],
+    removed: [],
+    guessed: [],
+    staleCorrections: [],
+  };
+
+  const correctName = (id: string, formName: string) => {
+    const correction = PROGRAM_NAME_CORRECTIONS[id];
+    if (!correction) {
+      return formName;
+    }
+    if (correction.formName !== formName) {
+      diff.staleCorrections.push(`${id} "${correction.formName}" is now "${formName}" in the form`);
+      return formName;
+    }
+    return correction.name;
+  };
+
+  const organizations = organizationOptions.map(({ value, label }): CatalogOrganization => {
+    const existing = currentOrganizations.get(value);
+    if (existing) {
+      return { ...existing, name: label };
+    }
+
+    const organization = {
+      id: value,
+      name: label,
+      shortName: guessShortName(label),
+      country: 'NO',
+      // The form uses the organization number as id.
+      orgNumber: value,
+    };
+    diff.addedOrganizations.push(organization);
+    diff.guessed.push(`organization ${value} "${label}": shortName ${organization.shortName}`);
+    return organization;
+  });
+
+  const programs: CatalogProgram[] = [];
+  const seenProgramIds = new Set<string>();
+
+  for (const organization of organizations) {
+    const options = programsByHeading.get(normalizeName(organization.name));
+    if (!options) {
+      console.warn(`No program list found for ${organization.name}`);
+      continue;
+    }
+    programsByHeading.delete(normalizeName(organization.name));
+
+    for (const option of options) {
+      const { value } = option;
+      const label = correctName(value, option.label);
+      if (seenProgramIds.has(value)) {
+        throw new Error(`Program id ${value} appears more than once in the dump`);
+      }
+      seenProgramIds.add(value);
+
+      const existing = currentPrograms.get(value);
+      if (!existing) {
+        const program: CatalogProgram = {
+          id: value,
+          organizationId: organization.id,
+          name: label,
+          weaponCategory: guessWeaponCategory(label),
+          isReserveAllowed: true,
+        };
+        programs.push(program);
+        diff.added.push(program);
+        diff.guessed.push(`program ${value} "${label}": weaponCategory ${program.weaponCategory}`);
+        continue;
+      }
+
+      const program = { ...existing, organizationId: organization.id, name: label };
+      programs.push(program);
+      if (existing.name !== label) {
+        diff.renamed.push({ program, previousName: existing.name });
+      }
+      if (existing.organizationId !== organization.id) {
+        diff.moved.push({ program, previousOrganizationId: existing.organizationId });
+      }
+    }
+  }
+
+  for (const heading of programsByHeading.keys()) {
+    console.warn(`Program list "${heading}" matches no organization in the organization list`);
+  }
+
+  const organizationIds = new Set(organizations.map((org) => org.id));
+  diff.removedOrganizations = current.organizations.filter((org) => !organizationIds.has(org.id));
+  diff.removed = current.programs.filter((program) => !seenProgramIds.has(program.id));
+
+  return {
+    catalog: {
+      catalogVersion: current.catalogVersion,
+      organizations: keepCurrentOrder(current.organizations, organizations, () => null),
+      programs: keepCurrentOrder(current.programs, programs, (program) => program.organizationId),
+    },
+    diff,
+  };
+};
+
+const hasChanges = (diff: CatalogDiff) =>
+  diff.addedOrganizations.length +
+    diff.removedOrganizations.length +
+    diff.added.length +
+    diff.renamed.length +
+    diff.moved.length +
+    diff.removed.length >
+  0;
+
+const printDiff = (diff: CatalogDiff, organizations: CatalogOrganization[]) => {
+  const organizationName = (id: string) =>
+    organizations.find((org) => org.id === id)?.shortName ?? id;
+  const describeProgram = (program: CatalogProgram) =>
+    `${program.id} [${organizationName(program.organizationId)}] ${program.name}`;
+  const section = (title: string, lines: string[]) => {
+    if (lines.length > 0) {
+      console.log(`\n${title} (${lines.length}):`);
+      lines.forEach((line) => console.log(`  ${line}`));
+    }
+  };
+
+  section('New organizations', diff.addedOrganizations.map((org) => `${org.id} ${org.name}`));
+  section(
+    'Removed organizations',
+    diff.removedOrganizations.map((org) => `${org.id} ${org.name}`)
+  );
+  section('New programs', diff.added.map(describeProgram));
+  section(
+    'Renamed programs',
+    diff.renamed.map(
+      ({ program, previousName }) => `${program.id} "${previousName}" -> "${program.name}"`
+    )
+  );
+  section(
+    'Programs moved to another organization',
+    diff.moved.map(
+      ({ program, previousOrganizationId }) =>
+        `${program.id} ${program.name}: ${organizationName(previousOrganizationId)} -> ` +
+        organizationName(program.organizationId)
+    )
+  );
+  section('Removed programs', diff.removed.map(describeProgram));
+  section('Guessed values to check', diff.guessed);
+  section('Stale name corrections', diff.staleCorrections);
+};
+
+/** Same layout as the checked-in file: one organization or program per line. */
+const formatCatalog = (catalog: ProgramCatalog) => {
+  const entry = (item: object) =>
+    `{${Object.entries(item)
+      .map(([key, value]) => `${JSON.stringify(key)}: ${JSON.stringify(value)}`)
+      .join(', ')}}`;
+  const list = (items: object[]) => items.map((item) => `    ${entry(item)}`).join(',\n');
+
+  return [
+    '{',
+    `  "catalogVersion": ${catalog.catalogVersion},`,
+    '  "organizations": [',
+    list(catalog.organizations),
+    '  ],',
+    '  "programs": [',
+    list(catalog.programs),
+    '  ]',
+    '}',
+    '',
+  ].join('\n');
+};
+
+const main = () => {
+  const args = process.argv.slice(2);
+  const write = args.includes('--write');
+  const dumpPath = resolve(args.find((arg) => !arg.startsWith('--')) ?? DEFAULT_DUMP_PATH);
+
+  const current = JSON.parse(readFileSync(CATALOG_PATH, 'utf8')) as ProgramCatalog;
+  const { catalog, diff } = buildCatalog(readFileSync(dumpPath, 'utf8'), current);
+
+  console.log(
+    `Parsed ${catalog.organizations.length} organizations and ${catalog.programs.length} ` +
+      `programs from ${dumpPath}`
+  );
+
+  printDiff(diff, catalog.organizations);
+
+  if (!hasChanges(diff)) {
+    console.log(`\nCatalog version ${current.catalogVersion} is up to date.`);
+    return;
+  }
+
+  if (write) {
+    const next = { ...catalog, catalogVersion: current.catalogVersion + 1 };
+    writeFileSync(CATALOG_PATH, formatCatalog(next));
+    console.log(`\nWrote catalog version ${next.catalogVersion} to ${CATALOG_PATH}`);
+  } else {
+    console.log('\nRun again with --write to update the catalog.');
+  }
+};
+
+main();
@@ -0,0 +1,29 @@
+import catalogJson from './catalog.json';
+
+export type CatalogOrganization = {
+  id: string;
+  name: string;
+  shortName: string;
+  country: string;
+  orgNumber: string;
+};
+
+export type CatalogProgram = {
+  id: string;
+  organizationId: string;
+  name: string;
+  weaponCategory: 'pistol' | 'revolver' | 'rifle' | 'shotgun';
+  isReserveAllowed: boolean;
+};
+
+/**
+ * Organizations and programs as listed on the police application form. Raise `catalogVersion`
+ * whenever the lists change; devices only apply a catalog newer than the one they already have.
+ */
+export type ProgramCatalog = {
+  catalogVersion: number;
+  organizations: CatalogOrganization[];
+  programs: CatalogProgram[];
+};
+
+export const bundledCatalog = catalogJson as ProgramCatalog;
@@ -1,87 +0,0 @@
-export type OrganizationSeed = {
-  id: string;
-  name: string;
-  shortName: string;
-  country: string;
-  orgNumber: string;
-};
-
-export const organizationSeeds: OrganizationSeed[] = [
-  {
-    id: '943942102',
-    name: 'Det Frivillige Skyttervesen',
-    shortName: 'DFS',
-    country: 'NO',
-    orgNumber: '943942102',
-  },
-  {
-    id: '988539155',
-    name: 'Dynamisk Sportsskyting Norge',
-    shortName: 'DSSN',
-    country: 'NO',
-    orgNumber: '988539155',
-  },
-  {
-    id: '946168114',
-    name: 'Norges Sportsskytterforbund',
-    shortName: 'NSF',
-    country: 'NO',
-    orgNumber: '946168114',
-  },
-  {
-    id: '956792150',
-    name: 'Norges Jeger Og Fiskerforbund',
-    shortName: 'NJFF',
-    country: 'NO',
-    orgNumber: '956792150',
-  },
-  {
-    id: '958561903',
-    name: 'Norges Bedriftsidrettsforbund',
-    shortName: 'NBF',
-    country: 'NO',
-    orgNumber: '958561903',
-  },
-  {
-    id: '993337102',
-    name: 'Norges Benkskytterforbund',
-    shortName: 'NBSF',
-    country: 'NO',
-    orgNumber: '993337102',
-  },
-  {
-    id: '989840223',
-    name: 'Norges Metallsilhuettforbund',
-    shortName: 'NMF',
-    country: 'NO',
-    orgNumber: '989840223',
-  },
-  {
-    id: '971484063',
-    name: 'Norges Skiskytterforbund',
-    shortName: 'NSSF',
-    country: 'NO',
-    orgNumber: '971484063',
-  },
-  {
-    id: '991955364',
-    name: 'Norsk Svartkruttunion',
-    shortName: 'NSU',
-    country: 'NO',
-    orgNumber: '991955364',
-  },
-  {
-    id: '971481528',
-    name: 'Norsk Reservistforbund',
-    shortName: 'NROF',
-    country: 'NO',
-    orgNumber: '971481528',
-  },
-  {
-    id: '994525492',
-    name: 'Scandinavian Western Shooters',
-    shortName: 'SWS',
-    country: 'NO',
-    orgNumber: '994525492',
-  },
-];
@@ -0,0 +1,15 @@
+/** The twelve Norwegian police districts that issue weapon licences. */
+export const POLICE_DISTRICTS = [
+  'Oslo',
+  'Øst',
+  'Innlandet',
+  'Sør-Øst',
+  'Agder',
+  'Sør-Vest',
+  'Vest',
+  'Møre og Romsdal',
+  'Trøndelag',
+  'Nordland',
+  'Troms',
+  'Finnmark',
+] as const;
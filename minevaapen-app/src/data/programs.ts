@@ -1,185 +0,0 @@
-export type ProgramSeed = {
-  id: string;
-  organizationId: string;
-  name: string;
-  weaponCategory: 'pistol' | 'revolver' | 'rifle' | 'shotgun';
-  isReserveAllowed: boolean;
-};
-
-export const programSeeds: ProgramSeed[] = [
-  { id: '1', organizationId: '943942102', name: 'Baneskyting 100m, 200m, 300m', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '2', organizationId: '943942102', name: 'Baneskyting 15m', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '3', organizationId: '943942102', name: 'Felt', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '4', organizationId: '943942102', name: 'Felthurtig', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '5', organizationId: '943942102', name: 'Stangskyting', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '6', organizationId: '943942102', name: 'Skogsløp med skyting', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '7', organizationId: '943942102', name: 'Skifelt', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '159', organizationId: '943942102', name: 'Kikkertklassen', weaponCategory: 'rifle', isReserveAllowed: true },
-
-  { id: '8', organizationId: '988539155', name: 'Open (pistol)', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '9', organizationId: '988539155', name: 'Standard (pistol)', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '10', organizationId: '988539155', name: 'Classic', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '11', organizationId: '988539155', name: 'Revolver', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '13', organizationId: '988539155', name: 'Semi Auto Open', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '14', organizationId: '988539155', name: 'Semi Auto Standard', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '17', organizationId: '988539155', name: 'Pistol Caliber Carbine (PCC)', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '18', organizationId: '988539155', name: 'Open (hagle)', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '19', organizationId: '988539155', name: 'Modified', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '20', organizationId: '988539155', name: 'Standard (hagle)', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '21', organizationId: '988539155', name: 'Standard Manual', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '158', organizationId: '988539155', name: 'Production Optics', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '160', organizationId: '988539155', name: 'Production', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '161', organizationId: '988539155', name: 'Sivilpistol 1', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '162', organizationId: '988539155', name: 'Sivilpistol 2', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '163', organizationId: '988539155', name: 'Sivilpistol 3', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '164', organizationId: '988539155', name: 'Sivilpistol 4', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '165', organizationId: '988539155', name: 'Sivilpistol 5', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '166', organizationId: '988539155', name: 'IPSC Mini-rifle', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '170', organizationId: '988539155', name: 'Manual Action Contemporary', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '171', organizationId: '988539155', name: 'Manual Action Bolt', weaponCategory: 'rifle', isReserveAllowed: true },
-
-  { id: '61', organizationId: '946168114', name: '25m Standardpistol', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '62', organizationId: '946168114', name: '25m Finpistol', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '63', organizationId: '946168114', name: '25m Silhuettpistol', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '64', organizationId: '946168114', name: '50/25m Fripistol', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '65', organizationId: '946168114', name: '25m Grovpistol', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '66', organizationId: '946168114', name: '25m Hurtigpistol fin', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '67', organizationId: '946168114', name: '25m Hurtigpistol grov', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '68', organizationId: '946168114', name: 'Finfelt', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '69', organizationId: '946168114', name: 'Grovfelt', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '70', organizationId: '946168114', name: 'Militærfelt', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '71', organizationId: '946168114', name: 'Revolverfelt', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '72', organizationId: '946168114', name: 'Magnum 1', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '73', organizationId: '946168114', name: 'Magnum 2', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '74', organizationId: '946168114', name: 'Spesialpistol', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '75', organizationId: '946168114', name: 'Spesialrevolver', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '77', organizationId: '946168114', name: 'Revolver 1500', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '78', organizationId: '946168114', name: 'Pistol 1500', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '79', organizationId: '946168114', name: 'Open (PPC)', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '80', organizationId: '946168114', name: 'Distinguished Pistol', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '81', organizationId: '946168114', name: 'Distinguished Revolver 6 tommer', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '82', organizationId: '946168114', name: 'Standard Revolver 2,75 tommer', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '83', organizationId: '946168114', name: 'Standard Revolver 2,75 tommer - 5 skudds tønne', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '84', organizationId: '946168114', name: '15m', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '85', organizationId: '946168114', name: '50m 60 skudd liggende', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '86', organizationId: '946168114', name: '50m helmatch (3 posisjoner)', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '87', organizationId: '946168114', name: '300m riflematch', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '88', organizationId: '946168114', name: '300m liggende', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '89', organizationId: '946168114', name: '300m standard', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '90', organizationId: '946168114', name: '50m løpende villsvin', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '91', organizationId: '946168114', name: '100m løpende hjort', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '92', organizationId: '946168114', name: 'Skeet', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '93', organizationId: '946168114', name: 'Nordisk trap', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '94', organizationId: '946168114', name: 'Dobbelt trap', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '95', organizationId: '946168114', name: 'FITASC Sporting', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '96', organizationId: '946168114', name: 'FITASC Compac Sporting', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '97', organizationId: '946168114', name: 'Engelsk sporting', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '167', organizationId: '946168114', name: 'Standard Semi-Automatic Pistol', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '168', organizationId: '946168114', name: 'Olympisk trap', weaponCategory: 'shotgun', isReserveAllowed: true },
-
-  { id: '31', organizationId: '956792150', name: 'Jaktfelt', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '32', organizationId: '956792150', name: 'Elgbaneskyting', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '33', organizationId: '956792150', name: 'Nordisk jaktskyting', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '34', organizationId: '956792150', name: 'Jegertrap', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '35', organizationId: '956792150', name: 'Leirduesti', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '36', organizationId: '956792150', name: 'Figurjakt', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '37', organizationId: '956792150', name: 'Jaktsti', weaponCategory: 'rifle', isReserveAllowed: true },
-
-  { id: '22', organizationId: '958561903', name: '15m stående', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '23', organizationId: '958561903', name: '50m 60 skudd liggende', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '24', organizationId: '958561903', name: '3 x 40 skudd', weaponCategory: 'rifle', isReserveAllowed: true },
-
-  { id: '25', organizationId: '993337102', name: 'BR 50', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '26', organizationId: '993337102', name: 'Light Varmint', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '27', organizationId: '993337102', name: 'Heavy Varmint', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '28', organizationId: '993337102', name: 'Unlimited', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '29', organizationId: '993337102', name: 'F-class F/TR', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '30', organizationId: '993337102', name: 'F-class Open', weaponCategory: 'rifle', isReserveAllowed: true },
-
-  { id: '38', organizationId: '989840223', name: 'Production grov', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '39', organizationId: '989840223', name: 'Production fin', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '40', organizationId: '989840223', name: 'Revolver grov', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '41', organizationId: '989840223', name: 'Revolver fin', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '42', organizationId: '989840223', name: 'Stående', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '43', organizationId: '989840223', name: 'Stående production fin', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '44', organizationId: '989840223', name: 'Fri II grov', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '45', organizationId: '989840223', name: 'Fri II fin', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '46', organizationId: '989840223', name: 'Fieldpistol produksjon alle sikter', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '47', organizationId: '989840223', name: 'Fieldpistol produksjon', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '48', organizationId: '989840223', name: 'Fri I', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '49', organizationId: '989840223', name: 'Fri II, half size', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '50', organizationId: '989840223', name: 'Junior', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '51', organizationId: '989840223', name: 'Konvensjonell', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '52', organizationId: '989840223', name: 'Fieldrevolver', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '53', organizationId: '989840223', name: 'Silhuett grov', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '54', organizationId: '989840223', name: 'Produksjon grov', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '55', organizationId: '989840223', name: 'Silhuett fin', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '56', organizationId: '989840223', name: 'Produksjon fin', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '57', organizationId: '989840223', name: 'Finrifle fin', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '58', organizationId: '989840223', name: 'Grovrifle åpne sikter eller optikk', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '59', organizationId: '989840223', name: 'Grovrifle fri', weaponCategory: 'rifle', isReserveAllowed: true },
-
-  { id: '60', organizationId: '971484063', name: 'Skiskyting', weaponCategory: 'rifle', isReserveAllowed: true },
-
-  { id: '98', organizationId: '991955364', name: 'Mariette', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '99', organizationId: '991955364', name: 'Donald Malson', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '100', organizationId: '991955364', name: 'Smith & Wesson', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '101', organizationId: '991955364', name: 'Buntline', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '102', organizationId: '991955364', name: 'Kuchenreuter', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '103', organizationId: '991955364', name: 'Cominazzo', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '104', organizationId: '991955364', name: 'Tanzutsu', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '105', organizationId: '991955364', name: 'Felt perkusjonsrevolver', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '106', organizationId: '991955364', name: 'Felt patronrevolver', weaponCategory: 'revolver', isReserveAllowed: true },
-  { id: '107', organizationId: '991955364', name: 'Miquet', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '108', organizationId: '991955364', name: 'Maximilian', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '109', organizationId: '991955364', name: 'Minie', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '110', organizationId: '991955364', name: 'Withworth', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '112', organizationId: '991955364', name: 'Tanegashima', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '113', organizationId: '991955364', name: 'Remington Match', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '114', organizationId: '991955364', name: 'Vetterli', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '115', organizationId: '991955364', name: 'Hizadai', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '116', organizationId: '991955364', name: 'Pennsylvania', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '117', organizationId: '991955364', name: 'Lamarmora', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '118', organizationId: '991955364', name: 'Jarman', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '119', organizationId: '991955364', name: 'Bakladet perkusjon', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '120', organizationId: '991955364', name: 'Perkusjonsmuskett', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '121', organizationId: '991955364', name: 'Jakt flint (felt)', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '122', organizationId: '991955364', name: 'Jakt perkusjon (felt)', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '123', organizationId: '991955364', name: 'Militær flint (felt)', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '124', organizationId: '991955364', name: 'Militær perkusjon (felt)', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '125', organizationId: '991955364', name: 'Rifle patron (felt)', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '127', organizationId: '991955364', name: 'Bakladet perkusjon (felt)', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '128', organizationId: '991955364', name: 'Manton', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '129', organizationId: '991955364', name: 'Lorenzoni', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '130', organizationId: '991955364', name: 'Lefaucheux (Patronhagle produsert før 1902)', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '131', organizationId: '991955364', name: 'Pape (Patronhagle produsert etter 1902)', weaponCategory: 'shotgun', isReserveAllowed: true },
-  { id: '169', organizationId: '991955364', name: 'Fri klasse (felt)', weaponCategory: 'rifle', isReserveAllowed: true },
-
-  { id: '132', organizationId: '971481528', name: 'NROF Standard', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '133', organizationId: '971481528', name: 'NROF Tjenestepistol', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '134', organizationId: '971481528', name: 'Klasse 22 LR', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '135', organizationId: '971481528', name: 'Klasse 1: Halvautomatisk armegevær, kaliber 7,62 x 51', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '136', organizationId: '971481528', name: 'Klasse 2: Halvautomatisk armegevær, kaliber 5,56 x 45', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '137', organizationId: '971481528', name: 'Klasse 3: Repetergevær, kaliber 6,5 – 8mm', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '138', organizationId: '971481528', name: 'Klasse 4: Halvautomatisk armegevær kaliber 5,56 x 45 eller 7,62 x 51', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '139', organizationId: '971481528', name: 'Klasse 5: .22 LR', weaponCategory: 'rifle', isReserveAllowed: true },
-
-  { id: '140', organizationId: '994525492', name: 'Main Match', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '141', organizationId: '994525492', name: 'Frontier Cartrigde Gunfighter', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '142', organizationId: '994525492', name: 'Frontier Cartrigde', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '143', organizationId: '994525492', name: 'Frontier Cartrigde duelist', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '144', organizationId: '994525492', name: 'Frontier dobbel duelist', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '145', organizationId: '994525492', name: 'Frontiersman', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '146', organizationId: '994525492', name: 'Fronitersman gunfighter', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '147', organizationId: '994525492', name: 'Classic Cowboy', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '148', organizationId: '994525492', name: 'B-western', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '149', organizationId: '994525492', name: 'Wild Bunch', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '150', organizationId: '994525492', name: 'The Plainsman', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '151', organizationId: '994525492', name: 'Lommepistol', weaponCategory: 'pistol', isReserveAllowed: true },
-  { id: '152', organizationId: '994525492', name: 'Long Range Rifle', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '153', organizationId: '994525492', name: 'Lever action riflekaliber', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '154', organizationId: '994525492', name: 'Lever action pistolkaliber', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '155', organizationId: '994525492', name: 'Single shot', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '156', organizationId: '994525492', name: 'Buffalo single shot', weaponCategory: 'rifle', isReserveAllowed: true },
-  { id: '157', organizationId: '994525492', name: 'Derringer', weaponCategory: 'pistol', isReserveAllowed: true },
-];
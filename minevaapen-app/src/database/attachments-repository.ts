@@ -0,0 +1,188 @@
+import * as FileSystem from 'expo-file-system';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import { runSql, runWithinTransaction } from './sqlite-helpers';
+import { resolveStoredFileUri, storedFilePath } from './stored-files';
+
+export const ATTACHMENT_TYPES = [
+  'weaponCard',
+  'purchaseReceipt',
+  'policeApproval',
+  'loanAgreement',
+  'competitionResult',
+  'membershipCard',
+] as const;
+
+export type AttachmentType = (typeof ATTACHMENT_TYPES)[number];
+
+/** Memberships are keyed by organization id. */
+export type AttachmentOwnerType = 'weapon' | 'membership' | 'competition';
+
+export type AttachmentRecord = {
+  id: string;
+  ownerType: AttachmentOwnerType;
+  ownerId: string;
+  attachmentType: AttachmentType;
+  /** Resolved location; the row holds the path inside the document directory. */
+  fileUri: string;
+  fileName: string;
+  mimeType: string | null;
+  title: string | null;
+  createdAt: string;
+};
+
+/** Documents live next to `backups/` and `exports/` in the app document directory. */
+const ATTACHMENT_DIRECTORY_NAME = 'attachments';
+
+const ATTACHMENT_COLUMNS =
+  'id, ownerType, ownerId, attachmentType, fileUri, fileName, mimeType, title, createdAt';
+
+const createAttachmentId = () =>
+  `attachment-${Date.now()}-${Math.round(Math.random() * 1_000_000)}`;
+
+const sanitizeFileName = (name: string) => name.replace(/[^\w.\-]+/g, '_');
+
+const mapAttachmentRow = (row: AttachmentRecord): AttachmentRecord => ({
+  ...row,
+  fileUri: resolveStoredFileUri(row.fileUri),
+});
+
+export const isImageAttachment = (attachment: Pick<AttachmentRecord, 'mimeType' | 'fileName'>) =>
+  attachment.mimeType?.startsWith('image/') ??
+  /\.(jpe?g|png|gif|heic|webp)$/i.test(attachment.fileName);
+
+/** Accepts stored paths as well as resolved URIs. */
+export const deleteAttachmentFiles = (fileUris: string[]): void => {
+  for (const fileUri of fileUris) {
+    try {
+      const file = new FileSystem.File(resolveStoredFileUri(fileUri));
+      if (file.exists) {
+        file.delete();
+      }
+    } catch (error) {
+      console.warn('Failed to delete attachment file', error);
+    }
+  }
+};
+
+export const fetchAttachments = async (
+  ownerType: AttachmentOwnerType,
+  ownerId: string
+): Promise<AttachmentRecord[]> => {
+  const result = await runSql<AttachmentRecord>(
+    `SELECT ${ATTACHMENT_COLUMNS}
+     FROM attachments
+     WHERE ownerType = ? AND ownerId = ?
+     ORDER BY createdAt DESC`,
+    [ownerType, ownerId]
+  );
+
+  return result.rows.map(mapAttachmentRow);
+};
+
+export const fetchAttachmentById = async (
+  attachmentId: string
+): Promise<AttachmentRecord | null> => {
+  const result = await runSql<AttachmentRecord>(
+    `SELECT ${ATTACHMENT_COLUMNS} FROM attachments WHERE id = ?`,
+    [attachmentId]
+  );
+
+  const row = result.rows[0];
+  return row ? mapAttachmentRow(row) : null;
+};
+
+export type AddAttachmentInput = {
+  ownerType: AttachmentOwnerType;
+  ownerId: string;
+  attachmentType: AttachmentType;
+  sourceUri: string;
+  fileName: string;
+  mimeType?: string | null;
+  title?: string | null;
+};
+
+/** Copies the picked document into app storage and links it to its owner. */
+export const addAttachment = async (input: AddAttachmentInput): Promise<AttachmentRecord> => {
+  const directory = new FileSystem.Directory(resolveStoredFileUri(ATTACHMENT_DIRECTORY_NAME));
+  if (!directory.exists) {
+    directory.create({ intermediates: true, idempotent: true });
+  }
+
+  const id = createAttachmentId();
+  const path = storedFilePath(
+    ATTACHMENT_DIRECTORY_NAME,
+    `${id}-${sanitizeFileName(input.fileName)}`
+  );
+  new FileSystem.File(input.sourceUri).copy(new FileSystem.File(resolveStoredFileUri(path)));
+
+  const record: AttachmentRecord = {
+    id,
+    ownerType: input.ownerType,
+    ownerId: input.ownerId,
+    attachmentType: input.attachmentType,
+    fileUri: resolveStoredFileUri(path),
+    fileName: input.fileName,
+    mimeType: input.mimeType ?? null,
+    title: input.title?.trim() || null,
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    await runWithinTransaction(async (db) => {
+      await db.runAsync(
+        `INSERT INTO attachments (${ATTACHMENT_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          record.id,
+          record.ownerType,
+          record.ownerId,
+          record.attachmentType,
+          path,
+          record.fileName,
+          record.mimeType,
+          record.title,
+          record.createdAt,
+        ]
+      );
+    });
+  } catch (error) {
+    deleteAttachmentFiles([path]);
+    throw error;
+  }
+
+  return record;
+};
+
+export const deleteAttachment = async (attachmentId: string): Promise<void> => {
+  const attachment = await fetchAttachmentById(attachmentId);
+  if (!attachment) {
+    return;
+  }
+
+  await runWithinTransaction(async (db) => {
+    await db.runAsync('DELETE FROM attachments WHERE id = ?', [attachmentId]);
+  });
+
+  deleteAttachmentFiles([attachment.fileUri]);
+};
+
+/**
+ * Removes the rows for every attachment of an owner inside the caller's transaction and
+ * returns the file paths, which the caller deletes once the transaction has committed.
+ */
+export const deleteOwnerAttachmentRows = async (
+  db: SQLiteDatabase,
+  ownerType: AttachmentOwnerType,
+  ownerId: string
+): Promise<string[]> => {
+  const rows = await db.getAllAsync<{ fileUri: string }>(
+    'SELECT fileUri FROM attachments WHERE ownerType = ? AND ownerId = ?',
+    [ownerType, ownerId]
+  );
+  await db.runAsync('DELETE FROM attachments WHERE ownerType = ? AND ownerId = ?', [
+    ownerType,
+    ownerId,
+  ]);
+
+  return rows.map((row) => row.fileUri);
+};
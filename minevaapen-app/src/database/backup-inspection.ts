@@ -0,0 +1,159 @@
+import { deserializeDatabaseAsync, type SQLiteDatabase } from 'expo-sqlite';
+
+import { LATEST_SCHEMA_VERSION } from './migrations';
+
+export type BackupDatabaseSummary = {
+  schemaVersion: number;
+  weaponCount: number;
+  memberOrganizations: string[];
+  /** Newest timestamp found in the backup, or null when nothing in it is dated. */
+  newestChange: string | null;
+};
+
+export type BackupValidationErrorCode =
+  | 'unreadable'
+  | 'integrityCheckFailed'
+  | 'missingTables'
+  | 'schemaTooNew';
+
+export class BackupValidationError extends Error {
+  readonly code: BackupValidationErrorCode;
+  readonly cause: unknown;
+
+  constructor(code: BackupValidationErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'BackupValidationError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/** Tables a backup must contain, keyed by the schema version that introduced them. */
+const EXPECTED_TABLES: { name: string; sinceVersion: number }[] = [
+  { name: 'organizations', sinceVersion: 0 },
+  { name: 'programs', sinceVersion: 0 },
+  { name: 'weapons', sinceVersion: 0 },
+  { name: 'weapon_programs', sinceVersion: 0 },
+  { name: 'competitions', sinceVersion: 2 },
+  { name: 'weapon_photos', sinceVersion: 3 },
+  { name: 'attachments', sinceVersion: 4 },
+  { name: 'settings', sinceVersion: 6 },
+  { name: 'weapon_search', sinceVersion: 7 },
+  { name: 'memberships', sinceVersion: 8 },
+  { name: 'shooter_profile', sinceVersion: 9 },
+];
+
+/** Columns that date a change. Older backups may lack some of them. */
+const CHANGE_COLUMNS: { table: string; column: string }[] = [
+  { table: 'weapons', column: 'updatedAt' },
+  { table: 'competitions', column: 'date' },
+  { table: 'weapon_photos', column: 'createdAt' },
+  { table: 'attachments', column: 'createdAt' },
+  { table: 'shooter_profile', column: 'updatedAt' },
+];
+
+const hasColumn = async (db: SQLiteDatabase, table: string, column: string) => {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.some((entry) => entry.name === column);
+};
+
+const summarize = async (db: SQLiteDatabase): Promise<BackupDatabaseSummary> => {
+  const integrityRows = await db.getAllAsync<{ integrity_check: string }>('PRAGMA integrity_check');
+  const integrityMessages = integrityRows.map((row) => row.integrity_check);
+  if (integrityMessages.length !== 1 || integrityMessages[0] !== 'ok') {
+    throw new BackupValidationError(
+      'integrityCheckFailed',
+      `Integrity check failed: ${integrityMessages.slice(0, 3).join('; ')}`
+    );
+  }
+
+  const versionRow = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const schemaVersion = Number(versionRow?.user_version ?? 0);
+  if (schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new BackupValidationError(
+      'schemaTooNew',
+      `Backup schema version ${schemaVersion} is newer than supported version ${LATEST_SCHEMA_VERSION}`
+    );
+  }
+
+  const tableRows = await db.getAllAsync<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'table'"
+  );
+  const tableNames = new Set(tableRows.map((row) => row.name));
+  const missingTables = EXPECTED_TABLES.filter(
+    (table) => table.sinceVersion <= schemaVersion && !tableNames.has(table.name)
+  ).map((table) => table.name);
+  if (missingTables.length > 0) {
+    throw new BackupValidationError(
+      'missingTables',
+      `Backup is missing tables: ${missingTables.join(', ')}`
+    );
+  }
+
+  const weaponRow = await db.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) AS count FROM weapons'
+  );
+
+  // Backups from before the memberships table only carry the old flag.
+  let memberOrganizations: string[] = [];
+  if (tableNames.has('memberships')) {
+    const rows = await db.getAllAsync<{ name: string }>(
+      `SELECT o.name FROM organizations o
+       INNER JOIN memberships m ON m.organizationId = o.id
+       ORDER BY o.name`
+    );
+    memberOrganizations = rows.map((row) => row.name);
+  } else if (await hasColumn(db, 'organizations', 'isMember')) {
+    const rows = await db.getAllAsync<{ name: string }>(
+      'SELECT name FROM organizations WHERE isMember = 1 ORDER BY name'
+    );
+    memberOrganizations = rows.map((row) => row.name);
+  }
+
+  let newestChange: string | null = null;
+  for (const { table, column } of CHANGE_COLUMNS) {
+    if (!tableNames.has(table) || !(await hasColumn(db, table, column))) {
+      continue;
+    }
+
+    const row = await db.getFirstAsync<{ value: string | null }>(
+      `SELECT MAX(${column}) AS value FROM ${table}`
+    );
+    if (row?.value && (!newestChange || row.value > newestChange)) {
+      newestChange = row.value;
+    }
+  }
+
+  return {
+    schemaVersion,
+    weaponCount: Number(weaponRow?.count ?? 0),
+    memberOrganizations,
+    newestChange,
+  };
+};
+
+/**
+ * Opens a candidate database in memory with writes disabled, checks that it is intact and
+ * recognisable, and summarises what it contains. The file on disk is never touched. `bytes` must
+ * fill its own buffer; the native side reads the whole buffer behind a view.
+ */
+export const inspectBackupDatabase = async (bytes: Uint8Array): Promise<BackupDatabaseSummary> => {
+  let db: SQLiteDatabase;
+  try {
+    db = await deserializeDatabaseAsync(bytes, { useNewConnection: true });
+  } catch (error) {
+    throw new BackupValidationError('unreadable', 'Backup is not a readable database', error);
+  }
+
+  try {
+    await db.execAsync('PRAGMA query_only = ON');
+    return await summarize(db);
+  } catch (error) {
+    if (error instanceof BackupValidationError) {
+      throw error;
+    }
+    throw new BackupValidationError('unreadable', 'Backup is not a readable database', error);
+  } finally {
+    await db.closeAsync();
+  }
+};
@@ -0,0 +1,322 @@
+import { deserializeDatabaseAsync, type SQLiteDatabase } from 'expo-sqlite';
+
+import { getDatabase } from './db';
+import { migrateDatabase } from './migrations';
+import { runWithinTransaction } from './sqlite-helpers';
+import { syncWeaponSearchIndex } from './weapon-search';
+import type { WeaponRecord } from './weapons-repository';
+
+export type SnapshotWeapon = WeaponRecord & {
+  updatedAt: string | null;
+};
+
+export type SnapshotProgramLink = {
+  weaponId: string;
+  programId: string;
+  programName: string | null;
+  status: 'approved' | 'pending' | 'proposed';
+  isReserve: boolean;
+};
+
+export type SnapshotOrganization = {
+  id: string;
+  name: string;
+  shortName: string;
+  isMember: boolean;
+};
+
+/** The parts of a database a restore preview compares. */
+export type SnapshotData = {
+  weapons: SnapshotWeapon[];
+  programLinks: SnapshotProgramLink[];
+  organizations: SnapshotOrganization[];
+};
+
+export type MergeSelection = {
+  weaponIds: string[];
+  programLinks: { weaponId: string; programId: string }[];
+  organizationIds: string[];
+};
+
+export type MergeResult = {
+  weapons: number;
+  programLinks: number;
+  memberships: number;
+  photos: number;
+  attachments: number;
+};
+
+/**
+ * Copies a stored file out of the backup and returns the value to store for it, or null when the
+ * backup does not carry the file.
+ */
+export type ImportStoredFile = (fileUri: string) => string | null;
+
+const WEAPON_COLUMNS = [
+  'id',
+  'displayName',
+  'type',
+  'manufacturer',
+  'model',
+  'serialNumber',
+  'acquisitionDate',
+  'acquisitionPrice',
+  'weaponCardRef',
+  'notes',
+  'operationMode',
+  'caliber',
+  'ownershipStatus',
+  'loanContactName',
+  'loanStartDate',
+  'loanEndDate',
+  'updatedAt',
+] as const satisfies readonly (keyof SnapshotWeapon)[];
+
+const PHOTO_COLUMNS = ['id', 'weaponId', 'fileUri', 'caption', 'sortOrder', 'isCover', 'createdAt'];
+
+const ATTACHMENT_COLUMNS = [
+  'id',
+  'ownerType',
+  'ownerId',
+  'attachmentType',
+  'fileUri',
+  'fileName',
+  'mimeType',
+  'title',
+  'createdAt',
+];
+
+const MEMBERSHIP_COLUMNS = [
+  'organizationId',
+  'memberNumber',
+  'clubName',
+  'membershipYear',
+  'expiresAt',
+  'createdAt',
+  'updatedAt',
+];
+
+type SqlValue = string | number | null;
+
+type StoredFileRow = Record<string, SqlValue> & { id: string; fileUri: string };
+
+/**
+ * Opens a backup database in memory and migrates it to the current schema, so it can be read
+ * with the same columns as the live database. The caller closes the returned connection.
+ * `bytes` must fill its own buffer, as for `inspectBackupDatabase`.
+ */
+export const openBackupSnapshot = async (bytes: Uint8Array): Promise<SQLiteDatabase> => {
+  const db = await deserializeDatabaseAsync(bytes, { useNewConnection: true });
+
+  try {
+    await migrateDatabase(db);
+  } catch (error) {
+    await db.closeAsync();
+    throw error;
+  }
+
+  return db;
+};
+
+export const readSnapshotData = async (
+  db: SQLiteDatabase = getDatabase()
+): Promise<SnapshotData> => {
+  const weapons = await db.getAllAsync<SnapshotWeapon>(
+    `SELECT ${WEAPON_COLUMNS.join(', ')} FROM weapons ORDER BY displayName COLLATE NOCASE`
+  );
+
+  const linkRows = await db.getAllAsync<
+    Omit<SnapshotProgramLink, 'isReserve'> & { isReserve: number }
+  >(
+    `SELECT wp.weaponId, wp.programId, p.name AS programName, wp.status, wp.isReserve
+     FROM weapon_programs wp
+     LEFT JOIN programs p ON p.id = wp.programId`
+  );
+
+  const organizationRows = await db.getAllAsync<
+    Omit<SnapshotOrganization, 'isMember'> & { isMember: number }
+  >(
+    `SELECT o.id, o.name, o.shortName, m.organizationId IS NOT NULL AS isMember
+     FROM organizations o
+     LEFT JOIN memberships m ON m.organizationId = o.id
+     ORDER BY o.name`
+  );
+
+  return {
+    weapons,
+    programLinks: linkRows.map((row) => ({ ...row, isReserve: Boolean(row.isReserve) })),
+    organizations: organizationRows.map((row) => ({ ...row, isMember: Boolean(row.isMember) })),
+  };
+};
+
+const insertRow = async (
+  db: SQLiteDatabase,
+  table: string,
+  columns: readonly string[],
+  row: Record<string, SqlValue>
+) => {
+  await db.runAsync(
+    `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    columns.map((column) => row[column] ?? null)
+  );
+};
+
+/**
+ * Copies photo or attachment rows that the live database does not have yet, together with their
+ * files. Rows whose file is missing from the backup are skipped.
+ */
+const importStoredFileRows = async (
+  db: SQLiteDatabase,
+  table: 'weapon_photos' | 'attachments',
+  columns: string[],
+  rows: StoredFileRow[],
+  importStoredFile: ImportStoredFile
+): Promise<number> => {
+  let imported = 0;
+
+  for (const row of rows) {
+    const existing = await db.getFirstAsync(`SELECT id FROM ${table} WHERE id = ?`, [row.id]);
+    if (existing) {
+      continue;
+    }
+
+    const fileUri = importStoredFile(row.fileUri);
+    if (!fileUri) {
+      continue;
+    }
+
+    await insertRow(db, table, columns, { ...row, fileUri });
+    imported += 1;
+  }
+
+  return imported;
+};
+
+/**
+ * Copies the selected weapons, program links and memberships from a backup snapshot into
+ * the live database. Nothing is deleted: data that exists only on this device is kept.
+ * Weapons that are new to this device bring their photos and documents along.
+ */
+export const mergeSnapshotSelection = async (
+  snapshot: SQLiteDatabase,
+  selection: MergeSelection,
+  importStoredFile: ImportStoredFile
+): Promise<MergeResult> => {
+  const result: MergeResult = {
+    weapons: 0,
+    programLinks: 0,
+    memberships: 0,
+    photos: 0,
+    attachments: 0,
+  };
+  const now = new Date().toISOString();
+
+  await runWithinTransaction(async (db) => {
+    for (const weaponId of selection.weaponIds) {
+      const weapon = await snapshot.getFirstAsync<SnapshotWeapon>(
+        `SELECT ${WEAPON_COLUMNS.join(', ')} FROM weapons WHERE id = ?`,
+        [weaponId]
+      );
+      if (!weapon) {
+        continue;
+      }
+
+      const existing = await db.getFirstAsync('SELECT id FROM weapons WHERE id = ?', [weaponId]);
+      const updateColumns = WEAPON_COLUMNS.filter((column) => column !== 'id');
+      await db.runAsync(
+        `INSERT INTO weapons (${WEAPON_COLUMNS.join(', ')})
+         VALUES (${WEAPON_COLUMNS.map(() => '?').join(', ')})
+         ON CONFLICT(id) DO UPDATE SET
+           ${updateColumns.map((column) => `${column} = excluded.${column}`).join(',\n           ')}`,
+        WEAPON_COLUMNS.map((column) => weapon[column] ?? null)
+      );
+      result.weapons += 1;
+
+      if (existing) {
+        continue;
+      }
+
+      const photos = await snapshot.getAllAsync<StoredFileRow>(
+        `SELECT ${PHOTO_COLUMNS.join(', ')} FROM weapon_photos WHERE weaponId = ?`,
+        [weaponId]
+      );
+      result.photos += await importStoredFileRows(
+        db,
+        'weapon_photos',
+        PHOTO_COLUMNS,
+        photos,
+        importStoredFile
+      );
+
+      const attachments = await snapshot.getAllAsync<StoredFileRow>(
+        `SELECT ${ATTACHMENT_COLUMNS.join(', ')} FROM attachments
+         WHERE ownerType = 'weapon' AND ownerId = ?`,
+        [weaponId]
+      );
+      result.attachments += await importStoredFileRows(
+        db,
+        'attachments',
+        ATTACHMENT_COLUMNS,
+        attachments,
+        importStoredFile
+      );
+    }
+
+    const touchedWeaponIds = new Set<string>();
+    for (const { weaponId, programId } of selection.programLinks) {
+      const link = await snapshot.getFirstAsync<{ status: string; isReserve: number }>(
+        'SELECT status, isReserve FROM weapon_programs WHERE weaponId = ? AND programId = ?',
+        [weaponId, programId]
+      );
+      const weaponExists = await db.getFirstAsync('SELECT id FROM weapons WHERE id = ?', [
+        weaponId,
+      ]);
+      if (!link || !weaponExists) {
+        continue;
+      }
+
+      await db.runAsync(
+        `INSERT INTO weapon_programs (weaponId, programId, status, isReserve)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(weaponId, programId) DO UPDATE SET
+           status = excluded.status,
+           isReserve = excluded.isReserve`,
+        [weaponId, programId, link.status, link.isReserve]
+      );
+      touchedWeaponIds.add(weaponId);
+      result.programLinks += 1;
+    }
+
+    // Link changes on a weapon that was not itself merged still count as a change here.
+    for (const weaponId of touchedWeaponIds) {
+      if (!selection.weaponIds.includes(weaponId)) {
+        await db.runAsync('UPDATE weapons SET updatedAt = ? WHERE id = ?', [now, weaponId]);
+      }
+    }
+
+    await syncWeaponSearchIndex(db, new Set([...selection.weaponIds, ...touchedWeaponIds]));
+
+    for (const organizationId of selection.organizationIds) {
+      const organizationExists = await db.getFirstAsync(
+        'SELECT id FROM organizations WHERE id = ?',
+        [organizationId]
+      );
+      if (!organizationExists) {
+        continue;
+      }
+
+      // The backup's membership replaces this device's, including its absence.
+      const membership = await snapshot.getFirstAsync<Record<string, SqlValue>>(
+        `SELECT ${MEMBERSHIP_COLUMNS.join(', ')} FROM memberships WHERE organizationId = ?`,
+        [organizationId]
+      );
+      await db.runAsync('DELETE FROM memberships WHERE organizationId = ?', [organizationId]);
+      if (membership) {
+        await insertRow(db, 'memberships', MEMBERSHIP_COLUMNS, membership);
+      }
+      result.memberships += 1;
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,276 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import { bundledCatalog, type ProgramCatalog } from '@/src/data/catalog';
+import { getSetting, setSetting, SETTING_KEYS } from '@/src/database/settings-repository';
+import { runSql, runWithinTransaction } from '@/src/database/sqlite-helpers';
+import { syncWeaponSearchIndex } from '@/src/database/weapon-search';
+
+export type CatalogChangeKind =
+  | 'organizationAdded'
+  | 'organizationUpdated'
+  | 'programAdded'
+  | 'programRenamed'
+  | 'programRecategorized'
+  | 'programRestored'
+  | 'programRetired'
+  | 'programRemoved';
+
+export type CatalogChange = {
+  kind: CatalogChangeKind;
+  id: string;
+  /** Current name, or the last known one for removed programs. */
+  name: string;
+  /** Old and new value for renames and category changes. */
+  from: string | null;
+  to: string | null;
+};
+
+export type CatalogChangelog = {
+  /** Null when the device had no versioned catalog yet. */
+  fromVersion: number | null;
+  toVersion: number;
+  appliedAt: string;
+  changes: CatalogChange[];
+};
+
+type ExistingOrganization = {
+  id: string;
+  name: string;
+  shortName: string;
+  country: string | null;
+  orgNumber: string | null;
+};
+
+type ExistingProgram = {
+  id: string;
+  organizationId: string;
+  name: string;
+  weaponCategory: string | null;
+  isReserveAllowed: number;
+  isCatalog: number;
+  retiredAt: string | null;
+  isLinked: number;
+};
+
+export const getCatalogVersion = async (): Promise<number | null> => {
+  const value = await getSetting(SETTING_KEYS.catalogVersion);
+  const version = value === null ? NaN : Number(value);
+  return Number.isInteger(version) ? version : null;
+};
+
+export const getLastCatalogChangelog = async (): Promise<CatalogChangelog | null> => {
+  const value = await getSetting(SETTING_KEYS.catalogChangelog);
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value) as CatalogChangelog;
+  } catch (error) {
+    console.warn('Ignoring unreadable catalog changelog', error);
+    return null;
+  }
+};
+
+const change = (
+  kind: CatalogChangeKind,
+  id: string,
+  name: string,
+  from: string | null = null,
+  to: string | null = null
+): CatalogChange => ({ kind, id, name, from, to });
+
+const syncOrganizations = async (
+  db: SQLiteDatabase,
+  catalog: ProgramCatalog,
+  changes: CatalogChange[]
+) => {
+  const existing = await db.getAllAsync<ExistingOrganization>(
+    'SELECT id, name, shortName, country, orgNumber FROM organizations'
+  );
+  const existingById = new Map(existing.map((org) => [org.id, org]));
+
+  for (const org of catalog.organizations) {
+    const current = existingById.get(org.id);
+    if (!current) {
+      await db.runAsync(
+        `INSERT INTO organizations (id, name, shortName, country, orgNumber, isMember)
+         VALUES (?, ?, ?, ?, ?, 0)`,
+        [org.id, org.name, org.shortName, org.country, org.orgNumber]
+      );
+      changes.push(change('organizationAdded', org.id, org.name));
+      continue;
+    }
+
+    if (
+      current.name === org.name &&
+      current.shortName === org.shortName &&
+      current.country === org.country &&
+      current.orgNumber === org.orgNumber
+    ) {
+      continue;
+    }
+
+    await db.runAsync(
+      'UPDATE organizations SET name = ?, shortName = ?, country = ?, orgNumber = ? WHERE id = ?',
+      [org.name, org.shortName, org.country, org.orgNumber, org.id]
+    );
+    changes.push(change('organizationUpdated', org.id, org.name, current.name, org.name));
+  }
+};
+
+/** Returns the ids of programs whose name changed, so their weapons can be re-indexed. */
+const syncPrograms = async (
+  db: SQLiteDatabase,
+  catalog: ProgramCatalog,
+  changes: CatalogChange[],
+  now: string
+): Promise<string[]> => {
+  const existing = await db.getAllAsync<ExistingProgram>(
+    `SELECT
+       p.id,
+       p.organizationId,
+       p.name,
+       p.weaponCategory,
+       p.isReserveAllowed,
+       p.isCatalog,
+       p.retiredAt,
+       EXISTS (SELECT 1 FROM weapon_programs wp WHERE wp.programId = p.id)
+         OR EXISTS (SELECT 1 FROM competitions c WHERE c.programId = p.id) AS isLinked
+     FROM programs p`
+  );
+  const existingById = new Map(existing.map((program) => [program.id, program]));
+  const catalogIds = new Set(catalog.programs.map((program) => program.id));
+  const renamedIds: string[] = [];
+
+  for (const program of catalog.programs) {
+    const current = existingById.get(program.id);
+    const values = [
+      program.organizationId,
+      program.name,
+      program.weaponCategory,
+      program.isReserveAllowed ? 1 : 0,
+      program.id,
+    ];
+
+    if (!current) {
+      await db.runAsync(
+        `INSERT INTO programs (
+           organizationId, name, weaponCategory, isReserveAllowed, id, isCatalog
+         ) VALUES (?, ?, ?, ?, ?, 1)`,
+        values
+      );
+      changes.push(change('programAdded', program.id, program.name));
+      continue;
+    }
+
+    const renamed = current.name !== program.name;
+    const recategorized = current.weaponCategory !== program.weaponCategory;
+    const unchanged =
+      !renamed &&
+      !recategorized &&
+      current.organizationId === program.organizationId &&
+      Boolean(current.isReserveAllowed) === program.isReserveAllowed &&
+      Boolean(current.isCatalog) &&
+      current.retiredAt === null;
+    if (unchanged) {
+      continue;
+    }
+
+    await db.runAsync(
+      `UPDATE programs
+       SET organizationId = ?, name = ?, weaponCategory = ?, isReserveAllowed = ?,
+         isCatalog = 1, retiredAt = NULL
+       WHERE id = ?`,
+      values
+    );
+
+    if (current.retiredAt !== null) {
+      changes.push(change('programRestored', program.id, program.name));
+    }
+    if (renamed) {
+      renamedIds.push(program.id);
+      changes.push(change('programRenamed', program.id, program.name, current.name, program.name));
+    }
+    if (recategorized) {
+      changes.push(
+        change(
+          'programRecategorized',
+          program.id,
+          program.name,
+          current.weaponCategory,
+          program.weaponCategory
+        )
+      );
+    }
+  }
+
+  for (const current of existing) {
+    if (!current.isCatalog || current.retiredAt !== null || catalogIds.has(current.id)) {
+      continue;
+    }
+
+    // Weapons and competitions keep pointing at a retired program; unused ones can simply go.
+    if (current.isLinked) {
+      await db.runAsync('UPDATE programs SET retiredAt = ? WHERE id = ?', [now, current.id]);
+      changes.push(change('programRetired', current.id, current.name));
+    } else {
+      await db.runAsync('DELETE FROM programs WHERE id = ?', [current.id]);
+      changes.push(change('programRemoved', current.id, current.name));
+    }
+  }
+
+  return renamedIds;
+};
+
+/**
+ * Brings organizations and programs in line with `catalog`: adds what is new, corrects names and
+ * categories, and retires catalog programs that are gone. Programs added by the user or by an
+ * import are left alone. The changelog is kept for the settings screen, except on a fresh install
+ * where everything would show up as added.
+ */
+export const applyProgramCatalog = async (catalog: ProgramCatalog): Promise<CatalogChangelog> => {
+  const fromVersion = await getCatalogVersion();
+  const programCount = await runSql<{ count: number }>('SELECT COUNT(*) AS count FROM programs');
+  const isFreshInstall = (programCount.rows[0]?.count ?? 0) === 0;
+  const now = new Date().toISOString();
+  const changes: CatalogChange[] = [];
+
+  await runWithinTransaction(async (db) => {
+    await syncOrganizations(db, catalog, changes);
+    const renamedIds = await syncPrograms(db, catalog, changes, now);
+
+    if (renamedIds.length > 0) {
+      const linked = await db.getAllAsync<{ weaponId: string }>(
+        `SELECT DISTINCT weaponId FROM weapon_programs
+         WHERE programId IN (${renamedIds.map(() => '?').join(', ')})`,
+        renamedIds
+      );
+      await syncWeaponSearchIndex(db, linked.map((row) => row.weaponId));
+    }
+  });
+
+  const changelog: CatalogChangelog = {
+    fromVersion,
+    toVersion: catalog.catalogVersion,
+    appliedAt: now,
+    changes,
+  };
+
+  await setSetting(SETTING_KEYS.catalogVersion, String(catalog.catalogVersion));
+  if (!isFreshInstall && changes.length > 0) {
+    await setSetting(SETTING_KEYS.catalogChangelog, JSON.stringify(changelog));
+  }
+
+  return changelog;
+};
+
+/** Applies the catalog shipped with the app unless the device already has this or a newer one. */
+export const syncBundledCatalog = async (): Promise<void> => {
+  const currentVersion = await getCatalogVersion();
+  if (currentVersion !== null && currentVersion >= bundledCatalog.catalogVersion) {
+    return;
+  }
+
+  await applyProgramCatalog(bundledCatalog);
+};
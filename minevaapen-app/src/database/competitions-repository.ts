@@ -0,0 +1,251 @@
+import type { SQLiteBindParams } from 'expo-sqlite';
+
+import { deleteAttachmentFiles, deleteOwnerAttachmentRows } from './attachments-repository';
+import { runSql, runWithinTransaction } from './sqlite-helpers';
+
+export type CompetitionEventType = 'open' | 'closed' | 'international';
+
+export type CompetitionRecord = {
+  id: string;
+  date: string;
+  programId: string;
+  eventName: string;
+  eventType: CompetitionEventType;
+  weaponId: string | null;
+  result: string | null;
+};
+
+export type CompetitionWithDetails = CompetitionRecord & {
+  programName: string;
+  organizationId: string;
+  weaponDisplayName: string | null;
+};
+
+export type CompetitionFilters = {
+  programId?: string | null;
+  weaponId?: string | null;
+  fromDate?: string | null;
+  allowedOrganizationIds?: string[] | null;
+};
+
+export type ProgramCompetitionProgress = {
+  programId: string;
+  programName: string;
+  organizationId: string;
+  totalCount: number;
+  openCount: number;
+  internationalCount: number;
+  reserveCount: number;
+  lastCompetitionDate: string | null;
+};
+
+type ProgramCompetitionProgressRow = Omit<
+  ProgramCompetitionProgress,
+  'totalCount' | 'openCount' | 'internationalCount' | 'reserveCount'
+> & {
+  totalCount: number | null;
+  openCount: number | null;
+  internationalCount: number | null;
+  reserveCount: number | null;
+};
+
+const toIsoDate = (date: Date) => {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * First day included in the rolling twelve month window that the police reserve
+ * weapon rule ("det siste året") is evaluated against.
+ */
+export const getRollingWindowStart = (referenceDate: Date = new Date()): string => {
+  const start = new Date(referenceDate);
+  start.setFullYear(start.getFullYear() - 1);
+  return toIsoDate(start);
+};
+
+export const fetchCompetitions = async (
+  filters: CompetitionFilters = {}
+): Promise<CompetitionWithDetails[]> => {
+  const conditions: string[] = [];
+  const params: SQLiteBindParams = [];
+
+  if (filters.programId) {
+    conditions.push('c.programId = ?');
+    params.push(filters.programId);
+  }
+
+  if (filters.weaponId) {
+    conditions.push('c.weaponId = ?');
+    params.push(filters.weaponId);
+  }
+
+  if (filters.fromDate) {
+    conditions.push('c.date >= ?');
+    params.push(filters.fromDate);
+  }
+
+  if (Array.isArray(filters.allowedOrganizationIds)) {
+    if (filters.allowedOrganizationIds.length === 0) {
+      return [];
+    }
+
+    const placeholders = filters.allowedOrganizationIds.map(() => '?').join(', ');
+    conditions.push(`p.organizationId IN (${placeholders})`);
+    params.push(...filters.allowedOrganizationIds);
+  }
+
+  const whereClause = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const result = await runSql<CompetitionWithDetails>(
+    `SELECT
+      c.id,
+      c.date,
+      c.programId,
+      c.eventName,
+      c.eventType,
+      c.weaponId,
+      c.result,
+      p.name AS programName,
+      p.organizationId,
+      w.displayName AS weaponDisplayName
+    FROM competitions c
+    INNER JOIN programs p ON p.id = c.programId
+    LEFT JOIN weapons w ON w.id = c.weaponId
+    ${whereClause}
+    ORDER BY c.date DESC, c.eventName COLLATE NOCASE`,
+    params
+  );
+
+  return result.rows;
+};
+
+export const fetchCompetitionById = async (
+  competitionId: string
+): Promise<CompetitionRecord | null> => {
+  const result = await runSql<CompetitionRecord>(
+    `SELECT id, date, programId, eventName, eventType, weaponId, result
+     FROM competitions
+     WHERE id = ?`,
+    [competitionId]
+  );
+
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Counts logged competitions per program within the rolling window. Programs are included
+ * when they have at least one logged competition or at least one reserve weapon.
+ */
+export const fetchProgramCompetitionProgress = async (
+  allowedOrganizationIds?: string[] | null,
+  referenceDate: Date = new Date()
+): Promise<ProgramCompetitionProgress[]> => {
+  const params: SQLiteBindParams = [getRollingWindowStart(referenceDate)];
+  const conditions: string[] = [
+    `(
+      EXISTS (SELECT 1 FROM competitions ce WHERE ce.programId = p.id)
+      OR EXISTS (
+        SELECT 1 FROM weapon_programs wpr
+        WHERE wpr.programId = p.id AND wpr.isReserve = 1 AND wpr.status = 'approved'
+      )
+    )`,
+  ];
+
+  if (Array.isArray(allowedOrganizationIds)) {
+    if (allowedOrganizationIds.length === 0) {
+      return [];
+    }
+
+    const placeholders = allowedOrganizationIds.map(() => '?').join(', ');
+    conditions.push(`p.organizationId IN (${placeholders})`);
+    params.push(...allowedOrganizationIds);
+  }
+
+  const result = await runSql<ProgramCompetitionProgressRow>(
+    `SELECT
+      p.id AS programId,
+      p.name AS programName,
+      p.organizationId,
+      COUNT(c.id) AS totalCount,
+      SUM(CASE WHEN c.eventType = 'open' THEN 1 ELSE 0 END) AS openCount,
+      SUM(CASE WHEN c.eventType = 'international' THEN 1 ELSE 0 END) AS internationalCount,
+      (
+        SELECT COUNT(*) FROM weapon_programs wpc
+        WHERE wpc.programId = p.id AND wpc.isReserve = 1 AND wpc.status = 'approved'
+      ) AS reserveCount,
+      MAX(c.date) AS lastCompetitionDate
+    FROM programs p
+    LEFT JOIN competitions c ON c.programId = p.id AND c.date >= ?
+    WHERE ${conditions.join(' AND ')}
+    GROUP BY p.id
+    ORDER BY p.name COLLATE NOCASE`,
+    params
+  );
+
+  return result.rows.map((row) => ({
+    ...row,
+    totalCount: Number(row.totalCount ?? 0),
+    openCount: Number(row.openCount ?? 0),
+    internationalCount: Number(row.internationalCount ?? 0),
+    reserveCount: Number(row.reserveCount ?? 0),
+  }));
+};
+
+export type UpsertCompetitionInput = {
+  id: string;
+  date: string;
+  programId: string;
+  eventName: string;
+  eventType: CompetitionEventType;
+  weaponId?: string | null;
+  result?: string | null;
+};
+
+export const upsertCompetition = async (input: UpsertCompetitionInput): Promise<void> => {
+  await runWithinTransaction(async (db) => {
+    await db.runAsync(
+      `INSERT INTO competitions (
+        id,
+        date,
+        programId,
+        eventName,
+        eventType,
+        weaponId,
+        result
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        date = excluded.date,
+        programId = excluded.programId,
+        eventName = excluded.eventName,
+        eventType = excluded.eventType,
+        weaponId = excluded.weaponId,
+        result = excluded.result
+      `,
+      [
+        input.id,
+        input.date,
+        input.programId,
+        input.eventName,
+        input.eventType,
+        input.weaponId ?? null,
+        input.result ?? null,
+      ]
+    );
+  });
+};
+
+export const deleteCompetition = async (competitionId: string): Promise<void> => {
+  const attachmentFileUris: string[] = [];
+
+  await runWithinTransaction(async (db) => {
+    attachmentFileUris.push(
+      ...(await deleteOwnerAttachmentRows(db, 'competition', competitionId))
+    );
+    await db.runAsync('DELETE FROM competitions WHERE id = ?', [competitionId]);
+  });
+
+  deleteAttachmentFiles(attachmentFileUris);
+};
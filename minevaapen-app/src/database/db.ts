@@ -1,10 +1,51 @@
+import * as FileSystem from 'expo-file-system';
 import { openDatabaseSync, type SQLiteDatabase } from 'expo-sqlite';
 
+export const DATABASE_NAME = 'minevaapen.db';
+export const DATABASE_FILE_URI = FileSystem.Paths.join(
+  FileSystem.Paths.document.uri,
+  'SQLite',
+  DATABASE_NAME
+);
+
+/** Every plaintext SQLite file starts with this header; SQLCipher files start with a random salt. */
+const SQLITE_HEADER = 'SQLite format 3\0';
+
 let dbInstance: SQLiteDatabase | null = null;
+let databaseKey: string | null = null;
+
+const escapeSqlString = (value: string) => value.replace(/'/g, "''");
+
+/** ATTACH expects a filesystem path rather than a file:// URI. */
+const toFilesystemPath = (uri: string) => decodeURIComponent(uri.replace(/^file:\/\//, ''));
+
+const applyKey = (db: SQLiteDatabase, key: string) => {
+  // PRAGMA does not accept bound parameters.
+  db.execSync(`PRAGMA key = '${escapeSqlString(key)}'`);
+};
+
+/**
+ * Sets the SQLCipher key used the next time the database is opened. Call before `getDatabase`;
+ * the key is loaded from secure storage during app start.
+ */
+export const setDatabaseKey = (key: string | null): void => {
+  databaseKey = key;
+};
+
+/** Keys a further connection to the database, e.g. the one an exclusive transaction opens. */
+export const applyDatabaseKey = (db: SQLiteDatabase): void => {
+  if (databaseKey) {
+    applyKey(db, databaseKey);
+  }
+};
 
 export const getDatabase = (): SQLiteDatabase => {
   if (!dbInstance) {
-    dbInstance = openDatabaseSync('minevaapen.db');
+    const db = openDatabaseSync(DATABASE_NAME);
+    if (databaseKey) {
+      applyKey(db, databaseKey);
+    }
+    dbInstance = db;
   }
 
   return dbInstance;
@@ -16,3 +57,93 @@ export const closeDatabase = async (): Promise<void> => {
     dbInstance = null;
   }
 };
+
+/**
+ * Opens the database with `key` and keeps it when the file can be read with it. Otherwise the
+ * connection is closed again and no key is set.
+ */
+export const tryDatabaseKey = async (key: string): Promise<boolean> => {
+  await closeDatabase();
+  databaseKey = key;
+
+  try {
+    await getDatabase().getFirstAsync('SELECT COUNT(*) FROM sqlite_master');
+    return true;
+  } catch {
+    await closeDatabase();
+    databaseKey = null;
+    return false;
+  }
+};
+
+/** Null when there is no database file yet. */
+export const isDatabaseFileEncrypted = (): boolean | null => {
+  const file = new FileSystem.File(DATABASE_FILE_URI);
+  if (!file.exists) {
+    return null;
+  }
+
+  const handle = file.open();
+  try {
+    const header = handle.readBytes(SQLITE_HEADER.length);
+    return String.fromCharCode(...header) !== SQLITE_HEADER;
+  } finally {
+    handle.close();
+  }
+};
+
+const copyUserVersion = async (db: SQLiteDatabase, source: string, target: string) => {
+  const row = await db.getFirstAsync<{ user_version: number }>(`PRAGMA ${source}.user_version`);
+  await db.execAsync(
+    `PRAGMA ${target}.user_version = ${Math.trunc(Number(row?.user_version ?? 0))}`
+  );
+};
+
+/**
+ * Writes a decrypted copy of the live database to `targetUri`. Used for backups, which carry
+ * their own encryption so they can be restored on a device with a different device secret.
+ */
+export const exportPlaintextDatabase = async (targetUri: string): Promise<void> => {
+  const db = getDatabase();
+  await db.execAsync(
+    `ATTACH DATABASE '${escapeSqlString(toFilesystemPath(targetUri))}' AS plaintext KEY ''`
+  );
+  try {
+    await db.execAsync("SELECT sqlcipher_export('plaintext')");
+    // sqlcipher_export copies the schema and rows but not the schema version.
+    await copyUserVersion(db, 'main', 'plaintext');
+  } finally {
+    await db.execAsync('DETACH DATABASE plaintext');
+  }
+};
+
+/**
+ * Replaces the live database with the contents of a plaintext SQLite file, encrypting it with
+ * the current key. The caller makes sure no database file exists at the live path.
+ */
+export const importPlaintextDatabase = async (sourceUri: string): Promise<void> => {
+  await closeDatabase();
+
+  if (!databaseKey) {
+    new FileSystem.File(sourceUri).copy(new FileSystem.File(DATABASE_FILE_URI));
+    return;
+  }
+
+  const db = getDatabase();
+  await db.execAsync(
+    `ATTACH DATABASE '${escapeSqlString(toFilesystemPath(sourceUri))}' AS plaintext KEY ''`
+  );
+  try {
+    await db.execAsync("SELECT sqlcipher_export('main', 'plaintext')");
+    await copyUserVersion(db, 'plaintext', 'main');
+  } finally {
+    await db.execAsync('DETACH DATABASE plaintext');
+  }
+};
+
+/** Re-encrypts the open database with a new key, e.g. after a passphrase change. */
+export const rekeyDatabase = async (newKey: string): Promise<void> => {
+  const db = getDatabase();
+  await db.execAsync(`PRAGMA rekey = '${escapeSqlString(newKey)}'`);
+  databaseKey = newKey;
+};
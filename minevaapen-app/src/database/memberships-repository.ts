@@ -0,0 +1,108 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import { runSql, runWithinTransaction } from '@/src/database/sqlite-helpers';
+import { toIsoDate } from '@/src/rules/membership-validity';
+
+export type MembershipRecord = {
+  organizationId: string;
+  memberNumber: string | null;
+  clubName: string | null;
+  membershipYear: number | null;
+  /** Last valid day as `YYYY-MM-DD`. */
+  expiresAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UpsertMembershipInput = Pick<
+  MembershipRecord,
+  'organizationId' | 'memberNumber' | 'clubName' | 'membershipYear' | 'expiresAt'
+>;
+
+const MEMBERSHIP_COLUMNS =
+  'organizationId, memberNumber, clubName, membershipYear, expiresAt, createdAt, updatedAt';
+
+/**
+ * SQL twin of `getMembershipValidUntil` for a `memberships` row aliased `m`. Compare it with a
+ * `YYYY-MM-DD` reference date; NULL means the membership is open-ended.
+ */
+export const MEMBERSHIP_VALID_UNTIL_SQL = "COALESCE(m.expiresAt, m.membershipYear || '-12-31')";
+
+export const fetchMembership = async (
+  organizationId: string
+): Promise<MembershipRecord | null> => {
+  const result = await runSql<MembershipRecord>(
+    `SELECT ${MEMBERSHIP_COLUMNS} FROM memberships WHERE organizationId = ?`,
+    [organizationId]
+  );
+  return result.rows[0] ?? null;
+};
+
+/** Organizations the user holds a valid membership in on the reference date. */
+export const fetchValidMembershipOrganizationIds = async (
+  referenceDate: Date = new Date()
+): Promise<string[]> => {
+  const result = await runSql<{ organizationId: string }>(
+    `SELECT m.organizationId
+     FROM memberships m
+     WHERE ${MEMBERSHIP_VALID_UNTIL_SQL} IS NULL OR ${MEMBERSHIP_VALID_UNTIL_SQL} >= ?`,
+    [toIsoDate(referenceDate)]
+  );
+  return result.rows.map((row) => row.organizationId);
+};
+
+/** Writes the membership inside the caller's transaction. */
+export const upsertMembershipRow = async (
+  db: SQLiteDatabase,
+  input: UpsertMembershipInput
+): Promise<void> => {
+  const now = new Date().toISOString();
+
+  await db.runAsync(
+    `INSERT INTO memberships (${MEMBERSHIP_COLUMNS})
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(organizationId) DO UPDATE SET
+       memberNumber = excluded.memberNumber,
+       clubName = excluded.clubName,
+       membershipYear = excluded.membershipYear,
+       expiresAt = excluded.expiresAt,
+       updatedAt = excluded.updatedAt`,
+    [
+      input.organizationId,
+      input.memberNumber,
+      input.clubName,
+      input.membershipYear,
+      input.expiresAt,
+      now,
+      now,
+    ]
+  );
+};
+
+export const upsertMembership = async (input: UpsertMembershipInput): Promise<void> => {
+  await runWithinTransaction((db) => upsertMembershipRow(db, input));
+};
+
+/** Registers a membership without details. An existing membership is left as it is. */
+export const addMemberships = async (organizationIds: string[]): Promise<void> => {
+  const now = new Date().toISOString();
+
+  await runWithinTransaction(async (db) => {
+    for (const organizationId of organizationIds) {
+      await db.runAsync(
+        `INSERT OR IGNORE INTO memberships (organizationId, createdAt, updatedAt)
+         VALUES (?, ?, ?)`,
+        [organizationId, now, now]
+      );
+    }
+  });
+};
+
+/** Membership documents are kept; they reappear if the membership is registered again. */
+export const deleteMemberships = async (organizationIds: string[]): Promise<void> => {
+  await runWithinTransaction(async (db) => {
+    for (const organizationId of organizationIds) {
+      await db.runAsync('DELETE FROM memberships WHERE organizationId = ?', [organizationId]);
+    }
+  });
+};
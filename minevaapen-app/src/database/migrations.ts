@@ -0,0 +1,452 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import { getDatabase } from './db';
+import { runSql } from './sqlite-helpers';
+
+export type Migration = {
+  version: number;
+  name: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
+};
+
+export class MigrationError extends Error {
+  readonly version: number;
+  readonly migrationName: string;
+  readonly currentVersion: number;
+  readonly cause: unknown;
+
+  constructor(migration: Migration, currentVersion: number, cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Migration ${migration.version} (${migration.name}) failed: ${reason}`);
+    this.name = 'MigrationError';
+    this.version = migration.version;
+    this.migrationName = migration.name;
+    this.currentVersion = currentVersion;
+    this.cause = cause;
+  }
+}
+
+type ColumnDefinition = { name: string; ddl: string };
+
+const ensureColumns = async (
+  db: SQLiteDatabase,
+  tableName: string,
+  definitions: ColumnDefinition[]
+): Promise<void> => {
+  const tableInfo = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${tableName})`);
+  const columnNames = tableInfo.map((col) => col.name);
+
+  for (const column of definitions) {
+    if (!columnNames.includes(column.name)) {
+      await db.execAsync(column.ddl);
+    }
+  }
+};
+
+/**
+ * Ids of the programs the app seeded before the catalog was versioned. Migration 10 needs exactly
+ * this list, not whatever the bundled catalog holds by the time it runs.
+ */
+const SEEDED_PROGRAM_IDS = [
+  '1', '2', '3', '4', '5', '6', '7', '159', '8', '9', '10', '11', '13', '14', '17', '18', '19',
+  '20', '21', '158', '160', '161', '162', '163', '164', '165', '166', '170', '171', '61', '62',
+  '63', '64', '65', '66', '67', '68', '69', '70', '71', '72', '73', '74', '75', '77', '78', '79',
+  '80', '81', '82', '83', '84', '85', '86', '87', '88', '89', '90', '91', '92', '93', '94', '95',
+  '96', '97', '167', '168', '31', '32', '33', '34', '35', '36', '37', '22', '23', '24', '25',
+  '26', '27', '28', '29', '30', '38', '39', '40', '41', '42', '43', '44', '45', '46', '47', '48',
+  '49', '50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '98', '99', '100',
+  '101', '102', '103', '104', '105', '106', '107', '108', '109', '110', '112', '113', '114',
+  '115', '116', '117', '118', '119', '120', '121', '122', '123', '124', '125', '127', '128',
+  '129', '130', '131', '169', '132', '133', '134', '135', '136', '137', '138', '139', '140',
+  '141', '142', '143', '144', '145', '146', '147', '148', '149', '150', '151', '152', '153',
+  '154', '155', '156', '157',
+];
+
+/** Rewrites absolute file URIs to their path below the document directory, e.g. `photos/a.jpg`. */
+const relativizeFileUris = async (
+  db: SQLiteDatabase,
+  tableName: string,
+  directoryName: string
+): Promise<void> => {
+  const rows = await db.getAllAsync<{ id: string; fileUri: string }>(
+    `SELECT id, fileUri FROM ${tableName} WHERE fileUri LIKE '%://%'`
+  );
+  const marker = `/${directoryName}/`;
+
+  for (const row of rows) {
+    const index = row.fileUri.lastIndexOf(marker);
+    if (index !== -1) {
+      await db.runAsync(`UPDATE ${tableName} SET fileUri = ? WHERE id = ?`, [
+        row.fileUri.slice(index + 1),
+        row.id,
+      ]);
+    }
+  }
+};
+
+/**
+ * Ordered list of schema migrations. Each entry runs once, in its own transaction,
+ * and bumps `PRAGMA user_version` to its version number when it succeeds.
+ * Never edit a migration that has shipped; append a new one instead. Each migration carries its
+ * own SQL and data for that reason, rather than reading shared definitions that move on.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial-schema',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS organizations (
+          id TEXT PRIMARY KEY NOT NULL,
+          name TEXT NOT NULL,
+          shortName TEXT NOT NULL,
+          country TEXT,
+          orgNumber TEXT,
+          isMember INTEGER NOT NULL DEFAULT 0
+        );
+      `);
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS programs (
+          id TEXT PRIMARY KEY NOT NULL,
+          organizationId TEXT NOT NULL,
+          name TEXT NOT NULL,
+          weaponCategory TEXT,
+          isReserveAllowed INTEGER NOT NULL DEFAULT 1,
+          FOREIGN KEY (organizationId) REFERENCES organizations(id)
+        );
+      `);
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS weapons (
+          id TEXT PRIMARY KEY NOT NULL,
+          displayName TEXT NOT NULL,
+          type TEXT NOT NULL,
+          manufacturer TEXT,
+          model TEXT,
+          serialNumber TEXT,
+          acquisitionDate TEXT,
+          acquisitionPrice REAL,
+          weaponCardRef TEXT,
+          notes TEXT,
+          operationMode TEXT,
+          caliber TEXT,
+          ownershipStatus TEXT NOT NULL DEFAULT 'own',
+          loanContactName TEXT,
+          loanStartDate TEXT,
+          loanEndDate TEXT
+        );
+      `);
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS weapon_programs (
+          weaponId TEXT NOT NULL,
+          programId TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'approved',
+          isReserve INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (weaponId, programId),
+          FOREIGN KEY (weaponId) REFERENCES weapons(id) ON DELETE CASCADE,
+          FOREIGN KEY (programId) REFERENCES programs(id) ON DELETE CASCADE
+        );
+      `);
+
+      // Databases created before versioned migrations may lack these columns.
+      await ensureColumns(db, 'weapons', [
+        { name: 'operationMode', ddl: 'ALTER TABLE weapons ADD COLUMN operationMode TEXT' },
+        { name: 'caliber', ddl: 'ALTER TABLE weapons ADD COLUMN caliber TEXT' },
+        {
+          name: 'ownershipStatus',
+          ddl: "ALTER TABLE weapons ADD COLUMN ownershipStatus TEXT NOT NULL DEFAULT 'own'",
+        },
+        { name: 'loanContactName', ddl: 'ALTER TABLE weapons ADD COLUMN loanContactName TEXT' },
+        { name: 'loanStartDate', ddl: 'ALTER TABLE weapons ADD COLUMN loanStartDate TEXT' },
+        { name: 'loanEndDate', ddl: 'ALTER TABLE weapons ADD COLUMN loanEndDate TEXT' },
+      ]);
+
+      await ensureColumns(db, 'organizations', [
+        {
+          name: 'isMember',
+          ddl: 'ALTER TABLE organizations ADD COLUMN isMember INTEGER NOT NULL DEFAULT 0',
+        },
+      ]);
+
+      await db.execAsync('UPDATE organizations SET isMember = 0 WHERE isMember IS NULL');
+    },
+  },
+  {
+    version: 2,
+    name: 'competitions',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS competitions (
+          id TEXT PRIMARY KEY NOT NULL,
+          date TEXT NOT NULL,
+          programId TEXT NOT NULL,
+          eventName TEXT NOT NULL,
+          eventType TEXT NOT NULL DEFAULT 'open',
+          weaponId TEXT,
+          result TEXT,
+          attachmentUri TEXT,
+          FOREIGN KEY (programId) REFERENCES programs(id),
+          FOREIGN KEY (weaponId) REFERENCES weapons(id) ON DELETE SET NULL
+        );
+      `);
+      await db.execAsync(
+        'CREATE INDEX IF NOT EXISTS idx_competitions_program_date ON competitions (programId, date)'
+      );
+    },
+  },
+  {
+    version: 3,
+    name: 'weapon-photos',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS weapon_photos (
+          id TEXT PRIMARY KEY NOT NULL,
+          weaponId TEXT NOT NULL,
+          fileUri TEXT NOT NULL,
+          caption TEXT,
+          sortOrder INTEGER NOT NULL DEFAULT 0,
+          isCover INTEGER NOT NULL DEFAULT 0,
+          createdAt TEXT NOT NULL,
+          FOREIGN KEY (weaponId) REFERENCES weapons(id) ON DELETE CASCADE
+        );
+      `);
+      await db.execAsync(
+        'CREATE INDEX IF NOT EXISTS idx_weapon_photos_weapon ON weapon_photos (weaponId, sortOrder)'
+      );
+    },
+  },
+  {
+    version: 4,
+    name: 'attachments',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS attachments (
+          id TEXT PRIMARY KEY NOT NULL,
+          ownerType TEXT NOT NULL,
+          ownerId TEXT NOT NULL,
+          attachmentType TEXT NOT NULL,
+          fileUri TEXT NOT NULL,
+          fileName TEXT NOT NULL,
+          mimeType TEXT,
+          title TEXT,
+          createdAt TEXT NOT NULL
+        );
+      `);
+      await db.execAsync(
+        'CREATE INDEX IF NOT EXISTS idx_attachments_owner ON attachments (ownerType, ownerId)'
+      );
+
+      // Single competition attachments move into the generic table; the old column is left empty.
+      await db.execAsync(`
+        INSERT INTO attachments (
+          id, ownerType, ownerId, attachmentType, fileUri, fileName, mimeType, title, createdAt
+        )
+        SELECT
+          'attachment-' || id,
+          'competition',
+          id,
+          'competitionResult',
+          attachmentUri,
+          replace(attachmentUri, rtrim(attachmentUri, replace(attachmentUri, '/', '')), ''),
+          NULL,
+          NULL,
+          strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+        FROM competitions
+        WHERE attachmentUri IS NOT NULL AND attachmentUri <> ''
+      `);
+      await db.execAsync('UPDATE competitions SET attachmentUri = NULL');
+    },
+  },
+  {
+    version: 5,
+    name: 'weapon-updated-at',
+    up: async (db) => {
+      // Existing rows stay NULL; the column is filled the next time a weapon is saved.
+      await ensureColumns(db, 'weapons', [
+        { name: 'updatedAt', ddl: 'ALTER TABLE weapons ADD COLUMN updatedAt TEXT' },
+      ]);
+    },
+  },
+  {
+    version: 6,
+    name: 'settings',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY NOT NULL,
+          value TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'weapon-search',
+    up: async (db) => {
+      // Trigram tokens let a search for part of a serial number match anywhere in the value.
+      await db.execAsync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS weapon_search USING fts5(
+          weaponId UNINDEXED,
+          displayName,
+          manufacturer,
+          model,
+          serialNumber,
+          caliber,
+          notes,
+          programNames,
+          tokenize = 'trigram'
+        );
+      `);
+      await db.execAsync('DELETE FROM weapon_search');
+      await db.execAsync(`
+        INSERT INTO weapon_search (
+          weaponId, displayName, manufacturer, model, serialNumber, caliber, notes, programNames
+        )
+        SELECT
+          w.id,
+          w.displayName,
+          w.manufacturer,
+          w.model,
+          w.serialNumber,
+          w.caliber,
+          w.notes,
+          (
+            SELECT group_concat(p.name, ' ')
+            FROM weapon_programs wp
+            INNER JOIN programs p ON p.id = wp.programId
+            WHERE wp.weaponId = w.id
+          )
+        FROM weapons w
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'memberships',
+    up: async (db) => {
+      // One row per organization the user belongs to. Supersedes `organizations.isMember`.
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS memberships (
+          organizationId TEXT PRIMARY KEY NOT NULL,
+          memberNumber TEXT,
+          clubName TEXT,
+          membershipYear INTEGER,
+          expiresAt TEXT,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (organizationId) REFERENCES organizations(id) ON DELETE CASCADE
+        );
+      `);
+
+      // Existing memberships carry no details yet and stay valid until an expiry is entered.
+      // The old flag is left in place but no longer read.
+      await db.execAsync(`
+        INSERT OR IGNORE INTO memberships (organizationId, createdAt, updatedAt)
+        SELECT
+          id,
+          strftime('%Y-%m-%dT%H:%M:%fZ', 'now'),
+          strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+        FROM organizations
+        WHERE isMember = 1
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'shooter-profile',
+    up: async (db) => {
+      // Holds a single row for the device owner; see `shooter-profile-repository`.
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS shooter_profile (
+          id TEXT PRIMARY KEY NOT NULL,
+          name TEXT,
+          dateOfBirth TEXT,
+          address TEXT,
+          phone TEXT,
+          email TEXT,
+          policeDistrict TEXT,
+          updatedAt TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'program-catalog',
+    up: async (db) => {
+      await ensureColumns(db, 'programs', [
+        {
+          name: 'isCatalog',
+          ddl: 'ALTER TABLE programs ADD COLUMN isCatalog INTEGER NOT NULL DEFAULT 0',
+        },
+        { name: 'retiredAt', ddl: 'ALTER TABLE programs ADD COLUMN retiredAt TEXT' },
+      ]);
+
+      // Until now every program came from the bundled seeds, except the ones a JSON import
+      // brought along. Only catalog programs are renamed or retired by a catalog update.
+      await db.runAsync(
+        `UPDATE programs SET isCatalog = 1
+         WHERE id IN (${SEEDED_PROGRAM_IDS.map(() => '?').join(', ')})`,
+        SEEDED_PROGRAM_IDS
+      );
+    },
+  },
+  {
+    version: 11,
+    name: 'relative-photo-paths',
+    up: async (db) => {
+      // The absolute location breaks as soon as the app container moves.
+      await relativizeFileUris(db, 'weapon_photos', 'photos');
+    },
+  },
+  {
+    version: 12,
+    name: 'relative-attachment-paths',
+    up: async (db) => {
+      await relativizeFileUris(db, 'attachments', 'attachments');
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1]?.version ?? 0;
+
+export const getSchemaVersion = async (): Promise<number> => {
+  const result = await runSql<{ user_version: number }>('PRAGMA user_version');
+  return Number(result.rows[0]?.user_version ?? 0);
+};
+
+/**
+ * Brings a connection up to the latest schema. Besides the app database this is used on
+ * in-memory backup snapshots so they can be compared with current data column for column.
+ */
+export const migrateDatabase = async (db: SQLiteDatabase): Promise<number> => {
+  const versionRow = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  let currentVersion = Number(versionRow?.user_version ?? 0);
+
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than supported version ${LATEST_SCHEMA_VERSION}`
+    );
+  }
+
+  const pending = migrations
+    .filter((migration) => migration.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        // PRAGMA does not accept bound parameters; the version is always an integer literal.
+        await db.execAsync(`PRAGMA user_version = ${Math.trunc(migration.version)}`);
+      });
+    } catch (error) {
+      throw new MigrationError(migration, currentVersion, error);
+    }
+
+    currentVersion = migration.version;
+  }
+
+  return currentVersion;
+};
+
+export const runMigrations = (): Promise<number> => migrateDatabase(getDatabase());
@@ -1,4 +1,11 @@
-import { runSql, runWithinTransaction } from '@/src/database/sqlite-helpers';
+import {
+  addMemberships,
+  deleteMemberships,
+  MEMBERSHIP_VALID_UNTIL_SQL,
+  type MembershipRecord,
+} from '@/src/database/memberships-repository';
+import { runSql } from '@/src/database/sqlite-helpers';
+import { toIsoDate } from '@/src/rules/membership-validity';
 
 export type OrganizationRecord = {
   id: string;
@@ -6,38 +13,88 @@ export type OrganizationRecord = {
   shortName: string;
   country: string | null;
   orgNumber: string | null;
+  /** Holds a membership that is valid today. */
   isMember: boolean;
+  /** Registered membership, which may have expired. */
+  membership: MembershipRecord | null;
 };
 
-type OrganizationRow = Omit<OrganizationRecord, 'isMember'> & { isMember: number };
+type OrganizationRow = Omit<OrganizationRecord, 'isMember' | 'membership'> & {
+  isMember: number;
+  membershipCreatedAt: string | null;
+} & Omit<MembershipRecord, 'organizationId' | 'createdAt'>;
 
 export const fetchOrganizations = async (): Promise<OrganizationRecord[]> => {
   const result = await runSql<OrganizationRow>(
-    `SELECT id, name, shortName, country, orgNumber, isMember
-     FROM organizations
-     ORDER BY name COLLATE NOCASE`
+    `SELECT
+       o.id,
+       o.name,
+       o.shortName,
+       o.country,
+       o.orgNumber,
+       m.memberNumber,
+       m.clubName,
+       m.membershipYear,
+       m.expiresAt,
+       m.createdAt AS membershipCreatedAt,
+       m.updatedAt,
+       CASE
+         WHEN m.organizationId IS NULL THEN 0
+         WHEN ${MEMBERSHIP_VALID_UNTIL_SQL} IS NULL THEN 1
+         ELSE ${MEMBERSHIP_VALID_UNTIL_SQL} >= ?
+       END AS isMember
+     FROM organizations o
+     LEFT JOIN memberships m ON m.organizationId = o.id
+     ORDER BY o.name COLLATE NOCASE`,
+    [toIsoDate(new Date())]
   );
 
-  return result.rows.map(({ isMember, ...rest }) => ({
-    ...rest,
-    isMember: Boolean(isMember),
-  }));
+  return result.rows.map(
+    ({
+      isMember,
+      memberNumber,
+      clubName,
+      membershipYear,
+      expiresAt,
+      membershipCreatedAt,
+      updatedAt,
+      ...rest
+    }) => ({
+      ...rest,
+      isMember: Boolean(isMember),
+      membership: membershipCreatedAt
+        ? {
+            organizationId: rest.id,
+            memberNumber,
+            clubName,
+            membershipYear,
+            expiresAt,
+            createdAt: membershipCreatedAt,
+            updatedAt,
+          }
+        : null,
+    })
+  );
 };
 
 export const setOrganizationMembership = async (
   organizationId: string,
   isMember: boolean
 ): Promise<void> => {
-  await runWithinTransaction(async (db) => {
-    await db.runAsync('UPDATE organizations SET isMember = ? WHERE id = ?', [
-      isMember ? 1 : 0,
-      organizationId,
-    ]);
-  });
+  if (isMember) {
+    await addMemberships([organizationId]);
+  } else {
+    await deleteMemberships([organizationId]);
+  }
 };
 
 export const setAllOrganizationMemberships = async (isMember: boolean): Promise<void> => {
-  await runWithinTransaction(async (db) => {
-    await db.runAsync('UPDATE organizations SET isMember = ?', [isMember ? 1 : 0]);
-  });
+  const result = await runSql<{ id: string }>('SELECT id FROM organizations');
+  const organizationIds = result.rows.map((row) => row.id);
+
+  if (isMember) {
+    await addMemberships(organizationIds);
+  } else {
+    await deleteMemberships(organizationIds);
+  }
 };
@@ -0,0 +1,28 @@
+import { runSql } from '@/src/database/sqlite-helpers';
+
+/** Keys in the `settings` table. Values are stored as text. */
+export const SETTING_KEYS = {
+  language: 'language',
+  weaponListFilters: 'weaponListFilters',
+  csvExportPreset: 'csvExportPreset',
+  catalogVersion: 'catalogVersion',
+  catalogChangelog: 'catalogChangelog',
+} as const;
+
+export type SettingKey = (typeof SETTING_KEYS)[keyof typeof SETTING_KEYS];
+
+export const getSetting = async (key: SettingKey): Promise<string | null> => {
+  const result = await runSql<{ value: string | null }>(
+    'SELECT value FROM settings WHERE key = ?',
+    [key]
+  );
+  return result.rows[0]?.value ?? null;
+};
+
+export const setSetting = async (key: SettingKey, value: string | null): Promise<void> => {
+  await runSql(
+    `INSERT INTO settings (key, value) VALUES (?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+    [key, value]
+  );
+};
@@ -0,0 +1,73 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import { runSql, runWithinTransaction } from '@/src/database/sqlite-helpers';
+
+/** The app keeps one profile, for the person who owns the device. */
+const PROFILE_ID = 'self';
+
+export type ShooterProfile = {
+  name: string | null;
+  /** `YYYY-MM-DD` */
+  dateOfBirth: string | null;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  policeDistrict: string | null;
+  updatedAt: string;
+};
+
+export type ShooterProfileInput = Omit<ShooterProfile, 'updatedAt'>;
+
+/** Profile fields in the order exports list them. */
+export const SHOOTER_PROFILE_FIELDS = [
+  'name',
+  'dateOfBirth',
+  'address',
+  'phone',
+  'email',
+  'policeDistrict',
+] as const satisfies readonly (keyof ShooterProfileInput)[];
+
+export type ShooterProfileField = (typeof SHOOTER_PROFILE_FIELDS)[number];
+
+export const fetchShooterProfile = async (): Promise<ShooterProfile | null> => {
+  const result = await runSql<ShooterProfile>(
+    `SELECT ${SHOOTER_PROFILE_FIELDS.join(', ')}, updatedAt FROM shooter_profile WHERE id = ?`,
+    [PROFILE_ID]
+  );
+  return result.rows[0] ?? null;
+};
+
+/** Saves the profile inside the caller's transaction. */
+export const saveShooterProfileRow = async (
+  db: SQLiteDatabase,
+  input: ShooterProfileInput
+): Promise<void> => {
+  await db.runAsync(
+    `INSERT INTO shooter_profile (id, ${SHOOTER_PROFILE_FIELDS.join(', ')}, updatedAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET
+       ${SHOOTER_PROFILE_FIELDS.map((field) => `${field} = excluded.${field}`).join(',\n       ')},
+       updatedAt = excluded.updatedAt`,
+    [
+      PROFILE_ID,
+      ...SHOOTER_PROFILE_FIELDS.map((field) => input[field]),
+      new Date().toISOString(),
+    ]
+  );
+};
+
+export const saveShooterProfile = async (input: ShooterProfileInput): Promise<void> => {
+  await runWithinTransaction((db) => saveShooterProfileRow(db, input));
+};
+
+/** Filled-in fields as `[field, value]` pairs, for the header block of exported files. */
+export const listShooterProfileEntries = (
+  profile: ShooterProfile | null
+): [ShooterProfileField, string][] =>
+  profile
+    ? SHOOTER_PROFILE_FIELDS.flatMap((field) => {
+        const value = profile[field]?.trim();
+        return value ? [[field, value] as [ShooterProfileField, string]] : [];
+      })
+    : [];
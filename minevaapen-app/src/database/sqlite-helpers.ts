@@ -2,7 +2,7 @@ import type {
   SQLiteDatabase,
   SQLiteBindParams,
 } from 'expo-sqlite';
-import { getDatabase } from './db';
+import { applyDatabaseKey, getDatabase } from './db';
 
 export type QueryResult<T = Record<string, unknown>> = {
   rows: T[];
@@ -39,3 +39,17 @@ export const runWithinTransaction = async (
     await callback(db);
   });
 };
+
+/**
+ * Runs `callback` in a transaction on its own connection, so statements other code runs in the
+ * meantime cannot end up inside it. Everything in the callback has to go through `db`.
+ */
+export const runWithinExclusiveTransaction = async (
+  callback: (db: SQLiteDatabase) => Promise<void>
+): Promise<void> => {
+  await getDatabase().withExclusiveTransactionAsync(async (txn) => {
+    // BEGIN has not touched the file yet, so the key still applies to this connection.
+    applyDatabaseKey(txn);
+    await callback(txn);
+  });
+};
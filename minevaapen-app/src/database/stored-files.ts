@@ -0,0 +1,15 @@
+import * as FileSystem from 'expo-file-system';
+
+/**
+ * Photos and documents are stored by their path inside the app document directory, e.g.
+ * `photos/photo-1.jpg`. The absolute location changes between installs and, on iOS, whenever
+ * the app container moves, so it is only worked out when a file is read.
+ */
+
+const hasScheme = (path: string) => /^[a-z][a-z0-9+.-]*:/i.test(path);
+
+export const storedFilePath = (directoryName: string, fileName: string): string =>
+  `${directoryName}/${fileName}`;
+
+export const resolveStoredFileUri = (path: string): string =>
+  hasScheme(path) ? path : FileSystem.Paths.join(FileSystem.Paths.document.uri, path);
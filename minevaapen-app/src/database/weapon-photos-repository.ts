@@ -0,0 +1,195 @@
+import * as FileSystem from 'expo-file-system';
+
+import { runSql, runWithinTransaction } from './sqlite-helpers';
+import { resolveStoredFileUri, storedFilePath } from './stored-files';
+
+export type WeaponPhotoRecord = {
+  id: string;
+  weaponId: string;
+  /** Resolved location; the row holds the path inside the document directory. */
+  fileUri: string;
+  caption: string | null;
+  sortOrder: number;
+  isCover: boolean;
+  createdAt: string;
+};
+
+type WeaponPhotoRow = Omit<WeaponPhotoRecord, 'isCover'> & { isCover: number };
+
+/** Photos live next to `backups/` and `exports/` in the app document directory. */
+const PHOTO_DIRECTORY_NAME = 'photos';
+
+const createPhotoId = () => `photo-${Date.now()}-${Math.round(Math.random() * 1_000_000)}`;
+
+const mapPhotoRow = (row: WeaponPhotoRow): WeaponPhotoRecord => ({
+  ...row,
+  fileUri: resolveStoredFileUri(row.fileUri),
+  isCover: Boolean(row.isCover),
+});
+
+const extensionFromName = (name: string | null | undefined) => {
+  const match = name?.match(/\.([A-Za-z0-9]+)$/);
+  return match ? match[1].toLowerCase() : 'jpg';
+};
+
+/** Returns the stored path of the copy. */
+const copyPhotoIntoStorage = (sourceUri: string, photoId: string, fileName?: string | null) => {
+  const directory = new FileSystem.Directory(resolveStoredFileUri(PHOTO_DIRECTORY_NAME));
+  if (!directory.exists) {
+    directory.create({ intermediates: true, idempotent: true });
+  }
+
+  const path = storedFilePath(
+    PHOTO_DIRECTORY_NAME,
+    `${photoId}.${extensionFromName(fileName ?? sourceUri)}`
+  );
+  new FileSystem.File(sourceUri).copy(new FileSystem.File(resolveStoredFileUri(path)));
+
+  return path;
+};
+
+/** Accepts stored paths as well as resolved URIs. */
+export const deletePhotoFiles = (fileUris: string[]): void => {
+  for (const fileUri of fileUris) {
+    try {
+      const file = new FileSystem.File(resolveStoredFileUri(fileUri));
+      if (file.exists) {
+        file.delete();
+      }
+    } catch (error) {
+      console.warn('Failed to delete photo file', error);
+    }
+  }
+};
+
+export const fetchWeaponPhotos = async (weaponId: string): Promise<WeaponPhotoRecord[]> => {
+  const result = await runSql<WeaponPhotoRow>(
+    `SELECT id, weaponId, fileUri, caption, sortOrder, isCover, createdAt
+     FROM weapon_photos
+     WHERE weaponId = ?
+     ORDER BY sortOrder ASC, createdAt ASC`,
+    [weaponId]
+  );
+
+  return result.rows.map(mapPhotoRow);
+};
+
+export type AddWeaponPhotoInput = {
+  weaponId: string;
+  sourceUri: string;
+  fileName?: string | null;
+  caption?: string | null;
+};
+
+/**
+ * Copies the picked image into app storage and appends it to the weapon's gallery. The first
+ * photo of a weapon becomes its cover.
+ */
+export const addWeaponPhoto = async (input: AddWeaponPhotoInput): Promise<WeaponPhotoRecord> => {
+  const id = createPhotoId();
+  const path = copyPhotoIntoStorage(input.sourceUri, id, input.fileName);
+  const record: WeaponPhotoRecord = {
+    id,
+    weaponId: input.weaponId,
+    fileUri: resolveStoredFileUri(path),
+    caption: input.caption ?? null,
+    sortOrder: 0,
+    isCover: false,
+    createdAt: new Date().toISOString(),
+  };
+
+  try {
+    await runWithinTransaction(async (db) => {
+      const stats = await db.getFirstAsync<{ maxOrder: number | null; coverCount: number }>(
+        `SELECT MAX(sortOrder) AS maxOrder, SUM(isCover) AS coverCount
+         FROM weapon_photos
+         WHERE weaponId = ?`,
+        [input.weaponId]
+      );
+      record.sortOrder = (stats?.maxOrder ?? -1) + 1;
+      record.isCover = !stats?.coverCount;
+
+      await db.runAsync(
+        `INSERT INTO weapon_photos (id, weaponId, fileUri, caption, sortOrder, isCover, createdAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          record.id,
+          record.weaponId,
+          path,
+          record.caption,
+          record.sortOrder,
+          record.isCover ? 1 : 0,
+          record.createdAt,
+        ]
+      );
+    });
+  } catch (error) {
+    deletePhotoFiles([path]);
+    throw error;
+  }
+
+  return record;
+};
+
+export const updateWeaponPhotoCaption = async (
+  photoId: string,
+  caption: string | null
+): Promise<void> => {
+  await runWithinTransaction(async (db) => {
+    await db.runAsync('UPDATE weapon_photos SET caption = ? WHERE id = ?', [caption, photoId]);
+  });
+};
+
+export const setWeaponCoverPhoto = async (weaponId: string, photoId: string): Promise<void> => {
+  await runWithinTransaction(async (db) => {
+    await db.runAsync(
+      'UPDATE weapon_photos SET isCover = CASE WHEN id = ? THEN 1 ELSE 0 END WHERE weaponId = ?',
+      [photoId, weaponId]
+    );
+  });
+};
+
+/** Persists the gallery order; `orderedPhotoIds` lists every photo of the weapon. */
+export const reorderWeaponPhotos = async (
+  weaponId: string,
+  orderedPhotoIds: string[]
+): Promise<void> => {
+  await runWithinTransaction(async (db) => {
+    for (const [index, photoId] of orderedPhotoIds.entries()) {
+      await db.runAsync('UPDATE weapon_photos SET sortOrder = ? WHERE id = ? AND weaponId = ?', [
+        index,
+        photoId,
+        weaponId,
+      ]);
+    }
+  });
+};
+
+export const deleteWeaponPhoto = async (photoId: string): Promise<void> => {
+  const removedFileUris: string[] = [];
+
+  await runWithinTransaction(async (db) => {
+    const photo = await db.getFirstAsync<WeaponPhotoRow>(
+      'SELECT id, weaponId, fileUri, caption, sortOrder, isCover, createdAt FROM weapon_photos WHERE id = ?',
+      [photoId]
+    );
+    if (!photo) {
+      return;
+    }
+
+    removedFileUris.push(photo.fileUri);
+    await db.runAsync('DELETE FROM weapon_photos WHERE id = ?', [photoId]);
+
+    if (photo.isCover) {
+      await db.runAsync(
+        `UPDATE weapon_photos SET isCover = 1
+         WHERE id = (
+           SELECT id FROM weapon_photos WHERE weaponId = ? ORDER BY sortOrder ASC LIMIT 1
+         )`,
+        [photo.weaponId]
+      );
+    }
+  });
+
+  deletePhotoFiles(removedFileUris);
+};
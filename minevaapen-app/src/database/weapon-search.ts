@@ -0,0 +1,100 @@
+import type { SQLiteBindValue, SQLiteDatabase } from 'expo-sqlite';
+
+/** Columns in `weapon_search` that are matched against search terms. */
+const SEARCH_COLUMNS = [
+  'displayName',
+  'manufacturer',
+  'model',
+  'serialNumber',
+  'caliber',
+  'notes',
+  'programNames',
+] as const;
+
+// The trigram tokenizer cannot match terms shorter than three characters.
+const MIN_MATCH_TERM_LENGTH = 3;
+
+const SELECT_SEARCH_ROWS = `
+  SELECT
+    w.id,
+    w.displayName,
+    w.manufacturer,
+    w.model,
+    w.serialNumber,
+    w.caliber,
+    w.notes,
+    (
+      SELECT group_concat(p.name, ' ')
+      FROM weapon_programs wp
+      INNER JOIN programs p ON p.id = wp.programId
+      WHERE wp.weaponId = w.id
+    )
+  FROM weapons w
+`;
+
+/**
+ * Rewrites the search rows for the given weapons from their current data. Weapons that no
+ * longer exist simply lose their row. Call it inside the transaction that changed them.
+ */
+export const syncWeaponSearchIndex = async (
+  db: SQLiteDatabase,
+  weaponIds: Iterable<string>
+): Promise<void> => {
+  for (const weaponId of weaponIds) {
+    await db.runAsync('DELETE FROM weapon_search WHERE weaponId = ?', [weaponId]);
+    await db.runAsync(
+      `INSERT INTO weapon_search (weaponId, ${SEARCH_COLUMNS.join(', ')})
+       ${SELECT_SEARCH_ROWS}
+       WHERE w.id = ?`,
+      [weaponId]
+    );
+  }
+};
+
+/** Splits free text into the terms that all have to match. */
+export const splitSearchTerms = (query: string | null | undefined): string[] =>
+  (query ?? '').trim().split(/\s+/).filter(Boolean);
+
+const quoteMatchTerm = (term: string) => `"${term.replace(/"/g, '""')}"`;
+
+const escapeLikeTerm = (term: string) => term.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+/**
+ * Builds a condition that keeps weapons matching every term. Longer terms go through the FTS
+ * index; one- and two-letter terms such as a calibre fall back to a substring scan of it.
+ */
+export const buildWeaponSearchCondition = (
+  terms: string[],
+  weaponIdColumn: string
+): { sql: string; params: SQLiteBindValue[] } | null => {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const conditions: string[] = [];
+  const params: SQLiteBindValue[] = [];
+
+  const matchTerms = terms.filter((term) => term.length >= MIN_MATCH_TERM_LENGTH);
+  if (matchTerms.length > 0) {
+    conditions.push(
+      `${weaponIdColumn} IN (
+        SELECT weaponId FROM weapon_search WHERE weapon_search MATCH ?
+      )`
+    );
+    params.push(matchTerms.map(quoteMatchTerm).join(' AND '));
+  }
+
+  const searchableText = SEARCH_COLUMNS.map((column) => `IFNULL(${column}, '')`).join(
+    " || ' ' || "
+  );
+  for (const term of terms.filter((value) => value.length < MIN_MATCH_TERM_LENGTH)) {
+    conditions.push(
+      `${weaponIdColumn} IN (
+        SELECT weaponId FROM weapon_search WHERE ${searchableText} LIKE ? ESCAPE '\\'
+      )`
+    );
+    params.push(`%${escapeLikeTerm(term)}%`);
+  }
+
+  return { sql: conditions.join(' AND '), params };
+};
@@ -1,6 +1,23 @@
-import type { SQLiteBindParams } from 'expo-sqlite';
+import type { SQLiteBindParams, SQLiteDatabase } from 'expo-sqlite';
 
+import { deleteAttachmentFiles, deleteOwnerAttachmentRows } from './attachments-repository';
 import { runSql, runWithinTransaction } from './sqlite-helpers';
+import { resolveStoredFileUri } from './stored-files';
+import { deletePhotoFiles } from './weapon-photos-repository';
+import {
+  buildWeaponSearchCondition,
+  splitSearchTerms,
+  syncWeaponSearchIndex,
+} from './weapon-search';
+
+/** Values the app writes to `weapons.type` and `weapons.operationMode`. */
+export const WEAPON_TYPES = ['pistol', 'revolver', 'rifle', 'shotgun'] as const;
+export const OPERATION_MODES = [
+  'helautomatisk',
+  'halvautomatisk',
+  'manuell',
+  'enkeltskudd',
+] as const;
 
 export type WeaponRecord = {
   id: string;
@@ -31,6 +48,7 @@ export type WeaponProgramLink = {
 
 export type WeaponWithPrograms = WeaponRecord & {
   programs: WeaponProgramLink[];
+  coverPhotoUri: string | null;
 };
 
 export type WeaponFilters = {
@@ -39,6 +57,8 @@ export type WeaponFilters = {
   reserveFilter?: 'any' | 'reserveOnly' | 'nonReserve';
   ownershipFilter?: 'all' | 'own' | 'loanIn' | 'loanOut';
   allowedOrganizationIds?: string[] | null;
+  /** Free text; every whitespace-separated term has to match some searchable field. */
+  search?: string | null;
 };
 
 export type ProgramUsage = {
@@ -47,12 +67,15 @@ export type ProgramUsage = {
   organizationId: string;
   weaponCategory: string | null;
   isReserveAllowed: number;
+  /** Set when the program left the catalog while weapons or competitions still used it. */
+  retiredAt: string | null;
   weaponCount: number;
   reserveCount: number;
 };
 
 type WeaponQueryRow = WeaponRecord & {
   programsJson: string;
+  coverPhotoUri: string | null;
 };
 
 type WeaponProgramJson = {
@@ -69,6 +92,7 @@ type ProgramUsageRow = {
   organizationId: string;
   weaponCategory: string | null;
   isReserveAllowed: number;
+  retiredAt: string | null;
   weaponCount: number | null;
   reserveCount: number | null;
 };
@@ -90,6 +114,7 @@ export const fetchWeapons = async (
   return result.rows.map((row) => ({
     ...row,
     programs: parsePrograms(row.programsJson),
+    coverPhotoUri: row.coverPhotoUri ? resolveStoredFileUri(row.coverPhotoUri) : null,
   }));
 };
 
@@ -112,6 +137,12 @@ export const fetchWeaponById = async (weaponId: string): Promise<WeaponWithProgr
       w.loanContactName,
       w.loanStartDate,
       w.loanEndDate,
+      (
+        SELECT ph.fileUri FROM weapon_photos ph
+        WHERE ph.weaponId = w.id
+        ORDER BY ph.isCover DESC, ph.sortOrder ASC
+        LIMIT 1
+      ) AS coverPhotoUri,
       IFNULL(json_group_array(
         CASE
           WHEN p.id IS NOT NULL THEN json_object(
@@ -140,6 +171,7 @@ export const fetchWeaponById = async (weaponId: string): Promise<WeaponWithProgr
   return {
     ...row,
     programs: parsePrograms(row.programsJson),
+    coverPhotoUri: row.coverPhotoUri ? resolveStoredFileUri(row.coverPhotoUri) : null,
   };
 };
 
@@ -204,6 +236,12 @@ const buildWeaponQuery = (filters: WeaponFilters) => {
     params.push(filters.ownershipFilter);
   }
 
+  const searchCondition = buildWeaponSearchCondition(splitSearchTerms(filters.search), 'w.id');
+  if (searchCondition) {
+    conditions.push(searchCondition.sql);
+    params.push(...searchCondition.params);
+  }
+
   const whereClause = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
 
   const sql = `
@@ -224,6 +262,12 @@ const buildWeaponQuery = (filters: WeaponFilters) => {
       w.loanContactName,
       w.loanStartDate,
       w.loanEndDate,
+      (
+        SELECT ph.fileUri FROM weapon_photos ph
+        WHERE ph.weaponId = w.id
+        ORDER BY ph.isCover DESC, ph.sortOrder ASC
+        LIMIT 1
+      ) AS coverPhotoUri,
       IFNULL(json_group_array(
         CASE
           WHEN p.id IS NOT NULL THEN json_object(
@@ -275,6 +319,7 @@ export const fetchProgramUsage = async (
       p.organizationId,
       p.weaponCategory,
       p.isReserveAllowed,
+      p.retiredAt,
       SUM(CASE WHEN wp.status = 'approved' THEN 1 ELSE 0 END) AS weaponCount,
       SUM(CASE WHEN wp.status = 'approved' AND wp.isReserve = 1 THEN 1 ELSE 0 END) AS reserveCount
     FROM programs p
@@ -293,6 +338,47 @@ export const fetchProgramUsage = async (
   }));
 };
 
+export type OrganizationWeaponCounts = {
+  organizationId: string;
+  weaponCount: number;
+  reserveCount: number;
+};
+
+/** Distinct approved and reserve weapons per organization, across all of its programs. */
+export const fetchOrganizationWeaponCounts = async (): Promise<OrganizationWeaponCounts[]> => {
+  const result = await runSql<OrganizationWeaponCounts>(
+    `SELECT
+      p.organizationId,
+      COUNT(DISTINCT wp.weaponId) AS weaponCount,
+      COUNT(DISTINCT CASE WHEN wp.isReserve = 1 THEN wp.weaponId END) AS reserveCount
+     FROM weapon_programs wp
+     INNER JOIN programs p ON p.id = wp.programId
+     WHERE wp.status = 'approved'
+     GROUP BY p.organizationId`
+  );
+
+  return result.rows.map((row) => ({
+    organizationId: row.organizationId,
+    weaponCount: Number(row.weaponCount ?? 0),
+    reserveCount: Number(row.reserveCount ?? 0),
+  }));
+};
+
+export type ReserveAssignmentRecord = {
+  programId: string;
+  weaponId: string;
+};
+
+export const fetchReserveAssignments = async (): Promise<ReserveAssignmentRecord[]> => {
+  const result = await runSql<ReserveAssignmentRecord>(
+    `SELECT programId, weaponId
+     FROM weapon_programs
+     WHERE isReserve = 1 AND status = 'approved'`
+  );
+
+  return result.rows;
+};
+
 export type UpsertWeaponInput = {
   id: string;
   displayName: string;
@@ -317,101 +403,126 @@ export type UpsertWeaponInput = {
   }>;
 };
 
-export const upsertWeapon = async (input: UpsertWeaponInput): Promise<void> => {
-  await runWithinTransaction(async (db) => {
+/** Writes the weapon and its program links inside the caller's transaction. */
+export const upsertWeaponRows = async (
+  db: SQLiteDatabase,
+  input: UpsertWeaponInput
+): Promise<void> => {
+  await db.runAsync(
+    `INSERT INTO weapons (
+      id,
+      displayName,
+      type,
+      manufacturer,
+      model,
+      serialNumber,
+      acquisitionDate,
+      acquisitionPrice,
+      weaponCardRef,
+      notes,
+      operationMode,
+      caliber,
+      ownershipStatus,
+      loanContactName,
+      loanStartDate,
+      loanEndDate,
+      updatedAt
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      displayName = excluded.displayName,
+      type = excluded.type,
+      manufacturer = excluded.manufacturer,
+      model = excluded.model,
+      serialNumber = excluded.serialNumber,
+      acquisitionDate = excluded.acquisitionDate,
+      acquisitionPrice = excluded.acquisitionPrice,
+      weaponCardRef = excluded.weaponCardRef,
+      notes = excluded.notes,
+      operationMode = excluded.operationMode,
+      caliber = excluded.caliber,
+      ownershipStatus = excluded.ownershipStatus,
+      loanContactName = excluded.loanContactName,
+      loanStartDate = excluded.loanStartDate,
+      loanEndDate = excluded.loanEndDate,
+      updatedAt = excluded.updatedAt
+    `,
+    [
+      input.id,
+      input.displayName,
+      input.type,
+      input.manufacturer ?? null,
+      input.model ?? null,
+      input.serialNumber ?? null,
+      input.acquisitionDate ?? null,
+      input.acquisitionPrice ?? null,
+      input.weaponCardRef ?? null,
+      input.notes ?? null,
+      input.operationMode ?? null,
+      input.caliber ?? null,
+      input.ownershipStatus,
+      input.loanContactName ?? null,
+      input.loanStartDate ?? null,
+      input.loanEndDate ?? null,
+      new Date().toISOString(),
+    ]
+  );
+
+  await db.runAsync('DELETE FROM weapon_programs WHERE weaponId = ?', [input.id]);
+
+  for (const program of input.programs) {
+    const status = program.status ?? 'approved';
+    // Each approved link carries its own reserve flag; pending links can never be reserve.
+    const isReserve = Boolean(program.isReserve) && status === 'approved';
+
     await db.runAsync(
-      `INSERT INTO weapons (
-        id,
-        displayName,
-        type,
-        manufacturer,
-        model,
-        serialNumber,
-        acquisitionDate,
-        acquisitionPrice,
-        weaponCardRef,
-        notes,
-        operationMode,
-        caliber,
-        ownershipStatus,
-        loanContactName,
-        loanStartDate,
-        loanEndDate
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(id) DO UPDATE SET
-        displayName = excluded.displayName,
-        type = excluded.type,
-        manufacturer = excluded.manufacturer,
-        model = excluded.model,
-        serialNumber = excluded.serialNumber,
-        acquisitionDate = excluded.acquisitionDate,
-        acquisitionPrice = excluded.acquisitionPrice,
-        weaponCardRef = excluded.weaponCardRef,
-        notes = excluded.notes,
-        operationMode = excluded.operationMode,
-        caliber = excluded.caliber,
-        ownershipStatus = excluded.ownershipStatus,
-        loanContactName = excluded.loanContactName,
-        loanStartDate = excluded.loanStartDate,
-        loanEndDate = excluded.loanEndDate
+      `INSERT INTO weapon_programs (
+        weaponId,
+        programId,
+        status,
+        isReserve
+      ) VALUES (?, ?, ?, ?)
+      ON CONFLICT(weaponId, programId) DO UPDATE SET
+        status = excluded.status,
+        isReserve = excluded.isReserve
       `,
       [
         input.id,
-        input.displayName,
-        input.type,
-        input.manufacturer ?? null,
-        input.model ?? null,
-        input.serialNumber ?? null,
-        input.acquisitionDate ?? null,
-        input.acquisitionPrice ?? null,
-        input.weaponCardRef ?? null,
-        input.notes ?? null,
-        input.operationMode ?? null,
-        input.caliber ?? null,
-        input.ownershipStatus,
-        input.loanContactName ?? null,
-        input.loanStartDate ?? null,
-        input.loanEndDate ?? null,
+        program.programId,
+        status,
+        isReserve ? 1 : 0,
       ]
     );
+  }
 
-    await db.runAsync('DELETE FROM weapon_programs WHERE weaponId = ?', [input.id]);
-
-    const approvedProgramId =
-      input.programs.find((program) => (program.status ?? 'approved') === 'approved')?.programId ??
-      null;
-
-    for (const program of input.programs) {
-      const status = program.status ?? 'approved';
-      const isReserve = program.isReserve && program.programId === approvedProgramId;
-
-      await db.runAsync(
-        `INSERT INTO weapon_programs (
-          weaponId,
-          programId,
-          status,
-          isReserve
-        ) VALUES (?, ?, ?, ?)
-        ON CONFLICT(weaponId, programId) DO UPDATE SET
-          status = excluded.status,
-          isReserve = excluded.isReserve
-        `,
-        [
-          input.id,
-          program.programId,
-          status,
-          isReserve ? 1 : 0,
-        ]
-      );
-    }
-  });
+  await syncWeaponSearchIndex(db, [input.id]);
+};
+
+export const upsertWeapon = async (input: UpsertWeaponInput): Promise<void> => {
+  await runWithinTransaction((db) => upsertWeaponRows(db, input));
 };
 
 export const deleteWeapon = async (weaponId: string): Promise<void> => {
+  const photoFileUris: string[] = [];
+  const attachmentFileUris: string[] = [];
+
   await runWithinTransaction(async (db) => {
+    const photos = await db.getAllAsync<{ fileUri: string }>(
+      'SELECT fileUri FROM weapon_photos WHERE weaponId = ?',
+      [weaponId]
+    );
+    photoFileUris.push(...photos.map((photo) => photo.fileUri));
+
+    await db.runAsync('DELETE FROM weapon_photos WHERE weaponId = ?', [weaponId]);
+    attachmentFileUris.push(...(await deleteOwnerAttachmentRows(db, 'weapon', weaponId)));
     await db.runAsync('DELETE FROM weapon_programs WHERE weaponId = ?', [weaponId]);
+    await db.runAsync('UPDATE competitions SET weaponId = NULL WHERE weaponId = ?', [weaponId]);
     await db.runAsync('DELETE FROM weapons WHERE id = ?', [weaponId]);
+    await syncWeaponSearchIndex(db, [weaponId]);
   });
+
+  // Files are only removed once the rows are gone, so a failed delete never orphans rows.
+  deletePhotoFiles(photoFileUris);
+  deleteAttachmentFiles(attachmentFileUris);
 };
 
 const parsePrograms = (raw: string): WeaponProgramLink[] => {
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+
+import type { AppLockSettings } from '@/src/services/app-lock';
+
+export type AppLockContextValue = {
+  settings: AppLockSettings;
+  locked: boolean;
+  biometricsAvailable: boolean;
+  unlock: () => void;
+  lock: () => void;
+  /** Enables the lock with a new PIN, or replaces the PIN when the lock is already on. */
+  enableWithPin: (pin: string) => Promise<void>;
+  disable: () => Promise<void>;
+  updateSettings: (changes: Partial<Omit<AppLockSettings, 'enabled'>>) => Promise<void>;
+};
+
+export const AppLockContext = createContext<AppLockContextValue | null>(null);
+
+export const useAppLock = (): AppLockContextValue => {
+  const value = useContext(AppLockContext);
+  if (!value) {
+    throw new Error('useAppLock must be used inside AppLockProvider');
+  }
+  return value;
+};
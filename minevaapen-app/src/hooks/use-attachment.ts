@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { fetchAttachmentById, type AttachmentRecord } from '@/src/database/attachments-repository';
+
+export const useAttachment = (attachmentId?: string | null) => {
+  const [attachment, setAttachment] = useState<AttachmentRecord | null>(null);
+  const [loading, setLoading] = useState<boolean>(Boolean(attachmentId));
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async () => {
+    if (!attachmentId) {
+      setAttachment(null);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchAttachmentById(attachmentId);
+      setAttachment(result);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [attachmentId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return { attachment, loading, error, refresh: load };
+};
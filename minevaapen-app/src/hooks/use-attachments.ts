@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  fetchAttachments,
+  type AttachmentOwnerType,
+  type AttachmentRecord,
+} from '@/src/database/attachments-repository';
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+
+export const useAttachments = (ownerType: AttachmentOwnerType, ownerId?: string | null) => {
+  const [attachments, setAttachments] = useState<AttachmentRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(Boolean(ownerId));
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async () => {
+    if (!ownerId) {
+      setAttachments([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setAttachments(await fetchAttachments(ownerType, ownerId));
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [ownerId, ownerType]);
+
+  useEffect(() => {
+    void load();
+
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  return { attachments, loading, error, refresh: load };
+};
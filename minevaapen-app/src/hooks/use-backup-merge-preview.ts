@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+import { previewBackupMerge, type BackupMergePreview } from '@/src/services/storage';
+
+export const useBackupMergePreview = (sourceUri?: string | null, passphrase?: string) => {
+  const [preview, setPreview] = useState<BackupMergePreview | null>(null);
+  const [loading, setLoading] = useState<boolean>(Boolean(sourceUri));
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async () => {
+    if (!sourceUri) {
+      setPreview(null);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await previewBackupMerge(sourceUri, { passphrase });
+      setPreview(result);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [passphrase, sourceUri]);
+
+  useEffect(() => {
+    void load();
+
+    // A merge emits the restored event, after which the remaining differences are recomputed.
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  return { preview, loading, error, refresh: load };
+};
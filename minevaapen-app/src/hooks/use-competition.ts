@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  fetchCompetitionById,
+  type CompetitionRecord,
+} from '@/src/database/competitions-repository';
+
+export const useCompetition = (competitionId?: string | null) => {
+  const [competition, setCompetition] = useState<CompetitionRecord | null>(null);
+  const [loading, setLoading] = useState<boolean>(Boolean(competitionId));
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async () => {
+    if (!competitionId) {
+      setCompetition(null);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchCompetitionById(competitionId);
+      setCompetition(result);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [competitionId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return { competition, loading, error, refresh: load };
+};
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  fetchCompetitions,
+  fetchProgramCompetitionProgress,
+  type CompetitionWithDetails,
+  type ProgramCompetitionProgress,
+} from '@/src/database/competitions-repository';
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+
+type UseCompetitionsOptions = {
+  programId?: string | null;
+  allowedOrganizationIds?: string[] | null;
+};
+
+export const useCompetitions = (options: UseCompetitionsOptions = {}) => {
+  const [competitions, setCompetitions] = useState<CompetitionWithDetails[]>([]);
+  const [progress, setProgress] = useState<ProgramCompetitionProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const { programId = null, allowedOrganizationIds = null } = options;
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [competitionResult, progressResult] = await Promise.all([
+        fetchCompetitions({ programId, allowedOrganizationIds }),
+        fetchProgramCompetitionProgress(allowedOrganizationIds),
+      ]);
+      setCompetitions(competitionResult);
+      setProgress(progressResult);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [programId, allowedOrganizationIds]);
+
+  useEffect(() => {
+    void load();
+
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  return { competitions, progress, loading, error, refresh: load };
+};
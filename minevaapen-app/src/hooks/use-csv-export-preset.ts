@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { getSetting, SETTING_KEYS, setSetting } from '@/src/database/settings-repository';
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+import {
+  DEFAULT_CSV_EXPORT_OPTIONS,
+  parseCsvExportOptions,
+  type CsvExportOptions,
+} from '@/src/services/weapon-csv';
+
+/** The CSV layout used for the last export, remembered in the settings table. */
+export const useCsvExportPreset = () => {
+  const [preset, setPreset] = useState<CsvExportOptions>(DEFAULT_CSV_EXPORT_OPTIONS);
+  const [loaded, setLoaded] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const stored = await getSetting(SETTING_KEYS.csvExportPreset);
+      setPreset(parseCsvExportOptions(stored));
+    } catch (err) {
+      console.warn('Failed to load CSV export preset', err);
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  const savePreset = useCallback((next: CsvExportOptions) => {
+    setPreset(next);
+    setSetting(SETTING_KEYS.csvExportPreset, JSON.stringify(next)).catch((err) => {
+      console.warn('Failed to save CSV export preset', err);
+    });
+  }, []);
+
+  return { preset, loaded, savePreset };
+};
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { loadDashboard, type DashboardOrganization } from '@/src/services/dashboard';
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+
+export const useDashboard = () => {
+  const [organizations, setOrganizations] = useState<DashboardOrganization[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setOrganizations(await loadDashboard());
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  return { organizations, loading, error, refresh: load };
+};
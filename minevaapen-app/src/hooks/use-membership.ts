@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  fetchMembership,
+  type MembershipRecord,
+} from '@/src/database/memberships-repository';
+
+export const useMembership = (organizationId?: string | null) => {
+  const [membership, setMembership] = useState<MembershipRecord | null>(null);
+  const [loading, setLoading] = useState<boolean>(Boolean(organizationId));
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async () => {
+    if (!organizationId) {
+      setMembership(null);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await fetchMembership(organizationId);
+      setMembership(result);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  return { membership, loading, error, refresh: load };
+};
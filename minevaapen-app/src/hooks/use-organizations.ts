@@ -46,11 +46,17 @@ export const useOrganizations = () => {
   const updateMembership = useCallback(
     async (organizationId: string, isMember: boolean) => {
       setOrganizations((prev) =>
-        prev.map((org) => (org.id === organizationId ? { ...org, isMember } : org))
+        prev.map((org) =>
+          org.id === organizationId
+            ? { ...org, isMember, membership: isMember ? org.membership : null }
+            : org
+        )
       );
 
       try {
         await setOrganizationMembership(organizationId, isMember);
+        // Picks up the stored membership row and its validity.
+        setOrganizations(await fetchOrganizations());
       } catch (err) {
         console.warn('Failed to update organization membership', err);
         await refresh();
@@ -63,10 +69,13 @@ export const useOrganizations = () => {
   const updateAllMemberships = useCallback(
     async (isMember: boolean) => {
       setUpdating(true);
-      setOrganizations((prev) => prev.map((org) => ({ ...org, isMember })));
+      setOrganizations((prev) =>
+        prev.map((org) => ({ ...org, isMember, membership: isMember ? org.membership : null }))
+      );
 
       try {
         await setAllOrganizationMemberships(isMember);
+        setOrganizations(await fetchOrganizations());
       } catch (err) {
         console.warn('Failed to update all organization memberships', err);
         await refresh();
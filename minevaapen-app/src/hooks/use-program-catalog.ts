@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  getCatalogVersion,
+  getLastCatalogChangelog,
+  type CatalogChangelog,
+} from '@/src/database/catalog-sync';
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+
+/** Installed catalog version and the changes made by the last catalog update. */
+export const useProgramCatalog = () => {
+  const [version, setVersion] = useState<number | null>(null);
+  const [changelog, setChangelog] = useState<CatalogChangelog | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [nextVersion, nextChangelog] = await Promise.all([
+        getCatalogVersion(),
+        getLastCatalogChangelog(),
+      ]);
+      setVersion(nextVersion);
+      setChangelog(nextChangelog);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  return { version, changelog, loading, error, refresh: load };
+};
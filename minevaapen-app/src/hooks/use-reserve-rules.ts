@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  emptyReserveRuleResult,
+  evaluateWeaponReserveRules,
+  type ReserveRuleContext,
+  type ReserveRuleResult,
+  type RuleProgramLink,
+} from '@/src/rules/reserve-eligibility';
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+import { loadReserveRuleContext } from '@/src/services/reserve-rules';
+
+export const useReserveRules = () => {
+  const [context, setContext] = useState<ReserveRuleContext | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setContext(await loadReserveRuleContext());
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  const evaluate = useCallback(
+    (weaponId: string | null, links: RuleProgramLink[]): ReserveRuleResult =>
+      context ? evaluateWeaponReserveRules(weaponId, links, context) : emptyReserveRuleResult,
+    [context]
+  );
+
+  return { context, loading, error, refresh: load, evaluate };
+};
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  fetchShooterProfile,
+  type ShooterProfile,
+} from '@/src/database/shooter-profile-repository';
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+
+export const useShooterProfile = () => {
+  const [profile, setProfile] = useState<ShooterProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchShooterProfile();
+      setProfile(result);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  return { profile, loading, error, refresh: load };
+};
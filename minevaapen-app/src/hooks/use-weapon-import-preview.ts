@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+import {
+  previewWeaponImport,
+  readCsvTableFromUri,
+  suggestWeaponImportMapping,
+  type CsvTable,
+  type WeaponImportMapping,
+  type WeaponImportOptions,
+  type WeaponImportPreview,
+} from '@/src/services/weapon-import';
+
+/**
+ * Reads the CSV once and re-runs the dry run whenever the mapping or options change. Without a
+ * mapping of its own the screen gets the one suggested from the header row.
+ */
+export const useWeaponImportPreview = (
+  sourceUri: string | null | undefined,
+  mapping: WeaponImportMapping | null,
+  { organizationId, updateDuplicates }: WeaponImportOptions
+) => {
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [preview, setPreview] = useState<WeaponImportPreview | null>(null);
+  const [loading, setLoading] = useState<boolean>(Boolean(sourceUri));
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!sourceUri) {
+      setTable(null);
+      setLoading(false);
+      return;
+    }
+
+    let isMounted = true;
+    setLoading(true);
+    setError(null);
+
+    readCsvTableFromUri(sourceUri)
+      .then((result) => {
+        if (isMounted) {
+          setTable(result);
+        }
+      })
+      .catch((err) => {
+        if (isMounted) {
+          setError(err instanceof Error ? err : new Error(String(err)));
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [sourceUri]);
+
+  const effectiveMapping = useMemo(
+    () => mapping ?? (table ? suggestWeaponImportMapping(table.headers) : {}),
+    [mapping, table]
+  );
+
+  const load = useCallback(async () => {
+    if (!table) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await previewWeaponImport(table, effectiveMapping, {
+        organizationId,
+        updateDuplicates,
+      });
+      setPreview(result);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [effectiveMapping, organizationId, table, updateDuplicates]);
+
+  useEffect(() => {
+    void load();
+
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  return { table, mapping: effectiveMapping, preview, loading, error, refresh: load };
+};
@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import { getSetting, SETTING_KEYS, setSetting } from '@/src/database/settings-repository';
+import type { WeaponFilters } from '@/src/database/weapons-repository';
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+
+export type ReserveFilterValue = NonNullable<WeaponFilters['reserveFilter']>;
+export type OwnershipFilterValue = NonNullable<WeaponFilters['ownershipFilter']>;
+
+export type WeaponListFilters = {
+  organizationId: string | null;
+  programId: string | null;
+  reserveFilter: ReserveFilterValue;
+  ownershipFilter: OwnershipFilterValue;
+};
+
+export const DEFAULT_WEAPON_LIST_FILTERS: WeaponListFilters = {
+  organizationId: null,
+  programId: null,
+  reserveFilter: 'any',
+  ownershipFilter: 'all',
+};
+
+const RESERVE_FILTER_VALUES: readonly ReserveFilterValue[] = ['any', 'reserveOnly', 'nonReserve'];
+const OWNERSHIP_FILTER_VALUES: readonly OwnershipFilterValue[] = ['all', 'own', 'loanIn', 'loanOut'];
+
+const parseStoredFilters = (value: string | null): WeaponListFilters => {
+  if (!value) {
+    return DEFAULT_WEAPON_LIST_FILTERS;
+  }
+
+  try {
+    const parsed = JSON.parse(value) as Partial<Record<keyof WeaponListFilters, unknown>>;
+    const { organizationId, programId, reserveFilter, ownershipFilter } = parsed;
+
+    return {
+      organizationId: typeof organizationId === 'string' ? organizationId : null,
+      programId: typeof programId === 'string' ? programId : null,
+      reserveFilter: RESERVE_FILTER_VALUES.find((option) => option === reserveFilter) ?? 'any',
+      ownershipFilter:
+        OWNERSHIP_FILTER_VALUES.find((option) => option === ownershipFilter) ?? 'all',
+    };
+  } catch (error) {
+    console.warn('Ignoring unreadable weapon list filters', error);
+    return DEFAULT_WEAPON_LIST_FILTERS;
+  }
+};
+
+/** Weapon list filters, remembered in the settings table between sessions. */
+export const useWeaponListFilters = () => {
+  const [filters, setFilters] = useState<WeaponListFilters>(DEFAULT_WEAPON_LIST_FILTERS);
+  const [loaded, setLoaded] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const stored = await getSetting(SETTING_KEYS.weaponListFilters);
+      setFilters(parseStoredFilters(stored));
+    } catch (err) {
+      console.warn('Failed to load weapon list filters', err);
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  const updateFilters = useCallback(
+    (changes: Partial<WeaponListFilters>) => {
+      const next = { ...filters, ...changes };
+      setFilters(next);
+      setSetting(SETTING_KEYS.weaponListFilters, JSON.stringify(next)).catch((err) => {
+        console.warn('Failed to save weapon list filters', err);
+      });
+    },
+    [filters]
+  );
+
+  return { filters, loaded, updateFilters };
+};
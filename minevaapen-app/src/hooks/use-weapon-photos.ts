@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import {
+  fetchWeaponPhotos,
+  type WeaponPhotoRecord,
+} from '@/src/database/weapon-photos-repository';
+import { DATABASE_EVENTS, databaseEvents } from '@/src/services/events';
+
+export const useWeaponPhotos = (weaponId?: string | null) => {
+  const [photos, setPhotos] = useState<WeaponPhotoRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(Boolean(weaponId));
+  const [error, setError] = useState<Error | null>(null);
+
+  const load = useCallback(async () => {
+    if (!weaponId) {
+      setPhotos([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setPhotos(await fetchWeaponPhotos(weaponId));
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      setLoading(false);
+    }
+  }, [weaponId]);
+
+  useEffect(() => {
+    void load();
+
+    const subscription = databaseEvents.addListener(DATABASE_EVENTS.RESTORED, () => {
+      void load();
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [load]);
+
+  return { photos, loading, error, refresh: load };
+};
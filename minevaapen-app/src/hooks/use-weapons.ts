@@ -18,6 +18,7 @@ export const useWeapons = (filters: WeaponFilters = {}) => {
     reserveFilter = 'any',
     ownershipFilter = 'all',
     allowedOrganizationIds = null,
+    search = null,
   } = filters;
 
   const load = useCallback(async () => {
@@ -31,6 +32,7 @@ export const useWeapons = (filters: WeaponFilters = {}) => {
         reserveFilter,
         ownershipFilter,
         allowedOrganizationIds,
+        search,
       });
       setWeapons(result);
     } catch (err) {
@@ -38,7 +40,7 @@ export const useWeapons = (filters: WeaponFilters = {}) => {
     } finally {
       setLoading(false);
     }
-  }, [organizationId, programId, reserveFilter, ownershipFilter, allowedOrganizationIds]);
+  }, [organizationId, programId, reserveFilter, ownershipFilter, allowedOrganizationIds, search]);
 
   useEffect(() => {
     void load();
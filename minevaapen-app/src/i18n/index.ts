@@ -1,31 +1,63 @@
-import i18n from 'i18next';
+import i18n, { changeLanguage } from 'i18next';
 import { initReactI18next } from 'react-i18next';
 import * as Localization from 'expo-localization';
+import * as SecureStore from 'expo-secure-store';
+
+import { getSetting, SETTING_KEYS, setSetting } from '@/src/database/settings-repository';
 
 import { resources } from './resources';
 
-type SupportedLocale = keyof typeof resources;
+export type SupportedLocale = keyof typeof resources;
+
+export const SUPPORTED_LOCALES = Object.keys(resources) as SupportedLocale[];
 
+// Missing strings fall back to bokmål and finally to the key itself.
 const fallbackLng: SupportedLocale = 'nb_NO';
 
-const normalizeLocale = (tag?: string): SupportedLocale => {
+const isSupportedLocale = (value: string): value is SupportedLocale => value in resources;
+
+/**
+ * Copy of the language setting outside the database, so the first screens, including encryption
+ * setup and migration errors, are shown in the chosen language before the database is opened.
+ */
+const LANGUAGE_KEY = 'minevaapen.language';
+
+const readCachedLanguage = (): SupportedLocale | null => {
+  try {
+    const cached = SecureStore.getItem(LANGUAGE_KEY);
+    return cached && isSupportedLocale(cached) ? cached : null;
+  } catch (error) {
+    console.warn('Failed to read cached language', error);
+    return null;
+  }
+};
+
+const cacheLanguage = async (language: SupportedLocale) => {
+  try {
+    await SecureStore.setItemAsync(LANGUAGE_KEY, language);
+  } catch (error) {
+    console.warn('Failed to cache language', error);
+  }
+};
+
+export const normalizeLocale = (tag?: string): SupportedLocale => {
   if (!tag) {
     return fallbackLng;
   }
 
   const normalized = tag.replace('-', '_');
-  if (normalized in resources) {
-    return normalized as SupportedLocale;
+  if (isSupportedLocale(normalized)) {
+    return normalized;
   }
 
   const languageCode = normalized.split('_')[0];
-  const match = Object.keys(resources).find((locale) => locale.startsWith(languageCode));
-  return (match as SupportedLocale) ?? fallbackLng;
+  const match = SUPPORTED_LOCALES.find((locale) => locale.startsWith(languageCode));
+  return match ?? fallbackLng;
 };
 
 if (!i18n.isInitialized) {
   const systemLocale = Localization.getLocales()[0]?.languageTag;
-  const initialLocale = normalizeLocale(systemLocale);
+  const initialLocale = readCachedLanguage() ?? normalizeLocale(systemLocale);
 
   i18n.use(initReactI18next).init({
     compatibilityJSON: 'v4',
@@ -33,10 +65,37 @@ if (!i18n.isInitialized) {
     lng: initialLocale,
     fallbackLng,
     defaultNS: 'translation',
+    returnEmptyString: false,
     interpolation: {
       escapeValue: false,
     },
   });
 }
 
+/**
+ * Switches to the language stored in the settings table, if any, and refreshes the cached copy.
+ * The database has to be open (and keyed) first, so this runs once seeding has finished and
+ * again after a restore, which may bring another language along.
+ */
+export const applyStoredLanguage = async (): Promise<void> => {
+  const stored = await getSetting(SETTING_KEYS.language);
+  if (!stored || !isSupportedLocale(stored)) {
+    return;
+  }
+
+  if (stored !== readCachedLanguage()) {
+    await cacheLanguage(stored);
+  }
+  if (stored !== i18n.language) {
+    await changeLanguage(stored);
+  }
+};
+
+/** Changes the app language and remembers the choice across restarts. */
+export const setAppLanguage = async (language: SupportedLocale): Promise<void> => {
+  await setSetting(SETTING_KEYS.language, language);
+  await cacheLanguage(language);
+  await changeLanguage(language);
+};
+
 export default i18n;
@@ -9,6 +9,7 @@ export const resources = {
       'common.delete': 'Slett',
       'common.retry': 'Prøv igjen',
       'errors.databaseSeeding': 'Kunne ikke initialisere databasen. Prøv igjen.',
+      'errors.databaseMigration': 'Kunne ikke oppgradere databasen til versjon {{version}}. Dataene er beholdt på versjon {{currentVersion}}.',
       'navigation.modalTitle': 'Modal',
       'navigation.tabs.weapons': 'Våpen',
       'navigation.tabs.settings': 'Innstillinger',
@@ -44,6 +45,7 @@ export const resources = {
       'weapons.card.serialNumber': 'Serienummer: {{serial}}',
       'weapons.card.manufacturerModel': '{{manufacturer}} {{model}}',
       'weapons.card.approvedBadge': 'Godkjent',
+      'weapons.card.pendingBadge': 'Søkt',
       'weapons.card.reserveBadge': 'Reserve',
       'weapons.card.loanInBadge': 'Innlån',
       'weapons.card.loanOutBadge': 'Utlån',
@@ -74,7 +76,7 @@ export const resources = {
       'weaponForm.operationModes.manuell': 'Manuell',
       'weaponForm.operationModes.enkeltskudd': 'Enkeltskudd',
       'weaponForm.programs.title': 'Programtilknytninger',
-      'weaponForm.programs.help': 'Trykk på et program for å koble det til våpenet. Aktiver reserve for å markere våpenet som reserve.',
+      'weaponForm.programs.help': 'Trykk på et program for å koble det til våpenet. Våpenet kan være godkjent i flere programmer, og hvert godkjent program kan markeres som reserve.',
       'weaponForm.programs.usage': '{{weaponCount}} våpen ({{reserveCount}} reserve)',
       'weaponForm.programs.reserveLabel': 'Reserve',
       'weaponForm.programs.expand': 'Vis programmer',
@@ -107,7 +109,7 @@ export const resources = {
       'settings.title': 'Innstillinger',
       'settings.subtitle': 'Ta backup av databasen eller eksporter våpenlisten som CSV.',
       'settings.backup.title': 'Ta backup',
-      'settings.backup.description': 'Kopierer databasen til en backup-mappe lokalt på enheten.',
+      'settings.backup.description': 'Lagrer databasen, bilder og dokumenter i ett kryptert backup-arkiv lokalt på enheten.',
       'settings.backup.success': 'Backup lagret: {{path}}',
       'settings.backup.error': 'Backup feilet. Prøv igjen.',
       'settings.backup.button': 'Start backup',
@@ -139,6 +141,7 @@ export const resources = {
       'settings.language.error': 'Kunne ikke endre språk. Prøv igjen.',
       'settings.language.options.nb_NO': 'Bokmål',
       'settings.language.options.nn_NO': 'Nynorsk',
+      'settings.language.options.en': 'English',
       'settings.memberships.title': 'Medlemskap',
       'settings.memberships.description': 'Velg hvilke organisasjoner du er medlem av. Bare disse vises når du registrerer eller filtrerer våpen.',
       'settings.memberships.selectedCount': '{{count}} av {{total}} valgt',
@@ -149,6 +152,422 @@ export const resources = {
       'settings.memberships.empty': 'Ingen organisasjoner tilgjengelig.',
       'weapons.memberships.empty': 'Velg minst én organisasjon under Innstillinger for å registrere våpen.',
       'weaponForm.memberships.empty': 'Ingen organisasjoner er tilgjengelig. Oppdater medlemskap under Innstillinger.',
+      'navigation.tabs.competitions': 'Konkurranser',
+      'competitions.title': 'Konkurranser',
+      'competitions.subtitle': 'Logg stevner for å dokumentere grunnlaget for reservevåpen.',
+      'competitions.actions.add': 'Logg konkurranse',
+      'competitions.progress.title': 'Reservekrav siste 12 måneder',
+      'competitions.progress.description': 'Krav: minst 10 konkurranser, hvorav 5 åpne stevner, eller deltakelse i internasjonalt mesterskap.',
+      'competitions.progress.counts': '{{total}}/{{totalRequired}} konkurranser · {{open}}/{{openRequired}} åpne',
+      'competitions.progress.international': 'Internasjonale mesterskap: {{count}}',
+      'competitions.progress.reserveWeapons': 'Reservevåpen: {{count}}',
+      'competitions.progress.met': 'Oppfylt',
+      'competitions.progress.notMet': 'Ikke oppfylt',
+      'competitions.progress.empty': 'Ingen programmer med reservevåpen eller loggførte konkurranser.',
+      'competitions.list.title': 'Loggførte konkurranser',
+      'competitions.list.empty': 'Ingen konkurranser er loggført ennå.',
+      'competitions.list.error': 'Noe gikk galt ved innlasting av konkurranser.',
+      'competitions.eventTypes.open': 'Åpent stevne',
+      'competitions.eventTypes.closed': 'Lukket stevne',
+      'competitions.eventTypes.international': 'Internasjonalt mesterskap',
+      'competitions.card.weapon': 'Våpen: {{name}}',
+      'competitions.card.result': 'Resultat: {{result}}',
+      'competitionForm.title.new': 'Logg konkurranse',
+      'competitionForm.title.edit': 'Rediger konkurranse',
+      'competitionForm.description': 'Registrer dato, program og type stevne. Legg gjerne ved resultatlisten.',
+      'competitionForm.fields.eventName': 'Stevne',
+      'competitionForm.fields.eventNamePlaceholder': 'F.eks. Vårstevnet',
+      'competitionForm.fields.date': 'Dato',
+      'competitionForm.fields.eventType': 'Type stevne',
+      'competitionForm.fields.program': 'Program',
+      'competitionForm.fields.weapon': 'Våpen brukt',
+      'competitionForm.fields.result': 'Resultat',
+      'competitionForm.fields.resultPlaceholder': 'Plassering eller poeng',
+      'competitionForm.fields.attachment': 'Vedlegg',
+      'competitionForm.programSelected': 'Valgt: {{name}}',
+      'competitionForm.noWeapon': 'Ikke oppgitt',
+      'competitionForm.actions.save': 'Lagre konkurranse',
+      'competitionForm.actions.delete': 'Slett konkurranse',
+      'competitionForm.validation.eventName': 'Oppgi navn på stevnet.',
+      'competitionForm.validation.program': 'Velg et program.',
+      'competitionForm.feedback.error': 'Kunne ikke lagre konkurransen. Prøv igjen.',
+      'competitionForm.delete.confirmTitle': 'Slett konkurranse',
+      'competitionForm.delete.confirmMessage': 'Er du sikker på at du vil slette denne konkurransen? Denne handlingen kan ikke angres.',
+      'competitionForm.notFound': 'Fant ikke konkurransen.',
+      'reserveRules.violationsTitle': 'Regelbrudd',
+      'reserveRules.warningsTitle': 'Advarsler',
+      'reserveRules.issueCount': '{{count}} merknader',
+      'reserveRules.saveBlocked.title': 'Våpenet kan ikke lagres som reserve',
+      'reserveRules.reserveNotAllowed': '{{program}}: programmet tillater ikke reservevåpen.',
+      'reserveRules.reserveRequiresApproval': '{{program}}: reservevåpen må være godkjent for programmet.',
+      'reserveRules.reserveLimitExceeded': '{{program}}: {{count}} reservevåpen, maks {{limit}} er tillatt.',
+      'reserveRules.competitionRequirementsNotMet': '{{program}}: {{total}}/{{totalRequired}} stevner og {{open}}/{{openRequired}} åpne stevner siste år.',
+      'reserveRules.organizationNotMember': '{{program}}: du er ikke registrert som medlem i organisasjonen.',
+      'weaponForm.photos.title': 'Bilder',
+      'weaponForm.photos.help': 'Legg til bilder av våpenet. Forsidebildet vises i våpenlisten.',
+      'weaponForm.photos.saveFirst': 'Lagre våpenet før du legger til bilder.',
+      'weaponForm.photos.empty': 'Ingen bilder er lagt til ennå.',
+      'weaponForm.photos.addFromLibrary': 'Velg bilder',
+      'weaponForm.photos.takePhoto': 'Ta bilde',
+      'weaponForm.photos.captionPlaceholder': 'Bildetekst',
+      'weaponForm.photos.cover': 'Forsidebilde',
+      'weaponForm.photos.setCover': 'Bruk som forsidebilde',
+      'weaponForm.photos.moveUp': 'Flytt opp',
+      'weaponForm.photos.moveDown': 'Flytt ned',
+      'weaponForm.photos.delete': 'Slett',
+      'weaponForm.photos.deleteConfirmTitle': 'Slette bildet?',
+      'weaponForm.photos.deleteConfirmMessage': 'Bildet fjernes fra enheten og kan ikke gjenopprettes.',
+      'weaponForm.photos.cameraPermissionDenied': 'Appen har ikke tilgang til kameraet.',
+      'weaponForm.photos.error': 'Kunne ikke oppdatere bildene.',
+      'attachments.types.weaponCard': 'Våpenkort',
+      'attachments.types.purchaseReceipt': 'Kjøpskvittering',
+      'attachments.types.policeApproval': 'Politigodkjenning',
+      'attachments.types.loanAgreement': 'Låneavtale',
+      'attachments.types.competitionResult': 'Resultatliste',
+      'attachments.add': 'Legg ved dokument',
+      'attachments.titlePlaceholder': 'Beskrivelse (valgfritt)',
+      'attachments.empty': 'Ingen dokumenter er lagt ved.',
+      'attachments.saveFirst': 'Lagre før du legger ved dokumenter.',
+      'attachments.openHint': 'Åpner dokumentet i fullskjerm',
+      'attachments.delete.confirmTitle': 'Slette dokumentet?',
+      'attachments.delete.confirmMessage': 'Filen fjernes fra enheten og kan ikke gjenopprettes.',
+      'attachments.feedback.error': 'Kunne ikke oppdatere dokumentene. Prøv igjen.',
+      'attachments.viewer.close': 'Lukk',
+      'attachments.viewer.openExternally': 'Åpne i annen app',
+      'attachments.viewer.pdfHint': 'PDF-filer åpnes i enhetens egen visning.',
+      'attachments.viewer.unavailable': 'Deling er ikke tilgjengelig på denne enheten.',
+      'attachments.viewer.notFound': 'Fant ikke dokumentet.',
+      'weaponForm.documents.title': 'Dokumenter',
+      'weaponForm.documents.help': 'Legg ved våpenkort, kvitteringer, godkjenninger og låneavtaler.',
+      'settings.memberships.documents': 'Dokumenter',
+      'membershipDocuments.description': 'Dokumenter knyttet til medlemskapet, for eksempel politigodkjenninger.',
+      'membershipDocuments.notFound': 'Fant ikke organisasjonen.',
+      'settings.restore.successWithManifest': 'Backup gjenopprettet fra {{path}} (laget {{createdAt}}, app {{appVersion}}, {{fileCount}} filer)',
+      'settings.restore.archiveErrors.notAnArchive': 'Filen er ikke et gyldig backup-arkiv.',
+      'settings.restore.archiveErrors.missingManifest': 'Backup-arkivet mangler manifest.',
+      'settings.restore.archiveErrors.invalidManifest': 'Manifestet i backup-arkivet er ugyldig.',
+      'settings.restore.archiveErrors.unsupportedFormat': 'Backup-formatet støttes ikke av denne versjonen av appen.',
+      'settings.restore.archiveErrors.schemaTooNew': 'Backupen er laget med en nyere versjon av appen. Oppdater appen først.',
+      'settings.restore.archiveErrors.missingFile': 'Backup-arkivet mangler filer. Ingenting ble endret.',
+      'settings.restore.archiveErrors.checksumMismatch': 'Backup-arkivet er skadet (feil sjekksum). Ingenting ble endret.',
+      'settings.restore.confirm.title': 'Gjenopprette denne backupen?',
+      'settings.restore.confirm.created': 'Laget {{createdAt}} med app {{appVersion}}',
+      'settings.restore.confirm.weapons': 'Våpen: {{count}}',
+      'settings.restore.confirm.memberships': 'Medlemskap: {{organizations}}',
+      'settings.restore.confirm.newestChange': 'Siste endring: {{date}}',
+      'settings.restore.confirm.none': 'ingen',
+      'settings.restore.confirm.unknown': 'ukjent',
+      'settings.restore.confirm.warning': 'Nåværende data blir erstattet.',
+      'settings.restore.validationErrors.unreadable': 'Filen er ikke en lesbar Mine Våpen-database. Ingenting ble endret.',
+      'settings.restore.validationErrors.integrityCheckFailed': 'Databasen i backupen er skadet. Ingenting ble endret.',
+      'settings.restore.validationErrors.missingTables': 'Backupen mangler forventede tabeller. Ingenting ble endret.',
+      'settings.restore.validationErrors.schemaTooNew': 'Backupen er laget med en nyere versjon av appen. Oppdater appen først.',
+      'settings.restore.migrationFailed': 'Backupen kunne ikke oppgraderes. Den forrige databasen er beholdt.',
+      'settings.merge.title': 'Sammenlign og slå sammen',
+      'settings.merge.description': 'Viser forskjeller mellom en backup og dataene på denne enheten, og lar deg hente over utvalgte våpen, programkoblinger og medlemskap.',
+      'settings.merge.button': 'Velg fil',
+      'settings.merge.latestButton': 'Siste backup',
+      'settings.merge.error': 'Klarte ikke å åpne backupen. Prøv igjen.',
+      'backupMerge.title': 'Sammenlign backup',
+      'backupMerge.description': 'Velg hva som skal hentes fra backupen. Ingenting på denne enheten blir slettet.',
+      'backupMerge.summary': '{{weapons}} våpen i backupen · {{different}} med forskjeller · {{unchanged}} like',
+      'backupMerge.noDifferences': 'Backupen er lik dataene på denne enheten.',
+      'backupMerge.weaponsTitle': 'Våpen',
+      'backupMerge.membershipsTitle': 'Medlemskap',
+      'backupMerge.change.added': 'Bare i backupen',
+      'backupMerge.change.removed': 'Bare på denne enheten',
+      'backupMerge.change.changed': 'Endret',
+      'backupMerge.keptOnDevice': 'Beholdes som det er.',
+      'backupMerge.changedFields': 'Endrede felt: {{fields}}',
+      'backupMerge.updatedAt': 'Sist lagret: enhet {{device}} · backup {{backup}}',
+      'backupMerge.link.none': 'ikke koblet',
+      'backupMerge.link.compare': 'Enhet: {{device}} → Backup: {{backup}}',
+      'backupMerge.membership.member': 'medlem',
+      'backupMerge.membership.notMember': 'ikke medlem',
+      'backupMerge.membership.compare': 'Enhet: {{device}} → Backup: {{backup}}',
+      'backupMerge.mergeSelected': 'Hent valgte ({{count}})',
+      'backupMerge.mergeButton': 'Hent',
+      'backupMerge.confirm.title': 'Hente fra backup?',
+      'backupMerge.confirm.message': '{{count}} valgte elementer kopieres fra backupen og overskriver tilsvarende data på denne enheten.',
+      'backupMerge.success.title': 'Hentet fra backup',
+      'backupMerge.success.message': 'Våpen: {{weapons}}, programkoblinger: {{programLinks}}, medlemskap: {{memberships}}, filer: {{files}}',
+      'backupMerge.error': 'Klarte ikke å hente fra backupen. Ingenting ble endret.',
+      'backupMerge.loadError': 'Klarte ikke å lese backupen.',
+      'backupMerge.notFound': 'Ingen backup valgt.',
+      'settings.restore.archiveErrors.encryptionNotConfigured': 'Kryptering er ikke satt opp. Velg en passordfrase før du tar backup.',
+      'settings.restore.archiveErrors.passphraseRequired': 'Backupen er laget med en annen passordfrase.',
+      'settings.restore.archiveErrors.wrongPassphrase': 'Feil passordfrase, eller backupen er skadet. Ingenting ble endret.',
+      'settings.restore.passphraseTitle': 'Passordfrase for backup',
+      'settings.restore.passphraseMessage': '{{name}} er laget med en annen passordfrase. Skriv inn passordfrasen som ble brukt da backupen ble laget.',
+      'settings.restore.passphraseSubmit': 'Lås opp',
+      'settings.encryption.title': 'Kryptering',
+      'settings.encryption.description': 'Backupene er kryptert med passordfrasen din. Databasen på denne enheten er kryptert med en nøkkel som ligger i enhetens nøkkelring, så den er beskyttet av skjermlåsen. Backuper laget før en endring krever den gamle passordfrasen.',
+      'settings.encryption.button': 'Bytt passordfrase',
+      'settings.encryption.dialogTitle': 'Bytt passordfrase',
+      'settings.encryption.dialogMessage': 'Databasen krypteres på nytt med den nye passordfrasen.',
+      'settings.encryption.success': 'Passordfrasen er endret.',
+      'settings.encryption.error': 'Kunne ikke endre passordfrasen.',
+      'passphrase.passphrase': 'Passordfrase',
+      'passphrase.current': 'Nåværende passordfrase',
+      'passphrase.new': 'Ny passordfrase',
+      'passphrase.confirm': 'Gjenta passordfrasen',
+      'passphrase.errors.tooShort': 'Passordfrasen må ha minst {{count}} tegn.',
+      'passphrase.errors.mismatch': 'Passordfrasene er ikke like.',
+      'passphrase.errors.incorrect': 'Nåværende passordfrase er feil.',
+      'encryptionSetup.title': 'Beskytt dataene dine',
+      'encryptionSetup.description': 'Mine Våpen krypterer backupene med en passordfrase du velger. Databasen på denne enheten krypteres med en nøkkel som ligger i enhetens nøkkelring.',
+      'encryptionSetup.warning': 'Passordfrasen kan ikke gjenopprettes. Uten den kan backupene ikke leses.',
+      'encryptionSetup.createButton': 'Velg passordfrase',
+      'encryptionSetup.createTitle': 'Ny passordfrase',
+      'encryptionSetup.createMessage': 'Velg en passordfrase du husker. Den trengs for å gjenopprette backuper på en ny enhet.',
+      'encryptionSetup.createSubmit': 'Krypter',
+      'encryptionSetup.restoreButton': 'Gjenopprett fra backup',
+      'encryptionSetup.restoreTitle': 'Gjenopprett på ny enhet',
+      'encryptionSetup.restoreMessage': 'Skriv inn passordfrasen for {{name}}. Den blir også passordfrasen på denne enheten.',
+      'encryptionSetup.restoreSubmit': 'Gjenopprett',
+      'encryptionSetup.error': 'Kunne ikke sette opp kryptering.',
+      'settings.security.title': 'Sikkerhet',
+      'settings.security.description': 'Lås appen med PIN eller biometri, slik at serienumre og lånekontakter ikke vises for andre.',
+      'settings.security.lock': 'Lås appen med PIN',
+      'settings.security.setPin': 'Velg PIN',
+      'settings.security.changePin': 'Endre PIN',
+      'settings.security.biometrics': 'Lås opp med biometri',
+      'settings.security.biometricsUnavailable': 'Ikke tilgjengelig eller ikke satt opp på denne enheten.',
+      'settings.security.autoLock.title': 'Lås automatisk etter',
+      'settings.security.autoLock.immediately': 'Umiddelbart',
+      'settings.security.autoLock.seconds': '{{count}} sek',
+      'settings.security.autoLock.minutes': '{{count}} min',
+      'settings.security.privacyCover': 'Skjul innhold i appveksleren',
+      'settings.security.privacyCoverDescription': 'Gjør skjermbildet uskarpt når appen ikke er i forgrunnen.',
+      'settings.security.disableTitle': 'Slå av app-lås?',
+      'settings.security.disableMessage': 'PIN-koden slettes, og appen åpnes uten opplåsing.',
+      'settings.security.disableConfirm': 'Slå av',
+      'settings.security.success': 'Sikkerhetsinnstillingene er lagret.',
+      'settings.security.error': 'Kunne ikke lagre sikkerhetsinnstillingene.',
+      'pinSetup.message': 'PIN-koden må ha {{min}}–{{max}} sifre.',
+      'pinSetup.pin': 'Ny PIN',
+      'pinSetup.confirm': 'Gjenta PIN',
+      'pinSetup.invalid': 'PIN-koden må ha {{min}}–{{max}} sifre.',
+      'pinSetup.mismatch': 'PIN-kodene er ikke like.',
+      'appLock.title': 'Mine Våpen er låst',
+      'appLock.enterPin': 'Skriv inn PIN-koden',
+      'appLock.unlock': 'Lås opp',
+      'appLock.incorrect': 'Feil PIN. {{count}} forsøk igjen før appen sperres.',
+      'appLock.lockedOut': 'For mange feil forsøk. Prøv igjen om {{count}} sekunder.',
+      'appLock.error': 'Kunne ikke kontrollere PIN-koden.',
+      'appLock.biometricPrompt': 'Lås opp Mine Våpen',
+      'appLock.usePin': 'Bruk PIN',
+      'appLock.useBiometrics': 'Lås opp med biometri',
+      'appLock.backspace': 'Slett siffer',
+      'appLock.digitsEntered': '{{count}} sifre skrevet inn',
+      'weapons.search.placeholder': 'Søk etter navn, serienummer, kaliber …',
+      'weapons.search.clear': 'Tøm',
+      'weapons.search.empty': 'Ingen våpen passer med «{{query}}».',
+      'weaponDetail.title': 'Våpen',
+      'weaponDetail.tabs.details': 'Detaljer',
+      'weaponDetail.tabs.programs': 'Programstatus',
+      'weaponDetail.tabs.documents': 'Dokumenter',
+      'weaponDetail.tabs.photos': 'Bilder',
+      'weapons.card.details': 'Vis detaljer',
+      'navigation.tabs.dashboard': 'Oversikt',
+      'dashboard.title': 'Oversikt',
+      'dashboard.subtitle': 'Godkjente våpen og reserver per organisasjon og program.',
+      'dashboard.organizationCounts': '{{weaponCount}} godkjente våpen · {{reserveCount}} reserve',
+      'dashboard.noPrograms': 'Ingen våpen er godkjent i programmer fra denne organisasjonen.',
+      'dashboard.error': 'Noe gikk galt ved lasting av oversikten.',
+      'dashboard.openWeapons': 'Viser våpenlisten filtrert på programmet',
+      'dashboard.alerts.competitionsMissing': 'Reserve uten nok stevner',
+      'dashboard.alerts.reserveLimitReached': 'Reservegrensen er nådd ({{limit}})',
+      'dashboard.alerts.reserveLimitExceeded': 'Over reservegrensen ({{limit}})',
+      'attachments.types.membershipCard': 'Medlemskort',
+      'settings.memberships.edit': 'Rediger medlemskap',
+      'settings.memberships.memberNumber': 'Medlemsnr. {{number}}',
+      'membershipForm.description': 'Medlemsnummer, klubb og gyldighet. Et utløpt medlemskap teller ikke i reservevåpenreglene.',
+      'membershipForm.fields.memberNumber': 'Medlemsnummer',
+      'membershipForm.fields.memberNumberPlaceholder': 'F.eks. 123456',
+      'membershipForm.fields.clubName': 'Klubb',
+      'membershipForm.fields.clubNamePlaceholder': 'F.eks. Oslo Pistolklubb',
+      'membershipForm.fields.membershipYear': 'Medlemsår',
+      'membershipForm.fields.expiresAt': 'Utløpsdato',
+      'membershipForm.fields.expiresAtPlaceholder': 'Ingen utløpsdato',
+      'membershipForm.fields.membershipCard': 'Medlemskort',
+      'membershipForm.validity.openEnded': 'Gyldig uten utløpsdato',
+      'membershipForm.validity.validUntil': 'Gyldig til {{date}}',
+      'membershipForm.validity.expired': 'Utløpt {{date}}',
+      'membershipForm.validation.membershipYear': 'Medlemsåret må være et årstall med fire siffer.',
+      'membershipForm.feedback.error': 'Kunne ikke lagre medlemskapet.',
+      'membershipForm.actions.save': 'Lagre medlemskap',
+      'membershipForm.actions.delete': 'Slett medlemskap',
+      'membershipForm.delete.confirmTitle': 'Slette medlemskapet?',
+      'membershipForm.delete.confirmMessage': 'Medlemsnummer og gyldighet fjernes. Dokumentene beholdes.',
+      'settings.profile.title': 'Skytterprofil',
+      'settings.profile.description': '{{name}}. Profilen står øverst i eksporterte filer.',
+      'settings.profile.empty': 'Legg inn navn og kontaktinformasjon, så står det øverst i eksporterte filer.',
+      'settings.profile.button': 'Rediger profil',
+      'profileForm.title': 'Skytterprofil',
+      'profileForm.description': 'Opplysningene lagres bare på denne enheten og tas med i sikkerhetskopier og eksporter.',
+      'profileForm.fields.name': 'Navn',
+      'profileForm.fields.namePlaceholder': 'Fullt navn',
+      'profileForm.fields.dateOfBirth': 'Fødselsdato',
+      'profileForm.fields.dateOfBirthPlaceholder': 'Velg dato',
+      'profileForm.fields.address': 'Adresse',
+      'profileForm.fields.addressPlaceholder': 'Gate, postnummer og sted',
+      'profileForm.fields.phone': 'Telefon',
+      'profileForm.fields.phonePlaceholder': 'F.eks. 912 34 567',
+      'profileForm.fields.email': 'E-post',
+      'profileForm.fields.emailPlaceholder': 'navn@eksempel.no',
+      'profileForm.fields.policeDistrict': 'Politidistrikt',
+      'profileForm.validation.email': 'E-postadressen ser ikke gyldig ut.',
+      'profileForm.feedback.error': 'Kunne ikke lagre profilen.',
+      'profileForm.actions.save': 'Lagre profil',
+      'settings.report.title': 'Våpenregister som PDF',
+      'settings.report.description': 'Lager en lesbar rapport med skytterprofil, våpen og godkjente programmer til kontroll og søknader.',
+      'settings.report.button': 'Lag PDF-rapport',
+      'report.title': 'Våpenregister',
+      'report.description': 'Velg hva rapporten skal omfatte. Den lages på språket appen bruker nå.',
+      'report.scope.organization': 'Organisasjon',
+      'report.scope.program': 'Program',
+      'report.scope.allPrograms': 'Alle programmer',
+      'report.scopeAll': 'Alle organisasjoner',
+      'report.includePhotos': 'Ta med bilde',
+      'report.includePhotosHint': 'Forsidebildet av hvert våpen legges inn i rapporten.',
+      'report.create': 'Lag og del PDF',
+      'report.success': 'PDF generert: {{path}}',
+      'report.error': 'Klarte ikke å lage rapporten. Kontroller at det finnes våpen i utvalget.',
+      'report.shareDialogTitle': 'Del våpenregister',
+      'report.generatedAt': 'Generert {{date}}',
+      'report.weaponCount': 'Antall våpen: {{count}}',
+      'report.shooter': 'Skytter',
+      'report.noPrograms': 'Ingen godkjente programmer.',
+      'report.columns.organization': 'Organisasjon',
+      'report.columns.program': 'Program',
+      'report.columns.status': 'Status',
+      'settings.import.title': 'Importer våpen fra CSV',
+      'settings.import.description': 'Les inn våpen fra et regneark eller en CSV-eksport. Du ser en forhåndsvisning før noe lagres.',
+      'settings.import.button': 'Velg CSV-fil',
+      'settings.import.error': 'Kunne ikke åpne filen.',
+      'weaponImport.title': 'Importer våpen',
+      'weaponImport.description': 'Ingenting lagres før du trykker Importer. Rader med feil hoppes over.',
+      'weaponImport.loadError': 'Kunne ikke lese CSV-filen.',
+      'weaponImport.empty': 'Fant ingen overskriftsrad og våpenrader i filen.',
+      'weaponImport.mapping.title': 'Kolonner',
+      'weaponImport.mapping.description': 'Velg hvilken kolonne i filen som fyller hvert felt.',
+      'weaponImport.mapping.ignored': 'Importeres ikke',
+      'weaponImport.mapping.column': 'Kolonne {{number}}',
+      'weaponImport.organization.title': 'Forbund for programnavn',
+      'weaponImport.organization.description': 'Programnavn slås opp her først. Skriv «NSF: Programnavn» i filen for å velge forbund per program.',
+      'weaponImport.organization.auto': 'Automatisk',
+      'weaponImport.updateDuplicates': 'Oppdater eksisterende våpen',
+      'weaponImport.updateDuplicatesHint': 'Rader med samme ID eller serienummer som et registrert våpen overskriver det i stedet for å hoppes over.',
+      'weaponImport.previewTitle': 'Forhåndsvisning',
+      'weaponImport.summary': '{{create}} nye, {{update}} oppdateres, {{skip}} hoppes over',
+      'weaponImport.line': 'Linje {{number}}',
+      'weaponImport.untitled': 'Uten navn',
+      'weaponImport.actions.create': 'Ny',
+      'weaponImport.actions.update': 'Oppdateres',
+      'weaponImport.actions.skip': 'Hoppes over',
+      'weaponImport.issues.missingDisplayName': 'Visningsnavn mangler.',
+      'weaponImport.issues.invalidType': 'Ukjent våpentype «{{value}}».',
+      'weaponImport.issues.invalidOperationMode': 'Ukjent funksjonsmåte «{{value}}».',
+      'weaponImport.issues.invalidOwnershipStatus': 'Ukjent eierskap «{{value}}».',
+      'weaponImport.issues.invalidDate': 'Ugyldig dato «{{value}}». Bruk ÅÅÅÅ-MM-DD.',
+      'weaponImport.issues.invalidPrice': 'Ugyldig pris «{{value}}».',
+      'weaponImport.issues.unknownProgram': 'Fant ikke programmet «{{value}}».',
+      'weaponImport.issues.ambiguousProgram': 'Programmet «{{value}}» finnes i flere forbund. Velg forbund eller skriv «FORBUND: program».',
+      'weaponImport.issues.duplicateInFile': 'Samme serienummer eller ID som linje {{value}}.',
+      'weaponImport.issues.duplicateExisting': 'Samme serienummer som registrert våpen «{{value}}».',
+      'weaponImport.issues.existingId': 'Samme ID som registrert våpen «{{value}}».',
+      'weaponImport.importButton': 'Importer',
+      'weaponImport.importCount': 'Importer {{count}} våpen',
+      'weaponImport.confirm.title': 'Importere våpen?',
+      'weaponImport.confirm.message': '{{create}} nye våpen legges til og {{update}} oppdateres. {{skip}} rader hoppes over.',
+      'weaponImport.success.title': 'Import fullført',
+      'weaponImport.success.message': '{{count}} våpen ble lagret.',
+      'weaponImport.error': 'Importen feilet. Ingen flere rader ble lagret.',
+      'csvColumns.id': 'ID',
+      'csvColumns.displayName': 'Visningsnavn',
+      'csvColumns.type': 'Type',
+      'csvColumns.manufacturer': 'Produsent',
+      'csvColumns.model': 'Modell',
+      'csvColumns.serialNumber': 'Serienummer',
+      'csvColumns.acquisitionDate': 'Anskaffelsesdato',
+      'csvColumns.acquisitionPrice': 'Anskaffelsespris',
+      'csvColumns.weaponCardRef': 'Våpenkortreferanse',
+      'csvColumns.operationMode': 'Funksjonsmåte',
+      'csvColumns.caliber': 'Kaliber',
+      'csvColumns.notes': 'Notater',
+      'csvColumns.programs': 'Godkjente programmer',
+      'csvColumns.reserve': 'Reservevåpen (X)',
+      'csvColumns.reservePrograms': 'Programmer som reserve',
+      'csvColumns.pendingPrograms': 'Programmer til behandling',
+      'csvColumns.proposedPrograms': 'Foreslåtte programmer',
+      'csvColumns.ownershipStatus': 'Eierskap',
+      'csvColumns.loanContactName': 'Lånekontakt',
+      'csvColumns.loanStartDate': 'Lån fra',
+      'csvColumns.loanEndDate': 'Lån til',
+      'csvColumns.reserveIssues': 'Avvik i reserveregler',
+      'settings.interchange.title': 'Dataoverføring (JSON)',
+      'settings.interchange.description': 'Eksporter eller importer våpen, programstatus, medlemskap og profil i et åpent JSON-format som andre verktøy kan lese og skrive.',
+      'settings.interchange.exportButton': 'Eksporter JSON',
+      'settings.interchange.importButton': 'Importer JSON',
+      'settings.interchange.shareDialogTitle': 'Del Mine Våpen-data',
+      'settings.interchange.exportSuccess': 'Data lagret til {{path}}',
+      'settings.interchange.exportError': 'Kunne ikke eksportere data.',
+      'settings.interchange.confirmTitle': 'Importere data?',
+      'settings.interchange.confirmMessage': 'Filen inneholder {{weapons}} våpen og {{memberships}} medlemskap. Våpen og medlemskap som allerede finnes, overskrives. Øvrige data beholdes.',
+      'settings.interchange.importSuccess': 'Importerte {{weapons}} våpen, {{programLinks}} programkoblinger og {{memberships}} medlemskap.',
+      'settings.interchange.importError': 'Kunne ikke importere filen.',
+      'settings.interchange.skippedLinksTitle': 'Ukjente programmer',
+      'settings.interchange.skippedLinksMessage': '{{count}} programkoblinger viste til programmer som ikke finnes i appen, og ble hoppet over.',
+      'settings.interchange.errors.invalidJson': 'Filen er ikke gyldig JSON.',
+      'settings.interchange.errors.unsupportedFormat': 'Filen er ikke en dataeksport fra Mine Våpen.',
+      'settings.interchange.errors.versionTooNew': 'Filen er laget av en nyere versjon. Oppdater appen og prøv igjen.',
+      'settings.interchange.errors.invalidDocument': 'Filen har feil innhold: {{details}}',
+      'weapons.actions.exportView': 'Eksporter visningen',
+      'csvExport.title': 'CSV-eksport',
+      'csvExport.description': 'Velg kolonner, rekkefølge og skilletegn. Valgene huskes til neste eksport.',
+      'csvExport.onlyCurrentView': 'Bare våpnene i gjeldende visning',
+      'csvExport.onlyCurrentViewHint': 'Bruker filtrene og søket fra våpenlisten.',
+      'csvExport.delimiter': 'Skilletegn',
+      'csvExport.delimiterHint': 'Norsk Excel åpner filer med semikolon direkte.',
+      'csvExport.delimiters.comma': 'Komma',
+      'csvExport.delimiters.semicolon': 'Semikolon',
+      'csvExport.delimiters.tab': 'Tabulator',
+      'csvExport.includeBom': 'Legg til BOM for Excel',
+      'csvExport.includeBomHint': 'Får Excel til å vise æ, ø og å riktig.',
+      'csvExport.localizedHeaders': 'Kolonnenavn på norsk',
+      'csvExport.localizedHeadersHint': 'Filen kan fortsatt importeres igjen.',
+      'csvExport.columns': 'Kolonner ({{selected}} av {{total}})',
+      'csvExport.reset': 'Tilbakestill',
+      'csvExport.moveUp': 'Flytt opp',
+      'csvExport.moveDown': 'Flytt ned',
+      'weaponForm.programs.retired': 'Utgått fra katalogen',
+      'settings.catalog.title': 'Skyteprogrammer',
+      'settings.catalog.description': 'Se versjonen av organisasjons- og programlisten, hva som ble endret sist, eller oppdater fra en fil.',
+      'settings.catalog.button': 'Åpne katalog',
+      'catalog.title': 'Programkatalog',
+      'catalog.description': 'Organisasjoner og skyteprogrammer fra politiets søknadsskjema. Oppdateringer retter navn og kategorier og markerer programmer som er fjernet som utgått.',
+      'catalog.version': 'Installert versjon: {{version}}',
+      'catalog.versionUnknown': 'Ingen versjon registrert ennå',
+      'catalog.importButton': 'Importer katalogfil',
+      'catalog.confirmTitle': 'Oppdatere katalogen?',
+      'catalog.confirmMessage': 'Filen inneholder versjon {{version}} med {{organizations}} organisasjoner og {{programs}} programmer. Våpen koblet til programmer som er fjernet beholder koblingen.',
+      'catalog.importSuccess': 'Katalogen er oppdatert til versjon {{version}} ({{count}} endringer).',
+      'catalog.importError': 'Kunne ikke importere katalogen.',
+      'catalog.errors.invalidJson': 'Filen er ikke gyldig JSON.',
+      'catalog.errors.invalidCatalog': 'Filen er ikke en gyldig katalog: {{details}}',
+      'catalog.errors.versionTooOld': 'Filen er eldre enn katalogen som er installert. {{details}}',
+      'catalog.changelogTitle': 'Siste endringer',
+      'catalog.changelogSummary': 'Versjon {{from}} → {{to}}, {{date}}',
+      'catalog.changelogEmpty': 'Ingen endringer registrert ennå.',
+      'catalog.changes.organizationAdded': 'Ny organisasjon: {{name}}',
+      'catalog.changes.organizationUpdated': 'Organisasjon oppdatert: {{from}} → {{to}}',
+      'catalog.changes.programAdded': 'Nytt program: {{name}}',
+      'catalog.changes.programRenamed': 'Nytt navn: {{from}} → {{to}}',
+      'catalog.changes.programRecategorized': '{{name}}: kategori {{from}} → {{to}}',
+      'catalog.changes.programRestored': 'Tilbake i katalogen: {{name}}',
+      'catalog.changes.programRetired': 'Utgått (beholdt for våpen og stevner): {{name}}',
+      'catalog.changes.programRemoved': 'Fjernet: {{name}}',
     },
   },
   nn_NO: {
@@ -159,6 +578,7 @@ export const resources = {
       'common.delete': 'Slett',
       'common.retry': 'Prøv på nytt',
       'errors.databaseSeeding': 'Klarte ikkje initialisere databasen. Prøv på nytt.',
+      'errors.databaseMigration': 'Klarte ikkje å oppgradere databasen til versjon {{version}}. Dataa er behaldne på versjon {{currentVersion}}.',
       'navigation.modalTitle': 'Modal',
       'navigation.tabs.weapons': 'Våpen',
       'navigation.tabs.settings': 'Innstillingar',
@@ -194,6 +614,7 @@ export const resources = {
       'weapons.card.serialNumber': 'Serienummer: {{serial}}',
       'weapons.card.manufacturerModel': '{{manufacturer}} {{model}}',
       'weapons.card.approvedBadge': 'Godkjend',
+      'weapons.card.pendingBadge': 'Søkt',
       'weapons.card.reserveBadge': 'Reserve',
       'weapons.card.loanInBadge': 'Innlån',
       'weapons.card.loanOutBadge': 'Utlån',
@@ -224,7 +645,7 @@ export const resources = {
       'weaponForm.operationModes.manuell': 'Manuell',
       'weaponForm.operationModes.enkeltskudd': 'Enkeltskudd',
       'weaponForm.programs.title': 'Programtilknytingar',
-      'weaponForm.programs.help': 'Trykk på eit program for å knytte det til våpenet. Aktiver reserve for å markere våpenet som reserve.',
+      'weaponForm.programs.help': 'Trykk på eit program for å knyte det til våpenet. Våpenet kan vere godkjent i fleire program, og kvart godkjende program kan markerast som reserve.',
       'weaponForm.programs.usage': '{{weaponCount}} våpen ({{reserveCount}} reserve)',
       'weaponForm.programs.reserveLabel': 'Reserve',
       'weaponForm.programs.expand': 'Vis program',
@@ -257,7 +678,7 @@ export const resources = {
       'settings.title': 'Innstillingar',
       'settings.subtitle': 'Ta backup av databasen eller eksporter våpenlista som CSV.',
       'settings.backup.title': 'Ta backup',
-      'settings.backup.description': 'Kopierer databasen til ei backup-mappe lokalt på eininga.',
+      'settings.backup.description': 'Lagrar databasen, bilete og dokument i eitt kryptert backup-arkiv lokalt på eininga.',
       'settings.backup.success': 'Backup lagra: {{path}}',
       'settings.backup.error': 'Backup feila. Prøv på nytt.',
       'settings.backup.button': 'Start backup',
@@ -289,6 +710,7 @@ export const resources = {
       'settings.language.error': 'Klarte ikkje å endre språk. Prøv på nytt.',
       'settings.language.options.nb_NO': 'Bokmål',
       'settings.language.options.nn_NO': 'Nynorsk',
+      'settings.language.options.en': 'English',
       'settings.memberships.title': 'Medlemskap',
       'settings.memberships.description': 'Vel kva organisasjonar du er medlem av. Berre desse blir synlege når du registrerer eller filtrerer våpen.',
       'settings.memberships.selectedCount': '{{count}} av {{total}} valde',
@@ -299,8 +721,1002 @@ export const resources = {
       'settings.memberships.empty': 'Ingen organisasjonar tilgjengelege.',
       'weapons.memberships.empty': 'Vel minst éin organisasjon under Innstillingar for å registrere våpen.',
       'weaponForm.memberships.empty': 'Ingen organisasjonar er tilgjengelege. Oppdater medlemskap under Innstillingar.',
+      'navigation.tabs.competitions': 'Konkurransar',
+      'competitions.title': 'Konkurransar',
+      'competitions.subtitle': 'Logg stemne for å dokumentere grunnlaget for reservevåpen.',
+      'competitions.actions.add': 'Logg konkurranse',
+      'competitions.progress.title': 'Reservekrav siste 12 månader',
+      'competitions.progress.description': 'Krav: minst 10 konkurransar, der 5 er opne skytestemne, eller deltaking i internasjonalt meisterskap.',
+      'competitions.progress.counts': '{{total}}/{{totalRequired}} konkurransar · {{open}}/{{openRequired}} opne',
+      'competitions.progress.international': 'Internasjonale meisterskap: {{count}}',
+      'competitions.progress.reserveWeapons': 'Reservevåpen: {{count}}',
+      'competitions.progress.met': 'Oppfylt',
+      'competitions.progress.notMet': 'Ikkje oppfylt',
+      'competitions.progress.empty': 'Ingen program med reservevåpen eller loggførte konkurransar.',
+      'competitions.list.title': 'Loggførte konkurransar',
+      'competitions.list.empty': 'Ingen konkurransar er loggførte enno.',
+      'competitions.list.error': 'Noko gjekk gale ved innlasting av konkurransar.',
+      'competitions.eventTypes.open': 'Ope stemne',
+      'competitions.eventTypes.closed': 'Lukka stemne',
+      'competitions.eventTypes.international': 'Internasjonalt meisterskap',
+      'competitions.card.weapon': 'Våpen: {{name}}',
+      'competitions.card.result': 'Resultat: {{result}}',
+      'competitionForm.title.new': 'Logg konkurranse',
+      'competitionForm.title.edit': 'Rediger konkurranse',
+      'competitionForm.description': 'Registrer dato, program og type stemne. Legg gjerne ved resultatlista.',
+      'competitionForm.fields.eventName': 'Stemne',
+      'competitionForm.fields.eventNamePlaceholder': 'T.d. Vårstemnet',
+      'competitionForm.fields.date': 'Dato',
+      'competitionForm.fields.eventType': 'Type stemne',
+      'competitionForm.fields.program': 'Program',
+      'competitionForm.fields.weapon': 'Våpen brukt',
+      'competitionForm.fields.result': 'Resultat',
+      'competitionForm.fields.resultPlaceholder': 'Plassering eller poeng',
+      'competitionForm.fields.attachment': 'Vedlegg',
+      'competitionForm.programSelected': 'Vald: {{name}}',
+      'competitionForm.noWeapon': 'Ikkje oppgitt',
+      'competitionForm.actions.save': 'Lagre konkurranse',
+      'competitionForm.actions.delete': 'Slett konkurranse',
+      'competitionForm.validation.eventName': 'Oppgi namn på stemnet.',
+      'competitionForm.validation.program': 'Vel eit program.',
+      'competitionForm.feedback.error': 'Klarte ikkje å lagre konkurransen. Prøv på nytt.',
+      'competitionForm.delete.confirmTitle': 'Slett konkurranse',
+      'competitionForm.delete.confirmMessage': 'Er du sikker på at du vil slette denne konkurransen? Handlinga kan ikkje angrast.',
+      'competitionForm.notFound': 'Fann ikkje konkurransen.',
+      'reserveRules.violationsTitle': 'Regelbrot',
+      'reserveRules.warningsTitle': 'Åtvaringar',
+      'reserveRules.issueCount': '{{count}} merknader',
+      'reserveRules.saveBlocked.title': 'Våpenet kan ikkje lagrast som reserve',
+      'reserveRules.reserveNotAllowed': '{{program}}: programmet tillèt ikkje reservevåpen.',
+      'reserveRules.reserveRequiresApproval': '{{program}}: reservevåpen må vere godkjende for programmet.',
+      'reserveRules.reserveLimitExceeded': '{{program}}: {{count}} reservevåpen, maks {{limit}} er tillate.',
+      'reserveRules.competitionRequirementsNotMet': '{{program}}: {{total}}/{{totalRequired}} stemne og {{open}}/{{openRequired}} opne stemne siste år.',
+      'reserveRules.organizationNotMember': '{{program}}: du er ikkje registrert som medlem i organisasjonen.',
+      'weaponForm.photos.title': 'Bilete',
+      'weaponForm.photos.help': 'Legg til bilete av våpenet. Framsidebiletet blir vist i våpenlista.',
+      'weaponForm.photos.saveFirst': 'Lagre våpenet før du legg til bilete.',
+      'weaponForm.photos.empty': 'Ingen bilete er lagt til enno.',
+      'weaponForm.photos.addFromLibrary': 'Vel bilete',
+      'weaponForm.photos.takePhoto': 'Ta bilete',
+      'weaponForm.photos.captionPlaceholder': 'Bilettekst',
+      'weaponForm.photos.cover': 'Framsidebilete',
+      'weaponForm.photos.setCover': 'Bruk som framsidebilete',
+      'weaponForm.photos.moveUp': 'Flytt opp',
+      'weaponForm.photos.moveDown': 'Flytt ned',
+      'weaponForm.photos.delete': 'Slett',
+      'weaponForm.photos.deleteConfirmTitle': 'Slette biletet?',
+      'weaponForm.photos.deleteConfirmMessage': 'Biletet blir fjerna frå eininga og kan ikkje gjenopprettast.',
+      'weaponForm.photos.cameraPermissionDenied': 'Appen har ikkje tilgang til kameraet.',
+      'weaponForm.photos.error': 'Kunne ikkje oppdatere bileta.',
+      'attachments.types.weaponCard': 'Våpenkort',
+      'attachments.types.purchaseReceipt': 'Kjøpskvittering',
+      'attachments.types.policeApproval': 'Politigodkjenning',
+      'attachments.types.loanAgreement': 'Låneavtale',
+      'attachments.types.competitionResult': 'Resultatliste',
+      'attachments.add': 'Legg ved dokument',
+      'attachments.titlePlaceholder': 'Skildring (valfritt)',
+      'attachments.empty': 'Ingen dokument er lagde ved.',
+      'attachments.saveFirst': 'Lagre før du legg ved dokument.',
+      'attachments.openHint': 'Opnar dokumentet i fullskjerm',
+      'attachments.delete.confirmTitle': 'Slette dokumentet?',
+      'attachments.delete.confirmMessage': 'Fila blir fjerna frå eininga og kan ikkje gjenopprettast.',
+      'attachments.feedback.error': 'Klarte ikkje å oppdatere dokumenta. Prøv på nytt.',
+      'attachments.viewer.close': 'Lukk',
+      'attachments.viewer.openExternally': 'Opne i ein annan app',
+      'attachments.viewer.pdfHint': 'PDF-filer blir opna i eininga si eiga vising.',
+      'attachments.viewer.unavailable': 'Deling er ikkje tilgjengeleg på denne eininga.',
+      'attachments.viewer.notFound': 'Fann ikkje dokumentet.',
+      'weaponForm.documents.title': 'Dokument',
+      'weaponForm.documents.help': 'Legg ved våpenkort, kvitteringar, godkjenningar og låneavtalar.',
+      'settings.memberships.documents': 'Dokument',
+      'membershipDocuments.description': 'Dokument knytte til medlemskapet, til dømes politigodkjenningar.',
+      'membershipDocuments.notFound': 'Fann ikkje organisasjonen.',
+      'settings.restore.successWithManifest': 'Backup gjenoppretta frå {{path}} (laga {{createdAt}}, app {{appVersion}}, {{fileCount}} filer)',
+      'settings.restore.archiveErrors.notAnArchive': 'Fila er ikkje eit gyldig backup-arkiv.',
+      'settings.restore.archiveErrors.missingManifest': 'Backup-arkivet manglar manifest.',
+      'settings.restore.archiveErrors.invalidManifest': 'Manifestet i backup-arkivet er ugyldig.',
+      'settings.restore.archiveErrors.unsupportedFormat': 'Backup-formatet er ikkje støtta av denne versjonen av appen.',
+      'settings.restore.archiveErrors.schemaTooNew': 'Backupen er laga med ein nyare versjon av appen. Oppdater appen først.',
+      'settings.restore.archiveErrors.missingFile': 'Backup-arkivet manglar filer. Ingenting vart endra.',
+      'settings.restore.archiveErrors.checksumMismatch': 'Backup-arkivet er skadd (feil sjekksum). Ingenting vart endra.',
+      'settings.restore.confirm.title': 'Gjenopprette denne backupen?',
+      'settings.restore.confirm.created': 'Laga {{createdAt}} med app {{appVersion}}',
+      'settings.restore.confirm.weapons': 'Våpen: {{count}}',
+      'settings.restore.confirm.memberships': 'Medlemskap: {{organizations}}',
+      'settings.restore.confirm.newestChange': 'Siste endring: {{date}}',
+      'settings.restore.confirm.none': 'ingen',
+      'settings.restore.confirm.unknown': 'ukjend',
+      'settings.restore.confirm.warning': 'Noverande data blir erstatta.',
+      'settings.restore.validationErrors.unreadable': 'Fila er ikkje ein lesbar Mine Våpen-database. Ingenting vart endra.',
+      'settings.restore.validationErrors.integrityCheckFailed': 'Databasen i backupen er skadd. Ingenting vart endra.',
+      'settings.restore.validationErrors.missingTables': 'Backupen manglar forventa tabellar. Ingenting vart endra.',
+      'settings.restore.validationErrors.schemaTooNew': 'Backupen er laga med ein nyare versjon av appen. Oppdater appen først.',
+      'settings.restore.migrationFailed': 'Backupen kunne ikkje oppgraderast. Den førre databasen er behalden.',
+      'settings.merge.title': 'Samanlikn og slå saman',
+      'settings.merge.description': 'Viser skilnader mellom ein backup og dataa på denne eininga, og lèt deg hente over utvalde våpen, programkoplingar og medlemskap.',
+      'settings.merge.button': 'Vel fil',
+      'settings.merge.latestButton': 'Siste backup',
+      'settings.merge.error': 'Klarte ikkje å opne backupen. Prøv på nytt.',
+      'backupMerge.title': 'Samanlikn backup',
+      'backupMerge.description': 'Vel kva som skal hentast frå backupen. Ingenting på denne eininga blir sletta.',
+      'backupMerge.summary': '{{weapons}} våpen i backupen · {{different}} med skilnader · {{unchanged}} like',
+      'backupMerge.noDifferences': 'Backupen er lik dataa på denne eininga.',
+      'backupMerge.weaponsTitle': 'Våpen',
+      'backupMerge.membershipsTitle': 'Medlemskap',
+      'backupMerge.change.added': 'Berre i backupen',
+      'backupMerge.change.removed': 'Berre på denne eininga',
+      'backupMerge.change.changed': 'Endra',
+      'backupMerge.keptOnDevice': 'Blir halde som det er.',
+      'backupMerge.changedFields': 'Endra felt: {{fields}}',
+      'backupMerge.updatedAt': 'Sist lagra: eining {{device}} · backup {{backup}}',
+      'backupMerge.link.none': 'ikkje kopla',
+      'backupMerge.link.compare': 'Eining: {{device}} → Backup: {{backup}}',
+      'backupMerge.membership.member': 'medlem',
+      'backupMerge.membership.notMember': 'ikkje medlem',
+      'backupMerge.membership.compare': 'Eining: {{device}} → Backup: {{backup}}',
+      'backupMerge.mergeSelected': 'Hent valde ({{count}})',
+      'backupMerge.mergeButton': 'Hent',
+      'backupMerge.confirm.title': 'Hente frå backup?',
+      'backupMerge.confirm.message': '{{count}} valde element blir kopierte frå backupen og overskriv tilsvarande data på denne eininga.',
+      'backupMerge.success.title': 'Henta frå backup',
+      'backupMerge.success.message': 'Våpen: {{weapons}}, programkoplingar: {{programLinks}}, medlemskap: {{memberships}}, filer: {{files}}',
+      'backupMerge.error': 'Klarte ikkje å hente frå backupen. Ingenting vart endra.',
+      'backupMerge.loadError': 'Klarte ikkje å lese backupen.',
+      'backupMerge.notFound': 'Ingen backup vald.',
+      'settings.restore.archiveErrors.encryptionNotConfigured': 'Kryptering er ikkje sett opp. Vel ei passordfrase før du tek backup.',
+      'settings.restore.archiveErrors.passphraseRequired': 'Backupen er laga med ei anna passordfrase.',
+      'settings.restore.archiveErrors.wrongPassphrase': 'Feil passordfrase, eller backupen er skadd. Ingenting vart endra.',
+      'settings.restore.passphraseTitle': 'Passordfrase for backup',
+      'settings.restore.passphraseMessage': '{{name}} er laga med ei anna passordfrase. Skriv inn passordfrasa som vart brukt då backupen vart laga.',
+      'settings.restore.passphraseSubmit': 'Lås opp',
+      'settings.encryption.title': 'Kryptering',
+      'settings.encryption.description': 'Backupane er krypterte med passordfrasa di. Databasen på denne eininga er kryptert med ein nøkkel som ligg i nøkkelringen på eininga, så han er verna av skjermlåsen. Backupar laga før ei endring krev den gamle passordfrasa.',
+      'settings.encryption.button': 'Byt passordfrase',
+      'settings.encryption.dialogTitle': 'Byt passordfrase',
+      'settings.encryption.dialogMessage': 'Databasen blir kryptert på nytt med den nye passordfrasa.',
+      'settings.encryption.success': 'Passordfrasa er endra.',
+      'settings.encryption.error': 'Kunne ikkje endre passordfrasa.',
+      'passphrase.passphrase': 'Passordfrase',
+      'passphrase.current': 'Noverande passordfrase',
+      'passphrase.new': 'Ny passordfrase',
+      'passphrase.confirm': 'Gjenta passordfrasa',
+      'passphrase.errors.tooShort': 'Passordfrasa må ha minst {{count}} teikn.',
+      'passphrase.errors.mismatch': 'Passordfrasene er ikkje like.',
+      'passphrase.errors.incorrect': 'Noverande passordfrase er feil.',
+      'encryptionSetup.title': 'Vern dataa dine',
+      'encryptionSetup.description': 'Mine Våpen krypterer backupane med ei passordfrase du vel. Databasen på denne eininga blir kryptert med ein nøkkel som ligg i nøkkelringen på eininga.',
+      'encryptionSetup.warning': 'Passordfrasa kan ikkje gjenopprettast. Utan ho kan backupane ikkje lesast.',
+      'encryptionSetup.createButton': 'Vel passordfrase',
+      'encryptionSetup.createTitle': 'Ny passordfrase',
+      'encryptionSetup.createMessage': 'Vel ei passordfrase du hugsar. Ho trengst for å gjenopprette backupar på ei ny eining.',
+      'encryptionSetup.createSubmit': 'Krypter',
+      'encryptionSetup.restoreButton': 'Gjenopprett frå backup',
+      'encryptionSetup.restoreTitle': 'Gjenopprett på ny eining',
+      'encryptionSetup.restoreMessage': 'Skriv inn passordfrasa for {{name}}. Ho blir også passordfrasa på denne eininga.',
+      'encryptionSetup.restoreSubmit': 'Gjenopprett',
+      'encryptionSetup.error': 'Kunne ikkje setje opp kryptering.',
+      'settings.security.title': 'Tryggleik',
+      'settings.security.description': 'Lås appen med PIN eller biometri, slik at serienummer og lånekontaktar ikkje blir viste for andre.',
+      'settings.security.lock': 'Lås appen med PIN',
+      'settings.security.setPin': 'Vel PIN',
+      'settings.security.changePin': 'Endre PIN',
+      'settings.security.biometrics': 'Lås opp med biometri',
+      'settings.security.biometricsUnavailable': 'Ikkje tilgjengeleg eller ikkje sett opp på denne eininga.',
+      'settings.security.autoLock.title': 'Lås automatisk etter',
+      'settings.security.autoLock.immediately': 'Med ein gong',
+      'settings.security.autoLock.seconds': '{{count}} sek',
+      'settings.security.autoLock.minutes': '{{count}} min',
+      'settings.security.privacyCover': 'Skjul innhald i appvekslaren',
+      'settings.security.privacyCoverDescription': 'Gjer skjermbiletet uskarpt når appen ikkje er i framgrunnen.',
+      'settings.security.disableTitle': 'Slå av app-lås?',
+      'settings.security.disableMessage': 'PIN-koden blir sletta, og appen blir opna utan opplåsing.',
+      'settings.security.disableConfirm': 'Slå av',
+      'settings.security.success': 'Tryggleiksinnstillingane er lagra.',
+      'settings.security.error': 'Kunne ikkje lagre tryggleiksinnstillingane.',
+      'pinSetup.message': 'PIN-koden må ha {{min}}–{{max}} siffer.',
+      'pinSetup.pin': 'Ny PIN',
+      'pinSetup.confirm': 'Gjenta PIN',
+      'pinSetup.invalid': 'PIN-koden må ha {{min}}–{{max}} siffer.',
+      'pinSetup.mismatch': 'PIN-kodane er ikkje like.',
+      'appLock.title': 'Mine Våpen er låst',
+      'appLock.enterPin': 'Skriv inn PIN-koden',
+      'appLock.unlock': 'Lås opp',
+      'appLock.incorrect': 'Feil PIN. {{count}} forsøk att før appen blir sperra.',
+      'appLock.lockedOut': 'For mange feil forsøk. Prøv igjen om {{count}} sekund.',
+      'appLock.error': 'Kunne ikkje kontrollere PIN-koden.',
+      'appLock.biometricPrompt': 'Lås opp Mine Våpen',
+      'appLock.usePin': 'Bruk PIN',
+      'appLock.useBiometrics': 'Lås opp med biometri',
+      'appLock.backspace': 'Slett siffer',
+      'appLock.digitsEntered': '{{count}} siffer skrivne inn',
+      'weapons.search.placeholder': 'Søk etter namn, serienummer, kaliber …',
+      'weapons.search.clear': 'Tøm',
+      'weapons.search.empty': 'Ingen våpen passar med «{{query}}».',
+      'weaponDetail.title': 'Våpen',
+      'weaponDetail.tabs.details': 'Detaljar',
+      'weaponDetail.tabs.programs': 'Programstatus',
+      'weaponDetail.tabs.documents': 'Dokument',
+      'weaponDetail.tabs.photos': 'Bilete',
+      'weapons.card.details': 'Vis detaljar',
+      'navigation.tabs.dashboard': 'Oversikt',
+      'dashboard.title': 'Oversikt',
+      'dashboard.subtitle': 'Godkjende våpen og reservar per organisasjon og program.',
+      'dashboard.organizationCounts': '{{weaponCount}} godkjende våpen · {{reserveCount}} reserve',
+      'dashboard.noPrograms': 'Ingen våpen er godkjende i program frå denne organisasjonen.',
+      'dashboard.error': 'Noko gjekk gale ved lasting av oversikta.',
+      'dashboard.openWeapons': 'Viser våpenlista filtrert på programmet',
+      'dashboard.alerts.competitionsMissing': 'Reserve utan nok stemner',
+      'dashboard.alerts.reserveLimitReached': 'Reservegrensa er nådd ({{limit}})',
+      'dashboard.alerts.reserveLimitExceeded': 'Over reservegrensa ({{limit}})',
+      'attachments.types.membershipCard': 'Medlemskort',
+      'settings.memberships.edit': 'Rediger medlemskap',
+      'settings.memberships.memberNumber': 'Medlemsnr. {{number}}',
+      'membershipForm.description': 'Medlemsnummer, klubb og gyldigheit. Eit utgått medlemskap tel ikkje i reglane for reservevåpen.',
+      'membershipForm.fields.memberNumber': 'Medlemsnummer',
+      'membershipForm.fields.memberNumberPlaceholder': 'T.d. 123456',
+      'membershipForm.fields.clubName': 'Klubb',
+      'membershipForm.fields.clubNamePlaceholder': 'T.d. Oslo Pistolklubb',
+      'membershipForm.fields.membershipYear': 'Medlemsår',
+      'membershipForm.fields.expiresAt': 'Utløpsdato',
+      'membershipForm.fields.expiresAtPlaceholder': 'Ingen utløpsdato',
+      'membershipForm.fields.membershipCard': 'Medlemskort',
+      'membershipForm.validity.openEnded': 'Gyldig utan utløpsdato',
+      'membershipForm.validity.validUntil': 'Gyldig til {{date}}',
+      'membershipForm.validity.expired': 'Gjekk ut {{date}}',
+      'membershipForm.validation.membershipYear': 'Medlemsåret må vere eit årstal med fire siffer.',
+      'membershipForm.feedback.error': 'Klarte ikkje å lagre medlemskapet.',
+      'membershipForm.actions.save': 'Lagre medlemskap',
+      'membershipForm.actions.delete': 'Slett medlemskap',
+      'membershipForm.delete.confirmTitle': 'Slette medlemskapet?',
+      'membershipForm.delete.confirmMessage': 'Medlemsnummer og gyldigheit blir fjerna. Dokumenta blir verande.',
+      'settings.profile.title': 'Skyttarprofil',
+      'settings.profile.description': '{{name}}. Profilen står øvst i eksporterte filer.',
+      'settings.profile.empty': 'Legg inn namn og kontaktinformasjon, så står det øvst i eksporterte filer.',
+      'settings.profile.button': 'Rediger profil',
+      'profileForm.title': 'Skyttarprofil',
+      'profileForm.description': 'Opplysningane blir berre lagra på denne eininga og kjem med i tryggingskopiar og eksportar.',
+      'profileForm.fields.name': 'Namn',
+      'profileForm.fields.namePlaceholder': 'Fullt namn',
+      'profileForm.fields.dateOfBirth': 'Fødselsdato',
+      'profileForm.fields.dateOfBirthPlaceholder': 'Vel dato',
+      'profileForm.fields.address': 'Adresse',
+      'profileForm.fields.addressPlaceholder': 'Gate, postnummer og stad',
+      'profileForm.fields.phone': 'Telefon',
+      'profileForm.fields.phonePlaceholder': 'T.d. 912 34 567',
+      'profileForm.fields.email': 'E-post',
+      'profileForm.fields.emailPlaceholder': 'namn@eksempel.no',
+      'profileForm.fields.policeDistrict': 'Politidistrikt',
+      'profileForm.validation.email': 'E-postadressa ser ikkje gyldig ut.',
+      'profileForm.feedback.error': 'Klarte ikkje å lagre profilen.',
+      'profileForm.actions.save': 'Lagre profil',
+      'settings.report.title': 'Våpenregister som PDF',
+      'settings.report.description': 'Lagar ein lesbar rapport med skyttarprofil, våpen og godkjende program til kontroll og søknader.',
+      'settings.report.button': 'Lag PDF-rapport',
+      'report.title': 'Våpenregister',
+      'report.description': 'Vel kva rapporten skal omfatte. Han blir laga på språket appen brukar no.',
+      'report.scope.organization': 'Organisasjon',
+      'report.scope.program': 'Program',
+      'report.scope.allPrograms': 'Alle program',
+      'report.scopeAll': 'Alle organisasjonar',
+      'report.includePhotos': 'Ta med bilete',
+      'report.includePhotosHint': 'Framsidebiletet av kvart våpen blir lagt inn i rapporten.',
+      'report.create': 'Lag og del PDF',
+      'report.success': 'PDF generert: {{path}}',
+      'report.error': 'Klarte ikkje å lage rapporten. Kontroller at det finst våpen i utvalet.',
+      'report.shareDialogTitle': 'Del våpenregister',
+      'report.generatedAt': 'Generert {{date}}',
+      'report.weaponCount': 'Tal på våpen: {{count}}',
+      'report.shooter': 'Skyttar',
+      'report.noPrograms': 'Ingen godkjende program.',
+      'report.columns.organization': 'Organisasjon',
+      'report.columns.program': 'Program',
+      'report.columns.status': 'Status',
+      'settings.import.title': 'Importer våpen frå CSV',
+      'settings.import.description': 'Les inn våpen frå eit rekneark eller ein CSV-eksport. Du ser ei førehandsvising før noko vert lagra.',
+      'settings.import.button': 'Vel CSV-fil',
+      'settings.import.error': 'Kunne ikkje opne fila.',
+      'weaponImport.title': 'Importer våpen',
+      'weaponImport.description': 'Ingenting vert lagra før du trykkjer Importer. Rader med feil vert hoppa over.',
+      'weaponImport.loadError': 'Kunne ikkje lese CSV-fila.',
+      'weaponImport.empty': 'Fann inga overskriftsrad og våpenrader i fila.',
+      'weaponImport.mapping.title': 'Kolonnar',
+      'weaponImport.mapping.description': 'Vel kva kolonne i fila som fyller kvart felt.',
+      'weaponImport.mapping.ignored': 'Vert ikkje importert',
+      'weaponImport.mapping.column': 'Kolonne {{number}}',
+      'weaponImport.organization.title': 'Forbund for programnamn',
+      'weaponImport.organization.description': 'Programnamn vert slått opp her først. Skriv «NSF: Programnamn» i fila for å velje forbund per program.',
+      'weaponImport.organization.auto': 'Automatisk',
+      'weaponImport.updateDuplicates': 'Oppdater eksisterande våpen',
+      'weaponImport.updateDuplicatesHint': 'Rader med same ID eller serienummer som eit registrert våpen skriv over det i staden for å verte hoppa over.',
+      'weaponImport.previewTitle': 'Førehandsvising',
+      'weaponImport.summary': '{{create}} nye, {{update}} vert oppdaterte, {{skip}} vert hoppa over',
+      'weaponImport.line': 'Linje {{number}}',
+      'weaponImport.untitled': 'Utan namn',
+      'weaponImport.actions.create': 'Ny',
+      'weaponImport.actions.update': 'Vert oppdatert',
+      'weaponImport.actions.skip': 'Vert hoppa over',
+      'weaponImport.issues.missingDisplayName': 'Visingsnamn manglar.',
+      'weaponImport.issues.invalidType': 'Ukjend våpentype «{{value}}».',
+      'weaponImport.issues.invalidOperationMode': 'Ukjend funksjonsmåte «{{value}}».',
+      'weaponImport.issues.invalidOwnershipStatus': 'Ukjend eigarskap «{{value}}».',
+      'weaponImport.issues.invalidDate': 'Ugyldig dato «{{value}}». Bruk ÅÅÅÅ-MM-DD.',
+      'weaponImport.issues.invalidPrice': 'Ugyldig pris «{{value}}».',
+      'weaponImport.issues.unknownProgram': 'Fann ikkje programmet «{{value}}».',
+      'weaponImport.issues.ambiguousProgram': 'Programmet «{{value}}» finst i fleire forbund. Vel forbund eller skriv «FORBUND: program».',
+      'weaponImport.issues.duplicateInFile': 'Same serienummer eller ID som linje {{value}}.',
+      'weaponImport.issues.duplicateExisting': 'Same serienummer som registrert våpen «{{value}}».',
+      'weaponImport.issues.existingId': 'Same ID som registrert våpen «{{value}}».',
+      'weaponImport.importButton': 'Importer',
+      'weaponImport.importCount': 'Importer {{count}} våpen',
+      'weaponImport.confirm.title': 'Importere våpen?',
+      'weaponImport.confirm.message': '{{create}} nye våpen vert lagde til og {{update}} vert oppdaterte. {{skip}} rader vert hoppa over.',
+      'weaponImport.success.title': 'Import fullført',
+      'weaponImport.success.message': '{{count}} våpen vart lagra.',
+      'weaponImport.error': 'Importen feila. Ingen fleire rader vart lagra.',
+      'csvColumns.id': 'ID',
+      'csvColumns.displayName': 'Visingsnamn',
+      'csvColumns.type': 'Type',
+      'csvColumns.manufacturer': 'Produsent',
+      'csvColumns.model': 'Modell',
+      'csvColumns.serialNumber': 'Serienummer',
+      'csvColumns.acquisitionDate': 'Anskaffingsdato',
+      'csvColumns.acquisitionPrice': 'Anskaffingspris',
+      'csvColumns.weaponCardRef': 'Våpenkortreferanse',
+      'csvColumns.operationMode': 'Funksjonsmåte',
+      'csvColumns.caliber': 'Kaliber',
+      'csvColumns.notes': 'Notat',
+      'csvColumns.programs': 'Godkjende program',
+      'csvColumns.reserve': 'Reservevåpen (X)',
+      'csvColumns.reservePrograms': 'Program som reserve',
+      'csvColumns.pendingPrograms': 'Program til handsaming',
+      'csvColumns.proposedPrograms': 'Føreslåtte program',
+      'csvColumns.ownershipStatus': 'Eigarskap',
+      'csvColumns.loanContactName': 'Lånekontakt',
+      'csvColumns.loanStartDate': 'Lån frå',
+      'csvColumns.loanEndDate': 'Lån til',
+      'csvColumns.reserveIssues': 'Avvik i reservereglar',
+      'settings.interchange.title': 'Dataoverføring (JSON)',
+      'settings.interchange.description': 'Eksporter eller importer våpen, programstatus, medlemskap og profil i eit ope JSON-format som andre verktøy kan lese og skrive.',
+      'settings.interchange.exportButton': 'Eksporter JSON',
+      'settings.interchange.importButton': 'Importer JSON',
+      'settings.interchange.shareDialogTitle': 'Del Mine Våpen-data',
+      'settings.interchange.exportSuccess': 'Data lagra til {{path}}',
+      'settings.interchange.exportError': 'Kunne ikkje eksportere data.',
+      'settings.interchange.confirmTitle': 'Importere data?',
+      'settings.interchange.confirmMessage': 'Fila inneheld {{weapons}} våpen og {{memberships}} medlemskap. Våpen og medlemskap som alt finst, vert skrivne over. Anna data vert behalde.',
+      'settings.interchange.importSuccess': 'Importerte {{weapons}} våpen, {{programLinks}} programkoplingar og {{memberships}} medlemskap.',
+      'settings.interchange.importError': 'Kunne ikkje importere fila.',
+      'settings.interchange.skippedLinksTitle': 'Ukjende program',
+      'settings.interchange.skippedLinksMessage': '{{count}} programkoplingar viste til program som ikkje finst i appen, og vart hoppa over.',
+      'settings.interchange.errors.invalidJson': 'Fila er ikkje gyldig JSON.',
+      'settings.interchange.errors.unsupportedFormat': 'Fila er ikkje ein dataeksport frå Mine Våpen.',
+      'settings.interchange.errors.versionTooNew': 'Fila er laga av ein nyare versjon. Oppdater appen og prøv igjen.',
+      'settings.interchange.errors.invalidDocument': 'Fila har feil innhald: {{details}}',
+      'weapons.actions.exportView': 'Eksporter visinga',
+      'csvExport.title': 'CSV-eksport',
+      'csvExport.description': 'Vel kolonnar, rekkjefølgje og skiljeteikn. Vala vert hugsa til neste eksport.',
+      'csvExport.onlyCurrentView': 'Berre våpna i gjeldande vising',
+      'csvExport.onlyCurrentViewHint': 'Brukar filtra og søket frå våpenlista.',
+      'csvExport.delimiter': 'Skiljeteikn',
+      'csvExport.delimiterHint': 'Norsk Excel opnar filer med semikolon direkte.',
+      'csvExport.delimiters.comma': 'Komma',
+      'csvExport.delimiters.semicolon': 'Semikolon',
+      'csvExport.delimiters.tab': 'Tabulator',
+      'csvExport.includeBom': 'Legg til BOM for Excel',
+      'csvExport.includeBomHint': 'Får Excel til å visa æ, ø og å rett.',
+      'csvExport.localizedHeaders': 'Kolonnenamn på norsk',
+      'csvExport.localizedHeadersHint': 'Fila kan framleis importerast igjen.',
+      'csvExport.columns': 'Kolonnar ({{selected}} av {{total}})',
+      'csvExport.reset': 'Tilbakestill',
+      'csvExport.moveUp': 'Flytt opp',
+      'csvExport.moveDown': 'Flytt ned',
+      'weaponForm.programs.retired': 'Gått ut av katalogen',
+      'settings.catalog.title': 'Skyteprogram',
+      'settings.catalog.description': 'Sjå versjonen av organisasjons- og programlista, kva som vart endra sist, eller oppdater frå ei fil.',
+      'settings.catalog.button': 'Opne katalog',
+      'catalog.title': 'Programkatalog',
+      'catalog.description': 'Organisasjonar og skyteprogram frå søknadsskjemaet til politiet. Oppdateringar rettar namn og kategoriar og merkjer program som er fjerna som utgått.',
+      'catalog.version': 'Installert versjon: {{version}}',
+      'catalog.versionUnknown': 'Ingen versjon registrert enno',
+      'catalog.importButton': 'Importer katalogfil',
+      'catalog.confirmTitle': 'Oppdatere katalogen?',
+      'catalog.confirmMessage': 'Fila inneheld versjon {{version}} med {{organizations}} organisasjonar og {{programs}} program. Våpen kopla til program som er fjerna, beheld koplinga.',
+      'catalog.importSuccess': 'Katalogen er oppdatert til versjon {{version}} ({{count}} endringar).',
+      'catalog.importError': 'Kunne ikkje importere katalogen.',
+      'catalog.errors.invalidJson': 'Fila er ikkje gyldig JSON.',
+      'catalog.errors.invalidCatalog': 'Fila er ikkje ein gyldig katalog: {{details}}',
+      'catalog.errors.versionTooOld': 'Fila er eldre enn katalogen som er installert. {{details}}',
+      'catalog.changelogTitle': 'Siste endringar',
+      'catalog.changelogSummary': 'Versjon {{from}} → {{to}}, {{date}}',
+      'catalog.changelogEmpty': 'Ingen endringar registrert enno.',
+      'catalog.changes.organizationAdded': 'Ny organisasjon: {{name}}',
+      'catalog.changes.organizationUpdated': 'Organisasjon oppdatert: {{from}} → {{to}}',
+      'catalog.changes.programAdded': 'Nytt program: {{name}}',
+      'catalog.changes.programRenamed': 'Nytt namn: {{from}} → {{to}}',
+      'catalog.changes.programRecategorized': '{{name}}: kategori {{from}} → {{to}}',
+      'catalog.changes.programRestored': 'Tilbake i katalogen: {{name}}',
+      'catalog.changes.programRetired': 'Utgått (halde på for våpen og stemner): {{name}}',
+      'catalog.changes.programRemoved': 'Fjerna: {{name}}',
     },
   },
-} satisfies Resource;
+  en: {
+    translation: {
+      'common.loading': 'Loading...',
+      'common.save': 'Save',
+      'common.cancel': 'Cancel',
+      'common.delete': 'Delete',
+      'common.retry': 'Try again',
+      'errors.databaseSeeding': 'Could not initialise the database. Please try again.',
+      'errors.databaseMigration': 'Could not upgrade the database to version {{version}}. Your data has been kept at version {{currentVersion}}.',
+      'navigation.modalTitle': 'Modal',
+      'navigation.tabs.weapons': 'Weapons',
+      'navigation.tabs.settings': 'Settings',
+      'home.title': 'Your organisations',
+      'home.subtitle': 'Overview of registered shooting organisations and countries.',
+      'home.empty': 'No organisations have been registered yet.',
+      'home.error': 'Something went wrong while loading organisations.',
+      'weapons.title': 'My weapons',
+      'weapons.subtitle': 'Filter by organisation, programme and reserve flag to find the right weapon.',
+      'weapons.actions.add': 'Register weapon',
+      'weapons.filters.organizations.all': 'All organisations',
+      'weapons.filters.organizations.title': 'Organisations',
+      'weapons.filters.programs.all': 'All programmes',
+      'weapons.filters.programs.title': 'Programme',
+      'weapons.filters.reserve.any': 'All',
+      'weapons.filters.reserve.only': 'Reserve only',
+      'weapons.filters.reserve.none': 'Without reserve',
+      'weapons.filters.reserve.title': 'Reserve',
+      'weapons.filters.ownership.title': 'Ownership',
+      'weapons.filters.ownership.own': 'Own',
+      'weapons.filters.ownership.loanIn': 'Borrowed',
+      'weapons.filters.ownership.loanOut': 'Lent out',
+      'weapons.filters.toggle.show': 'Show filters',
+      'weapons.filters.toggle.hide': 'Hide filters',
+      'weapons.filters.selected': 'Selected: {{value}}',
+      'weapons.list.empty': 'No weapons have been registered yet. Add your first weapon to get started.',
+      'weapons.list.error': 'Something went wrong while loading weapons.',
+      'weapons.programSummary': '{{name}}: {{weaponCount}} weapons ({{reserveCount}} reserve)',
+      'weapons.types.pistol': 'Pistol',
+      'weapons.types.revolver': 'Revolver',
+      'weapons.types.rifle': 'Rifle',
+      'weapons.types.shotgun': 'Shotgun',
+      'weapons.card.serialNumber': 'Serial number: {{serial}}',
+      'weapons.card.manufacturerModel': '{{manufacturer}} {{model}}',
+      'weapons.card.approvedBadge': 'Approved',
+      'weapons.card.pendingBadge': 'Applied',
+      'weapons.card.reserveBadge': 'Reserve',
+      'weapons.card.loanInBadge': 'Borrowed',
+      'weapons.card.loanOutBadge': 'Lent out',
+      'weapons.card.loanContact': 'Contact: {{name}}',
+      'weapons.card.loanPeriod': 'Period: {{start}} – {{end}}',
+      'weapons.card.loanDateUnknown': 'Unknown',
+      'weapons.card.noPrograms': 'No programmes selected',
+      'weapons.card.programsTitle': 'Programmes',
+      'weapons.refresh': 'Refresh',
+      'weapons.card.edit': 'Edit',
+      'weaponForm.title.new': 'Register new weapon',
+      'weaponForm.title.edit': 'Edit weapon',
+      'weaponForm.description': 'Fill in the details, choose programmes and save to update the overview.',
+      'weaponForm.fields.displayName': 'Display name',
+      'weaponForm.fields.type': 'Type',
+      'weaponForm.fields.manufacturer': 'Manufacturer',
+      'weaponForm.fields.model': 'Model',
+      'weaponForm.fields.serialNumber': 'Serial number',
+      'weaponForm.fields.acquisitionDate': 'Acquisition date',
+      'weaponForm.fields.acquisitionPrice': 'Acquisition price (NOK)',
+      'weaponForm.fields.weaponCardRef': 'Weapon card reference',
+      'weaponForm.fields.operationMode': 'Action type',
+      'weaponForm.fields.caliber': 'Calibre',
+      'weaponForm.fields.notes': 'Notes',
+      'weaponForm.fields.ownershipStatus': 'Ownership',
+      'weaponForm.operationModes.helautomatisk': 'Fully automatic',
+      'weaponForm.operationModes.halvautomatisk': 'Semi-automatic',
+      'weaponForm.operationModes.manuell': 'Manual',
+      'weaponForm.operationModes.enkeltskudd': 'Single shot',
+      'weaponForm.programs.title': 'Programme links',
+      'weaponForm.programs.help': 'Tap a programme to link it to the weapon. A weapon can be approved in several programmes, and each approved programme can be marked as reserve.',
+      'weaponForm.programs.usage': '{{weaponCount}} weapons ({{reserveCount}} reserve)',
+      'weaponForm.programs.reserveLabel': 'Reserve',
+      'weaponForm.programs.expand': 'Show programmes',
+      'weaponForm.programs.collapse': 'Hide programmes',
+      'weaponForm.programs.status.pending': 'Applied',
+      'weaponForm.programs.status.approved': 'Approved',
+      'weaponForm.programs.recommended': 'Suitable for {{type}}',
+      'weaponForm.programs.otherType': 'Other programme ({{type}})',
+      'weaponForm.actions.save': 'Save weapon',
+      'weaponForm.actions.delete': 'Delete weapon',
+      'weaponForm.validation.displayName': 'Enter a name for the weapon.',
+      'weaponForm.validation.type': 'Choose a weapon type.',
+      'weaponForm.feedback.saved': 'The weapon has been saved.',
+      'weaponForm.feedback.deleted': 'The weapon has been deleted.',
+      'weaponForm.feedback.error': 'Could not save the weapon. Please try again.',
+      'weaponForm.delete.confirmTitle': 'Delete weapon',
+      'weaponForm.delete.confirmMessage': 'Are you sure you want to delete this weapon? This cannot be undone.',
+      'weaponForm.delete.confirmButton': 'Delete',
+      'weaponForm.notFound': 'Weapon not found.',
+      'weaponForm.ownership.options.own': 'Own',
+      'weaponForm.ownership.options.loanIn': 'Borrowed',
+      'weaponForm.ownership.options.loanOut': 'Lent out',
+      'weaponForm.ownership.help': 'Mark whether the weapon is your own or on loan.',
+      'weaponForm.loan.contact': 'Contact person',
+      'weaponForm.loan.contactPlaceholder': 'Name of contact person',
+      'weaponForm.loan.start': 'Agreed start date',
+      'weaponForm.loan.end': 'Agreed end date',
+      'weaponForm.loan.datePlaceholder': 'Choose date',
+      'weaponForm.loan.clearDate': 'Clear date',
+      'settings.title': 'Settings',
+      'settings.subtitle': 'Back up the database or export the weapon list as CSV.',
+      'settings.backup.title': 'Back up',
+      'settings.backup.description': 'Saves the database, photos and documents in one encrypted backup archive on this device.',
+      'settings.backup.success': 'Backup saved: {{path}}',
+      'settings.backup.error': 'Backup failed. Please try again.',
+      'settings.backup.button': 'Start backup',
+      'settings.backup.shareButton': 'Share',
+      'settings.backup.shareError': 'Could not share the file. Please try again.',
+      'settings.backup.shareUnavailable': 'Sharing is not available on this device.',
+      'settings.backup.shareDialogTitle': 'Share backup',
+      'settings.restore.title': 'Restore backup',
+      'settings.restore.description': 'Replaces the current database with the most recent backup.',
+      'settings.restore.button': 'Restore',
+      'settings.restore.fileButton': 'Choose file',
+      'settings.restore.success': 'Backup restored from {{path}}',
+      'settings.restore.error': 'No backup found to restore.',
+      'settings.export.title': 'Export weapon list',
+      'settings.export.description': 'Generates a CSV file that can be shared with the authorities.',
+      'settings.export.success': 'CSV generated: {{path}}',
+      'settings.export.error': 'Could not generate the CSV. Please try again.',
+      'settings.export.button': 'Export CSV',
+      'settings.export.shareButton': 'Share',
+      'settings.export.shareError': 'Could not share the file. Please try again.',
+      'settings.export.shareUnavailable': 'Sharing is not available on this device.',
+      'settings.export.shareDialogTitle': 'Share CSV',
+      'settings.status.ready': 'Ready',
+      'settings.status.inProgress': 'Working…',
+      'settings.status.error': 'Something went wrong',
+      'settings.language.title': 'Language',
+      'settings.language.description': 'Choose which language the app uses.',
+      'settings.language.success': 'Language changed.',
+      'settings.language.error': 'Could not change language. Please try again.',
+      'settings.language.options.nb_NO': 'Bokmål',
+      'settings.language.options.nn_NO': 'Nynorsk',
+      'settings.language.options.en': 'English',
+      'settings.memberships.title': 'Memberships',
+      'settings.memberships.description': 'Choose which organisations you are a member of. Only these are shown when you register or filter weapons.',
+      'settings.memberships.selectedCount': '{{count}} of {{total}} selected',
+      'settings.memberships.selectAll': 'Select all',
+      'settings.memberships.selectNone': 'Select none',
+      'settings.memberships.updateSuccess': 'Memberships updated.',
+      'settings.memberships.updateError': 'Could not update memberships.',
+      'settings.memberships.empty': 'No organisations available.',
+      'weapons.memberships.empty': 'Choose at least one organisation under Settings to register weapons.',
+      'weaponForm.memberships.empty': 'No organisations are available. Update your memberships under Settings.',
+      'navigation.tabs.competitions': 'Competitions',
+      'competitions.title': 'Competitions',
+      'competitions.subtitle': 'Log competitions to document the basis for reserve weapons.',
+      'competitions.actions.add': 'Log competition',
+      'competitions.progress.title': 'Reserve requirements, last 12 months',
+      'competitions.progress.description': 'Requirement: at least 10 competitions, 5 of them open, or participation in an international championship.',
+      'competitions.progress.counts': '{{total}}/{{totalRequired}} competitions · {{open}}/{{openRequired}} open',
+      'competitions.progress.international': 'International championships: {{count}}',
+      'competitions.progress.reserveWeapons': 'Reserve weapons: {{count}}',
+      'competitions.progress.met': 'Met',
+      'competitions.progress.notMet': 'Not met',
+      'competitions.progress.empty': 'No programmes with reserve weapons or logged competitions.',
+      'competitions.list.title': 'Logged competitions',
+      'competitions.list.empty': 'No competitions have been logged yet.',
+      'competitions.list.error': 'Something went wrong while loading competitions.',
+      'competitions.eventTypes.open': 'Open competition',
+      'competitions.eventTypes.closed': 'Closed competition',
+      'competitions.eventTypes.international': 'International championship',
+      'competitions.card.weapon': 'Weapon: {{name}}',
+      'competitions.card.result': 'Result: {{result}}',
+      'competitionForm.title.new': 'Log competition',
+      'competitionForm.title.edit': 'Edit competition',
+      'competitionForm.description': 'Enter the date, programme and type of competition. Attach the result list if you have it.',
+      'competitionForm.fields.eventName': 'Competition',
+      'competitionForm.fields.eventNamePlaceholder': 'E.g. Spring match',
+      'competitionForm.fields.date': 'Date',
+      'competitionForm.fields.eventType': 'Competition type',
+      'competitionForm.fields.program': 'Programme',
+      'competitionForm.fields.weapon': 'Weapon used',
+      'competitionForm.fields.result': 'Result',
+      'competitionForm.fields.resultPlaceholder': 'Placing or score',
+      'competitionForm.fields.attachment': 'Attachment',
+      'competitionForm.programSelected': 'Selected: {{name}}',
+      'competitionForm.noWeapon': 'Not specified',
+      'competitionForm.actions.save': 'Save competition',
+      'competitionForm.actions.delete': 'Delete competition',
+      'competitionForm.validation.eventName': 'Enter the name of the competition.',
+      'competitionForm.validation.program': 'Choose a programme.',
+      'competitionForm.feedback.error': 'Could not save the competition. Please try again.',
+      'competitionForm.delete.confirmTitle': 'Delete competition',
+      'competitionForm.delete.confirmMessage': 'Are you sure you want to delete this competition? This cannot be undone.',
+      'competitionForm.notFound': 'Competition not found.',
+      'reserveRules.violationsTitle': 'Rule violations',
+      'reserveRules.warningsTitle': 'Warnings',
+      'reserveRules.issueCount': '{{count}} issues',
+      'reserveRules.saveBlocked.title': 'The weapon cannot be saved as reserve',
+      'reserveRules.reserveNotAllowed': '{{program}}: the programme does not allow reserve weapons.',
+      'reserveRules.reserveRequiresApproval': '{{program}}: reserve weapons must be approved for the programme.',
+      'reserveRules.reserveLimitExceeded': '{{program}}: {{count}} reserve weapons, at most {{limit}} allowed.',
+      'reserveRules.competitionRequirementsNotMet': '{{program}}: {{total}}/{{totalRequired}} competitions and {{open}}/{{openRequired}} open competitions in the last year.',
+      'reserveRules.organizationNotMember': '{{program}}: you are not registered as a member of the organisation.',
+      'weaponForm.photos.title': 'Photos',
+      'weaponForm.photos.help': 'Add photos of the weapon. The cover photo is shown in the weapon list.',
+      'weaponForm.photos.saveFirst': 'Save the weapon before adding photos.',
+      'weaponForm.photos.empty': 'No photos have been added yet.',
+      'weaponForm.photos.addFromLibrary': 'Choose photos',
+      'weaponForm.photos.takePhoto': 'Take photo',
+      'weaponForm.photos.captionPlaceholder': 'Caption',
+      'weaponForm.photos.cover': 'Cover photo',
+      'weaponForm.photos.setCover': 'Use as cover photo',
+      'weaponForm.photos.moveUp': 'Move up',
+      'weaponForm.photos.moveDown': 'Move down',
+      'weaponForm.photos.delete': 'Delete',
+      'weaponForm.photos.deleteConfirmTitle': 'Delete photo?',
+      'weaponForm.photos.deleteConfirmMessage': 'The photo is removed from the device and cannot be recovered.',
+      'weaponForm.photos.cameraPermissionDenied': 'The app does not have access to the camera.',
+      'weaponForm.photos.error': 'Could not update the photos.',
+      'attachments.types.weaponCard': 'Weapon card',
+      'attachments.types.purchaseReceipt': 'Purchase receipt',
+      'attachments.types.policeApproval': 'Police approval',
+      'attachments.types.loanAgreement': 'Loan agreement',
+      'attachments.types.competitionResult': 'Result list',
+      'attachments.add': 'Attach document',
+      'attachments.titlePlaceholder': 'Description (optional)',
+      'attachments.empty': 'No documents attached.',
+      'attachments.saveFirst': 'Save before attaching documents.',
+      'attachments.openHint': 'Opens the document in full screen',
+      'attachments.delete.confirmTitle': 'Delete document?',
+      'attachments.delete.confirmMessage': 'The file is removed from the device and cannot be recovered.',
+      'attachments.feedback.error': 'Could not update the documents. Please try again.',
+      'attachments.viewer.close': 'Close',
+      'attachments.viewer.openExternally': 'Open in another app',
+      'attachments.viewer.pdfHint': 'PDF files open in the device viewer.',
+      'attachments.viewer.unavailable': 'Sharing is not available on this device.',
+      'attachments.viewer.notFound': 'Document not found.',
+      'weaponForm.documents.title': 'Documents',
+      'weaponForm.documents.help': 'Attach weapon cards, receipts, approvals and loan agreements.',
+      'settings.memberships.documents': 'Documents',
+      'membershipDocuments.description': 'Documents linked to the membership, for example police approvals.',
+      'membershipDocuments.notFound': 'Organisation not found.',
+      'settings.restore.successWithManifest': 'Backup restored from {{path}} (created {{createdAt}}, app {{appVersion}}, {{fileCount}} files)',
+      'settings.restore.archiveErrors.notAnArchive': 'The file is not a valid backup archive.',
+      'settings.restore.archiveErrors.missingManifest': 'The backup archive has no manifest.',
+      'settings.restore.archiveErrors.invalidManifest': 'The manifest in the backup archive is invalid.',
+      'settings.restore.archiveErrors.unsupportedFormat': 'This version of the app does not support the backup format.',
+      'settings.restore.archiveErrors.schemaTooNew': 'The backup was made with a newer version of the app. Update the app first.',
+      'settings.restore.archiveErrors.missingFile': 'The backup archive is missing files. Nothing was changed.',
+      'settings.restore.archiveErrors.checksumMismatch': 'The backup archive is damaged (checksum mismatch). Nothing was changed.',
+      'settings.restore.confirm.title': 'Restore this backup?',
+      'settings.restore.confirm.created': 'Created {{createdAt}} with app {{appVersion}}',
+      'settings.restore.confirm.weapons': 'Weapons: {{count}}',
+      'settings.restore.confirm.memberships': 'Memberships: {{organizations}}',
+      'settings.restore.confirm.newestChange': 'Latest change: {{date}}',
+      'settings.restore.confirm.none': 'none',
+      'settings.restore.confirm.unknown': 'unknown',
+      'settings.restore.confirm.warning': 'The current data will be replaced.',
+      'settings.restore.validationErrors.unreadable': 'The file is not a readable Mine Våpen database. Nothing was changed.',
+      'settings.restore.validationErrors.integrityCheckFailed': 'The database in the backup is damaged. Nothing was changed.',
+      'settings.restore.validationErrors.missingTables': 'The backup is missing expected tables. Nothing was changed.',
+      'settings.restore.validationErrors.schemaTooNew': 'The backup was made with a newer version of the app. Update the app first.',
+      'settings.restore.migrationFailed': 'The backup could not be upgraded. The previous database has been kept.',
+      'settings.merge.title': 'Compare and merge',
+      'settings.merge.description': 'Shows the differences between a backup and the data on this device, and lets you bring over selected weapons, programme links and memberships.',
+      'settings.merge.button': 'Choose file',
+      'settings.merge.latestButton': 'Latest backup',
+      'settings.merge.error': 'Could not open the backup. Please try again.',
+      'backupMerge.title': 'Compare backup',
+      'backupMerge.description': 'Choose what to bring over from the backup. Nothing on this device is deleted.',
+      'backupMerge.summary': '{{weapons}} weapons in the backup · {{different}} with differences · {{unchanged}} identical',
+      'backupMerge.noDifferences': 'The backup matches the data on this device.',
+      'backupMerge.weaponsTitle': 'Weapons',
+      'backupMerge.membershipsTitle': 'Memberships',
+      'backupMerge.change.added': 'Only in the backup',
+      'backupMerge.change.removed': 'Only on this device',
+      'backupMerge.change.changed': 'Changed',
+      'backupMerge.keptOnDevice': 'Kept as it is.',
+      'backupMerge.changedFields': 'Changed fields: {{fields}}',
+      'backupMerge.updatedAt': 'Last saved: device {{device}} · backup {{backup}}',
+      'backupMerge.link.none': 'not linked',
+      'backupMerge.link.compare': 'Device: {{device}} → Backup: {{backup}}',
+      'backupMerge.membership.member': 'member',
+      'backupMerge.membership.notMember': 'not a member',
+      'backupMerge.membership.compare': 'Device: {{device}} → Backup: {{backup}}',
+      'backupMerge.mergeSelected': 'Bring over selected ({{count}})',
+      'backupMerge.mergeButton': 'Bring over',
+      'backupMerge.confirm.title': 'Bring over from backup?',
+      'backupMerge.confirm.message': '{{count}} selected items are copied from the backup and overwrite the matching data on this device.',
+      'backupMerge.success.title': 'Brought over from backup',
+      'backupMerge.success.message': 'Weapons: {{weapons}}, programme links: {{programLinks}}, memberships: {{memberships}}, files: {{files}}',
+      'backupMerge.error': 'Could not bring data over from the backup. Nothing was changed.',
+      'backupMerge.loadError': 'Could not read the backup.',
+      'backupMerge.notFound': 'No backup selected.',
+      'settings.restore.archiveErrors.encryptionNotConfigured': 'Encryption has not been set up. Choose a passphrase before backing up.',
+      'settings.restore.archiveErrors.passphraseRequired': 'The backup was made with a different passphrase.',
+      'settings.restore.archiveErrors.wrongPassphrase': 'Wrong passphrase, or the backup is damaged. Nothing was changed.',
+      'settings.restore.passphraseTitle': 'Backup passphrase',
+      'settings.restore.passphraseMessage': '{{name}} was made with a different passphrase. Enter the passphrase that was used when the backup was made.',
+      'settings.restore.passphraseSubmit': 'Unlock',
+      'settings.encryption.title': 'Encryption',
+      'settings.encryption.description': 'Backups are encrypted with your passphrase. The database on this device is encrypted with a key kept in the device keychain, so the screen lock protects it. Backups made before a change need the old passphrase.',
+      'settings.encryption.button': 'Change passphrase',
+      'settings.encryption.dialogTitle': 'Change passphrase',
+      'settings.encryption.dialogMessage': 'The database is re-encrypted with the new passphrase.',
+      'settings.encryption.success': 'The passphrase has been changed.',
+      'settings.encryption.error': 'Could not change the passphrase.',
+      'passphrase.passphrase': 'Passphrase',
+      'passphrase.current': 'Current passphrase',
+      'passphrase.new': 'New passphrase',
+      'passphrase.confirm': 'Repeat passphrase',
+      'passphrase.errors.tooShort': 'The passphrase must be at least {{count}} characters.',
+      'passphrase.errors.mismatch': 'The passphrases do not match.',
+      'passphrase.errors.incorrect': 'The current passphrase is wrong.',
+      'encryptionSetup.title': 'Protect your data',
+      'encryptionSetup.description': 'Mine Våpen encrypts your backups with a passphrase you choose. The database on this device is encrypted with a key kept in the device keychain.',
+      'encryptionSetup.warning': 'The passphrase cannot be recovered. Without it, backups cannot be read.',
+      'encryptionSetup.createButton': 'Choose passphrase',
+      'encryptionSetup.createTitle': 'New passphrase',
+      'encryptionSetup.createMessage': 'Choose a passphrase you will remember. You need it to restore backups on a new device.',
+      'encryptionSetup.createSubmit': 'Encrypt',
+      'encryptionSetup.restoreButton': 'Restore from backup',
+      'encryptionSetup.restoreTitle': 'Restore on a new device',
+      'encryptionSetup.restoreMessage': 'Enter the passphrase for {{name}}. It also becomes the passphrase on this device.',
+      'encryptionSetup.restoreSubmit': 'Restore',
+      'encryptionSetup.error': 'Could not set up encryption.',
+      'settings.security.title': 'Security',
+      'settings.security.description': 'Lock the app with a PIN or biometrics so serial numbers and loan contacts are not shown to others.',
+      'settings.security.lock': 'Lock the app with a PIN',
+      'settings.security.setPin': 'Choose PIN',
+      'settings.security.changePin': 'Change PIN',
+      'settings.security.biometrics': 'Unlock with biometrics',
+      'settings.security.biometricsUnavailable': 'Not available or not set up on this device.',
+      'settings.security.autoLock.title': 'Lock automatically after',
+      'settings.security.autoLock.immediately': 'Immediately',
+      'settings.security.autoLock.seconds': '{{count}} sec',
+      'settings.security.autoLock.minutes': '{{count}} min',
+      'settings.security.privacyCover': 'Hide content in the app switcher',
+      'settings.security.privacyCoverDescription': 'Blurs the screen when the app is not in the foreground.',
+      'settings.security.disableTitle': 'Turn off app lock?',
+      'settings.security.disableMessage': 'The PIN is deleted and the app opens without unlocking.',
+      'settings.security.disableConfirm': 'Turn off',
+      'settings.security.success': 'Security settings saved.',
+      'settings.security.error': 'Could not save the security settings.',
+      'pinSetup.message': 'The PIN must have {{min}}–{{max}} digits.',
+      'pinSetup.pin': 'New PIN',
+      'pinSetup.confirm': 'Repeat PIN',
+      'pinSetup.invalid': 'The PIN must have {{min}}–{{max}} digits.',
+      'pinSetup.mismatch': 'The PINs do not match.',
+      'appLock.title': 'Mine Våpen is locked',
+      'appLock.enterPin': 'Enter your PIN',
+      'appLock.unlock': 'Unlock',
+      'appLock.incorrect': 'Wrong PIN. {{count}} attempts left before the app is blocked.',
+      'appLock.lockedOut': 'Too many failed attempts. Try again in {{count}} seconds.',
+      'appLock.error': 'Could not check the PIN.',
+      'appLock.biometricPrompt': 'Unlock Mine Våpen',
+      'appLock.usePin': 'Use PIN',
+      'appLock.useBiometrics': 'Unlock with biometrics',
+      'appLock.backspace': 'Delete digit',
+      'appLock.digitsEntered': '{{count}} digits entered',
+      'weapons.search.placeholder': 'Search by name, serial number, calibre …',
+      'weapons.search.clear': 'Clear',
+      'weapons.search.empty': 'No weapons match “{{query}}”.',
+      'weaponDetail.title': 'Weapon',
+      'weaponDetail.tabs.details': 'Details',
+      'weaponDetail.tabs.programs': 'Programmes',
+      'weaponDetail.tabs.documents': 'Documents',
+      'weaponDetail.tabs.photos': 'Photos',
+      'weapons.card.details': 'Show details',
+      'navigation.tabs.dashboard': 'Overview',
+      'dashboard.title': 'Overview',
+      'dashboard.subtitle': 'Approved weapons and reserves per organisation and programme.',
+      'dashboard.organizationCounts': '{{weaponCount}} approved weapons · {{reserveCount}} reserve',
+      'dashboard.noPrograms': 'No weapons are approved in this organisation\'s programmes.',
+      'dashboard.error': 'Something went wrong while loading the overview.',
+      'dashboard.openWeapons': 'Shows the weapon list filtered to the programme',
+      'dashboard.alerts.competitionsMissing': 'Reserve without enough competitions',
+      'dashboard.alerts.reserveLimitReached': 'Reserve limit reached ({{limit}})',
+      'dashboard.alerts.reserveLimitExceeded': 'Over the reserve limit ({{limit}})',
+      'attachments.types.membershipCard': 'Membership card',
+      'settings.memberships.edit': 'Edit membership',
+      'settings.memberships.memberNumber': 'Member no. {{number}}',
+      'membershipForm.description': 'Member number, club and validity. An expired membership does not count towards the reserve weapon rules.',
+      'membershipForm.fields.memberNumber': 'Member number',
+      'membershipForm.fields.memberNumberPlaceholder': 'E.g. 123456',
+      'membershipForm.fields.clubName': 'Club',
+      'membershipForm.fields.clubNamePlaceholder': 'E.g. Oslo Pistol Club',
+      'membershipForm.fields.membershipYear': 'Membership year',
+      'membershipForm.fields.expiresAt': 'Expiry date',
+      'membershipForm.fields.expiresAtPlaceholder': 'No expiry date',
+      'membershipForm.fields.membershipCard': 'Membership card',
+      'membershipForm.validity.openEnded': 'Valid with no expiry date',
+      'membershipForm.validity.validUntil': 'Valid until {{date}}',
+      'membershipForm.validity.expired': 'Expired {{date}}',
+      'membershipForm.validation.membershipYear': 'The membership year must be a four-digit year.',
+      'membershipForm.feedback.error': 'Could not save the membership.',
+      'membershipForm.actions.save': 'Save membership',
+      'membershipForm.actions.delete': 'Delete membership',
+      'membershipForm.delete.confirmTitle': 'Delete the membership?',
+      'membershipForm.delete.confirmMessage': 'The member number and validity are removed. Documents are kept.',
+      'settings.profile.title': 'Shooter profile',
+      'settings.profile.description': '{{name}}. The profile heads every exported file.',
+      'settings.profile.empty': 'Add your name and contact details to have them head every exported file.',
+      'settings.profile.button': 'Edit profile',
+      'profileForm.title': 'Shooter profile',
+      'profileForm.description': 'These details are stored only on this device and are included in backups and exports.',
+      'profileForm.fields.name': 'Name',
+      'profileForm.fields.namePlaceholder': 'Full name',
+      'profileForm.fields.dateOfBirth': 'Date of birth',
+      'profileForm.fields.dateOfBirthPlaceholder': 'Choose date',
+      'profileForm.fields.address': 'Address',
+      'profileForm.fields.addressPlaceholder': 'Street, postcode and town',
+      'profileForm.fields.phone': 'Phone',
+      'profileForm.fields.phonePlaceholder': 'E.g. 912 34 567',
+      'profileForm.fields.email': 'Email',
+      'profileForm.fields.emailPlaceholder': 'name@example.com',
+      'profileForm.fields.policeDistrict': 'Police district',
+      'profileForm.validation.email': 'The email address does not look valid.',
+      'profileForm.feedback.error': 'Could not save the profile.',
+      'profileForm.actions.save': 'Save profile',
+      'settings.report.title': 'Weapon register as PDF',
+      'settings.report.description': 'Creates a readable report with your shooter profile, weapons and approved programs for inspections and applications.',
+      'settings.report.button': 'Create PDF report',
+      'report.title': 'Weapon register',
+      'report.description': 'Choose what the report covers. It is written in the language the app currently uses.',
+      'report.scope.organization': 'Organisation',
+      'report.scope.program': 'Program',
+      'report.scope.allPrograms': 'All programs',
+      'report.scopeAll': 'All organisations',
+      'report.includePhotos': 'Include photo',
+      'report.includePhotosHint': 'The cover photo of each weapon is embedded in the report.',
+      'report.create': 'Create and share PDF',
+      'report.success': 'PDF created: {{path}}',
+      'report.error': 'Could not create the report. Check that the selection contains weapons.',
+      'report.shareDialogTitle': 'Share weapon register',
+      'report.generatedAt': 'Generated {{date}}',
+      'report.weaponCount': 'Number of weapons: {{count}}',
+      'report.shooter': 'Shooter',
+      'report.noPrograms': 'No approved programs.',
+      'report.columns.organization': 'Organisation',
+      'report.columns.program': 'Program',
+      'report.columns.status': 'Status',
+      'settings.import.title': 'Import weapons from CSV',
+      'settings.import.description': 'Read weapons from a spreadsheet or a CSV export. You get a preview before anything is saved.',
+      'settings.import.button': 'Choose CSV file',
+      'settings.import.error': 'Could not open the file.',
+      'weaponImport.title': 'Import weapons',
+      'weaponImport.description': 'Nothing is saved until you tap Import. Rows with errors are skipped.',
+      'weaponImport.loadError': 'Could not read the CSV file.',
+      'weaponImport.empty': 'No header row and weapon rows were found in the file.',
+      'weaponImport.mapping.title': 'Columns',
+      'weaponImport.mapping.description': 'Choose which column in the file fills each field.',
+      'weaponImport.mapping.ignored': 'Not imported',
+      'weaponImport.mapping.column': 'Column {{number}}',
+      'weaponImport.organization.title': 'Organization for program names',
+      'weaponImport.organization.description': 'Program names are looked up here first. Write "NSF: Program name" in the file to pick the organization per program.',
+      'weaponImport.organization.auto': 'Automatic',
+      'weaponImport.updateDuplicates': 'Update existing weapons',
+      'weaponImport.updateDuplicatesHint': 'Rows with the ID or serial number of a registered weapon overwrite it instead of being skipped.',
+      'weaponImport.previewTitle': 'Preview',
+      'weaponImport.summary': '{{create}} new, {{update}} updated, {{skip}} skipped',
+      'weaponImport.line': 'Line {{number}}',
+      'weaponImport.untitled': 'Untitled',
+      'weaponImport.actions.create': 'New',
+      'weaponImport.actions.update': 'Update',
+      'weaponImport.actions.skip': 'Skipped',
+      'weaponImport.issues.missingDisplayName': 'Display name is missing.',
+      'weaponImport.issues.invalidType': 'Unknown weapon type "{{value}}".',
+      'weaponImport.issues.invalidOperationMode': 'Unknown operation mode "{{value}}".',
+      'weaponImport.issues.invalidOwnershipStatus': 'Unknown ownership "{{value}}".',
+      'weaponImport.issues.invalidDate': 'Invalid date "{{value}}". Use YYYY-MM-DD.',
+      'weaponImport.issues.invalidPrice': 'Invalid price "{{value}}".',
+      'weaponImport.issues.unknownProgram': 'Program "{{value}}" was not found.',
+      'weaponImport.issues.ambiguousProgram': 'Program "{{value}}" exists in several organizations. Pick an organization or write "ORG: program".',
+      'weaponImport.issues.duplicateInFile': 'Same serial number or ID as line {{value}}.',
+      'weaponImport.issues.duplicateExisting': 'Same serial number as registered weapon "{{value}}".',
+      'weaponImport.issues.existingId': 'Same ID as registered weapon "{{value}}".',
+      'weaponImport.importButton': 'Import',
+      'weaponImport.importCount': 'Import {{count}} weapons',
+      'weaponImport.confirm.title': 'Import weapons?',
+      'weaponImport.confirm.message': '{{create}} new weapons will be added and {{update}} updated. {{skip}} rows will be skipped.',
+      'weaponImport.success.title': 'Import complete',
+      'weaponImport.success.message': '{{count}} weapons were saved.',
+      'weaponImport.error': 'The import failed. No further rows were saved.',
+      'csvColumns.id': 'ID',
+      'csvColumns.displayName': 'Display name',
+      'csvColumns.type': 'Type',
+      'csvColumns.manufacturer': 'Manufacturer',
+      'csvColumns.model': 'Model',
+      'csvColumns.serialNumber': 'Serial number',
+      'csvColumns.acquisitionDate': 'Acquisition date',
+      'csvColumns.acquisitionPrice': 'Acquisition price',
+      'csvColumns.weaponCardRef': 'Weapon card reference',
+      'csvColumns.operationMode': 'Operation mode',
+      'csvColumns.caliber': 'Caliber',
+      'csvColumns.notes': 'Notes',
+      'csvColumns.programs': 'Approved programs',
+      'csvColumns.reserve': 'Reserve weapon (X)',
+      'csvColumns.reservePrograms': 'Reserve in programs',
+      'csvColumns.pendingPrograms': 'Pending programs',
+      'csvColumns.proposedPrograms': 'Proposed programs',
+      'csvColumns.ownershipStatus': 'Ownership',
+      'csvColumns.loanContactName': 'Loan contact',
+      'csvColumns.loanStartDate': 'Loan from',
+      'csvColumns.loanEndDate': 'Loan until',
+      'csvColumns.reserveIssues': 'Reserve rule issues',
+      'settings.interchange.title': 'Data transfer (JSON)',
+      'settings.interchange.description': 'Export or import weapons, program status, memberships and profile in an open JSON format that other tools can read and write.',
+      'settings.interchange.exportButton': 'Export JSON',
+      'settings.interchange.importButton': 'Import JSON',
+      'settings.interchange.shareDialogTitle': 'Share Mine Våpen data',
+      'settings.interchange.exportSuccess': 'Data saved to {{path}}',
+      'settings.interchange.exportError': 'Could not export data.',
+      'settings.interchange.confirmTitle': 'Import data?',
+      'settings.interchange.confirmMessage': 'The file contains {{weapons}} weapons and {{memberships}} memberships. Weapons and memberships that already exist are overwritten. Everything else is kept.',
+      'settings.interchange.importSuccess': 'Imported {{weapons}} weapons, {{programLinks}} program links and {{memberships}} memberships.',
+      'settings.interchange.importError': 'Could not import the file.',
+      'settings.interchange.skippedLinksTitle': 'Unknown programs',
+      'settings.interchange.skippedLinksMessage': '{{count}} program links referred to programs the app does not know and were skipped.',
+      'settings.interchange.errors.invalidJson': 'The file is not valid JSON.',
+      'settings.interchange.errors.unsupportedFormat': 'The file is not a Mine Våpen data export.',
+      'settings.interchange.errors.versionTooNew': 'The file was made by a newer version. Update the app and try again.',
+      'settings.interchange.errors.invalidDocument': 'The file has invalid content: {{details}}',
+      'weapons.actions.exportView': 'Export this view',
+      'csvExport.title': 'CSV export',
+      'csvExport.description': 'Choose columns, their order and the delimiter. Your choices are remembered for the next export.',
+      'csvExport.onlyCurrentView': 'Only weapons in the current view',
+      'csvExport.onlyCurrentViewHint': 'Uses the filters and search from the weapon list.',
+      'csvExport.delimiter': 'Delimiter',
+      'csvExport.delimiterHint': 'Excel with Norwegian settings opens semicolon files directly.',
+      'csvExport.delimiters.comma': 'Comma',
+      'csvExport.delimiters.semicolon': 'Semicolon',
+      'csvExport.delimiters.tab': 'Tab',
+      'csvExport.includeBom': 'Add BOM for Excel',
+      'csvExport.includeBomHint': 'Makes Excel show æ, ø and å correctly.',
+      'csvExport.localizedHeaders': 'Column names in the app language',
+      'csvExport.localizedHeadersHint': 'The file can still be imported again.',
+      'csvExport.columns': 'Columns ({{selected}} of {{total}})',
+      'csvExport.reset': 'Reset',
+      'csvExport.moveUp': 'Move up',
+      'csvExport.moveDown': 'Move down',
+      'weaponForm.programs.retired': 'Retired from the catalog',
+      'settings.catalog.title': 'Shooting programs',
+      'settings.catalog.description': 'See the version of the organization and program list, what changed last, or update it from a file.',
+      'settings.catalog.button': 'Open catalog',
+      'catalog.title': 'Program catalog',
+      'catalog.description': 'Organizations and shooting programs from the police application form. Updates correct names and categories and mark removed programs as retired.',
+      'catalog.version': 'Installed version: {{version}}',
+      'catalog.versionUnknown': 'No version recorded yet',
+      'catalog.importButton': 'Import catalog file',
+      'catalog.confirmTitle': 'Update the catalog?',
+      'catalog.confirmMessage': 'The file contains version {{version}} with {{organizations}} organizations and {{programs}} programs. Weapons linked to removed programs keep their links.',
+      'catalog.importSuccess': 'Catalog updated to version {{version}} ({{count}} changes).',
+      'catalog.importError': 'Could not import the catalog.',
+      'catalog.errors.invalidJson': 'The file is not valid JSON.',
+      'catalog.errors.invalidCatalog': 'The file is not a valid catalog: {{details}}',
+      'catalog.errors.versionTooOld': 'The file is older than the installed catalog. {{details}}',
+      'catalog.changelogTitle': 'Latest changes',
+      'catalog.changelogSummary': 'Version {{from}} → {{to}}, {{date}}',
+      'catalog.changelogEmpty': 'No changes recorded yet.',
+      'catalog.changes.organizationAdded': 'New organization: {{name}}',
+      'catalog.changes.organizationUpdated': 'Organization updated: {{from}} → {{to}}',
+      'catalog.changes.programAdded': 'New program: {{name}}',
+      'catalog.changes.programRenamed': 'Renamed: {{from}} → {{to}}',
+      'catalog.changes.programRecategorized': '{{name}}: category {{from}} → {{to}}',
+      'catalog.changes.programRestored': 'Back in the catalog: {{name}}',
+      'catalog.changes.programRetired': 'Retired (kept for weapons and competitions): {{name}}',
+      'catalog.changes.programRemoved': 'Removed: {{name}}',
+    },
+  },
+} as const satisfies Resource;
+
+/**
+ * Values are kept as literal types so `resources.typecheck.ts` can compare interpolation
+ * placeholders between locales.
+ */
+export type AppResources = typeof resources;
+
+export type Locale = keyof AppResources;
 
-export type AppResources = typeof resources;
\ No newline at end of file
+/** Keys present in every locale. */
+export type TranslationKey = keyof AppResources[Locale]['translation'];
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * Compile-time completeness check for `resources.ts`. Nothing here runs; `tsc --noEmit` fails
+ * with a message such as `Type '"nn_NO is missing weapons.title"' does not satisfy the
+ * constraint 'never'` when a locale drifts from the bokmål reference.
+ */
+import type { AppResources, Locale } from './resources';
+
+type ReferenceLocale = 'nb_NO';
+
+type Translations<L extends Locale> = AppResources[L]['translation'];
+
+type ReferenceKey = keyof Translations<ReferenceLocale> & string;
+
+/** Names used in `{{placeholder}}` interpolations, ignoring any `, format` suffix. */
+type Placeholders<Value extends string> =
+  Value extends `${string}{{${infer Placeholder}}}${infer Rest}`
+    ? (Placeholder extends `${infer Name},${string}` ? Name : Placeholder) | Placeholders<Rest>
+    : never;
+
+type SameUnion<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+type LocaleKey<L extends Locale> = keyof Translations<L> & string;
+
+type MissingKeys<L extends Locale> = {
+  [Current in L]: `${Current} is missing ${Exclude<ReferenceKey, LocaleKey<Current>>}`;
+}[L];
+
+type ExtraKeys<L extends Locale> = {
+  [Current in L]: `${Current} has unknown key ${Exclude<LocaleKey<Current>, ReferenceKey>}`;
+}[L];
+
+type PlaceholderMismatches<L extends Locale> = {
+  [Current in L]: {
+    [Key in ReferenceKey & keyof Translations<Current>]: SameUnion<
+      Placeholders<Translations<ReferenceLocale>[Key]>,
+      Placeholders<Translations<Current>[Key] & string>
+    > extends true
+      ? never
+      : `${Current} has different placeholders in ${Key}`;
+  }[ReferenceKey & keyof Translations<Current>];
+}[L];
+
+type ExpectNever<T extends never> = T;
+
+export type LocalesHaveNoMissingKeys = ExpectNever<MissingKeys<Locale>>;
+export type LocalesHaveNoExtraKeys = ExpectNever<ExtraKeys<Locale>>;
+export type LocalesHaveMatchingPlaceholders = ExpectNever<PlaceholderMismatches<Locale>>;
@@ -1,10 +1,12 @@
 import 'i18next';
 
-import type { AppResources } from './resources';
+import type { TranslationKey } from './resources';
 
 declare module 'i18next' {
   interface CustomTypeOptions {
     defaultNS: 'translation';
-    resources: AppResources['nb_NO'];
+    // Only keys that every locale defines are accepted by `t()`. Values are widened to `string`
+    // so call sites are not typed against the bokmål wording.
+    resources: { translation: Record<TranslationKey, string> };
   }
 }
@@ -0,0 +1,32 @@
+/**
+ * When a membership counts as valid. Like the reserve rules this module is pure; the
+ * memberships repository mirrors `getMembershipValidUntil` in SQL.
+ */
+
+export type MembershipValidityFields = {
+  membershipYear: number | null;
+  expiresAt: string | null;
+};
+
+export const toIsoDate = (date: Date) => {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Last day the membership counts, as `YYYY-MM-DD`. Without an expiry date a membership runs to
+ * the end of its membership year; with neither it is open-ended and this returns null.
+ */
+export const getMembershipValidUntil = (membership: MembershipValidityFields): string | null =>
+  membership.expiresAt ??
+  (membership.membershipYear !== null ? `${membership.membershipYear}-12-31` : null);
+
+export const isMembershipValid = (
+  membership: MembershipValidityFields,
+  referenceDate: Date = new Date()
+): boolean => {
+  const validUntil = getMembershipValidUntil(membership);
+  return validUntil === null || validUntil >= toIsoDate(referenceDate);
+};
@@ -0,0 +1,181 @@
+/**
+ * Pure evaluation of the police rules for reserve weapons. Nothing in this module touches
+ * the database; callers load the data and pass it in through a `ReserveRuleContext`.
+ */
+
+export type ProgramLinkStatus = 'approved' | 'pending' | 'proposed';
+
+/**
+ * Police rule for reserve weapons: during the last year, at least ten competitions in the
+ * program of which five are open events, or participation in an international championship.
+ */
+export const RESERVE_COMPETITION_REQUIREMENTS = {
+  totalCount: 10,
+  openCount: 5,
+  internationalCount: 1,
+} as const;
+
+/** At most two complete reserve weapons may be held per approved program. */
+export const MAX_RESERVE_WEAPONS_PER_PROGRAM = 2;
+
+export type CompetitionCounts = {
+  totalCount: number;
+  openCount: number;
+  internationalCount: number;
+};
+
+export type RuleProgram = {
+  id: string;
+  name: string;
+  organizationId: string;
+  isReserveAllowed: boolean;
+};
+
+export type RuleProgramLink = {
+  programId: string;
+  status: ProgramLinkStatus;
+  isReserve: boolean;
+};
+
+export type ReserveAssignment = {
+  programId: string;
+  weaponId: string;
+};
+
+export type ReserveRuleContext = {
+  programsById: Map<string, RuleProgram>;
+  reserveWeaponIdsByProgram: Map<string, Set<string>>;
+  competitionsByProgram: Map<string, CompetitionCounts>;
+  /** When set, links to programs outside these organizations are reported. */
+  memberOrganizationIds: Set<string> | null;
+};
+
+export type ReserveRuleCode =
+  | 'reserveNotAllowed'
+  | 'reserveRequiresApproval'
+  | 'reserveLimitExceeded'
+  | 'competitionRequirementsNotMet'
+  | 'organizationNotMember';
+
+export type ReserveRuleIssue = {
+  code: ReserveRuleCode;
+  severity: 'violation' | 'warning';
+  programId: string;
+  programName: string;
+  params: Record<string, number>;
+};
+
+export type ReserveRuleResult = {
+  violations: ReserveRuleIssue[];
+  warnings: ReserveRuleIssue[];
+};
+
+export const emptyReserveRuleResult: ReserveRuleResult = { violations: [], warnings: [] };
+
+export const hasMetCompetitionRequirements = (counts: CompetitionCounts): boolean =>
+  (counts.totalCount >= RESERVE_COMPETITION_REQUIREMENTS.totalCount &&
+    counts.openCount >= RESERVE_COMPETITION_REQUIREMENTS.openCount) ||
+  counts.internationalCount >= RESERVE_COMPETITION_REQUIREMENTS.internationalCount;
+
+export const buildReserveRuleContext = (input: {
+  programs: RuleProgram[];
+  reserveAssignments: ReserveAssignment[];
+  competitionCounts: (CompetitionCounts & { programId: string })[];
+  memberOrganizationIds?: string[] | null;
+}): ReserveRuleContext => {
+  const reserveWeaponIdsByProgram = new Map<string, Set<string>>();
+
+  for (const assignment of input.reserveAssignments) {
+    const existing = reserveWeaponIdsByProgram.get(assignment.programId);
+    if (existing) {
+      existing.add(assignment.weaponId);
+    } else {
+      reserveWeaponIdsByProgram.set(assignment.programId, new Set([assignment.weaponId]));
+    }
+  }
+
+  return {
+    programsById: new Map(input.programs.map((program) => [program.id, program])),
+    reserveWeaponIdsByProgram,
+    competitionsByProgram: new Map(
+      input.competitionCounts.map(({ programId, totalCount, openCount, internationalCount }) => [
+        programId,
+        { totalCount, openCount, internationalCount },
+      ])
+    ),
+    memberOrganizationIds: input.memberOrganizationIds
+      ? new Set(input.memberOrganizationIds)
+      : null,
+  };
+};
+
+export const evaluateWeaponReserveRules = (
+  weaponId: string | null,
+  links: RuleProgramLink[],
+  context: ReserveRuleContext
+): ReserveRuleResult => {
+  const violations: ReserveRuleIssue[] = [];
+  const warnings: ReserveRuleIssue[] = [];
+
+  for (const link of links) {
+    const program = context.programsById.get(link.programId);
+    const programName = program?.name ?? link.programId;
+    const issue = (
+      code: ReserveRuleCode,
+      severity: ReserveRuleIssue['severity'],
+      params: Record<string, number> = {}
+    ): ReserveRuleIssue => ({ code, severity, programId: link.programId, programName, params });
+
+    if (
+      program &&
+      context.memberOrganizationIds &&
+      !context.memberOrganizationIds.has(program.organizationId)
+    ) {
+      warnings.push(issue('organizationNotMember', 'warning'));
+    }
+
+    if (!link.isReserve) {
+      continue;
+    }
+
+    if (program && !program.isReserveAllowed) {
+      violations.push(issue('reserveNotAllowed', 'violation'));
+    }
+
+    if (link.status !== 'approved') {
+      violations.push(issue('reserveRequiresApproval', 'violation'));
+    }
+
+    const otherReserves = new Set(context.reserveWeaponIdsByProgram.get(link.programId) ?? []);
+    if (weaponId) {
+      otherReserves.delete(weaponId);
+    }
+    const reserveCount = otherReserves.size + 1;
+    if (reserveCount > MAX_RESERVE_WEAPONS_PER_PROGRAM) {
+      violations.push(
+        issue('reserveLimitExceeded', 'violation', {
+          count: reserveCount,
+          limit: MAX_RESERVE_WEAPONS_PER_PROGRAM,
+        })
+      );
+    }
+
+    const counts = context.competitionsByProgram.get(link.programId) ?? {
+      totalCount: 0,
+      openCount: 0,
+      internationalCount: 0,
+    };
+    if (!hasMetCompetitionRequirements(counts)) {
+      warnings.push(
+        issue('competitionRequirementsNotMet', 'warning', {
+          total: counts.totalCount,
+          totalRequired: RESERVE_COMPETITION_REQUIREMENTS.totalCount,
+          open: counts.openCount,
+          openRequired: RESERVE_COMPETITION_REQUIREMENTS.openCount,
+        })
+      );
+    }
+  }
+
+  return { violations, warnings };
+};
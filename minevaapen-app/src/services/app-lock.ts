@@ -0,0 +1,192 @@
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+
+/**
+ * App-lock settings, the PIN hash and the failed-attempt counter live in secure storage rather
+ * than the database, so they are readable before the database is opened and survive restores.
+ */
+
+const SETTINGS_KEY = 'minevaapen.appLock.settings';
+const PIN_KEY = 'minevaapen.appLock.pin';
+const ATTEMPTS_KEY = 'minevaapen.appLock.attempts';
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+export const AUTO_LOCK_OPTIONS = [0, 30, 60, 300, 900] as const;
+/** Failed attempts allowed before a lockout starts. */
+export const MAX_FAILED_ATTEMPTS = 5;
+
+const PIN_SALT_LENGTH = 16;
+const PIN_KDF_ITERATIONS = 50_000;
+const BASE_LOCKOUT_SECONDS = 30;
+const MAX_LOCKOUT_SECONDS = 15 * 60;
+
+const SECURE_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+};
+
+export type AutoLockSeconds = (typeof AUTO_LOCK_OPTIONS)[number];
+
+export type AppLockSettings = {
+  enabled: boolean;
+  biometricsEnabled: boolean;
+  /** Time in the background before the app locks; 0 locks as soon as it leaves the foreground. */
+  autoLockSeconds: AutoLockSeconds;
+  privacyCover: boolean;
+};
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  biometricsEnabled: false,
+  autoLockSeconds: 60,
+  privacyCover: true,
+};
+
+type StoredPin = {
+  salt: string;
+  iterations: number;
+  hash: string;
+};
+
+type FailedAttempts = {
+  count: number;
+  lockedUntil: number | null;
+};
+
+export type PinVerification =
+  | { status: 'unlocked' }
+  | { status: 'incorrect'; remainingAttempts: number }
+  | { status: 'lockedOut'; lockedUntil: number };
+
+const readJson = async <T>(key: string): Promise<T | null> => {
+  const value = await SecureStore.getItemAsync(key, SECURE_STORE_OPTIONS);
+  return value ? (JSON.parse(value) as T) : null;
+};
+
+const writeJson = (key: string, value: unknown) =>
+  SecureStore.setItemAsync(key, JSON.stringify(value), SECURE_STORE_OPTIONS);
+
+export const loadAppLockSettings = async (): Promise<AppLockSettings> => {
+  const stored = await readJson<Partial<AppLockSettings>>(SETTINGS_KEY);
+  const settings = { ...DEFAULT_APP_LOCK_SETTINGS, ...stored };
+
+  // A lock without a PIN could never be opened again if biometrics stop working.
+  if (settings.enabled && !(await hasPin())) {
+    settings.enabled = false;
+  }
+
+  return settings;
+};
+
+export const saveAppLockSettings = async (settings: AppLockSettings): Promise<void> => {
+  await writeJson(SETTINGS_KEY, settings);
+};
+
+export const isValidPin = (pin: string) =>
+  /^\d+$/.test(pin) && pin.length >= MIN_PIN_LENGTH && pin.length <= MAX_PIN_LENGTH;
+
+const hashPin = async (pin: string, salt: Uint8Array, iterations: number) =>
+  bytesToHex(await pbkdf2Async(sha256, pin, salt, { c: iterations, dkLen: 32 }));
+
+export const hasPin = async (): Promise<boolean> =>
+  (await SecureStore.getItemAsync(PIN_KEY, SECURE_STORE_OPTIONS)) !== null;
+
+export const setPin = async (pin: string): Promise<void> => {
+  if (!isValidPin(pin)) {
+    throw new Error(`PIN must be ${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} digits`);
+  }
+
+  const salt = Crypto.getRandomBytes(PIN_SALT_LENGTH);
+  const stored: StoredPin = {
+    salt: bytesToHex(salt),
+    iterations: PIN_KDF_ITERATIONS,
+    hash: await hashPin(pin, salt, PIN_KDF_ITERATIONS),
+  };
+  await writeJson(PIN_KEY, stored);
+  await clearFailedAttempts();
+};
+
+export const removePin = async (): Promise<void> => {
+  await SecureStore.deleteItemAsync(PIN_KEY, SECURE_STORE_OPTIONS);
+  await clearFailedAttempts();
+};
+
+const loadFailedAttempts = async (): Promise<FailedAttempts> =>
+  (await readJson<FailedAttempts>(ATTEMPTS_KEY)) ?? { count: 0, lockedUntil: null };
+
+const clearFailedAttempts = () => SecureStore.deleteItemAsync(ATTEMPTS_KEY, SECURE_STORE_OPTIONS);
+
+/** Null when PIN entry is allowed right now. */
+export const getLockoutUntil = async (): Promise<number | null> => {
+  const { lockedUntil } = await loadFailedAttempts();
+  return lockedUntil !== null && lockedUntil > Date.now() ? lockedUntil : null;
+};
+
+/** The lockout doubles with every failed attempt past the limit, up to a fixed maximum. */
+const lockoutSeconds = (failedCount: number) =>
+  Math.min(
+    BASE_LOCKOUT_SECONDS * 2 ** (failedCount - MAX_FAILED_ATTEMPTS),
+    MAX_LOCKOUT_SECONDS
+  );
+
+/**
+ * Checks a PIN against the stored hash. The failed-attempt counter is persisted, so restarting
+ * the app does not reset a lockout.
+ */
+export const verifyPin = async (pin: string): Promise<PinVerification> => {
+  const attempts = await loadFailedAttempts();
+  const now = Date.now();
+  if (attempts.lockedUntil !== null && attempts.lockedUntil > now) {
+    return { status: 'lockedOut', lockedUntil: attempts.lockedUntil };
+  }
+
+  const stored = await readJson<StoredPin>(PIN_KEY);
+  if (stored && (await hashPin(pin, hexToBytes(stored.salt), stored.iterations)) === stored.hash) {
+    await clearFailedAttempts();
+    return { status: 'unlocked' };
+  }
+
+  const count = attempts.count + 1;
+  if (count >= MAX_FAILED_ATTEMPTS) {
+    const lockedUntil = now + lockoutSeconds(count) * 1000;
+    await writeJson(ATTEMPTS_KEY, { count, lockedUntil } satisfies FailedAttempts);
+    return { status: 'lockedOut', lockedUntil };
+  }
+
+  await writeJson(ATTEMPTS_KEY, { count, lockedUntil: null } satisfies FailedAttempts);
+  return { status: 'incorrect', remainingAttempts: MAX_FAILED_ATTEMPTS - count };
+};
+
+export const isBiometricUnlockAvailable = async (): Promise<boolean> => {
+  try {
+    return (await LocalAuthentication.hasHardwareAsync()) && LocalAuthentication.isEnrolledAsync();
+  } catch (error) {
+    console.warn('Failed to check biometric support', error);
+    return false;
+  }
+};
+
+/**
+ * Prompts for fingerprint or face. The device passcode fallback is disabled so the app PIN
+ * stays the only alternative, and a successful scan also clears the failed-attempt counter.
+ */
+export const authenticateWithBiometrics = async (
+  promptMessage: string,
+  cancelLabel: string
+): Promise<boolean> => {
+  const result = await LocalAuthentication.authenticateAsync({
+    promptMessage,
+    cancelLabel,
+    disableDeviceFallback: true,
+  });
+
+  if (result.success) {
+    await clearFailedAttempts();
+  }
+
+  return result.success;
+};
@@ -0,0 +1,378 @@
+import * as Crypto from 'expo-crypto';
+
+/**
+ * Backup archives are plain ustar files: `manifest.json` first, followed by the database and
+ * every stored photo and attachment. Long paths are written with a PAX `path` record.
+ */
+
+export const BACKUP_FORMAT = 'minevaapen-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_MANIFEST_PATH = 'manifest.json';
+export const BACKUP_DATABASE_PATH = 'database/minevaapen.db';
+
+export type BackupManifestFile = {
+  path: string;
+  size: number;
+  sha256: string;
+};
+
+export type BackupManifest = {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  schemaVersion: number;
+  createdAt: string;
+  /** Document directory at backup time; app versions that stored absolute file URIs need it. */
+  documentDirectory: string;
+  files: BackupManifestFile[];
+};
+
+export type ArchiveEntry = {
+  path: string;
+  data: Uint8Array;
+};
+
+export type BackupArchiveErrorCode =
+  | 'notAnArchive'
+  | 'missingManifest'
+  | 'invalidManifest'
+  | 'unsupportedFormat'
+  | 'schemaTooNew'
+  | 'missingFile'
+  | 'checksumMismatch'
+  | 'encryptionNotConfigured'
+  | 'passphraseRequired'
+  | 'wrongPassphrase';
+
+export class BackupArchiveError extends Error {
+  readonly code: BackupArchiveErrorCode;
+
+  constructor(code: BackupArchiveErrorCode, message: string) {
+    super(message);
+    this.name = 'BackupArchiveError';
+    this.code = code;
+  }
+}
+
+const BLOCK_SIZE = 512;
+const NAME_LENGTH = 100;
+
+const encodeUtf8 = (value: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (const char of value) {
+    const codePoint = char.codePointAt(0) ?? 0;
+    if (codePoint < 0x80) {
+      bytes.push(codePoint);
+    } else if (codePoint < 0x800) {
+      bytes.push(0xc0 | (codePoint >> 6), 0x80 | (codePoint & 0x3f));
+    } else if (codePoint < 0x10000) {
+      bytes.push(
+        0xe0 | (codePoint >> 12),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (codePoint >> 18),
+        0x80 | ((codePoint >> 12) & 0x3f),
+        0x80 | ((codePoint >> 6) & 0x3f),
+        0x80 | (codePoint & 0x3f)
+      );
+    }
+  }
+  return Uint8Array.from(bytes);
+};
+
+const decodeUtf8 = (bytes: Uint8Array): string => {
+  let result = '';
+  let index = 0;
+  while (index < bytes.length) {
+    const byte = bytes[index];
+    let codePoint: number;
+    if (byte < 0x80) {
+      codePoint = byte;
+      index += 1;
+    } else if (byte < 0xe0) {
+      codePoint = ((byte & 0x1f) << 6) | (bytes[index + 1] & 0x3f);
+      index += 2;
+    } else if (byte < 0xf0) {
+      codePoint =
+        ((byte & 0x0f) << 12) | ((bytes[index + 1] & 0x3f) << 6) | (bytes[index + 2] & 0x3f);
+      index += 3;
+    } else {
+      codePoint =
+        ((byte & 0x07) << 18) |
+        ((bytes[index + 1] & 0x3f) << 12) |
+        ((bytes[index + 2] & 0x3f) << 6) |
+        (bytes[index + 3] & 0x3f);
+      index += 4;
+    }
+    result += String.fromCodePoint(codePoint);
+  }
+  return result;
+};
+
+export const encodeText = encodeUtf8;
+export const decodeText = decodeUtf8;
+
+const writeField = (block: Uint8Array, offset: number, length: number, value: Uint8Array) => {
+  block.set(value.subarray(0, length), offset);
+};
+
+const writeOctal = (block: Uint8Array, offset: number, length: number, value: number) => {
+  writeField(block, offset, length, encodeUtf8(`${value.toString(8).padStart(length - 1, '0')}\0`));
+};
+
+const readField = (block: Uint8Array, offset: number, length: number): string => {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decodeUtf8(end === -1 ? field : field.subarray(0, end));
+};
+
+const readOctal = (block: Uint8Array, offset: number, length: number): number =>
+  parseInt(readField(block, offset, length).trim() || '0', 8);
+
+const createHeader = (name: Uint8Array, size: number, typeFlag: string, mtime: number) => {
+  const header = new Uint8Array(BLOCK_SIZE);
+  writeField(header, 0, NAME_LENGTH, name);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, mtime);
+  header.fill(0x20, 148, 156);
+  header[156] = typeFlag.charCodeAt(0);
+  writeField(header, 257, 6, encodeUtf8('ustar\0'));
+  writeField(header, 263, 2, encodeUtf8('00'));
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeField(header, 148, 8, encodeUtf8(`${checksum.toString(8).padStart(6, '0')}\0 `));
+  return header;
+};
+
+const paddedLength = (size: number) => Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+const createPaxRecord = (key: string, value: string): Uint8Array => {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = encodeUtf8(body).length;
+  // The record length includes its own decimal digits.
+  let length = bodyLength + 1;
+  while (length !== bodyLength + String(length).length) {
+    length = bodyLength + String(length).length;
+  }
+  return encodeUtf8(`${length}${body}`);
+};
+
+const entryHeaders = (entry: ArchiveEntry, mtime: number): Uint8Array[] => {
+  const name = encodeUtf8(entry.path);
+  if (name.length <= NAME_LENGTH) {
+    return [createHeader(name, entry.data.length, '0', mtime)];
+  }
+
+  const record = createPaxRecord('path', entry.path);
+  const paddedRecord = new Uint8Array(paddedLength(record.length));
+  paddedRecord.set(record);
+  return [
+    createHeader(encodeUtf8('PaxHeader'), record.length, 'x', mtime),
+    paddedRecord,
+    createHeader(name, entry.data.length, '0', mtime),
+  ];
+};
+
+/** Lays the entries out in one buffer sized up front, so file data is copied exactly once. */
+export const createTarArchive = (entries: ArchiveEntry[]): Uint8Array => {
+  const mtime = Math.floor(Date.now() / 1000);
+  const headers = entries.map((entry) => entryHeaders(entry, mtime));
+
+  const headerLength = (blocks: Uint8Array[]) =>
+    blocks.reduce((total, block) => total + block.length, 0);
+  // Two empty blocks mark the end of the archive.
+  const archiveLength = entries.reduce(
+    (total, entry, index) =>
+      total + headerLength(headers[index]) + paddedLength(entry.data.length),
+    BLOCK_SIZE * 2
+  );
+
+  const archive = new Uint8Array(archiveLength);
+  let offset = 0;
+  entries.forEach((entry, index) => {
+    for (const block of headers[index]) {
+      archive.set(block, offset);
+      offset += block.length;
+    }
+    archive.set(entry.data, offset);
+    offset += paddedLength(entry.data.length);
+  });
+  return archive;
+};
+
+export const isTarArchive = (bytes: Uint8Array): boolean =>
+  bytes.length >= BLOCK_SIZE && readField(bytes, 257, 5) === 'ustar';
+
+const parsePaxPath = (data: Uint8Array): string | null => {
+  for (const line of decodeUtf8(data).split('\n')) {
+    const match = line.match(/^\d+ path=(.*)$/);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+};
+
+/**
+ * Reads entries until `limit` regular files have been collected, so callers that only need the
+ * manifest can stop after the first one.
+ */
+export const readTarArchive = (bytes: Uint8Array, limit = Infinity): ArchiveEntry[] => {
+  if (!isTarArchive(bytes)) {
+    throw new BackupArchiveError('notAnArchive', 'File is not a tar archive');
+  }
+
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let pendingPath: string | null = null;
+
+  while (offset + BLOCK_SIZE <= bytes.length && entries.length < limit) {
+    const header = bytes.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = readOctal(header, 124, 12);
+    const typeFlag = String.fromCharCode(header[156]);
+    const dataStart = offset + BLOCK_SIZE;
+    const data = bytes.subarray(dataStart, dataStart + size);
+
+    if (data.length < size) {
+      throw new BackupArchiveError('notAnArchive', 'Archive is truncated');
+    }
+
+    if (typeFlag === 'x') {
+      pendingPath = parsePaxPath(data);
+    } else if (typeFlag === '0' || typeFlag === '\0') {
+      const prefix = readField(header, 345, 155);
+      const name = readField(header, 0, NAME_LENGTH);
+      entries.push({ path: pendingPath ?? (prefix ? `${prefix}/${name}` : name), data });
+      pendingPath = null;
+    }
+
+    offset = dataStart + paddedLength(size);
+  }
+
+  return entries;
+};
+
+/**
+ * Native modules read the whole buffer behind a view, so archive entries, which are views into
+ * one buffer, are copied out. Bytes that already fill their buffer are passed through as is.
+ */
+export const standaloneBytes = (data: Uint8Array): Uint8Array<ArrayBuffer> =>
+  data.buffer instanceof ArrayBuffer &&
+  data.byteOffset === 0 &&
+  data.byteLength === data.buffer.byteLength
+    ? (data as Uint8Array<ArrayBuffer>)
+    : data.slice();
+
+export const sha256Hex = async (data: Uint8Array): Promise<string> => {
+  const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, standaloneBytes(data));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const parseBackupManifest = (entries: ArchiveEntry[]): BackupManifest => {
+  const manifestEntry = entries.find((entry) => entry.path === BACKUP_MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new BackupArchiveError('missingManifest', 'Backup archive has no manifest');
+  }
+
+  let manifest: Partial<BackupManifest>;
+  try {
+    manifest = JSON.parse(decodeUtf8(manifestEntry.data)) as Partial<BackupManifest>;
+  } catch {
+    throw new BackupArchiveError('invalidManifest', 'Backup manifest is not valid JSON');
+  }
+
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new BackupArchiveError('unsupportedFormat', 'Archive is not a Mine Våpen backup');
+  }
+
+  if (
+    typeof manifest.formatVersion !== 'number' ||
+    manifest.formatVersion > BACKUP_FORMAT_VERSION
+  ) {
+    throw new BackupArchiveError(
+      'unsupportedFormat',
+      `Backup format version ${String(manifest.formatVersion)} is not supported`
+    );
+  }
+
+  if (
+    typeof manifest.schemaVersion !== 'number' ||
+    typeof manifest.createdAt !== 'string' ||
+    !Array.isArray(manifest.files)
+  ) {
+    throw new BackupArchiveError('invalidManifest', 'Backup manifest is missing required fields');
+  }
+
+  return manifest as BackupManifest;
+};
+
+/**
+ * Reads only the leading manifest entry, so backups can be listed without loading every photo
+ * and document into memory. Returns null for files that are not backup archives.
+ */
+export const peekBackupManifest = (
+  readBytes: (length: number) => Uint8Array
+): BackupManifest | null => {
+  try {
+    const header = readBytes(BLOCK_SIZE);
+    if (!isTarArchive(header)) {
+      return null;
+    }
+
+    const data = readBytes(paddedLength(readOctal(header, 124, 12)));
+    const archive = new Uint8Array(header.length + data.length);
+    archive.set(header);
+    archive.set(data, header.length);
+
+    return parseBackupManifest(readTarArchive(archive, 1));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks the manifest against the archive contents. Nothing is written until this passes.
+ */
+export const validateBackupArchive = async (
+  entries: ArchiveEntry[],
+  latestSchemaVersion: number
+): Promise<BackupManifest> => {
+  const manifest = parseBackupManifest(entries);
+
+  if (manifest.schemaVersion > latestSchemaVersion) {
+    throw new BackupArchiveError(
+      'schemaTooNew',
+      `Backup schema version ${manifest.schemaVersion} is newer than supported version ${latestSchemaVersion}`
+    );
+  }
+
+  if (!manifest.files.some((file) => file.path === BACKUP_DATABASE_PATH)) {
+    throw new BackupArchiveError('missingFile', 'Backup manifest does not list the database');
+  }
+
+  const entriesByPath = new Map(entries.map((entry) => [entry.path, entry]));
+  for (const file of manifest.files) {
+    const entry = entriesByPath.get(file.path);
+    if (!entry) {
+      throw new BackupArchiveError('missingFile', `Backup is missing ${file.path}`);
+    }
+
+    if (entry.data.length !== file.size || (await sha256Hex(entry.data)) !== file.sha256) {
+      throw new BackupArchiveError('checksumMismatch', `Checksum mismatch for ${file.path}`);
+    }
+  }
+
+  return manifest;
+};
@@ -0,0 +1,157 @@
+import { gcm } from '@noble/ciphers/aes';
+import * as Crypto from 'expo-crypto';
+
+import { BackupArchiveError } from './backup-archive';
+
+/**
+ * Encrypted backups wrap the tar archive in a small envelope:
+ *
+ *   magic "MVENC" | version (1) | PBKDF2 iterations (uint32) | salt (16)
+ *   manifest section: nonce (12) | length (uint32) | AES-256-GCM ciphertext
+ *   archive section:  nonce (12) | length (uint32) | AES-256-GCM ciphertext
+ *
+ * The manifest is encrypted separately so backups can be listed without decrypting every photo.
+ * Database-only backups carried over from earlier versions hold the bare database instead of a
+ * tar archive.
+ * The header is passed as associated data, so tampering with the salt or iterations is detected.
+ */
+
+export const ENCRYPTED_BACKUP_EXTENSION = '.mvbackup';
+
+const MAGIC = [0x4d, 0x56, 0x45, 0x4e, 0x43];
+const ENVELOPE_VERSION = 1;
+const SALT_LENGTH = 16;
+const NONCE_LENGTH = 12;
+const HEADER_LENGTH = MAGIC.length + 1 + 4 + SALT_LENGTH;
+const SECTION_HEADER_LENGTH = NONCE_LENGTH + 4;
+
+export type EncryptedBackupHeader = {
+  iterations: number;
+  salt: Uint8Array;
+};
+
+export const BACKUP_SALT_LENGTH = SALT_LENGTH;
+
+export const isEncryptedBackup = (bytes: Uint8Array): boolean =>
+  bytes.length >= HEADER_LENGTH && MAGIC.every((byte, index) => bytes[index] === byte);
+
+export const readEncryptedBackupHeader = (bytes: Uint8Array): EncryptedBackupHeader => {
+  if (!isEncryptedBackup(bytes)) {
+    throw new BackupArchiveError('notAnArchive', 'File is not an encrypted backup');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = bytes[MAGIC.length];
+  if (version > ENVELOPE_VERSION) {
+    throw new BackupArchiveError(
+      'unsupportedFormat',
+      `Encrypted backup version ${version} is not supported`
+    );
+  }
+
+  return {
+    iterations: view.getUint32(MAGIC.length + 1),
+    salt: bytes.slice(MAGIC.length + 5, HEADER_LENGTH),
+  };
+};
+
+/** Receives the encrypted backup piece by piece, e.g. a file handle's `writeBytes`. */
+export type BackupWriter = (bytes: Uint8Array) => void;
+
+const writeSection = (
+  write: BackupWriter,
+  key: Uint8Array,
+  header: Uint8Array,
+  plaintext: Uint8Array
+) => {
+  const nonce = Crypto.getRandomBytes(NONCE_LENGTH);
+  const ciphertext = gcm(key, nonce, header).encrypt(plaintext);
+  const sectionHeader = new Uint8Array(SECTION_HEADER_LENGTH);
+  sectionHeader.set(nonce);
+  new DataView(sectionHeader.buffer).setUint32(NONCE_LENGTH, ciphertext.length);
+  write(sectionHeader);
+  write(ciphertext);
+};
+
+/**
+ * Encrypts the manifest and archive and hands the envelope to `write` section by section, so
+ * the ciphertext is never copied into one combined buffer.
+ */
+export const writeEncryptedBackup = (
+  write: BackupWriter,
+  key: Uint8Array,
+  { iterations, salt }: EncryptedBackupHeader,
+  manifest: Uint8Array,
+  archive: Uint8Array
+): void => {
+  const header = new Uint8Array(HEADER_LENGTH);
+  header.set(MAGIC);
+  header[MAGIC.length] = ENVELOPE_VERSION;
+  new DataView(header.buffer).setUint32(MAGIC.length + 1, iterations);
+  header.set(salt, MAGIC.length + 5);
+
+  write(header);
+  writeSection(write, key, header, manifest);
+  writeSection(write, key, header, archive);
+};
+
+type SectionReader = (length: number) => Uint8Array;
+
+const decryptSection = (key: Uint8Array, header: Uint8Array, readBytes: SectionReader) => {
+  const sectionHeader = readBytes(SECTION_HEADER_LENGTH);
+  if (sectionHeader.length < SECTION_HEADER_LENGTH) {
+    throw new BackupArchiveError('notAnArchive', 'Encrypted backup is truncated');
+  }
+
+  const nonce = sectionHeader.slice(0, NONCE_LENGTH);
+  const length = new DataView(
+    sectionHeader.buffer,
+    sectionHeader.byteOffset,
+    sectionHeader.byteLength
+  ).getUint32(NONCE_LENGTH);
+  const ciphertext = readBytes(length);
+  if (ciphertext.length < length) {
+    throw new BackupArchiveError('notAnArchive', 'Encrypted backup is truncated');
+  }
+
+  try {
+    return gcm(key, nonce, header).decrypt(ciphertext);
+  } catch {
+    // GCM cannot tell a wrong key from a damaged file; a wrong passphrase is far more likely.
+    throw new BackupArchiveError('wrongPassphrase', 'Backup could not be decrypted');
+  }
+};
+
+const sequentialReader = (bytes: Uint8Array, start: number): SectionReader => {
+  let offset = start;
+  return (length) => {
+    const chunk = bytes.subarray(offset, offset + length);
+    offset += length;
+    return chunk;
+  };
+};
+
+/** Reads the header and decrypts only the manifest section through `readBytes`. */
+export const decryptBackupManifest = (
+  readBytes: SectionReader,
+  resolveKey: (header: EncryptedBackupHeader) => Uint8Array | null
+): Uint8Array | null => {
+  const header = readBytes(HEADER_LENGTH);
+  const key = resolveKey(readEncryptedBackupHeader(header));
+  return key ? decryptSection(key, header, readBytes) : null;
+};
+
+/** Decrypts a whole encrypted backup and returns the manifest and tar archive bytes. */
+export const decryptBackup = (
+  bytes: Uint8Array,
+  key: Uint8Array
+): { manifest: Uint8Array; archive: Uint8Array } => {
+  readEncryptedBackupHeader(bytes);
+  const header = bytes.subarray(0, HEADER_LENGTH);
+  const readBytes = sequentialReader(bytes, HEADER_LENGTH);
+
+  return {
+    manifest: decryptSection(key, header, readBytes),
+    archive: decryptSection(key, header, readBytes),
+  };
+};
@@ -0,0 +1,97 @@
+export type CsvDelimiter = ',' | ';' | '\t';
+
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+/**
+ * Guesses the delimiter from the first lines. Spreadsheets with a Norwegian locale save with
+ * semicolons, so the candidate that splits some line into the most fields wins.
+ */
+export const detectCsvDelimiter = (text: string): CsvDelimiter => {
+  const lines = text.split(/\r?\n/).slice(0, 20);
+  let best: CsvDelimiter = ',';
+  let bestCount = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    for (const line of lines) {
+      // Quoted sections are dropped so delimiters inside values do not count.
+      const count = line.replace(/"[^"]*"/g, '').split(delimiter).length - 1;
+      if (count > bestCount) {
+        best = delimiter;
+        bestCount = count;
+      }
+    }
+  }
+
+  return best;
+};
+
+export type CsvRecord = {
+  /** 1-based line the record starts on; quoted line breaks make records span several lines. */
+  lineNumber: number;
+  values: string[];
+};
+
+const isLineBreak = (input: string, index: number) =>
+  input[index] === '\n' || (input[index] === '\r' && input[index + 1] !== '\n');
+
+/**
+ * Parses RFC 4180 CSV into records of fields. Quoted fields may contain the delimiter, doubled
+ * quotes and line breaks. A leading byte order mark, as written by Excel, is ignored.
+ */
+export const parseCsvRecords = (
+  text: string,
+  delimiter: CsvDelimiter = detectCsvDelimiter(text)
+): CsvRecord[] => {
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+        if (isLineBreak(input, index)) {
+          line += 1;
+        }
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(field);
+      records.push({ lineNumber: recordLine, values: row });
+      row = [];
+      field = '';
+      line += 1;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    records.push({ lineNumber: recordLine, values: row });
+  }
+
+  return records;
+};
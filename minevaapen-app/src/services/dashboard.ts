@@ -0,0 +1,104 @@
+import { fetchProgramCompetitionProgress } from '@/src/database/competitions-repository';
+import { fetchValidMembershipOrganizationIds } from '@/src/database/memberships-repository';
+import {
+  fetchOrganizations,
+  type OrganizationRecord,
+} from '@/src/database/organizations-repository';
+import {
+  fetchOrganizationWeaponCounts,
+  fetchProgramUsage,
+  type ProgramUsage,
+} from '@/src/database/weapons-repository';
+import {
+  hasMetCompetitionRequirements,
+  MAX_RESERVE_WEAPONS_PER_PROGRAM,
+  type CompetitionCounts,
+} from '@/src/rules/reserve-eligibility';
+
+export type DashboardAlert = 'competitionsMissing' | 'reserveLimitReached' | 'reserveLimitExceeded';
+
+export type DashboardProgram = ProgramUsage & {
+  competitions: CompetitionCounts;
+  alerts: DashboardAlert[];
+};
+
+export type DashboardOrganization = {
+  organization: OrganizationRecord;
+  weaponCount: number;
+  reserveCount: number;
+  programs: DashboardProgram[];
+};
+
+const EMPTY_COMPETITION_COUNTS: CompetitionCounts = {
+  totalCount: 0,
+  openCount: 0,
+  internationalCount: 0,
+};
+
+const getProgramAlerts = (program: ProgramUsage, competitions: CompetitionCounts) => {
+  const alerts: DashboardAlert[] = [];
+
+  if (program.reserveCount > 0 && !hasMetCompetitionRequirements(competitions)) {
+    alerts.push('competitionsMissing');
+  }
+
+  if (program.reserveCount > MAX_RESERVE_WEAPONS_PER_PROGRAM) {
+    alerts.push('reserveLimitExceeded');
+  } else if (program.isReserveAllowed && program.reserveCount === MAX_RESERVE_WEAPONS_PER_PROGRAM) {
+    alerts.push('reserveLimitReached');
+  }
+
+  return alerts;
+};
+
+/**
+ * One card per member organization with the programs that hold approved weapons. Programs
+ * that need attention are sorted first; programs without weapons are left out.
+ */
+export const loadDashboard = async (
+  referenceDate: Date = new Date()
+): Promise<DashboardOrganization[]> => {
+  const memberOrganizationIds = await fetchValidMembershipOrganizationIds(referenceDate);
+  const organizations = (await fetchOrganizations()).filter((org) =>
+    memberOrganizationIds.includes(org.id)
+  );
+  if (memberOrganizationIds.length === 0) {
+    return [];
+  }
+
+  const [programs, progress, weaponCounts] = await Promise.all([
+    fetchProgramUsage(null, memberOrganizationIds),
+    fetchProgramCompetitionProgress(memberOrganizationIds, referenceDate),
+    fetchOrganizationWeaponCounts(),
+  ]);
+
+  const progressByProgram = new Map(progress.map((item) => [item.programId, item]));
+  const countsByOrganization = new Map(weaponCounts.map((item) => [item.organizationId, item]));
+
+  return organizations.map((organization) => {
+    const organizationPrograms = programs
+      .filter((program) => program.organizationId === organization.id && program.weaponCount > 0)
+      .map((program) => {
+        const competitions = progressByProgram.get(program.id) ?? EMPTY_COMPETITION_COUNTS;
+        return {
+          ...program,
+          competitions: {
+            totalCount: competitions.totalCount,
+            openCount: competitions.openCount,
+            internationalCount: competitions.internationalCount,
+          },
+          alerts: getProgramAlerts(program, competitions),
+        };
+      })
+      .sort((a, b) => Number(b.alerts.length > 0) - Number(a.alerts.length > 0));
+
+    const counts = countsByOrganization.get(organization.id);
+
+    return {
+      organization,
+      weaponCount: counts?.weaponCount ?? 0,
+      reserveCount: counts?.reserveCount ?? 0,
+      programs: organizationPrograms,
+    };
+  });
+};
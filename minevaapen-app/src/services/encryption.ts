@@ -0,0 +1,238 @@
+import { hmac } from '@noble/hashes/hmac';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+import * as FileSystem from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+
+import {
+  closeDatabase,
+  DATABASE_FILE_URI,
+  getDatabase,
+  importPlaintextDatabase,
+  isDatabaseFileEncrypted,
+  rekeyDatabase,
+  setDatabaseKey,
+  tryDatabaseKey,
+} from '@/src/database/db';
+import { BACKUP_SALT_LENGTH, type EncryptedBackupHeader } from '@/src/services/backup-encryption';
+
+/**
+ * The database key combines the user's passphrase with a random secret that never leaves this
+ * device, so a copied database file is useless without both. The derived key is kept in secure
+ * storage so the app opens without asking for the passphrase; on the device the database is
+ * therefore only as safe as the keychain and screen lock, and the passphrase protects backups.
+ * Backups cannot depend on the device secret, so they are encrypted with a key derived from the
+ * passphrase alone.
+ */
+
+const DEVICE_SECRET_KEY = 'minevaapen.deviceSecret';
+const DATABASE_KEY_KEY = 'minevaapen.databaseKey';
+/** Written before a re-key and removed once the new key is stored as the database key. */
+const PENDING_DATABASE_KEY_KEY = 'minevaapen.pendingDatabaseKey';
+const BACKUP_KEY_KEY = 'minevaapen.backupKey';
+
+const DEVICE_SECRET_LENGTH = 32;
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const BACKUP_KDF_ITERATIONS = 100_000;
+
+const SECURE_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.WHEN_UNLOCKED_THIS_DEVICE_ONLY,
+};
+
+export type PassphraseErrorCode = 'tooShort' | 'incorrect';
+
+export class PassphraseError extends Error {
+  readonly code: PassphraseErrorCode;
+
+  constructor(code: PassphraseErrorCode, message: string) {
+    super(message);
+    this.name = 'PassphraseError';
+    this.code = code;
+  }
+}
+
+/** The stored backup key, kept so scheduled backups do not have to ask for the passphrase. */
+export type BackupKey = EncryptedBackupHeader & {
+  key: Uint8Array;
+};
+
+type StoredBackupKey = {
+  salt: string;
+  iterations: number;
+  key: string;
+};
+
+const assertPassphrase = (passphrase: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new PassphraseError(
+      'tooShort',
+      `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`
+    );
+  }
+};
+
+const getOrCreateDeviceSecret = async (): Promise<string> => {
+  const existing = await SecureStore.getItemAsync(DEVICE_SECRET_KEY, SECURE_STORE_OPTIONS);
+  if (existing) {
+    return existing;
+  }
+
+  const secret = bytesToHex(Crypto.getRandomBytes(DEVICE_SECRET_LENGTH));
+  await SecureStore.setItemAsync(DEVICE_SECRET_KEY, secret, SECURE_STORE_OPTIONS);
+  return secret;
+};
+
+/** SQLCipher runs its own key derivation on this value, so a single HMAC is enough here. */
+const deriveDatabaseKey = (passphrase: string, deviceSecret: string) =>
+  bytesToHex(hmac(sha256, hexToBytes(deviceSecret), utf8ToBytes(passphrase)));
+
+export const deriveBackupKey = (
+  passphrase: string,
+  { salt, iterations }: EncryptedBackupHeader
+): Promise<Uint8Array> => pbkdf2Async(sha256, passphrase, salt, { c: iterations, dkLen: 32 });
+
+const createBackupKey = async (passphrase: string): Promise<BackupKey> => {
+  const header = {
+    salt: Crypto.getRandomBytes(BACKUP_SALT_LENGTH),
+    iterations: BACKUP_KDF_ITERATIONS,
+  };
+  return { ...header, key: await deriveBackupKey(passphrase, header) };
+};
+
+const storeBackupKey = async ({ salt, iterations, key }: BackupKey) => {
+  const stored: StoredBackupKey = { salt: bytesToHex(salt), iterations, key: bytesToHex(key) };
+  await SecureStore.setItemAsync(BACKUP_KEY_KEY, JSON.stringify(stored), SECURE_STORE_OPTIONS);
+};
+
+export const getBackupKey = async (): Promise<BackupKey | null> => {
+  const value = await SecureStore.getItemAsync(BACKUP_KEY_KEY, SECURE_STORE_OPTIONS);
+  if (!value) {
+    return null;
+  }
+
+  const stored = JSON.parse(value) as StoredBackupKey;
+  return {
+    salt: hexToBytes(stored.salt),
+    iterations: stored.iterations,
+    key: hexToBytes(stored.key),
+  };
+};
+
+const commitDatabaseKey = async (key: string) => {
+  await SecureStore.setItemAsync(DATABASE_KEY_KEY, key, SECURE_STORE_OPTIONS);
+  await SecureStore.deleteItemAsync(PENDING_DATABASE_KEY_KEY, SECURE_STORE_OPTIONS);
+};
+
+/**
+ * Hands the stored database key to the database module. Returns false when encryption has not
+ * been set up on this device yet, in which case the setup flow has to run first.
+ *
+ * A pending key means a passphrase change was interrupted, so either key may open the database;
+ * the one that does becomes the stored key.
+ */
+export const loadEncryptionKey = async (): Promise<boolean> => {
+  const key = await SecureStore.getItemAsync(DATABASE_KEY_KEY, SECURE_STORE_OPTIONS);
+  const pendingKey = await SecureStore.getItemAsync(PENDING_DATABASE_KEY_KEY, SECURE_STORE_OPTIONS);
+
+  if (pendingKey) {
+    for (const candidate of [pendingKey, key]) {
+      if (candidate && (await tryDatabaseKey(candidate))) {
+        await commitDatabaseKey(candidate);
+        return true;
+      }
+    }
+    console.warn('Neither the stored nor the pending database key opens the database');
+  }
+
+  setDatabaseKey(key);
+  return key !== null;
+};
+
+/**
+ * Rewrites an unencrypted database from an earlier app version as an encrypted one. The plaintext
+ * copy is kept until the encrypted database has been written.
+ */
+const encryptExistingDatabase = async (databaseKey: string) => {
+  const plaintextUri = `${DATABASE_FILE_URI}.plaintext`;
+  const plaintextFile = new FileSystem.File(plaintextUri);
+  if (plaintextFile.exists) {
+    plaintextFile.delete();
+  }
+
+  // Fold the write-ahead log into the main file while it can still be opened without a key.
+  await getDatabase().execAsync('PRAGMA wal_checkpoint(TRUNCATE)');
+  await closeDatabase();
+  new FileSystem.File(DATABASE_FILE_URI).rename(plaintextFile.name);
+  for (const suffix of ['-wal', '-shm']) {
+    const sidecar = new FileSystem.File(`${DATABASE_FILE_URI}${suffix}`);
+    if (sidecar.exists) {
+      sidecar.delete();
+    }
+  }
+
+  setDatabaseKey(databaseKey);
+  try {
+    await importPlaintextDatabase(plaintextUri);
+  } catch (error) {
+    await closeDatabase();
+    setDatabaseKey(null);
+    const partial = new FileSystem.File(DATABASE_FILE_URI);
+    if (partial.exists) {
+      partial.delete();
+    }
+    new FileSystem.File(plaintextUri).rename(partial.name);
+    throw error;
+  }
+
+  new FileSystem.File(plaintextUri).delete();
+};
+
+/**
+ * Creates the device secret and keys for a new passphrase. An existing unencrypted database is
+ * encrypted in place; otherwise the database is created encrypted on first open.
+ */
+export const setUpEncryption = async (passphrase: string): Promise<void> => {
+  assertPassphrase(passphrase);
+
+  const deviceSecret = await getOrCreateDeviceSecret();
+  const databaseKey = deriveDatabaseKey(passphrase, deviceSecret);
+  const backupKey = await createBackupKey(passphrase);
+
+  if (isDatabaseFileEncrypted() === false) {
+    await encryptExistingDatabase(databaseKey);
+  } else {
+    await closeDatabase();
+    setDatabaseKey(databaseKey);
+  }
+
+  await commitDatabaseKey(databaseKey);
+  await storeBackupKey(backupKey);
+};
+
+/**
+ * Re-encrypts the database under a new passphrase. The new key is saved as pending before the
+ * re-key, so an interruption never leaves the database under a key that is not stored anywhere.
+ * Backups made before the change still need the old passphrase to be restored.
+ */
+export const changePassphrase = async (
+  currentPassphrase: string,
+  newPassphrase: string
+): Promise<void> => {
+  assertPassphrase(newPassphrase);
+
+  const deviceSecret = await getOrCreateDeviceSecret();
+  const storedKey = await SecureStore.getItemAsync(DATABASE_KEY_KEY, SECURE_STORE_OPTIONS);
+  if (!storedKey || deriveDatabaseKey(currentPassphrase, deviceSecret) !== storedKey) {
+    throw new PassphraseError('incorrect', 'Current passphrase is incorrect');
+  }
+
+  const databaseKey = deriveDatabaseKey(newPassphrase, deviceSecret);
+  const backupKey = await createBackupKey(newPassphrase);
+
+  await SecureStore.setItemAsync(PENDING_DATABASE_KEY_KEY, databaseKey, SECURE_STORE_OPTIONS);
+  await rekeyDatabase(databaseKey);
+  await commitDatabaseKey(databaseKey);
+  await storeBackupKey(backupKey);
+};
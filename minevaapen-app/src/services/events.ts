@@ -1,12 +1,15 @@
 import { EventEmitter } from 'expo-modules-core';
 
-const eventEmitter = new EventEmitter({} as any);
-
 export const DATABASE_EVENTS = {
   RESTORED: 'database_restored',
-};
+} as const;
+
+type DatabaseEvent = (typeof DATABASE_EVENTS)[keyof typeof DATABASE_EVENTS];
+
+const eventEmitter = new EventEmitter<Record<DatabaseEvent, () => void>>();
 
 export const databaseEvents = {
   emitRestored: () => eventEmitter.emit(DATABASE_EVENTS.RESTORED),
-  addListener: (event: string, listener: () => void) => eventEmitter.addListener(event, listener),
+  addListener: (event: DatabaseEvent, listener: () => void) =>
+    eventEmitter.addListener(event, listener),
 };
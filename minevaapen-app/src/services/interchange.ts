@@ -0,0 +1,519 @@
+import Constants from 'expo-constants';
+
+import { bundledCatalog } from '@/src/data/catalog';
+import { upsertMembershipRow } from '@/src/database/memberships-repository';
+import { fetchOrganizations } from '@/src/database/organizations-repository';
+import {
+  fetchShooterProfile,
+  saveShooterProfileRow,
+  SHOOTER_PROFILE_FIELDS,
+  type ShooterProfile,
+  type ShooterProfileInput,
+} from '@/src/database/shooter-profile-repository';
+import { runWithinExclusiveTransaction } from '@/src/database/sqlite-helpers';
+import {
+  fetchProgramUsage,
+  fetchWeapons,
+  OPERATION_MODES,
+  upsertWeaponRows,
+  WEAPON_TYPES,
+  type WeaponRecord,
+} from '@/src/database/weapons-repository';
+
+/**
+ * JSON interchange format for other tools. Unlike the CSV it keeps program status, per-program
+ * reserve flags, memberships and the profile. Built-in organizations and programs are referred to
+ * by id only; organizations and programs that are not part of the app's catalog travel along.
+ * The JSON Schema is published as `docs/schema/minevaapen-interchange-v1.schema.json`.
+ *
+ * Readers ignore properties they do not know. A writer that adds optional data keeps
+ * `minReaderVersion`; one that changes the meaning of existing data raises it, and readers refuse
+ * documents whose `minReaderVersion` is newer than their own `formatVersion`.
+ */
+
+export const INTERCHANGE_FORMAT = 'minevaapen-interchange';
+export const INTERCHANGE_FORMAT_VERSION = 1;
+
+export type InterchangeOrganization = {
+  id: string;
+  name: string;
+  shortName: string;
+  country: string | null;
+  orgNumber: string | null;
+};
+
+export type InterchangeProgram = {
+  id: string;
+  organizationId: string;
+  name: string;
+  weaponCategory: string | null;
+  isReserveAllowed: boolean;
+};
+
+export type InterchangeMembership = {
+  organizationId: string;
+  memberNumber: string | null;
+  clubName: string | null;
+  membershipYear: number | null;
+  /** Last valid day as `YYYY-MM-DD`. */
+  expiresAt: string | null;
+};
+
+export type InterchangeProgramLink = {
+  programId: string;
+  /** Informational; readers match on `programId`. */
+  programName: string | null;
+  organizationId: string | null;
+  status: 'approved' | 'pending' | 'proposed';
+  isReserve: boolean;
+};
+
+export type InterchangeWeapon = WeaponRecord & {
+  programs: InterchangeProgramLink[];
+};
+
+export type InterchangeDocument = {
+  format: typeof INTERCHANGE_FORMAT;
+  formatVersion: number;
+  minReaderVersion: number;
+  exportedAt: string;
+  appVersion: string | null;
+  profile: ShooterProfileInput | null;
+  organizations: InterchangeOrganization[];
+  programs: InterchangeProgram[];
+  memberships: InterchangeMembership[];
+  weapons: InterchangeWeapon[];
+};
+
+export type InterchangeErrorCode =
+  | 'invalidJson'
+  | 'unsupportedFormat'
+  | 'versionTooNew'
+  | 'invalidDocument';
+
+export class InterchangeError extends Error {
+  readonly code: InterchangeErrorCode;
+
+  constructor(code: InterchangeErrorCode, message: string) {
+    super(message);
+    this.name = 'InterchangeError';
+    this.code = code;
+  }
+}
+
+export type InterchangeImportResult = {
+  weapons: number;
+  programLinks: number;
+  /** Links to programs that neither this device nor the document knows about. */
+  skippedProgramLinks: number;
+  memberships: number;
+  organizations: number;
+  programs: number;
+  profile: boolean;
+};
+
+type JsonObject = Record<string, unknown>;
+
+const PROGRAM_LINK_STATUSES = ['approved', 'pending', 'proposed'] as const;
+const OWNERSHIP_STATUSES = ['own', 'loanIn', 'loanOut'] as const;
+
+const invalid = (path: string, expected: string) =>
+  new InterchangeError('invalidDocument', `${path} must be ${expected}`);
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readObject = (value: unknown, path: string): JsonObject => {
+  if (!isObject(value)) {
+    throw invalid(path, 'an object');
+  }
+  return value;
+};
+
+const readArray = <T>(
+  object: JsonObject,
+  key: string,
+  path: string,
+  readItem: (item: unknown, itemPath: string) => T
+): T[] => {
+  const value = object[key];
+  // Lists a writer has nothing for may be left out.
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw invalid(`${path}.${key}`, 'an array');
+  }
+  return value.map((item, index) => readItem(item, `${path}.${key}[${index}]`));
+};
+
+const readString = (object: JsonObject, key: string, path: string): string => {
+  const value = object[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw invalid(`${path}.${key}`, 'a non-empty string');
+  }
+  return value;
+};
+
+const readOptionalString = (object: JsonObject, key: string, path: string): string | null => {
+  const value = object[key];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw invalid(`${path}.${key}`, 'a string or null');
+  }
+  return value;
+};
+
+const readOptionalDate = (object: JsonObject, key: string, path: string): string | null => {
+  const value = readOptionalString(object, key, path);
+  if (value !== null && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw invalid(`${path}.${key}`, 'a YYYY-MM-DD date or null');
+  }
+  return value;
+};
+
+const readOptionalNumber = (object: JsonObject, key: string, path: string): number | null => {
+  const value = object[key];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw invalid(`${path}.${key}`, 'a number or null');
+  }
+  return value;
+};
+
+const readBoolean = (object: JsonObject, key: string, path: string, fallback: boolean) => {
+  const value = object[key];
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'boolean') {
+    throw invalid(`${path}.${key}`, 'a boolean');
+  }
+  return value;
+};
+
+const readEnum = <T extends string>(
+  object: JsonObject,
+  key: string,
+  path: string,
+  options: readonly T[],
+  fallback: T
+): T => {
+  const value = object[key];
+  if (value === undefined) {
+    return fallback;
+  }
+  if (!options.includes(value as T)) {
+    throw invalid(`${path}.${key}`, `one of ${options.join(', ')}`);
+  }
+  return value as T;
+};
+
+const readRequiredEnum = <T extends string>(
+  object: JsonObject,
+  key: string,
+  path: string,
+  options: readonly T[]
+): T => {
+  const value = readString(object, key, path);
+  if (!options.includes(value as T)) {
+    throw invalid(`${path}.${key}`, `one of ${options.join(', ')}`);
+  }
+  return value as T;
+};
+
+const readOptionalEnum = <T extends string>(
+  object: JsonObject,
+  key: string,
+  path: string,
+  options: readonly T[]
+): T | null => {
+  const value = readOptionalString(object, key, path);
+  if (value !== null && !options.includes(value as T)) {
+    throw invalid(`${path}.${key}`, `one of ${options.join(', ')} or null`);
+  }
+  return value as T | null;
+};
+
+const readProfile = (value: unknown, path: string): ShooterProfileInput | null => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const object = readObject(value, path);
+  const profile = {} as ShooterProfileInput;
+  for (const field of SHOOTER_PROFILE_FIELDS) {
+    profile[field] =
+      field === 'dateOfBirth'
+        ? readOptionalDate(object, field, path)
+        : readOptionalString(object, field, path);
+  }
+  return profile;
+};
+
+const readOrganization = (value: unknown, path: string): InterchangeOrganization => {
+  const object = readObject(value, path);
+  return {
+    id: readString(object, 'id', path),
+    name: readString(object, 'name', path),
+    shortName: readString(object, 'shortName', path),
+    country: readOptionalString(object, 'country', path),
+    orgNumber: readOptionalString(object, 'orgNumber', path),
+  };
+};
+
+const readProgram = (value: unknown, path: string): InterchangeProgram => {
+  const object = readObject(value, path);
+  return {
+    id: readString(object, 'id', path),
+    organizationId: readString(object, 'organizationId', path),
+    name: readString(object, 'name', path),
+    weaponCategory: readOptionalString(object, 'weaponCategory', path),
+    isReserveAllowed: readBoolean(object, 'isReserveAllowed', path, true),
+  };
+};
+
+const readMembership = (value: unknown, path: string): InterchangeMembership => {
+  const object = readObject(value, path);
+  return {
+    organizationId: readString(object, 'organizationId', path),
+    memberNumber: readOptionalString(object, 'memberNumber', path),
+    clubName: readOptionalString(object, 'clubName', path),
+    membershipYear: readOptionalNumber(object, 'membershipYear', path),
+    expiresAt: readOptionalDate(object, 'expiresAt', path),
+  };
+};
+
+const readProgramLink = (value: unknown, path: string): InterchangeProgramLink => {
+  const object = readObject(value, path);
+  return {
+    programId: readString(object, 'programId', path),
+    programName: readOptionalString(object, 'programName', path),
+    organizationId: readOptionalString(object, 'organizationId', path),
+    status: readEnum(object, 'status', path, PROGRAM_LINK_STATUSES, 'approved'),
+    isReserve: readBoolean(object, 'isReserve', path, false),
+  };
+};
+
+const readWeapon = (value: unknown, path: string): InterchangeWeapon => {
+  const object = readObject(value, path);
+  return {
+    id: readString(object, 'id', path),
+    displayName: readString(object, 'displayName', path),
+    type: readRequiredEnum(object, 'type', path, WEAPON_TYPES),
+    manufacturer: readOptionalString(object, 'manufacturer', path),
+    model: readOptionalString(object, 'model', path),
+    serialNumber: readOptionalString(object, 'serialNumber', path),
+    acquisitionDate: readOptionalDate(object, 'acquisitionDate', path),
+    acquisitionPrice: readOptionalNumber(object, 'acquisitionPrice', path),
+    weaponCardRef: readOptionalString(object, 'weaponCardRef', path),
+    notes: readOptionalString(object, 'notes', path),
+    operationMode: readOptionalEnum(object, 'operationMode', path, OPERATION_MODES),
+    caliber: readOptionalString(object, 'caliber', path),
+    ownershipStatus: readEnum(object, 'ownershipStatus', path, OWNERSHIP_STATUSES, 'own'),
+    loanContactName: readOptionalString(object, 'loanContactName', path),
+    loanStartDate: readOptionalDate(object, 'loanStartDate', path),
+    loanEndDate: readOptionalDate(object, 'loanEndDate', path),
+    programs: readArray(object, 'programs', path, readProgramLink),
+  };
+};
+
+/**
+ * Checks a document against the format and returns it with defaults filled in. Throws an
+ * `InterchangeError` naming the first offending path, e.g. `$.weapons[2].type`.
+ */
+export const validateInterchangeDocument = (value: unknown): InterchangeDocument => {
+  const root = readObject(value, '$');
+
+  if (root.format !== INTERCHANGE_FORMAT) {
+    throw new InterchangeError('unsupportedFormat', 'Document is not a Mine Våpen export');
+  }
+
+  const formatVersion = root.formatVersion;
+  if (typeof formatVersion !== 'number' || !Number.isInteger(formatVersion) || formatVersion < 1) {
+    throw invalid('$.formatVersion', 'a positive integer');
+  }
+
+  const minReaderVersion = root.minReaderVersion ?? formatVersion;
+  if (typeof minReaderVersion !== 'number' || !Number.isInteger(minReaderVersion)) {
+    throw invalid('$.minReaderVersion', 'an integer');
+  }
+  if (minReaderVersion > INTERCHANGE_FORMAT_VERSION) {
+    throw new InterchangeError(
+      'versionTooNew',
+      `Document needs format version ${minReaderVersion}, ` +
+        `this app reads up to ${INTERCHANGE_FORMAT_VERSION}`
+    );
+  }
+
+  return {
+    format: INTERCHANGE_FORMAT,
+    formatVersion,
+    minReaderVersion,
+    exportedAt: readString(root, 'exportedAt', '$'),
+    appVersion: readOptionalString(root, 'appVersion', '$'),
+    profile: readProfile(root.profile, '$.profile'),
+    organizations: readArray(root, 'organizations', '$', readOrganization),
+    programs: readArray(root, 'programs', '$', readProgram),
+    memberships: readArray(root, 'memberships', '$', readMembership),
+    weapons: readArray(root, 'weapons', '$', readWeapon),
+  };
+};
+
+export const parseInterchangeDocument = (json: string): InterchangeDocument => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new InterchangeError('invalidJson', 'File is not valid JSON');
+  }
+  return validateInterchangeDocument(value);
+};
+
+const toProfileInput = ({ updatedAt: _updatedAt, ...profile }: ShooterProfile) => profile;
+
+export const buildInterchangeDocument = async (): Promise<InterchangeDocument> => {
+  const [storedProfile, organizations, programs, weapons] = await Promise.all([
+    fetchShooterProfile(),
+    fetchOrganizations(),
+    fetchProgramUsage(),
+    fetchWeapons(),
+  ]);
+  const seededOrganizationIds = new Set(bundledCatalog.organizations.map((org) => org.id));
+  const seededProgramIds = new Set(bundledCatalog.programs.map((program) => program.id));
+
+  return {
+    format: INTERCHANGE_FORMAT,
+    formatVersion: INTERCHANGE_FORMAT_VERSION,
+    minReaderVersion: 1,
+    exportedAt: new Date().toISOString(),
+    appVersion: Constants.expoConfig?.version ?? null,
+    profile: storedProfile ? toProfileInput(storedProfile) : null,
+    organizations: organizations
+      .filter((org) => !seededOrganizationIds.has(org.id))
+      .map(({ id, name, shortName, country, orgNumber }) => ({
+        id,
+        name,
+        shortName,
+        country,
+        orgNumber,
+      })),
+    programs: programs
+      .filter((program) => !seededProgramIds.has(program.id))
+      .map((program) => ({
+        id: program.id,
+        organizationId: program.organizationId,
+        name: program.name,
+        weaponCategory: program.weaponCategory,
+        isReserveAllowed: Boolean(program.isReserveAllowed),
+      })),
+    memberships: organizations.flatMap((org) =>
+      org.membership
+        ? [
+            {
+              organizationId: org.id,
+              memberNumber: org.membership.memberNumber,
+              clubName: org.membership.clubName,
+              membershipYear: org.membership.membershipYear,
+              expiresAt: org.membership.expiresAt,
+            },
+          ]
+        : []
+    ),
+    weapons: weapons.map(({ programs: links, coverPhotoUri: _coverPhotoUri, ...weapon }) => ({
+      ...weapon,
+      programs: links.map((link) => ({
+        programId: link.programId,
+        programName: link.programName,
+        organizationId: link.organizationId,
+        status: link.status,
+        isReserve: link.isReserve,
+      })),
+    })),
+  };
+};
+
+/**
+ * Adds the document to the register in one transaction, so a failure leaves the device as it was.
+ * Weapons and memberships with the same id are overwritten, everything else on the device is
+ * kept. Catalog entries that already exist are left untouched.
+ */
+export const importInterchangeDocument = async (
+  document: InterchangeDocument
+): Promise<InterchangeImportResult> => {
+  const result: InterchangeImportResult = {
+    weapons: 0,
+    programLinks: 0,
+    skippedProgramLinks: 0,
+    memberships: 0,
+    organizations: 0,
+    programs: 0,
+    profile: false,
+  };
+
+  await runWithinExclusiveTransaction(async (db) => {
+    for (const org of document.organizations) {
+      const { changes } = await db.runAsync(
+        `INSERT OR IGNORE INTO organizations (id, name, shortName, country, orgNumber)
+         VALUES (?, ?, ?, ?, ?)`,
+        [org.id, org.name, org.shortName, org.country, org.orgNumber]
+      );
+      result.organizations += changes;
+    }
+
+    for (const program of document.programs) {
+      const { changes } = await db.runAsync(
+        `INSERT OR IGNORE INTO programs (id, organizationId, name, weaponCategory, isReserveAllowed)
+         SELECT ?, ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM organizations WHERE id = ?)`,
+        [
+          program.id,
+          program.organizationId,
+          program.name,
+          program.weaponCategory,
+          program.isReserveAllowed ? 1 : 0,
+          program.organizationId,
+        ]
+      );
+      result.programs += changes;
+    }
+
+    const [organizationRows, programRows] = await Promise.all([
+      db.getAllAsync<{ id: string }>('SELECT id FROM organizations'),
+      db.getAllAsync<{ id: string }>('SELECT id FROM programs'),
+    ]);
+    const organizationIds = new Set(organizationRows.map((row) => row.id));
+    const programIds = new Set(programRows.map((row) => row.id));
+
+    for (const membership of document.memberships) {
+      if (organizationIds.has(membership.organizationId)) {
+        await upsertMembershipRow(db, membership);
+        result.memberships += 1;
+      }
+    }
+
+    if (document.profile) {
+      await saveShooterProfileRow(db, document.profile);
+      result.profile = true;
+    }
+
+    for (const { programs, ...weapon } of document.weapons) {
+      const links = programs.filter((link) => programIds.has(link.programId));
+      await upsertWeaponRows(db, {
+        ...weapon,
+        programs: links.map(({ programId, status, isReserve }) => ({
+          programId,
+          status,
+          isReserve,
+        })),
+      });
+      result.weapons += 1;
+      result.programLinks += links.length;
+      result.skippedProgramLinks += programs.length - links.length;
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,135 @@
+import type { CatalogOrganization, CatalogProgram, ProgramCatalog } from '@/src/data/catalog';
+
+/**
+ * Reads a program catalog file in the format of `src/data/catalog.json`, so organizations and
+ * programs can be updated from a file before the next app release ships the new list.
+ */
+
+export type CatalogErrorCode = 'invalidJson' | 'invalidCatalog' | 'versionTooOld';
+
+export class CatalogError extends Error {
+  readonly code: CatalogErrorCode;
+
+  constructor(code: CatalogErrorCode, message: string) {
+    super(message);
+    this.name = 'CatalogError';
+    this.code = code;
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+const WEAPON_CATEGORIES: readonly CatalogProgram['weaponCategory'][] = [
+  'pistol',
+  'revolver',
+  'rifle',
+  'shotgun',
+];
+
+const invalid = (path: string, expected: string) =>
+  new CatalogError('invalidCatalog', `${path} must be ${expected}`);
+
+const readObject = (value: unknown, path: string): JsonObject => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalid(path, 'an object');
+  }
+  return value as JsonObject;
+};
+
+const readList = (object: JsonObject, key: string): unknown[] => {
+  const value = object[key];
+  if (!Array.isArray(value)) {
+    throw invalid(`$.${key}`, 'an array');
+  }
+  return value;
+};
+
+const readString = (object: JsonObject, key: string, path: string): string => {
+  const value = object[key];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw invalid(`${path}.${key}`, 'a non-empty string');
+  }
+  return value.trim();
+};
+
+const readOrganization = (value: unknown, path: string): CatalogOrganization => {
+  const object = readObject(value, path);
+  return {
+    id: readString(object, 'id', path),
+    name: readString(object, 'name', path),
+    shortName: readString(object, 'shortName', path),
+    country: readString(object, 'country', path),
+    orgNumber: readString(object, 'orgNumber', path),
+  };
+};
+
+const readProgram = (value: unknown, path: string): CatalogProgram => {
+  const object = readObject(value, path);
+  const weaponCategory = object.weaponCategory;
+  if (!WEAPON_CATEGORIES.includes(weaponCategory as CatalogProgram['weaponCategory'])) {
+    throw invalid(`${path}.weaponCategory`, `one of ${WEAPON_CATEGORIES.join(', ')}`);
+  }
+  if (typeof object.isReserveAllowed !== 'boolean') {
+    throw invalid(`${path}.isReserveAllowed`, 'a boolean');
+  }
+
+  return {
+    id: readString(object, 'id', path),
+    organizationId: readString(object, 'organizationId', path),
+    name: readString(object, 'name', path),
+    weaponCategory: weaponCategory as CatalogProgram['weaponCategory'],
+    isReserveAllowed: object.isReserveAllowed,
+  };
+};
+
+const ensureUniqueIds = (items: { id: string }[], key: string) => {
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (seen.has(item.id)) {
+      throw new CatalogError('invalidCatalog', `$.${key} lists id ${item.id} more than once`);
+    }
+    seen.add(item.id);
+  }
+};
+
+/** Checks structure, ids and that every program belongs to an organization in the catalog. */
+export const validateProgramCatalog = (value: unknown): ProgramCatalog => {
+  const root = readObject(value, '$');
+
+  const catalogVersion = root.catalogVersion;
+  if (
+    typeof catalogVersion !== 'number' ||
+    !Number.isInteger(catalogVersion) ||
+    catalogVersion < 1
+  ) {
+    throw invalid('$.catalogVersion', 'a positive integer');
+  }
+
+  const organizations = readList(root, 'organizations').map((item, index) =>
+    readOrganization(item, `$.organizations[${index}]`)
+  );
+  const programs = readList(root, 'programs').map((item, index) =>
+    readProgram(item, `$.programs[${index}]`)
+  );
+  ensureUniqueIds(organizations, 'organizations');
+  ensureUniqueIds(programs, 'programs');
+
+  const organizationIds = new Set(organizations.map((org) => org.id));
+  programs.forEach((program, index) => {
+    if (!organizationIds.has(program.organizationId)) {
+      throw invalid(`$.programs[${index}].organizationId`, 'an organization in the catalog');
+    }
+  });
+
+  return { catalogVersion, organizations, programs };
+};
+
+export const parseProgramCatalog = (json: string): ProgramCatalog => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new CatalogError('invalidJson', 'File is not valid JSON');
+  }
+  return validateProgramCatalog(value);
+};
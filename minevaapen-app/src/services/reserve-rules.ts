@@ -0,0 +1,31 @@
+import { fetchProgramCompetitionProgress } from '@/src/database/competitions-repository';
+import { fetchValidMembershipOrganizationIds } from '@/src/database/memberships-repository';
+import { fetchProgramUsage, fetchReserveAssignments } from '@/src/database/weapons-repository';
+import {
+  buildReserveRuleContext,
+  type ReserveRuleContext,
+} from '@/src/rules/reserve-eligibility';
+
+export const loadReserveRuleContext = async (
+  referenceDate: Date = new Date()
+): Promise<ReserveRuleContext> => {
+  const [programs, reserveAssignments, competitionCounts, memberOrganizationIds] =
+    await Promise.all([
+      fetchProgramUsage(),
+      fetchReserveAssignments(),
+      fetchProgramCompetitionProgress(null, referenceDate),
+      fetchValidMembershipOrganizationIds(referenceDate),
+    ]);
+
+  return buildReserveRuleContext({
+    programs: programs.map((program) => ({
+      id: program.id,
+      name: program.name,
+      organizationId: program.organizationId,
+      isReserveAllowed: Boolean(program.isReserveAllowed),
+    })),
+    reserveAssignments,
+    competitionCounts,
+    memberOrganizationIds,
+  });
+};
@@ -0,0 +1,193 @@
+import type {
+  SnapshotData,
+  SnapshotProgramLink,
+  SnapshotWeapon,
+} from '@/src/database/backup-snapshot';
+
+/**
+ * Changes are described from the backup's point of view: `added` exists only in the backup,
+ * `removed` exists only on this device and `changed` differs between the two.
+ */
+export type DiffChange = 'added' | 'removed' | 'changed';
+
+export const COMPARED_WEAPON_FIELDS = [
+  'displayName',
+  'type',
+  'manufacturer',
+  'model',
+  'serialNumber',
+  'acquisitionDate',
+  'acquisitionPrice',
+  'weaponCardRef',
+  'notes',
+  'operationMode',
+  'caliber',
+  'ownershipStatus',
+  'loanContactName',
+  'loanStartDate',
+  'loanEndDate',
+] as const satisfies readonly (keyof SnapshotWeapon)[];
+
+export type ComparedWeaponField = (typeof COMPARED_WEAPON_FIELDS)[number];
+
+type LinkState = Pick<SnapshotProgramLink, 'status' | 'isReserve'>;
+
+export type ProgramLinkDiff = {
+  programId: string;
+  programName: string;
+  change: DiffChange;
+  current: LinkState | null;
+  backup: LinkState | null;
+};
+
+export type WeaponDiff = {
+  weaponId: string;
+  displayName: string;
+  change: DiffChange;
+  changedFields: ComparedWeaponField[];
+  programLinks: ProgramLinkDiff[];
+  currentUpdatedAt: string | null;
+  backupUpdatedAt: string | null;
+};
+
+export type MembershipDiff = {
+  organizationId: string;
+  name: string;
+  current: boolean;
+  backup: boolean;
+};
+
+export type RestoreDiff = {
+  weapons: WeaponDiff[];
+  memberships: MembershipDiff[];
+  unchangedWeaponCount: number;
+};
+
+const CHANGE_ORDER: Record<DiffChange, number> = { added: 0, changed: 1, removed: 2 };
+
+const normalize = (value: string | number | null | undefined) =>
+  value === undefined || value === '' ? null : value;
+
+const groupLinks = (links: SnapshotProgramLink[]) => {
+  const byWeapon = new Map<string, Map<string, SnapshotProgramLink>>();
+  for (const link of links) {
+    const weaponLinks = byWeapon.get(link.weaponId) ?? new Map<string, SnapshotProgramLink>();
+    weaponLinks.set(link.programId, link);
+    byWeapon.set(link.weaponId, weaponLinks);
+  }
+  return byWeapon;
+};
+
+const diffProgramLinks = (
+  currentLinks: Map<string, SnapshotProgramLink> | undefined,
+  backupLinks: Map<string, SnapshotProgramLink> | undefined
+): ProgramLinkDiff[] => {
+  const programIds = new Set([...(currentLinks?.keys() ?? []), ...(backupLinks?.keys() ?? [])]);
+  const diffs: ProgramLinkDiff[] = [];
+
+  for (const programId of programIds) {
+    const current = currentLinks?.get(programId) ?? null;
+    const backup = backupLinks?.get(programId) ?? null;
+    const programName = backup?.programName ?? current?.programName ?? programId;
+
+    if (current && backup) {
+      if (current.status !== backup.status || current.isReserve !== backup.isReserve) {
+        diffs.push({
+          programId,
+          programName,
+          change: 'changed',
+          current: { status: current.status, isReserve: current.isReserve },
+          backup: { status: backup.status, isReserve: backup.isReserve },
+        });
+      }
+    } else if (backup) {
+      diffs.push({
+        programId,
+        programName,
+        change: 'added',
+        current: null,
+        backup: { status: backup.status, isReserve: backup.isReserve },
+      });
+    } else if (current) {
+      diffs.push({
+        programId,
+        programName,
+        change: 'removed',
+        current: { status: current.status, isReserve: current.isReserve },
+        backup: null,
+      });
+    }
+  }
+
+  return diffs.sort((a, b) => a.programName.localeCompare(b.programName));
+};
+
+/** Compares the live data with a backup snapshot; weapons and links are matched by id. */
+export const diffSnapshots = (current: SnapshotData, backup: SnapshotData): RestoreDiff => {
+  const currentWeapons = new Map(current.weapons.map((weapon) => [weapon.id, weapon]));
+  const backupWeapons = new Map(backup.weapons.map((weapon) => [weapon.id, weapon]));
+  const currentLinks = groupLinks(current.programLinks);
+  const backupLinks = groupLinks(backup.programLinks);
+  const weaponIds = new Set([...currentWeapons.keys(), ...backupWeapons.keys()]);
+
+  const weapons: WeaponDiff[] = [];
+  let unchangedWeaponCount = 0;
+
+  for (const weaponId of weaponIds) {
+    const currentWeapon = currentWeapons.get(weaponId) ?? null;
+    const backupWeapon = backupWeapons.get(weaponId) ?? null;
+    const programLinks = diffProgramLinks(currentLinks.get(weaponId), backupLinks.get(weaponId));
+    const changedFields =
+      currentWeapon && backupWeapon
+        ? COMPARED_WEAPON_FIELDS.filter(
+            (field) => normalize(currentWeapon[field]) !== normalize(backupWeapon[field])
+          )
+        : [];
+
+    const change: DiffChange | null = !currentWeapon
+      ? 'added'
+      : !backupWeapon
+        ? 'removed'
+        : changedFields.length > 0 || programLinks.length > 0
+          ? 'changed'
+          : null;
+
+    if (!change) {
+      unchangedWeaponCount += 1;
+      continue;
+    }
+
+    weapons.push({
+      weaponId,
+      displayName: backupWeapon?.displayName ?? currentWeapon?.displayName ?? weaponId,
+      change,
+      changedFields,
+      programLinks,
+      currentUpdatedAt: currentWeapon?.updatedAt ?? null,
+      backupUpdatedAt: backupWeapon?.updatedAt ?? null,
+    });
+  }
+
+  weapons.sort(
+    (a, b) =>
+      CHANGE_ORDER[a.change] - CHANGE_ORDER[b.change] ||
+      a.displayName.localeCompare(b.displayName)
+  );
+
+  const currentMembership = new Map(
+    current.organizations.map((organization) => [organization.id, organization.isMember])
+  );
+  const memberships: MembershipDiff[] = backup.organizations
+    .filter(
+      (organization) =>
+        (currentMembership.get(organization.id) ?? false) !== organization.isMember
+    )
+    .map((organization) => ({
+      organizationId: organization.id,
+      name: organization.name,
+      current: currentMembership.get(organization.id) ?? false,
+      backup: organization.isMember,
+    }));
+
+  return { weapons, memberships, unchangedWeaponCount };
+};
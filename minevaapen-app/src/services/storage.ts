@@ -1,16 +1,101 @@
+import Constants from 'expo-constants';
 import * as FileSystem from 'expo-file-system';
-
-import { closeDatabase } from '@/src/database/db';
-import { fetchWeapons } from '@/src/database/weapons-repository';
+import * as Print from 'expo-print';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import type { ProgramCatalog } from '@/src/data/catalog';
+import {
+  inspectBackupDatabase,
+  type BackupDatabaseSummary,
+} from '@/src/database/backup-inspection';
+import {
+  mergeSnapshotSelection,
+  openBackupSnapshot,
+  readSnapshotData,
+  type MergeResult,
+  type MergeSelection,
+} from '@/src/database/backup-snapshot';
+import {
+  applyProgramCatalog,
+  getCatalogVersion,
+  type CatalogChangelog,
+} from '@/src/database/catalog-sync';
+import {
+  closeDatabase,
+  DATABASE_FILE_URI,
+  exportPlaintextDatabase,
+  importPlaintextDatabase,
+} from '@/src/database/db';
+import { getSchemaVersion, LATEST_SCHEMA_VERSION, runMigrations } from '@/src/database/migrations';
+import { runSql } from '@/src/database/sqlite-helpers';
+import type { WeaponFilters } from '@/src/database/weapons-repository';
+import {
+  BACKUP_DATABASE_PATH,
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  BACKUP_MANIFEST_PATH,
+  BackupArchiveError,
+  createTarArchive,
+  encodeText,
+  isTarArchive,
+  parseBackupManifest,
+  peekBackupManifest,
+  readTarArchive,
+  sha256Hex,
+  standaloneBytes,
+  validateBackupArchive,
+  type ArchiveEntry,
+  type BackupManifest,
+} from '@/src/services/backup-archive';
+import {
+  decryptBackup,
+  decryptBackupManifest,
+  ENCRYPTED_BACKUP_EXTENSION,
+  isEncryptedBackup,
+  readEncryptedBackupHeader,
+  writeEncryptedBackup,
+  type EncryptedBackupHeader,
+} from '@/src/services/backup-encryption';
+import { deriveBackupKey, getBackupKey, type BackupKey } from '@/src/services/encryption';
 import { databaseEvents } from '@/src/services/events';
+import {
+  buildInterchangeDocument,
+  importInterchangeDocument,
+  parseInterchangeDocument,
+  type InterchangeDocument,
+  type InterchangeImportResult,
+} from '@/src/services/interchange';
+import { CatalogError, parseProgramCatalog } from '@/src/services/program-catalog';
+import { diffSnapshots, type RestoreDiff } from '@/src/services/restore-diff';
+import {
+  buildWeaponsCsv,
+  DEFAULT_CSV_EXPORT_OPTIONS,
+  type CsvExportOptions,
+} from '@/src/services/weapon-csv';
+import {
+  buildWeaponReportHtml,
+  loadWeaponReport,
+  type WeaponReportOptions,
+} from '@/src/services/weapon-report';
 
 const DOCUMENT_DIRECTORY = FileSystem.Paths.document.uri;
 const SQLITE_DIRECTORY = FileSystem.Paths.join(DOCUMENT_DIRECTORY, 'SQLite');
 const BACKUP_DIRECTORY = FileSystem.Paths.join(DOCUMENT_DIRECTORY, 'backups');
 const EXPORT_DIRECTORY = FileSystem.Paths.join(DOCUMENT_DIRECTORY, 'exports');
-const DATABASE_NAME = 'minevaapen.db';
-
-const DB_PATH = FileSystem.Paths.join(SQLITE_DIRECTORY, DATABASE_NAME);
+/** Document-directory folders whose files are referenced from the database. */
+const STORED_FILE_DIRECTORIES = ['photos', 'attachments'] as const;
+
+const DB_PATH = DATABASE_FILE_URI;
+/** Plaintext database copies only ever live here, and only for the duration of one operation. */
+const STAGING_DATABASE_PATH = FileSystem.Paths.join(
+  FileSystem.Paths.cache.uri,
+  'minevaapen-staging.db'
+);
+
+/** Passphrase for backups made on another device or before a passphrase change. */
+export type BackupAccessOptions = {
+  passphrase?: string;
+};
 
 const ensureDirectory = async (path: string) => {
   const info = FileSystem.Paths.info(path);
@@ -26,18 +111,152 @@ const timestamp = () => {
   return `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
 };
 
+const toFileSystemNode = (path: string, isDirectory: boolean) =>
+  isDirectory ? new FileSystem.Directory(path) : new FileSystem.File(path);
+
+const deleteIfExists = (path: string, isDirectory = false) => {
+  const node = toFileSystemNode(path, isDirectory);
+  if (node.exists) {
+    node.delete();
+  }
+};
+
+const listFilesRecursive = (directory: FileSystem.Directory): FileSystem.File[] =>
+  directory.list().flatMap((entry) =>
+    entry instanceof FileSystem.Directory
+      ? listFilesRecursive(entry)
+      : entry instanceof FileSystem.File
+        ? [entry]
+        : []
+  );
+
+const collectStoredFiles = async (): Promise<ArchiveEntry[]> => {
+  const entries: ArchiveEntry[] = [];
+
+  for (const directoryName of STORED_FILE_DIRECTORIES) {
+    const directory = new FileSystem.Directory(
+      FileSystem.Paths.join(DOCUMENT_DIRECTORY, directoryName)
+    );
+    if (!directory.exists) {
+      continue;
+    }
+
+    for (const file of listFilesRecursive(directory)) {
+      const relativePath = file.uri.slice(directory.uri.replace(/\/?$/, '/').length);
+      entries.push({ path: `${directoryName}/${relativePath}`, data: await file.bytes() });
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Removes a plaintext database copy left behind when the app was killed during a backup or
+ * restore. Runs at startup, before the database is opened.
+ */
+export const removeStagingDatabase = () => {
+  try {
+    deleteIfExists(STAGING_DATABASE_PATH);
+  } catch (error) {
+    console.warn('Failed to remove staging database', error);
+  }
+};
+
+const exportDatabaseBytes = async (): Promise<Uint8Array> => {
+  deleteIfExists(STAGING_DATABASE_PATH);
+  try {
+    await exportPlaintextDatabase(STAGING_DATABASE_PATH);
+    return await new FileSystem.File(STAGING_DATABASE_PATH).bytes();
+  } finally {
+    deleteIfExists(STAGING_DATABASE_PATH);
+  }
+};
+
+/**
+ * Builds the tar archive with the manifest first. The file entries are only reachable from here,
+ * so they can be released once they have been copied into the archive.
+ */
+const buildBackupArchive = async (): Promise<{ manifest: Uint8Array; archive: Uint8Array }> => {
+  const schemaVersion = await getSchemaVersion();
+
+  const fileEntries: ArchiveEntry[] = [
+    { path: BACKUP_DATABASE_PATH, data: await exportDatabaseBytes() },
+    ...(await collectStoredFiles()),
+  ];
+
+  // Hashed one entry at a time, so at most one entry is copied for the digest at once.
+  const files: BackupManifest['files'] = [];
+  for (const entry of fileEntries) {
+    files.push({ path: entry.path, size: entry.data.length, sha256: await sha256Hex(entry.data) });
+  }
+
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: Constants.expoConfig?.version ?? 'unknown',
+    schemaVersion,
+    createdAt: new Date().toISOString(),
+    documentDirectory: DOCUMENT_DIRECTORY,
+    files,
+  };
+
+  const manifestBytes = encodeText(JSON.stringify(manifest, null, 2));
+  const archive = createTarArchive([
+    { path: BACKUP_MANIFEST_PATH, data: manifestBytes },
+    ...fileEntries,
+  ]);
+  return { manifest: manifestBytes, archive };
+};
+
+/** Writes an encrypted backup to `path`; a partly written file is removed if anything fails. */
+const writeBackupFile = (
+  path: string,
+  backupKey: BackupKey,
+  manifest: Uint8Array,
+  archive: Uint8Array
+) => {
+  const file = new FileSystem.File(path);
+  file.create({ overwrite: true });
+  try {
+    const handle = file.open();
+    try {
+      writeEncryptedBackup(
+        (bytes) => handle.writeBytes(bytes),
+        backupKey.key,
+        backupKey,
+        manifest,
+        archive
+      );
+    } finally {
+      handle.close();
+    }
+  } catch (error) {
+    deleteIfExists(path);
+    throw error;
+  }
+};
+
+/**
+ * Writes a single encrypted archive holding the database, every photo and attachment file and a
+ * manifest with checksums, so a backup can be moved to another device without losing documents.
+ * The archive is encrypted with the backup key derived from the user's passphrase.
+ */
 export const backupDatabase = async (): Promise<string> => {
   await ensureDirectory(BACKUP_DIRECTORY);
-  const targetPath = `${BACKUP_DIRECTORY}/minevaapen-backup-${timestamp()}.db`;
+  const fileName = `minevaapen-backup-${timestamp()}${ENCRYPTED_BACKUP_EXTENSION}`;
+  const targetPath = `${BACKUP_DIRECTORY}/${fileName}`;
 
-  const databaseFile = new FileSystem.File(DB_PATH);
-  const databaseInfo = databaseFile.info();
-  if (!databaseInfo.exists) {
+  if (!new FileSystem.File(DB_PATH).exists) {
     throw new Error('Database not found');
   }
 
-  const backupFile = new FileSystem.File(targetPath);
-  databaseFile.copy(backupFile);
+  const backupKey = await getBackupKey();
+  if (!backupKey) {
+    throw new BackupArchiveError('encryptionNotConfigured', 'No backup key has been set up');
+  }
+
+  const { manifest, archive } = await buildBackupArchive();
+  writeBackupFile(targetPath, backupKey, manifest, archive);
 
   return targetPath;
 };
@@ -46,42 +265,359 @@ export type BackupFile = {
   name: string;
   path: string;
   modifiedAt: number;
+  /**
+   * Null for database-only backups made before archives existed, and for encrypted backups made
+   * with a different passphrase.
+   */
+  manifest: BackupManifest | null;
+  encrypted: boolean;
 };
 
-const toBackupFile = (file: FileSystem.File): BackupFile | null => {
+const matchesBackupKey = (header: EncryptedBackupHeader, backupKey: BackupKey) =>
+  header.iterations === backupKey.iterations &&
+  header.salt.length === backupKey.salt.length &&
+  header.salt.every((byte, index) => byte === backupKey.salt[index]);
+
+const readManifest = (
+  file: FileSystem.File,
+  backupKey: BackupKey | null
+): BackupManifest | null => {
+  const encrypted = file.name.endsWith(ENCRYPTED_BACKUP_EXTENSION);
+  if (!encrypted && !file.name.endsWith('.tar')) {
+    return null;
+  }
+
+  const handle = file.open();
+  try {
+    const readBytes = (length: number) => handle.readBytes(length);
+    if (!encrypted) {
+      return peekBackupManifest(readBytes);
+    }
+
+    const manifestBytes = decryptBackupManifest(readBytes, (header) =>
+      backupKey && matchesBackupKey(header, backupKey) ? backupKey.key : null
+    );
+    return manifestBytes
+      ? parseBackupManifest([{ path: BACKUP_MANIFEST_PATH, data: manifestBytes }])
+      : null;
+  } finally {
+    handle.close();
+  }
+};
+
+const toBackupFile = (file: FileSystem.File, backupKey: BackupKey | null): BackupFile | null => {
   const info = file.info();
 
   if (!info.exists) {
     return null;
   }
 
+  let manifest: BackupManifest | null = null;
+  try {
+    manifest = readManifest(file, backupKey);
+  } catch (error) {
+    console.warn('Failed to read backup manifest', error);
+  }
+
   return {
     name: file.name,
     path: file.uri,
     modifiedAt: typeof info.modificationTime === 'number' ? info.modificationTime : 0,
+    manifest,
+    encrypted: file.name.endsWith(ENCRYPTED_BACKUP_EXTENSION),
   };
 };
 
+const backupSortTime = (backup: BackupFile) =>
+  backup.manifest ? Date.parse(backup.manifest.createdAt) || backup.modifiedAt : backup.modifiedAt;
+
 export const listBackupFiles = async (): Promise<BackupFile[]> => {
   await ensureDirectory(BACKUP_DIRECTORY);
   const directory = new FileSystem.Directory(BACKUP_DIRECTORY);
   const entries = directory.list();
   const files = entries.filter((entry): entry is FileSystem.File => entry instanceof FileSystem.File);
 
-  const backups = files.map(toBackupFile);
+  const backupKey = await getBackupKey();
+  const backups = files.map((file) => toBackupFile(file, backupKey));
 
   return backups
     .filter((file): file is BackupFile => file !== null)
-    .sort((a, b) => b.modifiedAt - a.modifiedAt);
+    .sort((a, b) => backupSortTime(b) - backupSortTime(a));
+};
+
+const LEGACY_BACKUP_EXTENSIONS = ['.tar', '.db'] as const;
+
+const legacyBackupManifest = async (
+  file: FileSystem.File,
+  bytes: Uint8Array
+): Promise<Uint8Array> => {
+  if (isTarArchive(bytes)) {
+    const entries = readTarArchive(bytes, 1);
+    parseBackupManifest(entries);
+    return entries[0].data;
+  }
+
+  // Database-only backups have no manifest, so one is written for the listing. The database
+  // stays the bare archive section, which keeps restoring it from touching photos and documents.
+  const { schemaVersion } = await inspectBackupDatabase(bytes);
+  const modifiedAt = file.info().modificationTime;
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: 'unknown',
+    schemaVersion,
+    createdAt: new Date(typeof modifiedAt === 'number' ? modifiedAt : Date.now()).toISOString(),
+    documentDirectory: DOCUMENT_DIRECTORY,
+    files: [{ path: BACKUP_DATABASE_PATH, size: bytes.length, sha256: await sha256Hex(bytes) }],
+  };
+  return encodeText(JSON.stringify(manifest, null, 2));
+};
+
+/**
+ * Rewrites unencrypted `.tar` and `.db` backups from earlier app versions as encrypted backups
+ * with the current backup key and deletes the plaintext files. Files that cannot be read as
+ * backups are left in place. Returns the number of backups encrypted.
+ */
+export const encryptLegacyBackups = async (): Promise<number> => {
+  const backupKey = await getBackupKey();
+  if (!backupKey) {
+    return 0;
+  }
+
+  await ensureDirectory(BACKUP_DIRECTORY);
+  const legacyFiles = new FileSystem.Directory(BACKUP_DIRECTORY)
+    .list()
+    .filter(
+      (entry): entry is FileSystem.File =>
+        entry instanceof FileSystem.File &&
+        LEGACY_BACKUP_EXTENSIONS.some((extension) => entry.name.endsWith(extension))
+    );
+
+  let encryptedCount = 0;
+  for (const file of legacyFiles) {
+    try {
+      const bytes = await file.bytes();
+      const manifestBytes = await legacyBackupManifest(file, bytes);
+      const baseName = file.name.slice(0, file.name.lastIndexOf('.'));
+      writeBackupFile(
+        `${BACKUP_DIRECTORY}/${baseName}${ENCRYPTED_BACKUP_EXTENSION}`,
+        backupKey,
+        manifestBytes,
+        bytes
+      );
+      file.delete();
+      encryptedCount += 1;
+    } catch (error) {
+      console.warn(`Failed to encrypt legacy backup ${file.name}`, error);
+    }
+  }
+
+  return encryptedCount;
 };
 
-type RestoreDatabaseOptions = {
+const isStoredFilePath = (path: string) =>
+  STORED_FILE_DIRECTORIES.some((directoryName) => path.startsWith(`${directoryName}/`)) &&
+  !path.split('/').includes('..');
+
+/** A backup that has passed validation and is ready to replace the live data. */
+type RestoreCandidate = {
+  manifest: BackupManifest | null;
+  summary: BackupDatabaseSummary;
+  /** Fills its own buffer, as the SQLite readers require. */
+  databaseBytes: Uint8Array;
+  /** Null for database-only backups, which leave the current photos and documents in place. */
+  storedFiles: ArchiveEntry[] | null;
+};
+
+export type BackupInspection = {
+  manifest: BackupManifest | null;
+  summary: BackupDatabaseSummary;
+};
+
+/**
+ * Backups made with the current passphrase use the stored key; anything else needs the
+ * passphrase it was made with.
+ */
+const resolveBackupKey = async (
+  header: EncryptedBackupHeader,
+  passphrase?: string
+): Promise<Uint8Array> => {
+  if (passphrase) {
+    return deriveBackupKey(passphrase, header);
+  }
+
+  const backupKey = await getBackupKey();
+  if (backupKey && matchesBackupKey(header, backupKey)) {
+    return backupKey.key;
+  }
+
+  throw new BackupArchiveError('passphraseRequired', 'Backup was made with another passphrase');
+};
+
+/**
+ * Reads and validates a backup without touching the live database. Encrypted backups are
+ * decrypted in memory, archives are checked against their manifest, and the database inside is
+ * then opened read-only and summarised.
+ */
+const loadRestoreCandidate = async (
+  sourceFile: FileSystem.File,
+  { passphrase }: BackupAccessOptions = {}
+): Promise<RestoreCandidate> => {
+  let bytes: Uint8Array = await sourceFile.bytes();
+
+  if (isEncryptedBackup(bytes)) {
+    const key = await resolveBackupKey(readEncryptedBackupHeader(bytes), passphrase);
+    bytes = decryptBackup(bytes, key).archive;
+  }
+
+  if (!isTarArchive(bytes)) {
+    const databaseBytes = standaloneBytes(bytes);
+    return {
+      manifest: null,
+      summary: await inspectBackupDatabase(databaseBytes),
+      databaseBytes,
+      storedFiles: null,
+    };
+  }
+
+  const entries = readTarArchive(bytes);
+  const manifest = await validateBackupArchive(entries, LATEST_SCHEMA_VERSION);
+  const databaseEntry = entries.find((entry) => entry.path === BACKUP_DATABASE_PATH);
+  if (!databaseEntry) {
+    throw new Error('Backup database entry not found');
+  }
+
+  const listedPaths = new Set(manifest.files.map((file) => file.path));
+  // Copied out of the archive once here rather than by every reader of the database.
+  const databaseBytes = standaloneBytes(databaseEntry.data);
+
+  return {
+    manifest,
+    summary: await inspectBackupDatabase(databaseBytes),
+    databaseBytes,
+    storedFiles: entries.filter(
+      (entry) => listedPaths.has(entry.path) && isStoredFilePath(entry.path)
+    ),
+  };
+};
+
+export const inspectBackupFile = async (
+  sourceUri: string,
+  options: BackupAccessOptions = {}
+): Promise<BackupInspection> => {
+  const { manifest, summary } = await loadRestoreCandidate(
+    new FileSystem.File(sourceUri),
+    options
+  );
+  return { manifest, summary };
+};
+
+const ROLLBACK_SUFFIX = '.rollback';
+
+type RollbackTarget = {
+  path: string;
+  isDirectory: boolean;
+};
+
+const deleteDatabaseSidecars = () => {
+  deleteIfExists(`${DB_PATH}-wal`);
+  deleteIfExists(`${DB_PATH}-shm`);
+};
+
+/**
+ * Moves the live data aside as a rollback copy, writes the candidate in its place and migrates
+ * it. If the new database fails to open or migrate, the rollback copy is put back.
+ */
+const swapInRestoreCandidate = async (candidate: RestoreCandidate): Promise<void> => {
+  const targets: RollbackTarget[] = [
+    { path: DB_PATH, isDirectory: false },
+    ...(candidate.storedFiles
+      ? STORED_FILE_DIRECTORIES.map((directoryName) => ({
+          path: FileSystem.Paths.join(DOCUMENT_DIRECTORY, directoryName),
+          isDirectory: true,
+        }))
+      : []),
+  ];
+
+  try {
+    // Fold the write-ahead log into the main file so the rollback copy is self-contained.
+    await runSql('PRAGMA wal_checkpoint(TRUNCATE)');
+  } catch (error) {
+    console.warn('Failed to checkpoint database before restore', error);
+  }
+  await closeDatabase();
+  await ensureDirectory(SQLITE_DIRECTORY);
+  deleteDatabaseSidecars();
+
+  for (const target of targets) {
+    deleteIfExists(`${target.path}${ROLLBACK_SUFFIX}`, target.isDirectory);
+    const node = toFileSystemNode(target.path, target.isDirectory);
+    if (node.exists) {
+      node.rename(`${node.name}${ROLLBACK_SUFFIX}`);
+    }
+  }
+
+  try {
+    // The backup holds a plaintext database; it is re-encrypted with this device's key.
+    new FileSystem.File(STAGING_DATABASE_PATH).write(candidate.databaseBytes);
+    try {
+      await importPlaintextDatabase(STAGING_DATABASE_PATH);
+    } finally {
+      deleteIfExists(STAGING_DATABASE_PATH);
+    }
+
+    for (const entry of candidate.storedFiles ?? []) {
+      const targetFile = new FileSystem.File(
+        FileSystem.Paths.join(DOCUMENT_DIRECTORY, entry.path)
+      );
+      await ensureDirectory(targetFile.parentDirectory.uri);
+      targetFile.write(entry.data);
+    }
+
+    // Migrations also turn file URIs from older backups into paths below the document directory.
+    await runMigrations();
+  } catch (error) {
+    await closeDatabase();
+    deleteDatabaseSidecars();
+
+    for (const target of targets) {
+      deleteIfExists(target.path, target.isDirectory);
+      const rollback = toFileSystemNode(`${target.path}${ROLLBACK_SUFFIX}`, target.isDirectory);
+      if (rollback.exists) {
+        rollback.rename(toFileSystemNode(target.path, target.isDirectory).name);
+      }
+    }
+
+    throw error;
+  }
+
+  for (const target of targets) {
+    deleteIfExists(`${target.path}${ROLLBACK_SUFFIX}`, target.isDirectory);
+  }
+};
+
+const restoreFromFile = async (
+  sourceFile: FileSystem.File,
+  options: BackupAccessOptions
+): Promise<BackupInspection> => {
+  const candidate = await loadRestoreCandidate(sourceFile, options);
+  await swapInRestoreCandidate(candidate);
+  databaseEvents.emitRestored();
+
+  return { manifest: candidate.manifest, summary: candidate.summary };
+};
+
+type RestoreDatabaseOptions = BackupAccessOptions & {
   sourcePath?: string;
 };
 
+export type RestoreResult = BackupInspection & {
+  backup: BackupFile;
+};
+
 export const restoreDatabase = async (
   options: RestoreDatabaseOptions = {}
-): Promise<BackupFile> => {
+): Promise<RestoreResult> => {
   const backups = await listBackupFiles();
 
   if (backups.length === 0) {
@@ -99,113 +635,166 @@ export const restoreDatabase = async (
     selectedBackup = backups[0];
   }
 
-  await closeDatabase();
-  await ensureDirectory(SQLITE_DIRECTORY);
-  const databaseFile = new FileSystem.File(DB_PATH);
-  if (FileSystem.Paths.info(DB_PATH).exists) {
-    databaseFile.delete();
-  }
+  const result = await restoreFromFile(new FileSystem.File(selectedBackup.path), options);
 
-  const selectedFile = new FileSystem.File(selectedBackup.path);
-  selectedFile.copy(databaseFile);
+  return { ...result, backup: selectedBackup };
+};
 
-  databaseEvents.emitRestored();
+/** Validates the picked file first; the live database is only replaced once it passes. */
+export const restoreDatabaseFromUri = async (
+  sourceUri: string,
+  options: BackupAccessOptions = {}
+): Promise<BackupInspection> => restoreFromFile(new FileSystem.File(sourceUri), options);
+
+const withBackupSnapshot = async <T>(
+  candidate: RestoreCandidate,
+  run: (snapshot: SQLiteDatabase) => Promise<T>
+): Promise<T> => {
+  const snapshot = await openBackupSnapshot(candidate.databaseBytes);
+  try {
+    return await run(snapshot);
+  } finally {
+    await snapshot.closeAsync();
+  }
+};
 
-  return selectedBackup;
+export type BackupMergePreview = BackupInspection & {
+  diff: RestoreDiff;
 };
 
-export const restoreDatabaseFromUri = async (sourceUri: string): Promise<void> => {
-  await closeDatabase();
-  await ensureDirectory(SQLITE_DIRECTORY);
+/** Compares a backup with the live data without changing either. */
+export const previewBackupMerge = async (
+  sourceUri: string,
+  options: BackupAccessOptions = {}
+): Promise<BackupMergePreview> => {
+  const candidate = await loadRestoreCandidate(new FileSystem.File(sourceUri), options);
+  const diff = await withBackupSnapshot(candidate, async (snapshot) =>
+    diffSnapshots(await readSnapshotData(), await readSnapshotData(snapshot))
+  );
+
+  return { manifest: candidate.manifest, summary: candidate.summary, diff };
+};
+
+/**
+ * Copies the selected weapons, program links and memberships from a backup into the live
+ * database. Files for imported photos and documents are removed again if the merge fails.
+ */
+export const mergeFromBackup = async (
+  sourceUri: string,
+  selection: MergeSelection,
+  options: BackupAccessOptions = {}
+): Promise<MergeResult> => {
+  const candidate = await loadRestoreCandidate(new FileSystem.File(sourceUri), options);
+  const storedFiles = new Map((candidate.storedFiles ?? []).map((entry) => [entry.path, entry]));
+  const importedFiles: FileSystem.File[] = [];
+
+  // The snapshot has been migrated, so its rows hold paths below the document directory.
+  const importStoredFile = (path: string): string | null => {
+    const entry = storedFiles.get(path);
+    if (!entry) {
+      return null;
+    }
+
+    const targetFile = new FileSystem.File(FileSystem.Paths.join(DOCUMENT_DIRECTORY, path));
+    if (!targetFile.exists) {
+      const parent = targetFile.parentDirectory;
+      if (!parent.exists) {
+        parent.create({ intermediates: true, idempotent: true });
+      }
+      targetFile.write(entry.data);
+      importedFiles.push(targetFile);
+    }
+
+    return path;
+  };
 
-  const databaseFile = new FileSystem.File(DB_PATH);
-  if (FileSystem.Paths.info(DB_PATH).exists) {
-    databaseFile.delete();
+  try {
+    const result = await withBackupSnapshot(candidate, (snapshot) =>
+      mergeSnapshotSelection(snapshot, selection, importStoredFile)
+    );
+    databaseEvents.emitRestored();
+    return result;
+  } catch (error) {
+    for (const file of importedFiles) {
+      deleteIfExists(file.uri);
+    }
+    throw error;
   }
+};
 
-  const sourceFile = new FileSystem.File(sourceUri);
-  sourceFile.copy(databaseFile);
+/** Writes the weapons matching `filters`, or all of them, as CSV in the given layout. */
+export const exportWeaponsToCsv = async (
+  options: CsvExportOptions = DEFAULT_CSV_EXPORT_OPTIONS,
+  filters?: WeaponFilters
+): Promise<string> => {
+  await ensureDirectory(EXPORT_DIRECTORY);
 
-  databaseEvents.emitRestored();
+  const csvContent = await buildWeaponsCsv(options, filters);
+  const filePath = `${EXPORT_DIRECTORY}/minevaapen-weapons-${timestamp()}.csv`;
+  const file = new FileSystem.File(filePath);
+  file.write(csvContent, { encoding: 'utf8' });
+
+  return filePath;
 };
 
-type CsvValue = string | number | null | undefined;
+/** Writes the register in the JSON interchange format; see `interchange.ts`. */
+export const exportInterchangeJson = async (): Promise<string> => {
+  await ensureDirectory(EXPORT_DIRECTORY);
 
-const toCsvValue = (value: CsvValue): string => {
-  if (value === null || value === undefined) {
-    return '';
-  }
+  const document = await buildInterchangeDocument();
+  const filePath = `${EXPORT_DIRECTORY}/minevaapen-data-${timestamp()}.json`;
+  const file = new FileSystem.File(filePath);
+  file.write(JSON.stringify(document, null, 2), { encoding: 'utf8' });
 
-  const stringValue = String(value);
-  if (stringValue.includes('"') || stringValue.includes(',') || stringValue.includes('\n')) {
-    return `"${stringValue.replace(/"/g, '""')}"`;
+  return filePath;
+};
+
+/** Reads and validates an interchange file without writing anything. */
+export const readInterchangeFile = async (fileUri: string): Promise<InterchangeDocument> =>
+  parseInterchangeDocument(await new FileSystem.File(fileUri).text());
+
+export const importInterchangeJson = async (
+  document: InterchangeDocument
+): Promise<InterchangeImportResult> => {
+  const result = await importInterchangeDocument(document);
+  // Screens reload on the restored event, which is what an import amounts to for them.
+  databaseEvents.emitRestored();
+  return result;
+};
+
+export const readCatalogFile = async (fileUri: string): Promise<ProgramCatalog> =>
+  parseProgramCatalog(await new FileSystem.File(fileUri).text());
+
+/** Applies a catalog picked by the user. An older one would undo corrections, so it is refused. */
+export const importProgramCatalog = async (catalog: ProgramCatalog): Promise<CatalogChangelog> => {
+  const currentVersion = await getCatalogVersion();
+  if (currentVersion !== null && catalog.catalogVersion < currentVersion) {
+    throw new CatalogError(
+      'versionTooOld',
+      `Catalog version ${catalog.catalogVersion} is older than installed version ${currentVersion}`
+    );
   }
 
-  return stringValue;
+  const changelog = await applyProgramCatalog(catalog);
+  databaseEvents.emitRestored();
+  return changelog;
 };
 
-export const exportWeaponsToCsv = async (): Promise<string> => {
+/** Renders the weapon register as a PDF in the current app language and stores it with the CSVs. */
+export const exportWeaponReportToPdf = async (options: WeaponReportOptions): Promise<string> => {
   await ensureDirectory(EXPORT_DIRECTORY);
 
-  const weapons = await fetchWeapons();
-  if (weapons.length === 0) {
+  const report = await loadWeaponReport(options);
+  if (report.weapons.length === 0) {
     throw new Error('No weapons available to export');
   }
 
-  const headers = [
-    'id',
-    'displayName',
-    'type',
-    'manufacturer',
-    'model',
-    'serialNumber',
-    'acquisitionDate',
-    'acquisitionPrice',
-    'weaponCardRef',
-    'operationMode',
-    'caliber',
-    'notes',
-    'programs',
-    'reserve',
-    'ownershipStatus',
-    'loanContactName',
-    'loanStartDate',
-    'loanEndDate',
-  ];
+  const { uri } = await Print.printToFileAsync({ html: buildWeaponReportHtml(report) });
+  const printed = new FileSystem.File(uri);
+  const target = new FileSystem.File(
+    `${EXPORT_DIRECTORY}/minevaapen-weapon-report-${timestamp()}.pdf`
+  );
+  printed.move(target);
 
-  const rows = weapons.map((weapon) => {
-    const approvedPrograms = weapon.programs.filter((program) => program.status === 'approved');
-    const programString = approvedPrograms.map((program) => program.programName).join('; ');
-    const reserveMark = approvedPrograms.some((program) => program.isReserve) ? 'X' : '';
-
-    return [
-      weapon.id,
-      weapon.displayName,
-      weapon.type,
-      weapon.manufacturer,
-      weapon.model,
-      weapon.serialNumber,
-      weapon.acquisitionDate,
-      weapon.acquisitionPrice,
-      weapon.weaponCardRef,
-      weapon.operationMode,
-      weapon.caliber,
-      weapon.notes,
-      programString,
-      reserveMark,
-      weapon.ownershipStatus,
-      weapon.loanContactName,
-      weapon.loanStartDate,
-      weapon.loanEndDate,
-    ]
-      .map(toCsvValue)
-      .join(',');
-  });
-
-  const csvContent = [headers.join(','), ...rows].join('\n');
-  const filePath = `${EXPORT_DIRECTORY}/minevaapen-weapons-${timestamp()}.csv`;
-  const file = new FileSystem.File(filePath);
-  file.write(csvContent, { encoding: 'utf8' });
-
-  return filePath;
+  return target.uri;
 };
@@ -0,0 +1,231 @@
+import {
+  fetchOrganizations,
+  type OrganizationRecord,
+} from '@/src/database/organizations-repository';
+import {
+  fetchShooterProfile,
+  listShooterProfileEntries,
+} from '@/src/database/shooter-profile-repository';
+import {
+  fetchProgramUsage,
+  fetchWeapons,
+  type ProgramUsage,
+  type WeaponFilters,
+  type WeaponWithPrograms,
+} from '@/src/database/weapons-repository';
+import i18n from '@/src/i18n';
+import { evaluateWeaponReserveRules } from '@/src/rules/reserve-eligibility';
+import type { CsvDelimiter } from '@/src/services/csv';
+import { loadReserveRuleContext } from '@/src/services/reserve-rules';
+
+/** Every column the CSV export can write, in the default order. */
+export const WEAPON_CSV_COLUMNS = [
+  'id',
+  'displayName',
+  'type',
+  'manufacturer',
+  'model',
+  'serialNumber',
+  'acquisitionDate',
+  'acquisitionPrice',
+  'weaponCardRef',
+  'operationMode',
+  'caliber',
+  'notes',
+  'programs',
+  'reserve',
+  'reservePrograms',
+  'pendingPrograms',
+  'proposedPrograms',
+  'ownershipStatus',
+  'loanContactName',
+  'loanStartDate',
+  'loanEndDate',
+  'reserveIssues',
+] as const;
+
+export type WeaponCsvColumn = (typeof WEAPON_CSV_COLUMNS)[number];
+
+export const CSV_DELIMITERS: readonly CsvDelimiter[] = [',', ';', '\t'];
+
+export type CsvExportOptions = {
+  /** Columns to write, in this order. */
+  columns: WeaponCsvColumn[];
+  delimiter: CsvDelimiter;
+  /** Excel only detects UTF-8, and so shows "æøå" correctly, when the file starts with a BOM. */
+  includeBom: boolean;
+  /** Header row in the app language instead of the field names the importer expects. */
+  localizedHeaders: boolean;
+};
+
+export const DEFAULT_CSV_EXPORT_OPTIONS: CsvExportOptions = {
+  columns: [...WEAPON_CSV_COLUMNS],
+  delimiter: ',',
+  includeBom: false,
+  localizedHeaders: false,
+};
+
+type CsvValue = string | number | null | undefined;
+
+/** Falls back to the defaults for anything missing or unknown in a stored preset. */
+export const parseCsvExportOptions = (value: string | null): CsvExportOptions => {
+  if (!value) {
+    return DEFAULT_CSV_EXPORT_OPTIONS;
+  }
+
+  try {
+    const parsed = JSON.parse(value) as Partial<Record<keyof CsvExportOptions, unknown>>;
+    const columns = Array.isArray(parsed.columns)
+      ? parsed.columns.filter(
+          (column, index, list): column is WeaponCsvColumn =>
+            WEAPON_CSV_COLUMNS.includes(column as WeaponCsvColumn) &&
+            list.indexOf(column) === index
+        )
+      : [];
+
+    return {
+      columns: columns.length > 0 ? columns : DEFAULT_CSV_EXPORT_OPTIONS.columns,
+      delimiter:
+        CSV_DELIMITERS.find((delimiter) => delimiter === parsed.delimiter) ??
+        DEFAULT_CSV_EXPORT_OPTIONS.delimiter,
+      includeBom:
+        typeof parsed.includeBom === 'boolean'
+          ? parsed.includeBom
+          : DEFAULT_CSV_EXPORT_OPTIONS.includeBom,
+      localizedHeaders:
+        typeof parsed.localizedHeaders === 'boolean'
+          ? parsed.localizedHeaders
+          : DEFAULT_CSV_EXPORT_OPTIONS.localizedHeaders,
+    };
+  } catch (error) {
+    console.warn('Ignoring unreadable CSV export preset', error);
+    return DEFAULT_CSV_EXPORT_OPTIONS;
+  }
+};
+
+export const toCsvValue = (value: CsvValue, delimiter: CsvDelimiter): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const stringValue = String(value);
+  if (/["\r\n]/.test(stringValue) || stringValue.includes(delimiter)) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+
+  return stringValue;
+};
+
+/** How the importer compares headers and names: ignoring case, spaces, underscores and dashes. */
+export const normalizeCsvKey = (value: string) =>
+  value.trim().toLowerCase().replace(/[\s_-]+/g, '');
+
+type ProgramNameJoiner = (programs: WeaponWithPrograms['programs']) => string;
+
+/**
+ * Program names are only unique within an organization. A name that more than one program uses is
+ * written with the organization's short name (`NSF: Felt`), so the importer does not have to guess.
+ */
+const createProgramNameJoiner = (
+  programs: ProgramUsage[],
+  organizations: OrganizationRecord[]
+): ProgramNameJoiner => {
+  const nameCounts = new Map<string, number>();
+  for (const program of programs) {
+    const key = normalizeCsvKey(program.name);
+    nameCounts.set(key, (nameCounts.get(key) ?? 0) + 1);
+  }
+  const shortNames = new Map(organizations.map((org) => [org.id, org.shortName]));
+
+  return (links) =>
+    links
+      .map((link) => {
+        const shortName = shortNames.get(link.organizationId);
+        const isShared = (nameCounts.get(normalizeCsvKey(link.programName)) ?? 0) > 1;
+        return isShared && shortName ? `${shortName}: ${link.programName}` : link.programName;
+      })
+      .join('; ');
+};
+
+type ColumnContext = {
+  weapon: WeaponWithPrograms;
+  joinProgramNames: ProgramNameJoiner;
+  reserveIssues: () => string;
+};
+
+const readColumn = (
+  column: WeaponCsvColumn,
+  { weapon, joinProgramNames, reserveIssues }: ColumnContext
+) => {
+  const approvedPrograms = weapon.programs.filter((program) => program.status === 'approved');
+  const reservePrograms = approvedPrograms.filter((program) => program.isReserve);
+
+  switch (column) {
+    case 'programs':
+      return joinProgramNames(approvedPrograms);
+    case 'reserve':
+      return reservePrograms.length > 0 ? 'X' : '';
+    case 'reservePrograms':
+      return joinProgramNames(reservePrograms);
+    case 'pendingPrograms':
+      return joinProgramNames(weapon.programs.filter((program) => program.status === 'pending'));
+    case 'proposedPrograms':
+      return joinProgramNames(weapon.programs.filter((program) => program.status === 'proposed'));
+    case 'reserveIssues':
+      return reserveIssues();
+    default:
+      return weapon[column];
+  }
+};
+
+/**
+ * Builds the CSV text for the weapons matching `filters`, or all of them. An empty register still
+ * gives a header row, so a template can be exported before anything is registered.
+ */
+export const buildWeaponsCsv = async (
+  options: CsvExportOptions,
+  filters?: WeaponFilters
+): Promise<string> => {
+  const { columns, delimiter } = options;
+  const [weapons, reserveRuleContext, profile, programs, organizations] = await Promise.all([
+    fetchWeapons(filters),
+    loadReserveRuleContext(),
+    fetchShooterProfile(),
+    fetchProgramUsage(),
+    fetchOrganizations(),
+  ]);
+  const joinProgramNames = createProgramNameJoiner(programs, organizations);
+  const toRow = (values: CsvValue[]) =>
+    values.map((value) => toCsvValue(value, delimiter)).join(delimiter);
+
+  const headers = columns.map((column) =>
+    options.localizedHeaders ? i18n.t(`csvColumns.${column}` as const) : column
+  );
+
+  const rows = weapons.map((weapon) => {
+    const reserveIssues = () => {
+      const result = evaluateWeaponReserveRules(weapon.id, weapon.programs, reserveRuleContext);
+      return [...result.violations, ...result.warnings]
+        .map((issue) =>
+          i18n.t(`reserveRules.${issue.code}` as const, {
+            program: issue.programName,
+            ...issue.params,
+          })
+        )
+        .join('; ');
+    };
+
+    return toRow(
+      columns.map((column) => readColumn(column, { weapon, joinProgramNames, reserveIssues }))
+    );
+  });
+
+  // A block of `shooter.<field>` lines and a blank line identify whose weapons these are.
+  const profileRows = listShooterProfileEntries(profile).map(([field, value]) =>
+    toRow([`shooter.${field}`, value])
+  );
+  const headerBlock = profileRows.length > 0 ? [...profileRows, ''] : [];
+
+  const content = [...headerBlock, toRow(headers), ...rows].join('\n');
+  return options.includeBom ? `\uFEFF${content}` : content;
+};
@@ -0,0 +1,482 @@
+import * as FileSystem from 'expo-file-system';
+
+import {
+  fetchOrganizations,
+  type OrganizationRecord,
+} from '@/src/database/organizations-repository';
+import { runWithinExclusiveTransaction } from '@/src/database/sqlite-helpers';
+import {
+  fetchProgramUsage,
+  fetchWeapons,
+  OPERATION_MODES,
+  upsertWeaponRows,
+  WEAPON_TYPES,
+  type ProgramUsage,
+  type UpsertWeaponInput,
+} from '@/src/database/weapons-repository';
+import i18n, { SUPPORTED_LOCALES } from '@/src/i18n';
+import { parseCsvRecords } from '@/src/services/csv';
+import {
+  normalizeCsvKey,
+  WEAPON_CSV_COLUMNS,
+  type WeaponCsvColumn,
+} from '@/src/services/weapon-csv';
+
+/** Columns of `exportWeaponsToCsv` that can be read back. `reserveIssues` is derived, not data. */
+export type WeaponImportField = Exclude<WeaponCsvColumn, 'reserveIssues'>;
+
+export const WEAPON_IMPORT_FIELDS = WEAPON_CSV_COLUMNS.filter(
+  (column): column is WeaponImportField => column !== 'reserveIssues'
+);
+
+/** Index of the CSV column that feeds each field; unmapped fields are left empty. */
+export type WeaponImportMapping = Partial<Record<WeaponImportField, number>>;
+
+export type CsvTable = {
+  headers: string[];
+  /** Data rows with the 1-based line they started on, for error messages. */
+  rows: { lineNumber: number; values: string[] }[];
+};
+
+export type WeaponImportIssueCode =
+  | 'missingDisplayName'
+  | 'invalidType'
+  | 'invalidOperationMode'
+  | 'invalidOwnershipStatus'
+  | 'invalidDate'
+  | 'invalidPrice'
+  | 'unknownProgram'
+  | 'ambiguousProgram'
+  | 'duplicateInFile'
+  | 'duplicateExisting'
+  | 'existingId';
+
+export type WeaponImportIssue = {
+  code: WeaponImportIssueCode;
+  value: string;
+};
+
+export type WeaponImportRow = {
+  lineNumber: number;
+  displayName: string;
+  serialNumber: string | null;
+  /** `skip` rows have errors, or duplicate an existing weapon that is not to be updated. */
+  action: 'create' | 'update' | 'skip';
+  input: UpsertWeaponInput | null;
+  errors: WeaponImportIssue[];
+  warnings: WeaponImportIssue[];
+};
+
+export type WeaponImportPreview = {
+  rows: WeaponImportRow[];
+  createCount: number;
+  updateCount: number;
+  skipCount: number;
+};
+
+export type WeaponImportOptions = {
+  /** Organization that program names without an `ORG:` prefix are looked up in first. */
+  organizationId: string | null;
+  /** Rows whose id or serial number matches an existing weapon overwrite it, or are skipped. */
+  updateDuplicates: boolean;
+};
+
+type ProgramLinkInput = UpsertWeaponInput['programs'][number];
+
+const OWNERSHIP_STATUSES = ['own', 'loanIn', 'loanOut'] as const;
+const TRUTHY_VALUES = ['x', '1', 'true', 'yes', 'ja', 'j'];
+const PROGRAM_FIELDS: WeaponImportField[] = [
+  'programs',
+  'reservePrograms',
+  'pendingPrograms',
+  'proposedPrograms',
+];
+
+const normalizeSerial = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+
+// The line number keeps ids unique within one import, where `Date.now()` barely moves.
+const createWeaponId = (lineNumber: number) => `weapon-${Date.now()}-${lineNumber}`;
+
+/**
+ * Accepts the stored value or its label in any app language, so sheets written by hand in
+ * Norwegian ("Hagle", "Innlån") resolve just like a CSV exported from the app.
+ */
+const matchOption = <T extends string>(
+  value: string,
+  options: readonly T[],
+  labelKey: (option: T) => string
+): T | null => {
+  const needle = normalizeCsvKey(value);
+  return (
+    options.find(
+      (option) =>
+        normalizeCsvKey(option) === needle ||
+        SUPPORTED_LOCALES.some(
+          (lng) =>
+            normalizeCsvKey(
+              String(i18n.getResource(lng, 'translation', labelKey(option)) ?? '')
+            ) === needle
+        )
+    ) ?? null
+  );
+};
+
+/** Reads `YYYY-MM-DD` as written by the app, or `DD.MM.YYYY` as typed in Norwegian sheets. */
+const parseDate = (value: string): string | null => {
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  const norwegian = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(value);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : norwegian
+      ? [norwegian[3], norwegian[2].padStart(2, '0'), norwegian[1].padStart(2, '0')]
+      : [];
+  if (!year) {
+    return null;
+  }
+
+  const date = new Date(`${year}-${month}-${day}T00:00:00Z`);
+  const normalized = `${year}-${month}-${day}`;
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(normalized)
+    ? normalized
+    : null;
+};
+
+const parsePrice = (value: string): number | null => {
+  const price = Number(value.replace(/[\s ]/g, '').replace(/(kr|nok)$/i, '').replace(',', '.'));
+  return Number.isFinite(price) ? price : null;
+};
+
+const splitProgramNames = (value: string) =>
+  value
+    .split(/[;\n]/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+export const readCsvTable = (text: string): CsvTable => {
+  const rows: CsvTable['rows'] = [];
+  let headers: string[] | null = null;
+
+  parseCsvRecords(text).forEach(({ lineNumber, values }) => {
+    const isBlank = values.every((value) => value.trim() === '');
+    // The export starts with `shooter.<field>` lines; they describe the owner, not a weapon.
+    if (isBlank || (!headers && values[0]?.trim().startsWith('shooter.'))) {
+      return;
+    }
+
+    if (!headers) {
+      headers = values.map((value) => value.trim());
+    } else {
+      rows.push({ lineNumber, values });
+    }
+  });
+
+  return { headers: headers ?? [], rows };
+};
+
+export const readCsvTableFromUri = async (fileUri: string): Promise<CsvTable> =>
+  readCsvTable(await new FileSystem.File(fileUri).text());
+
+/**
+ * Maps headers that match a field name, ignoring case, spaces and underscores, or the column's
+ * header in any app language as written by an export with localized headers.
+ */
+export const suggestWeaponImportMapping = (headers: string[]): WeaponImportMapping => {
+  const mapping: WeaponImportMapping = {};
+  const normalizedHeaders = headers.map(normalizeCsvKey);
+
+  for (const field of WEAPON_IMPORT_FIELDS) {
+    const names = [
+      field,
+      ...SUPPORTED_LOCALES.map((lng) =>
+        String(i18n.getResource(lng, 'translation', `csvColumns.${field}`) ?? '')
+      ),
+    ]
+      .map(normalizeCsvKey)
+      .filter(Boolean);
+    const index = normalizedHeaders.findIndex((header) => names.includes(header));
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  }
+
+  return mapping;
+};
+
+type ProgramResolver = (value: string) =>
+  | { programId: string }
+  | { issue: WeaponImportIssue };
+
+/**
+ * Program names are only unique within an organization. A name may be prefixed with the
+ * organization's short name (`NSF: Felt`); otherwise the chosen organization is searched first,
+ * then the organizations the user is a member of, then all of them.
+ */
+const createProgramResolver = (
+  programs: ProgramUsage[],
+  organizations: OrganizationRecord[],
+  organizationId: string | null
+): ProgramResolver => {
+  const memberOrganizationIds = new Set(
+    organizations.filter((org) => org.isMember).map((org) => org.id)
+  );
+  const findOrganization = (value: string) => {
+    const needle = normalizeCsvKey(value);
+    return organizations.find(
+      (org) =>
+        normalizeCsvKey(org.shortName ?? '') === needle || normalizeCsvKey(org.name) === needle
+    );
+  };
+
+  return (value) => {
+    const separator = value.indexOf(':');
+    const prefixed = separator > 0 ? findOrganization(value.slice(0, separator)) : undefined;
+    const name = normalizeCsvKey(prefixed ? value.slice(separator + 1) : value);
+    const named = programs.filter((program) => normalizeCsvKey(program.name) === name);
+
+    const scopes: ((program: ProgramUsage) => boolean)[] = prefixed
+      ? [(program) => program.organizationId === prefixed.id]
+      : [
+          (program) => program.organizationId === organizationId,
+          (program) => memberOrganizationIds.has(program.organizationId),
+          () => true,
+        ];
+
+    for (const inScope of scopes) {
+      const matches = named.filter(inScope);
+      if (matches.length === 1) {
+        return { programId: matches[0].id };
+      }
+      if (matches.length > 1) {
+        return { issue: { code: 'ambiguousProgram', value } };
+      }
+    }
+
+    return { issue: { code: 'unknownProgram', value } };
+  };
+};
+
+/**
+ * Validates every row and resolves its programs without writing anything. Serial numbers are
+ * checked against the other rows and against the register, ignoring case and spaces.
+ */
+export const previewWeaponImport = async (
+  table: CsvTable,
+  mapping: WeaponImportMapping,
+  options: WeaponImportOptions
+): Promise<WeaponImportPreview> => {
+  const [programs, organizations, weapons] = await Promise.all([
+    fetchProgramUsage(),
+    fetchOrganizations(),
+    fetchWeapons(),
+  ]);
+  const resolveProgram = createProgramResolver(programs, organizations, options.organizationId);
+  const existingById = new Map(weapons.map((weapon) => [weapon.id, weapon]));
+  const existingBySerial = new Map(
+    weapons
+      .filter((weapon) => weapon.serialNumber)
+      .map((weapon) => [normalizeSerial(weapon.serialNumber ?? ''), weapon])
+  );
+  const seenSerials = new Map<string, number>();
+  const seenIds = new Map<string, number>();
+  // Without program columns, an update keeps the links the weapon already has.
+  const hasProgramColumns = PROGRAM_FIELDS.some((field) => mapping[field] !== undefined);
+
+  const rows = table.rows.map(({ lineNumber, values }): WeaponImportRow => {
+    const read = (field: WeaponImportField) => {
+      const index = mapping[field];
+      return index === undefined ? '' : (values[index] ?? '').trim();
+    };
+    const errors: WeaponImportIssue[] = [];
+    const warnings: WeaponImportIssue[] = [];
+
+    const displayName = read('displayName');
+    if (!displayName) {
+      errors.push({ code: 'missingDisplayName', value: '' });
+    }
+
+    const type = matchOption(read('type'), WEAPON_TYPES, (option) => `weapons.types.${option}`);
+    if (!type) {
+      errors.push({ code: 'invalidType', value: read('type') });
+    }
+
+    const operationModeValue = read('operationMode');
+    const operationMode = operationModeValue
+      ? matchOption(
+          operationModeValue,
+          OPERATION_MODES,
+          (option) => `weaponForm.operationModes.${option}`
+        )
+      : null;
+    if (operationModeValue && !operationMode) {
+      errors.push({ code: 'invalidOperationMode', value: operationModeValue });
+    }
+
+    const ownershipValue = read('ownershipStatus');
+    const ownershipStatus = ownershipValue
+      ? matchOption(
+          ownershipValue,
+          OWNERSHIP_STATUSES,
+          (option) => `weaponForm.ownership.options.${option}`
+        )
+      : 'own';
+    if (!ownershipStatus) {
+      errors.push({ code: 'invalidOwnershipStatus', value: ownershipValue });
+    }
+
+    const readDate = (field: 'acquisitionDate' | 'loanStartDate' | 'loanEndDate') => {
+      const value = read(field);
+      const date = value ? parseDate(value) : null;
+      if (value && !date) {
+        errors.push({ code: 'invalidDate', value });
+      }
+      return date;
+    };
+    const acquisitionDate = readDate('acquisitionDate');
+    const loanStartDate = readDate('loanStartDate');
+    const loanEndDate = readDate('loanEndDate');
+
+    const priceValue = read('acquisitionPrice');
+    const acquisitionPrice = priceValue ? parsePrice(priceValue) : null;
+    if (priceValue && acquisitionPrice === null) {
+      errors.push({ code: 'invalidPrice', value: priceValue });
+    }
+
+    const links = new Map<string, ProgramLinkInput>();
+    const addLinks = (field: WeaponImportField, link: Omit<ProgramLinkInput, 'programId'>) => {
+      for (const name of splitProgramNames(read(field))) {
+        const resolved = resolveProgram(name);
+        if ('issue' in resolved) {
+          errors.push(resolved.issue);
+        } else {
+          links.set(resolved.programId, { programId: resolved.programId, ...link });
+        }
+      }
+    };
+    addLinks('proposedPrograms', { status: 'proposed', isReserve: false });
+    addLinks('pendingPrograms', { status: 'pending', isReserve: false });
+    addLinks('programs', { status: 'approved', isReserve: false });
+    addLinks('reservePrograms', { status: 'approved', isReserve: true });
+    // A bare reserve mark without a program list means the weapon is reserve wherever approved.
+    const reserveMark = read('reserve').toLowerCase();
+    if (mapping.reservePrograms === undefined && TRUTHY_VALUES.includes(reserveMark)) {
+      for (const link of links.values()) {
+        link.isReserve = link.status === 'approved';
+      }
+    }
+
+    const serialNumber = read('serialNumber') || null;
+    let id = read('id') || null;
+    if (id) {
+      const firstLine = seenIds.get(id);
+      if (firstLine !== undefined) {
+        errors.push({ code: 'duplicateInFile', value: String(firstLine) });
+      }
+      seenIds.set(id, lineNumber);
+    }
+
+    let action: WeaponImportRow['action'] = 'create';
+    const existingWithId = id ? existingById.get(id) : undefined;
+    if (existingWithId) {
+      warnings.push({ code: 'existingId', value: existingWithId.displayName });
+      action = options.updateDuplicates ? 'update' : 'skip';
+    }
+    if (serialNumber) {
+      const key = normalizeSerial(serialNumber);
+      const firstLine = seenSerials.get(key);
+      if (firstLine !== undefined) {
+        errors.push({ code: 'duplicateInFile', value: String(firstLine) });
+      } else {
+        seenSerials.set(key, lineNumber);
+      }
+
+      const existing = existingBySerial.get(key);
+      if (existing && existing.id !== id) {
+        warnings.push({ code: 'duplicateExisting', value: existing.displayName });
+        if (options.updateDuplicates) {
+          id = existing.id;
+          action = 'update';
+        } else {
+          action = 'skip';
+        }
+      }
+    }
+
+    if (errors.length > 0 || !type || !ownershipStatus) {
+      return {
+        lineNumber,
+        displayName,
+        serialNumber,
+        action: 'skip',
+        input: null,
+        errors,
+        warnings,
+      };
+    }
+
+    const isLoan = ownershipStatus !== 'own';
+    const updatedWeapon = action === 'update' && id ? existingById.get(id) : undefined;
+    const programLinks =
+      updatedWeapon && !hasProgramColumns
+        ? updatedWeapon.programs.map(({ programId, status, isReserve }) => ({
+            programId,
+            status,
+            isReserve,
+          }))
+        : [...links.values()];
+    const input: UpsertWeaponInput = {
+      id: id ?? createWeaponId(lineNumber),
+      displayName,
+      type,
+      manufacturer: read('manufacturer') || null,
+      model: read('model') || null,
+      serialNumber,
+      acquisitionDate,
+      acquisitionPrice,
+      weaponCardRef: read('weaponCardRef') || null,
+      notes: read('notes') || null,
+      operationMode,
+      caliber: read('caliber') || null,
+      ownershipStatus,
+      loanContactName: isLoan ? read('loanContactName') || null : null,
+      loanStartDate: isLoan ? loanStartDate : null,
+      loanEndDate: isLoan ? loanEndDate : null,
+      programs: programLinks,
+    };
+
+    return {
+      lineNumber,
+      displayName,
+      serialNumber,
+      action,
+      input: action === 'skip' ? null : input,
+      errors,
+      warnings,
+    };
+  });
+
+  return {
+    rows,
+    createCount: rows.filter((row) => row.action === 'create').length,
+    updateCount: rows.filter((row) => row.action === 'update').length,
+    skipCount: rows.filter((row) => row.action === 'skip').length,
+  };
+};
+
+/**
+ * Writes the rows a preview accepted in one transaction, so a failure leaves the register as it
+ * was. Returns how many weapons were created or updated.
+ */
+export const importWeapons = async (preview: WeaponImportPreview): Promise<number> => {
+  let imported = 0;
+
+  await runWithinExclusiveTransaction(async (db) => {
+    for (const row of preview.rows) {
+      if (row.action !== 'skip' && row.input) {
+        await upsertWeaponRows(db, row.input);
+        imported += 1;
+      }
+    }
+  });
+
+  return imported;
+};
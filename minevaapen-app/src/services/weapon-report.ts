@@ -0,0 +1,285 @@
+import * as FileSystem from 'expo-file-system';
+
+import {
+  fetchOrganizations,
+  type OrganizationRecord,
+} from '@/src/database/organizations-repository';
+import {
+  fetchShooterProfile,
+  listShooterProfileEntries,
+  type ShooterProfile,
+} from '@/src/database/shooter-profile-repository';
+import {
+  fetchWeapons,
+  type WeaponProgramLink,
+  type WeaponWithPrograms,
+} from '@/src/database/weapons-repository';
+import i18n from '@/src/i18n';
+
+export type WeaponReportOptions = {
+  /** Limits the report to weapons approved in this organization. */
+  organizationId?: string | null;
+  /** Limits the report to weapons approved in this program. Takes precedence over the above. */
+  programId?: string | null;
+  includePhotos: boolean;
+};
+
+type ReportWeapon = WeaponWithPrograms & {
+  approvedPrograms: WeaponProgramLink[];
+  photoDataUri: string | null;
+};
+
+type WeaponReport = {
+  generatedAt: Date;
+  profile: ShooterProfile | null;
+  organizationsById: Map<string, OrganizationRecord>;
+  scopeLabel: string | null;
+  weapons: ReportWeapon[];
+};
+
+const PHOTO_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * The print engine cannot always reach files in the app sandbox, so photos are inlined.
+ * A photo that can no longer be read is left out rather than failing the report.
+ */
+const readPhotoDataUri = async (fileUri: string): Promise<string | null> => {
+  try {
+    const base64 = await new FileSystem.File(fileUri).base64();
+    const extension = fileUri.split('.').pop()?.toLowerCase() ?? '';
+    return `data:${PHOTO_MIME_TYPES[extension] ?? 'image/jpeg'};base64,${base64}`;
+  } catch (error) {
+    console.warn('Failed to read weapon photo for report', error);
+    return null;
+  }
+};
+
+const isInScope = (link: WeaponProgramLink, options: WeaponReportOptions) =>
+  link.status === 'approved' &&
+  (options.programId
+    ? link.programId === options.programId
+    : !options.organizationId || link.organizationId === options.organizationId);
+
+export const loadWeaponReport = async (options: WeaponReportOptions): Promise<WeaponReport> => {
+  const [weapons, organizations, profile] = await Promise.all([
+    fetchWeapons({ organizationId: options.organizationId, programId: options.programId }),
+    fetchOrganizations(),
+    fetchShooterProfile(),
+  ]);
+  const organizationsById = new Map(organizations.map((org) => [org.id, org]));
+  const isScoped = Boolean(options.organizationId || options.programId);
+
+  const reportWeapons: ReportWeapon[] = [];
+  for (const weapon of weapons) {
+    const approvedPrograms = weapon.programs.filter((link) => isInScope(link, options));
+    // A scoped report is about approvals, so weapons only applied for are left out.
+    if (isScoped && approvedPrograms.length === 0) {
+      continue;
+    }
+
+    reportWeapons.push({
+      ...weapon,
+      approvedPrograms,
+      photoDataUri:
+        options.includePhotos && weapon.coverPhotoUri
+          ? await readPhotoDataUri(weapon.coverPhotoUri)
+          : null,
+    });
+  }
+
+  let scopeLabel: string | null = null;
+  if (options.programId) {
+    const link = weapons
+      .flatMap((weapon) => weapon.programs)
+      .find((program) => program.programId === options.programId);
+    const organization = link ? organizationsById.get(link.organizationId) : undefined;
+    scopeLabel = [organization?.name, link?.programName].filter(Boolean).join(' – ') || null;
+  } else if (options.organizationId) {
+    scopeLabel = organizationsById.get(options.organizationId)?.name ?? null;
+  }
+
+  return {
+    generatedAt: new Date(),
+    profile,
+    organizationsById,
+    scopeLabel,
+    weapons: reportWeapons,
+  };
+};
+
+const formatDate = (value: string | Date, locale: string) => {
+  const date = typeof value === 'string' ? new Date(`${value}T00:00:00`) : value;
+  if (Number.isNaN(date.getTime())) {
+    return String(value);
+  }
+
+  try {
+    return new Intl.DateTimeFormat(locale, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    }).format(date);
+  } catch (error) {
+    console.warn('Failed to format report date, falling back to ISO', error);
+    return date.toISOString().slice(0, 10);
+  }
+};
+
+const renderFieldRows = (rows: [string, string | null | undefined][]) =>
+  rows
+    .filter((row): row is [string, string] => Boolean(row[1]))
+    .map(([label, value]) => {
+      const cell = escapeHtml(value).replace(/\n/g, '<br />');
+      return `<tr><th>${escapeHtml(label)}</th><td>${cell}</td></tr>`;
+    })
+    .join('');
+
+const renderProfile = (profile: ShooterProfile | null, locale: string) => {
+  const entries = listShooterProfileEntries(profile);
+  if (entries.length === 0) {
+    return '';
+  }
+
+  const rows = renderFieldRows(
+    entries.map(([field, value]) => [
+      i18n.t(`profileForm.fields.${field}` as const),
+      field === 'dateOfBirth' ? formatDate(value, locale) : value,
+    ])
+  );
+  return `<section class="profile"><h2>${escapeHtml(i18n.t('report.shooter'))}</h2>
+    <table class="fields">${rows}</table></section>`;
+};
+
+const renderPrograms = (
+  weapon: ReportWeapon,
+  organizationsById: Map<string, OrganizationRecord>
+) => {
+  if (weapon.approvedPrograms.length === 0) {
+    return `<p class="muted">${escapeHtml(i18n.t('report.noPrograms'))}</p>`;
+  }
+
+  const organizationName = (organizationId: string) => {
+    const organization = organizationsById.get(organizationId);
+    return organization?.shortName || organization?.name || organizationId;
+  };
+  const rows = [...weapon.approvedPrograms]
+    .sort(
+      (a, b) =>
+        organizationName(a.organizationId).localeCompare(organizationName(b.organizationId)) ||
+        a.programName.localeCompare(b.programName)
+    )
+    .map(
+      (link) => `<tr>
+        <td>${escapeHtml(organizationName(link.organizationId))}</td>
+        <td>${escapeHtml(link.programName)}</td>
+        <td>${escapeHtml(
+          link.isReserve
+            ? i18n.t('weapons.card.reserveBadge')
+            : i18n.t('weaponForm.programs.status.approved')
+        )}</td>
+      </tr>`
+    )
+    .join('');
+
+  return `<table class="programs">
+    <thead><tr>
+      <th>${escapeHtml(i18n.t('report.columns.organization'))}</th>
+      <th>${escapeHtml(i18n.t('report.columns.program'))}</th>
+      <th>${escapeHtml(i18n.t('report.columns.status'))}</th>
+    </tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`;
+};
+
+const renderWeapon = (
+  weapon: ReportWeapon,
+  organizationsById: Map<string, OrganizationRecord>
+) => {
+  const fields = renderFieldRows([
+    [
+      i18n.t('weaponForm.fields.type'),
+      i18n.t(`weapons.types.${weapon.type}` as const, { defaultValue: weapon.type }),
+    ],
+    [i18n.t('weaponForm.fields.manufacturer'), weapon.manufacturer],
+    [i18n.t('weaponForm.fields.model'), weapon.model],
+    [i18n.t('weaponForm.fields.serialNumber'), weapon.serialNumber],
+    [i18n.t('weaponForm.fields.weaponCardRef'), weapon.weaponCardRef],
+    [i18n.t('weaponForm.fields.caliber'), weapon.caliber],
+    [
+      i18n.t('weaponForm.fields.operationMode'),
+      weapon.operationMode
+        ? i18n.t(`weaponForm.operationModes.${weapon.operationMode}` as const, {
+            defaultValue: weapon.operationMode,
+          })
+        : null,
+    ],
+  ]);
+  const photo = weapon.photoDataUri
+    ? `<img class="photo" src="${weapon.photoDataUri}" alt="" />`
+    : '';
+
+  return `<section class="weapon">
+    <h2>${escapeHtml(weapon.displayName)}</h2>
+    <div class="weapon-body">
+      <table class="fields">${fields}</table>
+      ${photo}
+    </div>
+    ${renderPrograms(weapon, organizationsById)}
+  </section>`;
+};
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; color: #111827;
+    font-size: 11pt; margin: 24px; }
+  h1 { font-size: 20pt; margin: 0 0 4px; }
+  h2 { font-size: 14pt; margin: 0 0 8px; }
+  .muted { color: #6b7280; margin: 0 0 4px; }
+  section { margin-top: 20px; page-break-inside: avoid; }
+  .weapon { border-top: 1px solid #d1d5db; padding-top: 12px; }
+  .weapon-body { display: flex; gap: 16px; align-items: flex-start; }
+  table { border-collapse: collapse; }
+  .fields th { text-align: left; font-weight: 600; padding: 2px 16px 2px 0; vertical-align: top; }
+  .fields td { padding: 2px 0; }
+  .programs { width: 100%; margin-top: 8px; }
+  .programs th, .programs td { border: 1px solid #d1d5db; padding: 4px 8px; text-align: left; }
+  .programs th { background: #f3f4f6; }
+  .photo { max-width: 180px; max-height: 140px; object-fit: contain; margin-left: auto; }
+`;
+
+/** Lays the report out as a printable HTML document in the current app language. */
+export const buildWeaponReportHtml = (report: WeaponReport): string => {
+  const locale = i18n.language.replace(/_/g, '-');
+  const subtitle = [
+    i18n.t('report.generatedAt', { date: formatDate(report.generatedAt, locale) }),
+    report.scopeLabel ?? i18n.t('report.scopeAll'),
+    i18n.t('report.weaponCount', { count: report.weapons.length }),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <style>${REPORT_STYLES}</style>
+  </head>
+  <body>
+    <h1>${escapeHtml(i18n.t('report.title'))}</h1>
+    ${subtitle.map((line) => `<p class="muted">${escapeHtml(line)}</p>`).join('')}
+    ${renderProfile(report.profile, locale)}
+    ${report.weapons.map((weapon) => renderWeapon(weapon, report.organizationsById)).join('')}
+  </body>
+</html>`;
+};